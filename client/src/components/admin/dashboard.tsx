@@ -1,8 +1,11 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLanguage } from "@/hooks/use-language";
-import { Loader2, Users, MessageCircle, Clock, BarChart2, MonitorSmartphone, Activity } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Users, MessageCircle, Clock, BarChart2, MonitorSmartphone, Activity, Zap, Database, Trash2 } from "lucide-react";
 import { Card, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
 
 interface DashboardStats {
   userCount: number;
@@ -22,6 +25,125 @@ interface DashboardStats {
   widgetUsersImpacted: number;
 }
 
+interface ResponseCacheSummary {
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  daily: Array<{ day: string; hits: number; misses: number }>;
+}
+
+/**
+ * Taxa de acerto do cache semântico de respostas nos últimos 30 dias
+ */
+function ResponseCacheStatsPanel() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const { data: cache, isLoading } = useQuery<ResponseCacheSummary>({
+    queryKey: ["/api/admin/response-cache/stats"],
+    staleTime: 30000,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/admin/response-cache");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/response-cache/stats"] });
+      toast({ title: t("admin.cacheCleared") });
+    },
+  });
+
+  if (isLoading || !cache) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Cartão de Taxa de Acerto */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <CardDescription>{t("admin.cacheHitRate")}</CardDescription>
+                <CardTitle className="text-3xl font-bold mt-2">
+                  {cache.hits + cache.misses > 0 ? `${(cache.hitRate * 100).toFixed(1)}%` : "-"}
+                </CardTitle>
+                <div className="text-sm text-neutral-500 mt-1">
+                  {cache.hits} / {cache.misses} {t("admin.cacheHitsMisses")}
+                </div>
+              </div>
+              <div className="bg-yellow-100 p-3 rounded-full">
+                <Zap className="h-6 w-6 text-yellow-600" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Cartão de Entradas no Cache */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <CardDescription>{t("admin.cacheEntries")}</CardDescription>
+                <CardTitle className="text-3xl font-bold mt-2">
+                  {cache.entries}
+                </CardTitle>
+                <div className="text-sm text-neutral-500 mt-1">
+                  {t("admin.cacheEntriesHint")}
+                </div>
+              </div>
+              <div className="bg-slate-100 p-3 rounded-full">
+                <Database className="h-6 w-6 text-slate-600" />
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending || cache.entries === 0}
+            >
+              {clearMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Trash2 className="h-4 w-4 mr-2" />}
+              {t("admin.clearCache")}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {cache.daily.length > 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <CardDescription className="mb-3">{t("admin.cacheLast30Days")}</CardDescription>
+            <div className="space-y-1 text-sm">
+              {cache.daily.map(day => {
+                const total = day.hits + day.misses;
+                return (
+                  <div key={day.day} className="flex justify-between">
+                    <span>{day.day}</span>
+                    <span className="font-medium">
+                      {day.hits}/{total} ({total > 0 ? ((day.hits / total) * 100).toFixed(0) : 0}%)
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
 export function AdminDashboard() {
   const { t } = useLanguage();
 
@@ -69,6 +191,7 @@ export function AdminDashboard() {
         <TabsList className="mb-6">
           <TabsTrigger value="platform">{t("admin.platformStats")}</TabsTrigger>
           <TabsTrigger value="widgets">{t("admin.widgetsStats")}</TabsTrigger>
+          <TabsTrigger value="cache">{t("admin.responseCacheStats")}</TabsTrigger>
         </TabsList>
         
         <TabsContent value="platform" className="space-y-4">
@@ -224,6 +347,10 @@ export function AdminDashboard() {
             </Card>
           </div>
         </TabsContent>
+        
+        <TabsContent value="cache">
+          <ResponseCacheStatsPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,154 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useTraining } from "@/hooks/use-training";
+import { Loader2, RotateCcw } from "lucide-react";
+
+type DocumentJobStatus = "pending" | "running" | "completed" | "dead";
+
+interface DocumentJob {
+  id: number;
+  document_id: number;
+  type: "extract" | "index";
+  status: DocumentJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface DocumentJobQueue {
+  workerId: string;
+  concurrency: number;
+  counts: Partial<Record<DocumentJobStatus, number>>;
+  jobs: DocumentJob[];
+}
+
+const JOB_STATUS_LABELS: Record<DocumentJobStatus, string> = {
+  pending: "Na fila",
+  running: "Em execução",
+  completed: "Concluído",
+  dead: "Desistido",
+};
+
+const JOB_TYPE_LABELS: Record<DocumentJob["type"], string> = {
+  extract: "Extração",
+  index: "Indexação",
+};
+
+export function DocumentJobs() {
+  const { toast } = useToast();
+  const { documents } = useTraining();
+
+  const { data: queue, isLoading } = useQuery<DocumentJobQueue>({
+    queryKey: ["/api/admin/document-jobs"],
+    // Atualiza enquanto houver jobs na fila ou em execução
+    refetchInterval: (query) => {
+      const counts = (query.state.data as DocumentJobQueue | undefined)?.counts;
+      return counts && ((counts.pending || 0) + (counts.running || 0)) > 0 ? 3000 : false;
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const res = await apiRequest("POST", `/api/admin/document-jobs/${jobId}/retry`);
+      return await res.json() as DocumentJob;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/document-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/training/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao repetir o job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const documentName = (documentId: number) =>
+    documents?.find(doc => doc.id === documentId)?.name || `Documento #${documentId}`;
+
+  // Jobs concluídos não precisam de atenção; mostrar apenas os demais
+  const openJobs = queue?.jobs.filter(job => job.status !== "completed") || [];
+
+  return (
+    <Card className="w-full mt-4">
+      <CardHeader>
+        <CardTitle>Fila de Processamento</CardTitle>
+        <CardDescription>
+          A extração do conteúdo e a indexação dos documentos rodam em segundo plano e são retomadas
+          após reinícios do servidor. Jobs que falham são repetidos automaticamente; os desistidos
+          podem ser repetidos manualmente.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading || !queue ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {(Object.keys(JOB_STATUS_LABELS) as DocumentJobStatus[]).map(status => (
+                <Badge key={status} variant={status === "dead" && queue.counts.dead ? "destructive" : "secondary"}>
+                  {JOB_STATUS_LABELS[status]}: {queue.counts[status] || 0}
+                </Badge>
+              ))}
+              <span className="text-xs text-muted-foreground">
+                até {queue.concurrency} jobs simultâneos
+              </span>
+            </div>
+
+            {openJobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                Nenhum job pendente.
+              </p>
+            ) : (
+              <div className="grid gap-2">
+                {openJobs.map(job => (
+                  <div key={job.id} className="flex items-center justify-between gap-4 border p-3 rounded-md text-sm">
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium truncate">
+                        {documentName(job.document_id)}
+                        <span className="text-muted-foreground"> · {JOB_TYPE_LABELS[job.type]}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Tentativa {job.attempts}/{job.max_attempts}
+                        {job.status === "pending" && job.attempts > 0 && (
+                          <> · próxima às {new Date(job.run_at).toLocaleTimeString()}</>
+                        )}
+                      </p>
+                      {job.last_error && (
+                        <p className="text-xs text-destructive truncate">{job.last_error}</p>
+                      )}
+                    </div>
+
+                    <Badge variant={job.status === "dead" ? "destructive" : "outline"}>
+                      {JOB_STATUS_LABELS[job.status]}
+                    </Badge>
+
+                    {job.status === "dead" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => retryMutation.mutate(job.id)}
+                        disabled={retryMutation.isPending}
+                        aria-label="Repetir"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+
+type EmbeddingJobStatus = "running" | "completed" | "error" | "cancelled";
+
+interface EmbeddingJob {
+  id: number;
+  status: EmbeddingJobStatus;
+  target_model: string;
+  total: number;
+  processed: number;
+  reused: number;
+  failed: number;
+  error_message: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+interface EmbeddingStatus {
+  activeModel: string | null;
+  models: Array<{ embedding_model: string | null; embedding_dim: number | null; count: number }>;
+  outdatedChunks: number;
+  expectedDimensions: number;
+  // Modelo ativo gera vetores com dimensão diferente da coluna vector: a busca semântica fica sem resultados
+  dimensionMismatch: { model: string; dimensions: number; expected: number } | null;
+  latestJob: EmbeddingJob | null;
+}
+
+const JOB_STATUS_LABELS: Record<EmbeddingJobStatus, string> = {
+  running: "Em andamento",
+  completed: "Concluída",
+  error: "Erro",
+  cancelled: "Cancelada",
+};
+
+export function EmbeddingMigration() {
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<EmbeddingStatus>({
+    queryKey: ["/api/admin/embeddings/status"],
+    // Atualiza enquanto a migração estiver em andamento
+    refetchInterval: (query) =>
+      (query.state.data as EmbeddingStatus | undefined)?.latestJob?.status === "running" ? 3000 : false,
+  });
+
+  const migrateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/embeddings/migrate");
+      return await res.json() as EmbeddingJob;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/embeddings/status"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao iniciar migração de embeddings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const job = status?.latestJob;
+  const isRunning = job?.status === "running";
+  const progress = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <Card className="w-full mt-4">
+      <CardHeader>
+        <CardTitle>Modelo de Embedding</CardTitle>
+        <CardDescription>
+          A busca semântica só compara chunks gerados pelo modelo de embedding ativo.
+          Ao trocar de provedor ou modelo, regere os embeddings dos chunks antigos.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Modelo ativo:</span>
+              <Badge>{status.activeModel || "nenhum"}</Badge>
+            </div>
+
+            <div className="grid gap-2">
+              {status.models.map((entry) => (
+                <div
+                  key={`${entry.embedding_model}-${entry.embedding_dim}`}
+                  className="flex items-center justify-between border p-3 rounded-md text-sm"
+                >
+                  <span className="font-medium">
+                    {entry.embedding_model || "Sem modelo registrado"}
+                    {entry.embedding_dim ? ` (${entry.embedding_dim} dimensões)` : ""}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {entry.count} chunks
+                    {entry.embedding_model !== status.activeModel && (
+                      <Badge variant="destructive">desatualizado</Badge>
+                    )}
+                    {entry.embedding_dim !== null && entry.embedding_dim !== status.expectedDimensions && (
+                      <Badge variant="destructive">dimensão incompatível</Badge>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {status.dimensionMismatch && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Dimensão de embedding incompatível</AlertTitle>
+                <AlertDescription>
+                  O modelo {status.dimensionMismatch.model} gera vetores de {status.dimensionMismatch.dimensions} dimensões,
+                  mas a busca semântica exige {status.dimensionMismatch.expected}. Escolha um modelo de embedding
+                  compatível; até lá os documentos não podem ser indexados.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {status.outdatedChunks > 0 && !isRunning && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Embeddings desatualizados</AlertTitle>
+                <AlertDescription>
+                  {status.outdatedChunks} chunks não aparecem na busca semântica até serem migrados para {status.activeModel}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {job && (
+              <div className="space-y-2 border p-3 rounded-md">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Migração #{job.id} para {job.target_model}</span>
+                  <Badge variant={job.status === "error" ? "destructive" : "secondary"}>
+                    {JOB_STATUS_LABELS[job.status]}
+                  </Badge>
+                </div>
+                <Progress value={job.status === "completed" ? 100 : progress} />
+                <p className="text-xs text-muted-foreground">
+                  {job.processed}/{job.total} chunks · {job.reused} reaproveitados · {job.failed} falhas
+                </p>
+                {job.error_message && (
+                  <p className="text-xs text-destructive">{job.error_message}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <CardFooter>
+        <Button
+          className="w-full"
+          onClick={() => migrateMutation.mutate()}
+          disabled={migrateMutation.isPending || isRunning || !status || status.outdatedChunks === 0 || !!status.dimensionMismatch}
+        >
+          {isRunning || migrateMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          {isRunning
+            ? "Migração em andamento..."
+            : job && job.status !== "completed" ? "Retomar migração" : "Migrar embeddings para o modelo ativo"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
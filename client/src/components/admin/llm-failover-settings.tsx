@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowDown, ArrowUp, Loader2, ShieldAlert } from "lucide-react";
+
+interface FailoverConfig {
+  id: number;
+  provider: string | null;
+  model_name: string;
+  is_active: boolean;
+  fallback_order: number | null;
+}
+
+interface CircuitStatus {
+  provider: string;
+  state: "closed" | "open" | "half-open";
+  failures: number;
+  lastError: string | null;
+}
+
+interface FailoverData {
+  configs: FailoverConfig[];
+  chain: number[];
+  circuits: CircuitStatus[];
+}
+
+export function LlmFailoverSettings() {
+  const { toast } = useToast();
+  const [chain, setChain] = useState<number[]>([]);
+
+  const { data, isLoading } = useQuery<FailoverData>({
+    queryKey: ["/api/admin/llm/failover"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setChain(data.chain);
+    }
+  }, [data]);
+
+  const saveChainMutation = useMutation({
+    mutationFn: async (configIds: number[]) => {
+      const res = await apiRequest("PUT", "/api/admin/llm/failover", { config_ids: configIds });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/llm/failover"] });
+      toast({
+        title: "Cadeia de failover salva",
+        variant: "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar cadeia de failover",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleConfig = (id: number, enabled: boolean) => {
+    setChain((current) =>
+      enabled ? [...current, id] : current.filter((configId) => configId !== id)
+    );
+  };
+
+  const moveConfig = (index: number, offset: number) => {
+    setChain((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const configs = data?.configs || [];
+  const configById = new Map(configs.map((config) => [config.id, config]));
+  const circuitByProvider = new Map((data?.circuits || []).map((circuit) => [circuit.provider, circuit]));
+
+  const renderCircuit = (provider: string | null) => {
+    const circuit = provider ? circuitByProvider.get(provider) : undefined;
+    if (!circuit || circuit.state === "closed") return null;
+    return (
+      <Badge variant="destructive" className="gap-1" title={circuit.lastError || undefined}>
+        <ShieldAlert className="h-3 w-3" />
+        {circuit.state === "open" ? "Circuito aberto" : "Circuito em teste"}
+      </Badge>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Failover de Provedores</CardTitle>
+        <CardDescription>
+          Quando a configuração ativa falha, as configurações abaixo são tentadas em ordem.
+          Provedores com falhas consecutivas ficam temporariamente fora da cadeia.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : configs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma configuração de LLM cadastrada.</p>
+        ) : (
+          <>
+            {chain.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Ordem de fallback</h4>
+                {chain.map((id, index) => {
+                  const config = configById.get(id);
+                  if (!config) return null;
+                  return (
+                    <div key={id} className="flex items-center justify-between rounded-md border p-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Badge variant="outline">{index + 1}</Badge>
+                        <span>{config.provider || "-"} / {config.model_name}</span>
+                        {renderCircuit(config.provider)}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button type="button" variant="ghost" size="icon" onClick={() => moveConfig(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => moveConfig(index, 1)} disabled={index === chain.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Configurações disponíveis</h4>
+              {configs.map((config) => (
+                <div key={config.id} className="flex items-center justify-between rounded-md border p-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>{config.provider || "-"} / {config.model_name}</span>
+                    {config.is_active && <Badge>Ativa</Badge>}
+                    {renderCircuit(config.provider)}
+                  </div>
+                  <Switch
+                    checked={chain.includes(config.id)}
+                    disabled={config.is_active}
+                    onCheckedChange={(checked) => toggleConfig(config.id, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => saveChainMutation.mutate(chain)}
+                disabled={saveChainMutation.isPending}
+              >
+                {saveChainMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar Ordem
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
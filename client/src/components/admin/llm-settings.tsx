@@ -44,30 +44,45 @@ import { Slider } from "@/components/ui/slider";
 import { LlmSelectionDropdown } from "./llm-selection-dropdown";
 import UniversalModelTester from "./universal-model-tester";
 import { TrainingTest } from "./training-test";
+import { LlmFailoverSettings } from "./llm-failover-settings";
 
 export function LlmSettings() {
   const { t } = useLanguage();
-  const { llmData, isLoading, testConnectionMutation, saveConfigMutation } = useLlm();
+  const { llmData, isLoading, providers, testConnectionMutation, saveConfigMutation } = useLlm();
   const [showApiKey, setShowApiKey] = useState(false);
 
   const formSchema = z.object({
+    provider: z.string().min(1, "Provider is required"),
     model_name: z.string().min(1, "Model is required"),
-    api_key: z.string().min(1, "API key is required"),
+    api_key: z.string(),
+    base_url: z.string().optional(),
     tone: z.enum(["formal", "normal", "casual"]).default("normal"),
     temperature: z.string().default("0.3"),
     behavior_instructions: z.string().optional(),
     should_use_training: z.boolean().default(true),
+    grounding_mode: z.enum(["off", "flag", "annotate", "rewrite"]).default("off"),
+  }).superRefine((values, ctx) => {
+    const selected = providers.find((p) => p.id === values.provider);
+    if (selected?.requires_api_key !== false && !values.api_key) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["api_key"], message: "API key is required" });
+    }
+    if (selected?.requires_base_url && !values.base_url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["base_url"], message: "Base URL is required" });
+    }
   });
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      provider: llmData?.config?.provider || "anthropic",
       model_name: llmData?.config?.model_name || "claude-3-7-sonnet-20250219",
       api_key: llmData?.config?.api_key || "",
+      base_url: llmData?.config?.base_url || "",
       tone: llmData?.config?.tone || "normal",
       temperature: llmData?.config?.temperature || "0.3",
       behavior_instructions: llmData?.config?.behavior_instructions || "",
       should_use_training: llmData?.config?.should_use_training !== false,
+      grounding_mode: llmData?.config?.grounding_mode || "off",
     },
   });
 
@@ -75,23 +90,34 @@ export function LlmSettings() {
   useEffect(() => {
     if (llmData?.config) {
       form.reset({
+        provider: llmData.config.provider || "anthropic",
         model_name: llmData.config.model_name,
         api_key: llmData.config.api_key || "",
+        base_url: llmData.config.base_url || "",
         tone: llmData.config.tone || "normal",
         temperature: llmData.config.temperature || "0.3",
         behavior_instructions: llmData.config.behavior_instructions || "",
         should_use_training: llmData.config.should_use_training !== false,
+        grounding_mode: llmData.config.grounding_mode || "off",
       });
     }
   }, [llmData, form]);
 
+  const selectedProvider = providers.find((p) => p.id === form.watch("provider"));
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    await saveConfigMutation.mutateAsync(values);
+    await saveConfigMutation.mutateAsync({
+      ...values,
+      base_url: values.base_url || null,
+    });
   };
 
   const handleTestConnection = () => {
     const values = form.getValues();
-    testConnectionMutation.mutate(values);
+    testConnectionMutation.mutate({
+      ...values,
+      base_url: values.base_url || null,
+    });
   };
 
   if (isLoading) {
@@ -109,256 +135,351 @@ export function LlmSettings() {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>{t("admin.llmSettings")}</CardTitle>
-        <CardDescription>{t("admin.llmSettingsSubtitle")}</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <Tabs defaultValue="general" className="w-full">
-          <TabsList className="grid grid-cols-3 mb-8">
-            <TabsTrigger value="general">
-              <Settings className="h-4 w-4 mr-2" />
-              Configurações Gerais
-            </TabsTrigger>
-            <TabsTrigger value="behavior">
-              <MessageSquare className="h-4 w-4 mr-2" />
-              Comportamento
-            </TabsTrigger>
-            <TabsTrigger value="training">
-              <FileCog className="h-4 w-4 mr-2" />
-              Treinamento
-            </TabsTrigger>
-          </TabsList>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.llmSettings")}</CardTitle>
+          <CardDescription>{t("admin.llmSettingsSubtitle")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="general" className="w-full">
+            <TabsList className="grid grid-cols-3 mb-8">
+              <TabsTrigger value="general">
+                <Settings className="h-4 w-4 mr-2" />
+                Configurações Gerais
+              </TabsTrigger>
+              <TabsTrigger value="behavior">
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Comportamento
+              </TabsTrigger>
+              <TabsTrigger value="training">
+                <FileCog className="h-4 w-4 mr-2" />
+                Treinamento
+              </TabsTrigger>
+            </TabsList>
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              {/* Aba de Configurações Gerais */}
-              <TabsContent value="general" className="space-y-6">
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Configurações do Modelo</h3>
-                  <Separator />
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                {/* Aba de Configurações Gerais */}
+                <TabsContent value="general" className="space-y-6">
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-medium">Configurações do Modelo</h3>
+                    <Separator />
                 
-                  <FormField
-                    control={form.control}
-                    name="model_name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Modelo de IA</FormLabel>
-                        <FormControl>
-                          <LlmSelectionDropdown
+                    <FormField
+                      control={form.control}
+                      name="provider"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Provedor</FormLabel>
+                          <Select
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              const next = providers.find((p) => p.id === value);
+                              if (next && value !== llmData?.config?.provider) {
+                                form.setValue("model_name", next.default_model);
+                              }
+                            }}
                             value={field.value}
-                            onValueChange={field.onChange}
-                          />
-                        </FormControl>
-                        {llmData?.config && (
-                          <p className="mt-1 text-xs text-neutral-500">
-                            Modelo atual: {llmData.config.model_name}{" "}
-                            (Atualizado em: {formatDate(llmData.config.updated_at)})
-                          </p>
-                        )}
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Escolha um provedor" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {providers.map((p) => (
+                                <SelectItem key={p.id} value={p.id}>
+                                  {p.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Use "OpenAI-compatible" para servidores self-hosted (llama.cpp, Ollama, vLLM).
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <FormField
-                    control={form.control}
-                    name="api_key"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Chave API</FormLabel>
-                        <div className="flex">
+                    <FormField
+                      control={form.control}
+                      name="model_name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Modelo de IA</FormLabel>
                           <FormControl>
-                            <Input
-                              type={showApiKey ? "text" : "password"}
-                              className="flex-grow rounded-r-none"
-                              {...field}
-                            />
+                            {selectedProvider?.requires_base_url ? (
+                              <Input placeholder="llama3" {...field} />
+                            ) : (
+                              <LlmSelectionDropdown
+                                value={field.value}
+                                onValueChange={field.onChange}
+                              />
+                            )}
                           </FormControl>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            className="rounded-l-none"
-                            onClick={() => setShowApiKey(!showApiKey)}
-                          >
-                            {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                          </Button>
-                        </div>
-                        <p className="mt-1 text-xs text-neutral-500">
-                          Chave API (criptografada com AES-256)
-                        </p>
-                        <FormMessage />
-                      </FormItem>
+                          {llmData?.config && (
+                            <p className="mt-1 text-xs text-neutral-500">
+                              Modelo atual: {llmData.config.model_name}{" "}
+                              (Atualizado em: {formatDate(llmData.config.updated_at)})
+                            </p>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="api_key"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Chave API</FormLabel>
+                          <div className="flex">
+                            <FormControl>
+                              <Input
+                                type={showApiKey ? "text" : "password"}
+                                className="flex-grow rounded-r-none"
+                                {...field}
+                              />
+                            </FormControl>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className="rounded-l-none"
+                              onClick={() => setShowApiKey(!showApiKey)}
+                            >
+                              {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                            </Button>
+                          </div>
+                          <p className="mt-1 text-xs text-neutral-500">
+                            Chave API (criptografada com AES-256)
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {selectedProvider?.requires_base_url && (
+                      <FormField
+                        control={form.control}
+                        name="base_url"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>URL Base</FormLabel>
+                            <FormControl>
+                              <Input placeholder="http://localhost:11434/v1" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Endpoint compatível com a API da OpenAI (/chat/completions e /embeddings).
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     )}
-                  />
-                </div>
+                  </div>
 
-                <div className="space-y-4 pt-4">
-                  <h3 className="text-lg font-medium">Ferramentas de Diagnóstico</h3>
-                  <Separator />
+                  <div className="space-y-4 pt-4">
+                    <h3 className="text-lg font-medium">Ferramentas de Diagnóstico</h3>
+                    <Separator />
                   
-                  <UniversalModelTester />
-                </div>
-              </TabsContent>
+                    <UniversalModelTester />
+                  </div>
+                </TabsContent>
 
-              {/* Aba de Comportamento */}
-              <TabsContent value="behavior" className="space-y-6">
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Personalização de Comportamento</h3>
-                  <Separator />
+                {/* Aba de Comportamento */}
+                <TabsContent value="behavior" className="space-y-6">
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-medium">Personalização de Comportamento</h3>
+                    <Separator />
 
-                  <FormField
-                    control={form.control}
-                    name="tone"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Tom de Comunicação</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
+                    <FormField
+                      control={form.control}
+                      name="tone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tom de Comunicação</FormLabel>
+                          <Select
+                            onValueChange={field.onChange}
+                            defaultValue={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Escolha um tom" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="formal">Formal</SelectItem>
+                              <SelectItem value="normal">Normal</SelectItem>
+                              <SelectItem value="casual">Descontraído</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Define como a IA se comunicará com os usuários.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="temperature"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex justify-between items-center">
+                            <FormLabel>Temperatura</FormLabel>
+                            <div className="bg-secondary text-secondary-foreground px-2 py-1 rounded-md">
+                              {field.value}
+                            </div>
+                          </div>
                           <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Escolha um tom" />
-                            </SelectTrigger>
+                            <div className="flex items-center gap-4">
+                              <Thermometer className="h-4 w-4 text-muted-foreground" />
+                              <Slider
+                                value={[parseFloat(field.value)]}
+                                min={0}
+                                max={1}
+                                step={0.01}
+                                onValueChange={(vals) => field.onChange(vals[0].toString())}
+                                className="flex-1"
+                              />
+                            </div>
                           </FormControl>
-                          <SelectContent>
-                            <SelectItem value="formal">Formal</SelectItem>
-                            <SelectItem value="normal">Normal</SelectItem>
-                            <SelectItem value="casual">Descontraído</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormDescription>
-                          Define como a IA se comunicará com os usuários.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                          <FormDescription>
+                            Ajuste a criatividade da IA. Valores mais baixos (0.1-0.3) produzem respostas mais consistentes e precisas, 
+                            enquanto valores mais altos (0.7-1.0) tornam as respostas mais criativas e variadas.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <FormField
-                    control={form.control}
-                    name="temperature"
-                    render={({ field }) => (
-                      <FormItem>
-                        <div className="flex justify-between items-center">
-                          <FormLabel>Temperatura</FormLabel>
-                          <div className="bg-secondary text-secondary-foreground px-2 py-1 rounded-md">
-                            {field.value}
-                          </div>
-                        </div>
-                        <FormControl>
-                          <div className="flex items-center gap-4">
-                            <Thermometer className="h-4 w-4 text-muted-foreground" />
-                            <Slider
-                              value={[parseFloat(field.value)]}
-                              min={0}
-                              max={1}
-                              step={0.01}
-                              onValueChange={(vals) => field.onChange(vals[0].toString())}
-                              className="flex-1"
+                    <FormField
+                      control={form.control}
+                      name="behavior_instructions"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Instruções de Comportamento</FormLabel>
+                          <FormControl>
+                            <Textarea 
+                              placeholder="Descreva como a IA deve se comportar durante as conversas..." 
+                              className="resize-y min-h-[120px]"
+                              {...field} 
                             />
-                          </div>
-                        </FormControl>
-                        <FormDescription>
-                          Ajuste a criatividade da IA. Valores mais baixos (0.1-0.3) produzem respostas mais consistentes e precisas, 
-                          enquanto valores mais altos (0.7-1.0) tornam as respostas mais criativas e variadas.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="behavior_instructions"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Instruções de Comportamento</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Descreva como a IA deve se comportar durante as conversas..." 
-                            className="resize-y min-h-[120px]"
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Forneça instruções detalhadas sobre a personalidade e comportamento da IA ao interagir com os usuários.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-              </TabsContent>
+                          </FormControl>
+                          <FormDescription>
+                            Forneça instruções detalhadas sobre a personalidade e comportamento da IA ao interagir com os usuários.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </TabsContent>
 
-              {/* Aba de Treinamento */}
-              <TabsContent value="training" className="space-y-6">
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Configurações de Treinamento</h3>
-                  <Separator />
+                {/* Aba de Treinamento */}
+                <TabsContent value="training" className="space-y-6">
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-medium">Configurações de Treinamento</h3>
+                    <Separator />
 
-                  <FormField
-                    control={form.control}
-                    name="should_use_training"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base">
-                            Usar Documentos de Treinamento
-                          </FormLabel>
+                    <FormField
+                      control={form.control}
+                      name="should_use_training"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">
+                              Usar Documentos de Treinamento
+                            </FormLabel>
+                            <FormDescription>
+                              A IA usará conhecimentos dos documentos carregados no sistema para responder perguntas.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  
+                    <FormField
+                      control={form.control}
+                      name="grounding_mode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Verificação de Fundamentação</FormLabel>
+                          <Select
+                            onValueChange={field.onChange}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Escolha o modo de verificação" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="off">Desativada</SelectItem>
+                              <SelectItem value="flag">Apenas sinalizar</SelectItem>
+                              <SelectItem value="annotate">Acrescentar aviso "não encontrado nos manuais"</SelectItem>
+                              <SelectItem value="rewrite">Reescrever de forma conservadora</SelectItem>
+                            </SelectContent>
+                          </Select>
                           <FormDescription>
-                            A IA usará conhecimentos dos documentos carregados no sistema para responder perguntas.
+                            Confere cada afirmação da resposta contra os trechos recuperados dos documentos antes de responder.
+                            O resultado fica registrado no rastreamento da mensagem. Cada verificação faz uma chamada extra ao LLM.
                           </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   
-                  <div className="space-y-4 mt-6">
-                    <h3 className="text-lg font-medium">Teste de Documentos</h3>
-                    <Separator />
+                    <div className="space-y-4 mt-6">
+                      <h3 className="text-lg font-medium">Teste de Documentos</h3>
+                      <Separator />
                     
-                    <TrainingTest />
+                      <TrainingTest />
+                    </div>
                   </div>
+                </TabsContent>
+
+                {/* Botões de ação (sempre visíveis em qualquer aba) */}
+                <div className="flex justify-end pt-4 border-t mt-8">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="mr-2"
+                    onClick={handleTestConnection}
+                    disabled={testConnectionMutation.isPending}
+                  >
+                    {testConnectionMutation.isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Testar Conexão
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={saveConfigMutation.isPending}
+                  >
+                    {saveConfigMutation.isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Salvar Configurações
+                  </Button>
                 </div>
-              </TabsContent>
+              </form>
+            </Form>
+          </Tabs>
+        </CardContent>
+      </Card>
 
-              {/* Botões de ação (sempre visíveis em qualquer aba) */}
-              <div className="flex justify-end pt-4 border-t mt-8">
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="mr-2"
-                  onClick={handleTestConnection}
-                  disabled={testConnectionMutation.isPending}
-                >
-                  {testConnectionMutation.isPending && (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  )}
-                  Testar Conexão
-                </Button>
-                <Button
-                  type="submit"
-                  disabled={saveConfigMutation.isPending}
-                >
-                  {saveConfigMutation.isPending && (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  )}
-                  Salvar Configurações
-                </Button>
-              </div>
-            </form>
-          </Form>
-        </Tabs>
-      </CardContent>
-    </Card>
+      <LlmFailoverSettings />
+    </div>
   );
 }
@@ -50,6 +50,7 @@ interface LlmUsageLog {
   created_at: string;
   widget_id: string | null; // Alterado para string (UUID)
   error_message: string | null;
+  failover_to: string | null;
 }
 
 type FilterOptions = {
@@ -387,6 +388,12 @@ export default function LlmUsageLogs() {
                       <div className="max-w-[200px] truncate text-xs text-destructive">
                         {log.error_message || "-"}
                       </div>
+                      {log.failover_to && (
+                        <Badge variant="outline" className="mt-1 gap-1 text-xs font-normal">
+                          <RefreshCcw className="h-3 w-3" />
+                          Failover: {log.failover_to}
+                        </Badge>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -0,0 +1,348 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTraining } from "@/hooks/use-training";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, Loader2, Play, Plus, Trash2 } from "lucide-react";
+
+interface EvalSet {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+interface EvalQuestion {
+  id: number;
+  set_id: number;
+  question: string;
+  expected_answer: string;
+  expected_document_ids: number[];
+  language: "pt" | "en";
+}
+
+interface EvalRun {
+  id: number;
+  set_id: number;
+  status: "running" | "completed" | "error";
+  label: string | null;
+  config: { provider?: string; model?: string; reranker?: string } | null;
+  question_count: number;
+  hit_rate: number | null;
+  mrr: number | null;
+  answer_score: number | null;
+  error_message: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+const formatMetric = (value: number | null) => value === null ? "-" : value.toFixed(2);
+
+export function RagEvaluation() {
+  const { toast } = useToast();
+  const { documents } = useTraining();
+  const [selectedSetId, setSelectedSetId] = useState<number | null>(null);
+  const [newSetName, setNewSetName] = useState("");
+  const [runLabel, setRunLabel] = useState("");
+  const [questionForm, setQuestionForm] = useState({
+    question: "",
+    expected_answer: "",
+    expected_document_ids: [] as number[],
+  });
+
+  const { data: sets = [], isLoading: setsLoading } = useQuery<EvalSet[]>({
+    queryKey: ["/api/admin/rag-eval/sets"],
+  });
+
+  const selectedSet = sets.find(set => set.id === selectedSetId) || null;
+
+  const { data: questions = [] } = useQuery<EvalQuestion[]>({
+    queryKey: [`/api/admin/rag-eval/sets/${selectedSetId}/questions`],
+    enabled: selectedSetId !== null,
+  });
+
+  const { data: runs = [] } = useQuery<EvalRun[]>({
+    queryKey: [`/api/admin/rag-eval/sets/${selectedSetId}/runs`],
+    enabled: selectedSetId !== null,
+    // Atualiza enquanto houver execução em andamento
+    refetchInterval: (query) =>
+      (query.state.data as EvalRun[] | undefined)?.some(run => run.status === "running") ? 5000 : false,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createSetMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/admin/rag-eval/sets", { name });
+      return await res.json() as EvalSet;
+    },
+    onSuccess: (evalSet) => {
+      setNewSetName("");
+      setSelectedSetId(evalSet.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/rag-eval/sets"] });
+    },
+    onError: onError("Erro ao criar conjunto de avaliação"),
+  });
+
+  const deleteSetMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/rag-eval/sets/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedSetId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/rag-eval/sets"] });
+    },
+    onError: onError("Erro ao excluir conjunto de avaliação"),
+  });
+
+  const createQuestionMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/rag-eval/sets/${selectedSetId}/questions`, questionForm);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setQuestionForm({ question: "", expected_answer: "", expected_document_ids: [] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/rag-eval/sets/${selectedSetId}/questions`] });
+    },
+    onError: onError("Erro ao adicionar pergunta"),
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/rag-eval/questions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/rag-eval/sets/${selectedSetId}/questions`] });
+    },
+    onError: onError("Erro ao excluir pergunta"),
+  });
+
+  const startRunMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/rag-eval/sets/${selectedSetId}/runs`, { label: runLabel || undefined });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setRunLabel("");
+      toast({ title: "Avaliação iniciada", description: "As métricas aparecem ao final da execução." });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/rag-eval/sets/${selectedSetId}/runs`] });
+    },
+    onError: onError("Erro ao iniciar avaliação"),
+  });
+
+  const documentName = (id: number) => documents?.find(doc => doc.id === id)?.name || `#${id}`;
+
+  const toggleExpectedDocument = (id: number) => {
+    setQuestionForm(form => ({
+      ...form,
+      expected_document_ids: form.expected_document_ids.includes(id)
+        ? form.expected_document_ids.filter(docId => docId !== id)
+        : [...form.expected_document_ids, id],
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle>Avaliação do RAG</CardTitle>
+          <CardDescription>
+            Conjuntos de perguntas com resposta e documentos esperados. Cada execução mede hit rate e MRR
+            da busca e a correção das respostas (nota de um LLM juiz), para comparar mudanças antes de publicá-las.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select
+              value={selectedSetId !== null ? String(selectedSetId) : undefined}
+              onValueChange={(value) => setSelectedSetId(parseInt(value))}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={setsLoading ? "Carregando..." : "Selecione um conjunto"} />
+              </SelectTrigger>
+              <SelectContent>
+                {sets.map(set => (
+                  <SelectItem key={set.id} value={String(set.id)}>{set.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedSet && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => deleteSetMutation.mutate(selectedSet.id)}
+                disabled={deleteSetMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Nome do novo conjunto"
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+            />
+            <Button
+              onClick={() => createSetMutation.mutate(newSetName.trim())}
+              disabled={!newSetName.trim() || createSetMutation.isPending}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Criar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedSet && (
+        <>
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Perguntas ({questions.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {questions.map(question => (
+                <div key={question.id} className="flex items-start justify-between gap-4 border p-3 rounded-md">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="font-medium">{question.question}</p>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{question.expected_answer}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {question.expected_document_ids.map(id => (
+                        <Badge key={id} variant="secondary">{documentName(id)}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteQuestionMutation.mutate(question.id)}
+                    disabled={deleteQuestionMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <div className="space-y-2 border-t pt-4">
+                <Input
+                  placeholder="Pergunta"
+                  value={questionForm.question}
+                  onChange={(e) => setQuestionForm(form => ({ ...form, question: e.target.value }))}
+                />
+                <Textarea
+                  placeholder="Resposta esperada"
+                  value={questionForm.expected_answer}
+                  onChange={(e) => setQuestionForm(form => ({ ...form, expected_answer: e.target.value }))}
+                />
+                <p className="text-sm text-muted-foreground">Documentos esperados:</p>
+                <div className="flex flex-wrap gap-1">
+                  {documents?.filter(doc => doc.is_active).map(doc => (
+                    <Badge
+                      key={doc.id}
+                      variant={questionForm.expected_document_ids.includes(doc.id) ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => toggleExpectedDocument(doc.id)}
+                    >
+                      {doc.name}
+                    </Badge>
+                  ))}
+                </div>
+                <Button
+                  onClick={() => createQuestionMutation.mutate()}
+                  disabled={!questionForm.question.trim() || !questionForm.expected_answer.trim() || createQuestionMutation.isPending}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar pergunta
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Execuções</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Descrição da mudança avaliada (opcional)"
+                  value={runLabel}
+                  onChange={(e) => setRunLabel(e.target.value)}
+                />
+                <Button
+                  onClick={() => startRunMutation.mutate()}
+                  disabled={questions.length === 0 || startRunMutation.isPending}
+                >
+                  {startRunMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Play className="mr-2 h-4 w-4" />
+                  )}
+                  Executar
+                </Button>
+              </div>
+
+              {runs.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground">
+                  <FlaskConical className="mx-auto mb-2 h-6 w-6" />
+                  Nenhuma execução ainda.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead>Modelo</TableHead>
+                      <TableHead>Hit rate</TableHead>
+                      <TableHead>MRR</TableHead>
+                      <TableHead>Resposta</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map(run => (
+                      <TableRow key={run.id}>
+                        <TableCell>{new Date(run.started_at).toLocaleString()}</TableCell>
+                        <TableCell>{run.label || "-"}</TableCell>
+                        <TableCell className="text-xs">
+                          {run.config?.model || "-"}
+                          {run.config?.reranker && run.config.reranker !== "none" && ` + ${run.config.reranker}`}
+                        </TableCell>
+                        <TableCell>{formatMetric(run.hit_rate)}</TableCell>
+                        <TableCell>{formatMetric(run.mrr)}</TableCell>
+                        <TableCell>{formatMetric(run.answer_score)}</TableCell>
+                        <TableCell>
+                          {run.status === "running" ? (
+                            <Badge variant="secondary">
+                              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                              Em andamento
+                            </Badge>
+                          ) : run.status === "error" ? (
+                            <Badge variant="destructive" title={run.error_message || undefined}>Erro</Badge>
+                          ) : (
+                            <Badge>Concluída</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
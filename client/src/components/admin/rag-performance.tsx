@@ -1,16 +1,21 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertCircle, Check, Database, FileText, Search } from "lucide-react";
+import { AlertCircle, Check, Database, FileText, Loader2, Route, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from "@/hooks/use-language";
 import { apiRequest } from "@/lib/queryClient";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GroundingVerdict, RetrievalFilters, RetrievalTrace } from "@shared/schema";
 
 interface RAGTestResult {
   query: string;
@@ -21,6 +26,367 @@ interface RAGTestResult {
     content: string;
   }>;
   response: string;
+  trace?: RetrievalTrace;
+}
+
+type TraceSource = "chat" | "widget";
+
+interface TraceSummary {
+  id: number;
+  chat_message_id: number | null;
+  widget_message_id: number | null;
+  created_at: string;
+  query: string;
+  path: string;
+  chunk_count: number;
+  external_search_used: boolean;
+  grounding_status: GroundingVerdict["status"] | null;
+  prompt_tokens: number | null;
+}
+
+interface TraceRecord {
+  id: number;
+  chat_message_id: number | null;
+  widget_message_id: number | null;
+  trace: RetrievalTrace;
+  created_at: string;
+}
+
+const PATH_LABELS: Record<string, string> = {
+  rag: "RAG",
+  rag_forced: "RAG forçado",
+  hybrid: "Busca híbrida",
+  semantic: "Busca semântica",
+  full_documents: "Documentos completos",
+  regular: "Sem documentos",
+  cache: "Cache de respostas",
+  error: "Erro",
+};
+
+const GROUNDING_STATUS_LABELS: Record<GroundingVerdict["status"], string> = {
+  grounded: "Fundamentada",
+  weak: "Sustentação fraca",
+  unsupported: "Sem sustentação",
+};
+
+const GROUNDING_ACTION_LABELS: Record<GroundingVerdict["action"], string> = {
+  none: "Nenhuma",
+  flagged: "Sinalizada",
+  annotated: "Aviso acrescentado",
+  rewritten: "Reescrita",
+};
+
+const formatScore = (score: number | null) => score === null ? "-" : score.toFixed(3);
+
+/**
+ * Exibe o rastreamento da recuperação de uma resposta: consulta, intenção, tópicos,
+ * documentos prioritários, chunks com scores, busca externa, fundamentação e prompt final
+ */
+// Filtros da recuperação em texto curto (categorias aparecem pelo id)
+function formatFilters(filters: RetrievalFilters): string[] {
+  return [
+    filters.brand,
+    ...(filters.device_models || []),
+    filters.board_revision ? `rev. ${filters.board_revision}` : undefined,
+    ...(filters.category_ids || []).map(id => `cat. #${id}`),
+    filters.language ? filters.language.toUpperCase() : undefined,
+  ].filter((value): value is string => !!value);
+}
+
+function RetrievalTraceView({ trace }: { trace: RetrievalTrace }) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+        <div>
+          <p className="text-sm text-muted-foreground">{t("Caminho")}</p>
+          <p className="font-medium">{t(PATH_LABELS[trace.path] || trace.path)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">{t("Chunks no contexto")}</p>
+          <p className="font-medium">{trace.chunks.length}</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">{t("Busca externa")}</p>
+          <p className="font-medium">
+            {trace.external_search.used
+              ? t("Usada")
+              : trace.external_search.attempted ? t("Tentada, sem resultado") : t("Não usada")}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">{t("Tamanho do prompt")}</p>
+          <p className="font-medium">
+            {trace.prompt_tokens !== null ? `~${trace.prompt_tokens} tokens` : "-"}
+          </p>
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2 text-sm">
+        <p><span className="text-muted-foreground">{t("Pergunta")}:</span> {trace.query}</p>
+        {trace.cache_hit && (
+          <p>
+            <span className="text-muted-foreground">{t("Resposta reutilizada de")}:</span> {trace.cache_hit.cached_query}{" "}
+            ({t("similaridade")} {formatScore(trace.cache_hit.similarity)})
+          </p>
+        )}
+        {trace.retrieval_query !== trace.query && (
+          <p><span className="text-muted-foreground">{t("Consulta usada na busca")}:</span> {trace.retrieval_query}</p>
+        )}
+        <p><span className="text-muted-foreground">{t("Intenção")}:</span> {trace.intent || "-"}</p>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-muted-foreground">{t("Tópicos")}:</span>
+          {trace.topics.length === 0 ? "-" : trace.topics.map(topic => (
+            <Badge key={topic} variant="outline">{topic}</Badge>
+          ))}
+        </div>
+        {trace.filters && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-muted-foreground">{t("Filtros")}:</span>
+            {formatFilters(trace.filters.explicit).map(filter => (
+              <Badge key={`explicit-${filter}`} variant="secondary">{filter}</Badge>
+            ))}
+            {formatFilters(trace.filters.inferred).map(filter => (
+              <Badge key={`inferred-${filter}`} variant="outline">{filter} ({t("inferido")})</Badge>
+            ))}
+          </div>
+        )}
+        {trace.topic_documents.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-muted-foreground">{t("Documentos adicionados pelos tópicos")}:</span>
+            {trace.topic_documents.map(name => (
+              <Badge key={name} variant="outline">{name}</Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-muted-foreground">{t("Documentos prioritários")}:</span>
+          {trace.priority_documents.length === 0 ? "-" : trace.priority_documents.map(doc => (
+            <Badge key={doc.id} variant={doc.kind === "guardrail" ? "destructive" : "secondary"}>
+              {doc.name} ({doc.priority})
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {trace.chunks.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("Citação")}</TableHead>
+              <TableHead>{t("Documento")}</TableHead>
+              <TableHead>{t("Chunk")}</TableHead>
+              <TableHead>{t("Similaridade")}</TableHead>
+              <TableHead>RRF</TableHead>
+              <TableHead>Rerank</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {trace.chunks.map((chunk, index) => (
+              <TableRow key={index}>
+                <TableCell>{chunk.citation_id ? `[${chunk.citation_id}]` : "-"}</TableCell>
+                <TableCell className="max-w-[240px] truncate">{chunk.document_name || `#${chunk.document_id}`}</TableCell>
+                <TableCell>
+                  {chunk.chunk_index !== null ? `#${chunk.chunk_index}` : t("completo")}
+                  {chunk.chunk_id !== null && <span className="text-muted-foreground"> (id {chunk.chunk_id})</span>}
+                </TableCell>
+                <TableCell>{formatScore(chunk.similarity)}</TableCell>
+                <TableCell>{formatScore(chunk.rrf_score)}</TableCell>
+                <TableCell>{formatScore(chunk.rerank_score)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {trace.grounding && (
+        <div className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground">{t("Fundamentação")}:</span>
+            <Badge variant={trace.grounding.status === "grounded" ? "secondary" : "destructive"}>
+              {t(GROUNDING_STATUS_LABELS[trace.grounding.status])}
+            </Badge>
+            <span>{Math.round(trace.grounding.score * 100)}% {t("das afirmações sustentadas")}</span>
+            <span className="text-muted-foreground">· {t("Ação")}: {t(GROUNDING_ACTION_LABELS[trace.grounding.action])}</span>
+          </div>
+          {trace.grounding.claims.length > 0 && (
+            <ul className="space-y-1">
+              {trace.grounding.claims.map((claim, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  {claim.supported
+                    ? <Check className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                    : <AlertCircle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />}
+                  <span>
+                    {claim.claim}
+                    {claim.citation_id && <span className="text-muted-foreground"> [{claim.citation_id}]</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {trace.grounding.original_text && (
+            <Accordion type="single" collapsible className="w-full">
+              <AccordionItem value="original">
+                <AccordionTrigger>{t("Resposta original antes da reescrita")}</AccordionTrigger>
+                <AccordionContent>
+                  <pre className="whitespace-pre-wrap text-xs">{trace.grounding.original_text}</pre>
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          )}
+        </div>
+      )}
+
+      {trace.system_prompt && (
+        <Accordion type="single" collapsible className="w-full">
+          <AccordionItem value="prompt">
+            <AccordionTrigger>{t("Prompt de sistema enviado ao modelo")}</AccordionTrigger>
+            <AccordionContent>
+              <ScrollArea className="h-[300px] w-full rounded-md border p-4">
+                <pre className="whitespace-pre-wrap text-xs">{trace.system_prompt}</pre>
+              </ScrollArea>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Inspetor das respostas do chat e do widget: lista os rastreamentos recentes
+ * e permite buscar o de uma mensagem específica pelo id
+ */
+function RetrievalTraceInspector() {
+  const { t } = useLanguage();
+  const [source, setSource] = useState<TraceSource>("chat");
+  const [messageIdInput, setMessageIdInput] = useState("");
+  const [selected, setSelected] = useState<{ source: TraceSource; messageId: number } | null>(null);
+
+  const { data: recentTraces = [], isLoading: recentLoading } = useQuery<TraceSummary[]>({
+    queryKey: ["/api/admin/retrieval-traces"],
+  });
+
+  const { data: selectedRecord, isLoading: selectedLoading, error: selectedError } = useQuery<TraceRecord>({
+    queryKey: [`/api/admin/retrieval-traces/${selected?.source}/${selected?.messageId}`],
+    enabled: selected !== null,
+    retry: false,
+  });
+
+  const lookup = () => {
+    const messageId = parseInt(messageIdInput);
+    if (!isNaN(messageId)) {
+      setSelected({ source, messageId });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("Inspetor de Respostas")}</CardTitle>
+        <CardDescription>
+          {t("Veja quais chunks, documentos prioritários e prompt geraram cada resposta do bot")}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Select value={source} onValueChange={(value) => setSource(value as TraceSource)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="chat">{t("Chat")}</SelectItem>
+              <SelectItem value="widget">{t("Widget")}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder={t("ID da mensagem do bot")}
+            value={messageIdInput}
+            onChange={(e) => setMessageIdInput(e.target.value)}
+            className="flex-1"
+          />
+          <Button onClick={lookup} disabled={!messageIdInput}>
+            {t("Inspecionar")}
+          </Button>
+        </div>
+
+        {selected && (
+          selectedLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : selectedError || !selectedRecord ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{t("Rastreamento não encontrado")}</AlertTitle>
+              <AlertDescription>
+                {t("Não há rastreamento gravado para esta mensagem")}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <RetrievalTraceView trace={selectedRecord.trace} />
+          )
+        )}
+
+        <Separator />
+
+        <div>
+          <p className="text-sm font-medium mb-2">{t("Respostas recentes")}</p>
+          {recentLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : recentTraces.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("Nenhuma resposta rastreada ainda")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("Mensagem")}</TableHead>
+                  <TableHead>{t("Pergunta")}</TableHead>
+                  <TableHead>{t("Caminho")}</TableHead>
+                  <TableHead>{t("Chunks")}</TableHead>
+                  <TableHead>{t("Tokens")}</TableHead>
+                  <TableHead>{t("Data")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentTraces.map((summary) => {
+                  const summarySource: TraceSource = summary.chat_message_id !== null ? "chat" : "widget";
+                  const messageId = summary.chat_message_id ?? summary.widget_message_id;
+                  return (
+                    <TableRow
+                      key={summary.id}
+                      className="cursor-pointer"
+                      onClick={() => messageId !== null && setSelected({ source: summarySource, messageId })}
+                    >
+                      <TableCell>{summarySource} #{messageId}</TableCell>
+                      <TableCell className="max-w-[280px] truncate">{summary.query}</TableCell>
+                      <TableCell>
+                        {t(PATH_LABELS[summary.path] || summary.path)}
+                        {summary.external_search_used && <Badge variant="outline" className="ml-2">{t("externa")}</Badge>}
+                        {summary.grounding_status && summary.grounding_status !== "grounded" && (
+                          <Badge variant="destructive" className="ml-2">{t(GROUNDING_STATUS_LABELS[summary.grounding_status])}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{summary.chunk_count}</TableCell>
+                      <TableCell>{summary.prompt_tokens ?? "-"}</TableCell>
+                      <TableCell>{new Date(summary.created_at).toLocaleString()}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
 
 export function RagPerformanceTest() {
@@ -97,6 +463,7 @@ export function RagPerformanceTest() {
                   <TabsTrigger value="topics">{t("Tópicos")}</TabsTrigger>
                   <TabsTrigger value="documents">{t("Documentos")}</TabsTrigger>
                   <TabsTrigger value="response">{t("Resposta")}</TabsTrigger>
+                  {result.trace && <TabsTrigger value="trace">{t("Rastreamento")}</TabsTrigger>}
                 </TabsList>
                 
                 <TabsContent value="overview" className="space-y-4">
@@ -219,6 +586,25 @@ export function RagPerformanceTest() {
                     </CardContent>
                   </Card>
                 </TabsContent>
+
+                {result.trace && (
+                  <TabsContent value="trace">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <Route className="h-4 w-4" />
+                          {t("Rastreamento da Recuperação")}
+                        </CardTitle>
+                        <CardDescription>
+                          {t("Chunks, scores e prompt usados para gerar esta resposta")}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <RetrievalTraceView trace={result.trace} />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                )}
               </Tabs>
             )}
           </div>
@@ -231,6 +617,8 @@ export function RagPerformanceTest() {
           </div>
         </CardFooter>
       </Card>
+
+      <RetrievalTraceInspector />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useTraining } from "@/hooks/use-training";
+import { useTraining, useIngestionProgress, type Document } from "@/hooks/use-training";
 import { useLanguage } from "@/hooks/use-language";
 import { Button } from "@/components/ui/button";
 import {
@@ -93,6 +93,57 @@ interface DocumentFormData extends DocumentFormValues {
   image?: File;
 }
 
+// Fase e progresso do documento na fila ou em processamento, atualizados pelo stream do servidor
+function IngestionStatus({ document }: { document: Document }) {
+  const { t } = useLanguage();
+  const live = useIngestionProgress(document);
+
+  // Na fila (inclusive aguardando nova tentativa) até o worker iniciar o job
+  if (document.status === "pending" && (!live || live.phase === "queued")) {
+    const pendingMessage = live ? live.message : document.error_message;
+    return (
+      <div className="flex flex-col gap-1">
+        <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100 w-fit">
+          <Clock className="h-3 w-3 mr-1" /> {t("admin.training.statusTypes.pending")}
+        </Badge>
+        {pendingMessage && (
+          <span className="text-xs text-muted-foreground max-w-[16rem] truncate" title={pendingMessage}>
+            {pendingMessage}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  const phase = live?.phase || document.processing_phase || "queued";
+  const progress = live?.progress ?? document.progress ?? 0;
+  const message = live ? live.message : document.error_message;
+
+  return (
+    <div className="flex flex-col gap-1 min-w-[10rem]">
+      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100 w-fit">
+        <CircleDashed className="h-3 w-3 mr-1 animate-spin" /> {t(`admin.ingestionPhases.${phase}`)} ({progress}%)
+      </Badge>
+      <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-500 rounded-full transition-all duration-500"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      {phase === "embedding" && live?.total ? (
+        <span className="text-xs text-muted-foreground">
+          {t("admin.ingestionChunks", { processed: live.processed || 0, total: live.total })}
+        </span>
+      ) : null}
+      {message && (
+        <span className="text-xs text-red-700 max-w-[16rem] truncate" title={message}>
+          {message}
+        </span>
+      )}
+    </div>
+  );
+}
+
 export function TrainingDocuments() {
   const { t } = useLanguage();
   const {
@@ -314,29 +365,8 @@ export function TrainingDocuments() {
   const getStatusBadge = (status: string, document?: any) => {
     switch (status) {
       case "pending":
-        return (
-          <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">
-            <Clock className="h-3 w-3 mr-1" /> {t("admin.training.statusTypes.pending")}
-          </Badge>
-        );
       case "processing":
-        return (
-          <div className="flex flex-col gap-1">
-            <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
-              <CircleDashed className="h-3 w-3 mr-1" /> {t("admin.training.statusTypes.processing")} {document?.progress ? `(${document.progress}%)` : ''}
-            </Badge>
-            {document?.progress !== null && document?.progress !== undefined && (
-              <div className="w-full">
-                <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
-                  <div 
-                    className="h-full bg-blue-500 rounded-full transition-all duration-500"
-                    style={{ width: `${document.progress || 0}%` }}
-                  />
-                </div>
-              </div>
-            )}
-          </div>
-        );
+        return <IngestionStatus document={document} />;
       case "completed":
         return (
           <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
@@ -351,9 +381,16 @@ export function TrainingDocuments() {
         );
       case "error":
         return (
-          <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
-            <CircleX className="h-3 w-3 mr-1" /> {t("admin.training.statusTypes.error")}
-          </Badge>
+          <div className="flex flex-col gap-1">
+            <Badge className="bg-red-100 text-red-800 hover:bg-red-100 w-fit">
+              <CircleX className="h-3 w-3 mr-1" /> {t("admin.training.statusTypes.error")}
+            </Badge>
+            {document?.error_message && (
+              <span className="text-xs text-red-700 max-w-[16rem] truncate" title={document.error_message}>
+                {document.error_message}
+              </span>
+            )}
+          </div>
         );
       default:
         return null;
@@ -512,7 +549,7 @@ export function TrainingDocuments() {
                       <Input
                         type="file"
                         onChange={handleFileChange}
-                        accept=".pdf,.doc,.docx,.txt,.csv,.xls,.xlsx,.jpg,.jpeg,.png"
+                        accept=".pdf,.doc,.docx,.txt,.csv,.xlsx,.md,.markdown,.html,.htm,.pptx,.jpg,.jpeg,.png"
                       />
                     </FormControl>
                     <FormMessage />
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Save } from "lucide-react";
+import { useTraining, Document } from "@/hooks/use-training";
+
+// Modelos são editados como texto separado por vírgulas
+type MetadataDraft = { brand: string; device_models: string; board_revision: string };
+
+export function TrainingMetadata() {
+  const { documents, documentsLoading, updateDocumentMetadataMutation } = useTraining();
+  // Alterações ainda não salvas, por documento
+  const [drafts, setDrafts] = useState<Record<number, MetadataDraft>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [search, setSearch] = useState("");
+
+  const activeDocuments = (documents?.filter(doc => doc.is_active) || [])
+    .filter(doc => {
+      const term = search.trim().toLowerCase();
+      return !term ||
+        doc.name.toLowerCase().includes(term) ||
+        (doc.brand || "").includes(term) ||
+        (doc.device_models || []).some(model => model.includes(term));
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const toDraft = (doc: Document): MetadataDraft => ({
+    brand: doc.brand || "",
+    device_models: (doc.device_models || []).join(", "),
+    board_revision: doc.board_revision || "",
+  });
+
+  const getDraft = (doc: Document): MetadataDraft => drafts[doc.id] || toDraft(doc);
+
+  const updateDraft = (doc: Document, changes: Partial<MetadataDraft>) => {
+    setDrafts(prev => ({ ...prev, [doc.id]: { ...getDraft(doc), ...changes } }));
+  };
+
+  const isDirty = (doc: Document) => {
+    const original = toDraft(doc);
+    const draft = getDraft(doc);
+    return draft.brand !== original.brand ||
+      draft.device_models !== original.device_models ||
+      draft.board_revision !== original.board_revision;
+  };
+
+  const handleSave = async (doc: Document) => {
+    const draft = getDraft(doc);
+    setSavingId(doc.id);
+    try {
+      await updateDocumentMetadataMutation.mutateAsync({
+        id: doc.id,
+        metadata: {
+          brand: draft.brand.trim() || null,
+          device_models: draft.device_models.split(",").map(model => model.trim()).filter(Boolean),
+          board_revision: draft.board_revision.trim() || null,
+        },
+      });
+      setDrafts(prev => {
+        const { [doc.id]: _, ...rest } = prev;
+        return rest;
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Metadados dos Documentos</CardTitle>
+        <CardDescription>
+          Marca, modelos de aparelho e revisão da placa são extraídos automaticamente na indexação e
+          usados para filtrar a busca. Valores editados aqui não são sobrescritos por novas indexações.
+          Documentos sem metadados são considerados genéricos e aparecem em qualquer filtro.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <Input
+          placeholder="Buscar por nome, marca ou modelo..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        {documentsLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : activeDocuments.length === 0 ? (
+          <div className="text-center py-6">
+            <p className="text-muted-foreground">
+              Nenhum documento de treinamento encontrado.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            {activeDocuments.map((doc) => {
+              const draft = getDraft(doc);
+
+              return (
+                <div
+                  key={doc.id}
+                  className="flex flex-wrap items-center justify-between gap-3 border p-3 rounded-md"
+                >
+                  <div className="min-w-0 flex-1 basis-48">
+                    <p className="font-medium truncate">{doc.name}</p>
+                    {doc.metadata_source && (
+                      <Badge variant={doc.metadata_source === "manual" ? "default" : "secondary"} className="mt-1">
+                        {doc.metadata_source === "manual" ? "Manual" : "Automático"}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <Input
+                    className="w-32"
+                    placeholder="Marca"
+                    value={draft.brand}
+                    onChange={(e) => updateDraft(doc, { brand: e.target.value })}
+                    aria-label="Marca"
+                  />
+
+                  <Input
+                    className="w-64"
+                    placeholder="Modelos (separados por vírgula)"
+                    value={draft.device_models}
+                    onChange={(e) => updateDraft(doc, { device_models: e.target.value })}
+                    aria-label="Modelos"
+                  />
+
+                  <Input
+                    className="w-28"
+                    placeholder="Revisão"
+                    value={draft.board_revision}
+                    onChange={(e) => updateDraft(doc, { board_revision: e.target.value })}
+                    aria-label="Revisão da placa"
+                  />
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSave(doc)}
+                    disabled={!isDirty(doc) || savingId === doc.id}
+                  >
+                    {savingId === doc.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,7 +6,12 @@ import { TrainingWebsite } from "@/components/admin/training-website";
 import { TrainingDocument } from "@/components/admin/training-document";
 import { TrainingVideo } from "@/components/admin/training-video";
 import { GenerateEmbeddings } from "@/components/admin/generate-embeddings";
-import { FileText, Globe, FileVideo, File, Search, Database } from "lucide-react";
+import { EmbeddingMigration } from "@/components/admin/embedding-migration";
+import { DocumentJobs } from "@/components/admin/document-jobs";
+import { TrainingPriority } from "@/components/admin/training-priority";
+import { TrainingMetadata } from "@/components/admin/training-metadata";
+import { RagEvaluation } from "@/components/admin/rag-evaluation";
+import { FileText, Globe, FileVideo, File, Search, Database, ShieldAlert, FlaskConical, Tags } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/use-auth";
@@ -108,6 +113,20 @@ export function TrainingPanel() {
               >
                 Vídeo
               </TabsTrigger>
+              <TabsTrigger
+                value="priority"
+                className="data-[state=active]:bg-primary data-[state=active]:text-white rounded-md px-3 py-1.5 text-sm font-medium"
+              >
+                <ShieldAlert className="h-4 w-4 mr-1.5" />
+                Prioritários
+              </TabsTrigger>
+              <TabsTrigger
+                value="metadata"
+                className="data-[state=active]:bg-primary data-[state=active]:text-white rounded-md px-3 py-1.5 text-sm font-medium"
+              >
+                <Tags className="h-4 w-4 mr-1.5" />
+                Metadados
+              </TabsTrigger>
               <TabsTrigger
                 value="embeddings"
                 className="data-[state=active]:bg-primary data-[state=active]:text-white rounded-md px-3 py-1.5 text-sm font-medium"
@@ -115,6 +134,13 @@ export function TrainingPanel() {
                 <Database className="h-4 w-4 mr-1.5" />
                 Embeddings
               </TabsTrigger>
+              <TabsTrigger
+                value="evaluation"
+                className="data-[state=active]:bg-primary data-[state=active]:text-white rounded-md px-3 py-1.5 text-sm font-medium"
+              >
+                <FlaskConical className="h-4 w-4 mr-1.5" />
+                Avaliação
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="text" className="mt-4 focus-visible:outline-none">
@@ -133,8 +159,22 @@ export function TrainingPanel() {
               <TrainingVideo />
             </TabsContent>
             
+            <TabsContent value="priority" className="mt-4 focus-visible:outline-none">
+              <TrainingPriority />
+            </TabsContent>
+            
+            <TabsContent value="metadata" className="mt-4 focus-visible:outline-none">
+              <TrainingMetadata />
+            </TabsContent>
+            
             <TabsContent value="embeddings" className="mt-4 focus-visible:outline-none">
               <GenerateEmbeddings />
+              <EmbeddingMigration />
+              <DocumentJobs />
+            </TabsContent>
+            
+            <TabsContent value="evaluation" className="mt-4 focus-visible:outline-none">
+              <RagEvaluation />
             </TabsContent>
           </Tabs>
         </div>
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save } from "lucide-react";
+import { useTraining, Document, DocumentKind } from "@/hooks/use-training";
+
+const KIND_LABELS: Record<DocumentKind, string> = {
+  guardrail: "Guardrail",
+  system_rule: "Regra de sistema",
+  reference: "Referência",
+};
+
+type PriorityDraft = { kind: DocumentKind; priority: number };
+
+export function TrainingPriority() {
+  const { documents, documentsLoading, updateDocumentMutation } = useTraining();
+  // Alterações ainda não salvas, por documento
+  const [drafts, setDrafts] = useState<Record<number, PriorityDraft>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const activeDocuments = documents?.filter(doc => doc.is_active) || [];
+
+  // Documentos sempre incluídos no prompt aparecem primeiro, na ordem em que serão injetados
+  const sortedDocuments = [...activeDocuments].sort((a, b) => {
+    const weight = (doc: Document) => doc.kind === "guardrail" ? 0 : doc.kind === "system_rule" ? 1 : 2;
+    return weight(a) - weight(b) || b.priority - a.priority || a.name.localeCompare(b.name);
+  });
+
+  const getDraft = (doc: Document): PriorityDraft =>
+    drafts[doc.id] || { kind: doc.kind, priority: doc.priority };
+
+  const updateDraft = (doc: Document, changes: Partial<PriorityDraft>) => {
+    setDrafts(prev => ({ ...prev, [doc.id]: { ...getDraft(doc), ...changes } }));
+  };
+
+  const handleSave = async (doc: Document) => {
+    const draft = getDraft(doc);
+    setSavingId(doc.id);
+    try {
+      await updateDocumentMutation.mutateAsync({ id: doc.id, document: draft });
+      setDrafts(prev => {
+        const { [doc.id]: _, ...rest } = prev;
+        return rest;
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Documentos Prioritários</CardTitle>
+        <CardDescription>
+          Guardrails e regras de sistema são incluídos em todas as respostas, independentemente da busca.
+          Guardrails vêm primeiro; dentro de cada tipo, maior prioridade vem antes.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {documentsLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sortedDocuments.length === 0 ? (
+          <div className="text-center py-6">
+            <p className="text-muted-foreground">
+              Não há documentos de treinamento ativos.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            {sortedDocuments.map((doc) => {
+              const draft = getDraft(doc);
+              const isDirty = draft.kind !== doc.kind || draft.priority !== doc.priority;
+
+              return (
+                <div
+                  key={doc.id}
+                  className="flex items-center justify-between gap-4 border p-3 rounded-md"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{doc.name}</p>
+                    {doc.kind !== "reference" && (
+                      <Badge variant={doc.kind === "guardrail" ? "destructive" : "secondary"} className="mt-1">
+                        {KIND_LABELS[doc.kind]}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <Select
+                    value={draft.kind}
+                    onValueChange={(value) => updateDraft(doc, { kind: value as DocumentKind })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(KIND_LABELS) as DocumentKind[]).map(kind => (
+                        <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Input
+                    type="number"
+                    className="w-24"
+                    value={draft.priority}
+                    disabled={draft.kind === "reference"}
+                    onChange={(e) => updateDraft(doc, { priority: parseInt(e.target.value) || 0 })}
+                    aria-label="Prioridade"
+                  />
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSave(doc)}
+                    disabled={!isDirty || savingId === doc.id}
+                  >
+                    {savingId === doc.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -92,7 +92,22 @@ const widgetFormSchema = z.object({
   response_time: z.string().optional().default("immediate"),
   agent_timezone: z.string().optional().default("America/Sao_Paulo"),
   max_interactions: z.number().min(1).optional().default(20),
-  interaction_limit_action: z.string().optional().default("block_5m")
+  interaction_limit_action: z.string().optional().default("block_5m"),
+  
+  // Configuração de LLM do widget ("inherit"/vazio = usar a configuração global ativa)
+  llm_config_id: z.string().optional().default("inherit"),
+  llm_temperature: z.string()
+    .refine(
+      (value) => value === "" || (!isNaN(parseFloat(value)) && parseFloat(value) >= 0 && parseFloat(value) <= 1),
+      { message: "Temperatura deve estar entre 0 e 1" }
+    )
+    .optional()
+    .default(""),
+  llm_tone: z.string().optional().default("inherit"),
+  llm_behavior_instructions: z.string().optional().default(""),
+  
+  // Categorias de treinamento que delimitam o conhecimento do widget (vazio = todos os documentos)
+  category_ids: z.array(z.number()).optional().default([])
 });
 
 type WidgetFormValues = z.infer<typeof widgetFormSchema>;
@@ -123,6 +138,26 @@ export function WidgetsManagement() {
     }
   });
 
+  // Consulta para obter as configurações LLM disponíveis para o widget
+  const { data: llmConfigs } = useQuery({
+    queryKey: ["/api/admin/llm/configs"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/admin/llm/configs");
+      const data = await response.json();
+      return data as Array<{ id: number; provider: string | null; model_name: string; is_active: boolean }>;
+    }
+  });
+
+  // Consulta para obter as categorias de treinamento (escopo de conhecimento do widget)
+  const { data: trainingCategories } = useQuery({
+    queryKey: ["/api/training/categories"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/training/categories");
+      const data = await response.json();
+      return data as Array<{ id: number; name: string; description: string | null }>;
+    }
+  });
+
   // Consulta para obter detalhes de um widget específico
   const { data: selectedWidget, isLoading: isLoadingWidget } = useQuery({
     queryKey: ["/api/widgets", selectedWidgetId],
@@ -130,7 +165,7 @@ export function WidgetsManagement() {
       if (!selectedWidgetId) return null;
       const response = await apiRequest("GET", `/api/widgets/${selectedWidgetId}`);
       const data = await response.json();
-      return data as ChatWidget;
+      return data as ChatWidget & { category_ids?: number[] };
     },
     enabled: !!selectedWidgetId
   });
@@ -292,7 +327,14 @@ export function WidgetsManagement() {
       response_time: "immediate",
       agent_timezone: "America/Sao_Paulo",
       max_interactions: 20,
-      interaction_limit_action: "block_5m"
+      interaction_limit_action: "block_5m",
+      
+      // Configuração de LLM do widget
+      llm_config_id: "inherit",
+      llm_temperature: "",
+      llm_tone: "inherit",
+      llm_behavior_instructions: "",
+      category_ids: []
     }
   });
 
@@ -329,7 +371,14 @@ export function WidgetsManagement() {
       response_time: "immediate",
       agent_timezone: "America/Sao_Paulo",
       max_interactions: 20,
-      interaction_limit_action: "block_5m"
+      interaction_limit_action: "block_5m",
+      
+      // Configuração de LLM do widget
+      llm_config_id: "inherit",
+      llm_temperature: "",
+      llm_tone: "inherit",
+      llm_behavior_instructions: "",
+      category_ids: []
     }
   });
 
@@ -365,7 +414,14 @@ export function WidgetsManagement() {
         response_time: selectedWidget.response_time || "immediate",
         agent_timezone: selectedWidget.agent_timezone || "America/Sao_Paulo",
         max_interactions: selectedWidget.max_interactions || 20,
-        interaction_limit_action: selectedWidget.interaction_limit_action || "block_5m"
+        interaction_limit_action: selectedWidget.interaction_limit_action || "block_5m",
+        
+        // Configuração de LLM do widget
+        llm_config_id: selectedWidget.llm_config_id ? String(selectedWidget.llm_config_id) : "inherit",
+        llm_temperature: selectedWidget.llm_temperature || "",
+        llm_tone: selectedWidget.llm_tone || "inherit",
+        llm_behavior_instructions: selectedWidget.llm_behavior_instructions || "",
+        category_ids: selectedWidget.category_ids || []
       });
       
       setAllowedDomains(selectedWidget.allowed_domains || []);
@@ -561,6 +617,15 @@ export function WidgetsManagement() {
     formData.append("max_interactions", String(data.max_interactions || 20));
     formData.append("interaction_limit_action", data.interaction_limit_action || "block_5m");
     
+    // Adicionar configuração de LLM (vazio = herdar a configuração global)
+    formData.append("llm_config_id", data.llm_config_id && data.llm_config_id !== "inherit" ? data.llm_config_id : "");
+    formData.append("llm_temperature", data.llm_temperature || "");
+    formData.append("llm_tone", data.llm_tone && data.llm_tone !== "inherit" ? data.llm_tone : "");
+    formData.append("llm_behavior_instructions", data.llm_behavior_instructions || "");
+    
+    // Adicionar escopo de conhecimento (categorias de treinamento)
+    formData.append("category_ids", JSON.stringify(data.category_ids || []));
+    
     // Verificar se há um arquivo de avatar
     const fileInput = editFileInputRef.current;
     const file = fileInput?.files?.[0];
@@ -1622,11 +1687,12 @@ export function WidgetsManagement() {
             <Form {...editForm}>
               <form onSubmit={editForm.handleSubmit(handleEditSubmit)} className="space-y-6">
                 <Tabs defaultValue="general">
-                  <TabsList className="grid w-full grid-cols-6">
+                  <TabsList className="grid w-full grid-cols-7">
                     <TabsTrigger value="general">{t("Geral")}</TabsTrigger>
                     <TabsTrigger value="security">{t("Segurança")}</TabsTrigger>
                     <TabsTrigger value="conversation">{t("Conversa")}</TabsTrigger>
                     <TabsTrigger value="operational">{t("Operacional")}</TabsTrigger>
+                    <TabsTrigger value="llm">{t("IA")}</TabsTrigger>
                     <TabsTrigger value="embed">{t("Integração")}</TabsTrigger>
                     <TabsTrigger value="advanced">{t("Avançado")}</TabsTrigger>
                   </TabsList>
@@ -2149,6 +2215,163 @@ export function WidgetsManagement() {
                     </div>
                   </TabsContent>
                   
+                  <TabsContent value="llm" className="space-y-4 pt-4">
+                    <div className="space-y-4">
+                      <h3 className="font-medium mb-2">{t("Configuração de IA")}</h3>
+                      <p className="text-sm text-muted-foreground mb-4">
+                        {t("Defina o modelo e a personalidade deste widget. Campos não definidos usam a configuração global ativa.")}
+                      </p>
+                      
+                      <FormField
+                        control={editForm.control}
+                        name="llm_config_id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("Modelo")}</FormLabel>
+                            <Select
+                              value={field.value}
+                              onValueChange={field.onChange}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder={t("Selecione um modelo")} />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="inherit">{t("Usar configuração global")}</SelectItem>
+                                {llmConfigs?.map((config) => (
+                                  <SelectItem key={config.id} value={String(config.id)}>
+                                    {config.provider ? `${config.provider} / ` : ""}{config.model_name}
+                                    {config.is_active ? ` (${t("ativa")})` : ""}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              {t("Configuração LLM cadastrada (provedor, modelo e chave) usada por este widget.")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={editForm.control}
+                        name="llm_temperature"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("Temperatura")}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                max="1"
+                                step="0.1"
+                                placeholder={t("Usar configuração global")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              {t("Valores baixos geram respostas mais precisas; valores altos, mais criativas (0 a 1).")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={editForm.control}
+                        name="llm_tone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("Tom")}</FormLabel>
+                            <Select
+                              value={field.value}
+                              onValueChange={field.onChange}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder={t("Selecione um tom")} />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="inherit">{t("Usar configuração global")}</SelectItem>
+                                <SelectItem value="formal">{t("Formal")}</SelectItem>
+                                <SelectItem value="normal">{t("Normal")}</SelectItem>
+                                <SelectItem value="casual">{t("Casual")}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={editForm.control}
+                        name="llm_behavior_instructions"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("Instruções de comportamento")}</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                rows={6}
+                                placeholder={t("Usar configuração global")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              {t("Persona e regras específicas deste widget. Substituem as instruções globais.")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <Separator />
+                      
+                      <FormField
+                        control={editForm.control}
+                        name="category_ids"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("Base de conhecimento")}</FormLabel>
+                            <FormDescription>
+                              {t("Restrinja as respostas aos documentos das categorias selecionadas. Sem categorias, o widget usa todos os documentos de treinamento.")}
+                            </FormDescription>
+                            <div className="space-y-2 pt-2">
+                              {trainingCategories && trainingCategories.length > 0 ? (
+                                trainingCategories.map((category) => (
+                                  <div key={category.id} className="flex items-center space-x-2">
+                                    <Checkbox
+                                      id={`widget-category-${category.id}`}
+                                      checked={field.value?.includes(category.id)}
+                                      onCheckedChange={(checked) => {
+                                        const current = field.value || [];
+                                        field.onChange(
+                                          checked
+                                            ? [...current, category.id]
+                                            : current.filter((id) => id !== category.id)
+                                        );
+                                      }}
+                                    />
+                                    <label htmlFor={`widget-category-${category.id}`} className="text-sm">
+                                      {category.name}
+                                    </label>
+                                  </div>
+                                ))
+                              ) : (
+                                <p className="text-sm text-muted-foreground">
+                                  {t("Nenhuma categoria de treinamento cadastrada.")}
+                                </p>
+                              )}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </TabsContent>
+                  
                   <TabsContent value="embed" className="space-y-4 pt-4">
                     {selectedWidget && (
                       <div className="space-y-6">
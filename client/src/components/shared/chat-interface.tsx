@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Paperclip, Image, Send, Loader2, X, ExternalLink } from "lucide-react";
 import { SimpleImage } from "./simple-image";
 import { MarkdownRenderer } from "./markdown-renderer";
+import { MessageSource } from "@shared/schema";
 
 // Função utilitária para otimizar URLs de arquivos
 function getOptimizedFileUrl(fileUrl: string | null): string {
@@ -29,6 +30,28 @@ function getOptimizedFileUrl(fileUrl: string | null): string {
   }
 }
 
+// Id do elemento da nota de rodapé de uma fonte
+function getSourceAnchorId(messageId: number, sourceId: string): string {
+  return `fonte-${messageId}-${sourceId}`;
+}
+
+// Número exibido para a fonte (S3 -> 3)
+function getSourceNumber(sourceId: string): string {
+  return sourceId.replace(/^S/, '');
+}
+
+// Transforma as citações [S1] da resposta em links para as notas de rodapé
+function linkCitations(content: string, messageId: number, sources?: MessageSource[] | null): string {
+  if (!sources || sources.length === 0) return content;
+  
+  const knownIds = new Set(sources.map(source => source.id));
+  return content.replace(/\[(S\d+)\]/g, (tag, sourceId) =>
+    knownIds.has(sourceId)
+      ? `[[${getSourceNumber(sourceId)}]](#${getSourceAnchorId(messageId, sourceId)})`
+      : tag
+  );
+}
+
 // Tipos compartilhados
 interface ChatMessage {
   id: number;
@@ -39,6 +62,7 @@ interface ChatMessage {
   created_at: string;
   is_user: boolean;
   fileBase64?: string; // Adicionado para suporte a fallback base64
+  sources?: MessageSource[] | null; // Fontes citadas pela resposta da IA
 }
 
 interface ChatAvatar {
@@ -77,6 +101,8 @@ interface ChatInterfaceProps {
     downloadFile?: string;
     messageUnavailable?: string;
     supportedFormats?: string;
+    sources?: string;
+    excerpt?: string;
   }
 }
 
@@ -128,7 +154,9 @@ export function ChatInterface({
     online: customTexts.online || t("technician.online"),
     downloadFile: customTexts.downloadFile || t("technician.downloadFile"),
     messageUnavailable: customTexts.messageUnavailable || t("technician.messageUnavailable"),
-    supportedFormats: customTexts.supportedFormats || "Formatos suportados: PNG, JPG, PDF, TXT (máx 50MB)"
+    supportedFormats: customTexts.supportedFormats || "Formatos suportados: PNG, JPG, PDF, TXT (máx 50MB)",
+    sources: customTexts.sources || t("technician.sources"),
+    excerpt: customTexts.excerpt || t("technician.excerpt")
   };
   
   // Scroll para o último mensagem quando novos mensagens são adicionados
@@ -295,11 +323,31 @@ export function ChatInterface({
                     </p>
                   ) : (
                     <MarkdownRenderer 
-                      content={msg.content || ''}
+                      content={linkCitations(msg.content || '', msg.id, msg.sources)}
                       className="text-base" 
                       style={{ fontSize: customStyles.fontSize || '16px' }}
                     />
                   )}
+                  {!msg.is_user && msg.sources && msg.sources.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-neutral-300 space-y-1 text-xs text-neutral-600">
+                      <p className="font-medium">{texts.sources}</p>
+                      {msg.sources.map((source) => (
+                        <div
+                          key={source.id}
+                          id={getSourceAnchorId(msg.id, source.id)}
+                          title={source.snippet}
+                          className="flex gap-1"
+                        >
+                          <span className="font-medium">[{getSourceNumber(source.id)}]</span>
+                          <span>
+                            {source.document_name}
+                            {source.page ? `, p. ${source.page}` : ''}
+                            {source.chunk_index !== null ? ` (${texts.excerpt} ${source.chunk_index + 1})` : ''}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </>
               ) : msg.message_type === "image" ? (
                 <div>
@@ -79,14 +79,32 @@ export function MarkdownRenderer({ content, className, style }: MarkdownRenderer
           td: ({ node, ...props }) => <td className="px-4 py-2" {...props} />,
           
           // Estilizando links
-          a: ({ node, ...props }) => (
-            <a 
-              className="text-primary hover:underline" 
-              target="_blank" 
-              rel="noopener noreferrer" 
-              {...props} 
-            />
-          ),
+          a: ({ node, href, ...props }) => {
+            // Âncoras internas (ex.: notas de rodapé das fontes) rolam até o elemento sem abrir nova aba
+            if (href && href.startsWith('#')) {
+              return (
+                <a
+                  className="text-primary hover:underline"
+                  href={href}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    document.getElementById(href.substring(1))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+                  }}
+                  {...props}
+                />
+              );
+            }
+            
+            return (
+              <a 
+                className="text-primary hover:underline" 
+                href={href}
+                target="_blank" 
+                rel="noopener noreferrer" 
+                {...props} 
+              />
+            );
+          },
           
           // Estilizando divisores
           hr: ({ node, ...props }) => <hr className="my-6 border-neutral-300 dark:border-neutral-700" {...props} />,
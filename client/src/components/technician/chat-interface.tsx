@@ -1,10 +1,12 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLanguage } from "@/hooks/use-language";
 import { useChat } from "@/hooks/use-chat";
 import { useAvatar } from "@/hooks/use-avatar";
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { ChatInterface as SharedChatInterface } from "@/components/shared/chat-interface";
+import { RetrievalFilterBar } from "@/components/technician/retrieval-filters";
+import { RetrievalFilters } from "@shared/schema";
 
 export function ChatInterface() {
   const { t } = useLanguage();
@@ -18,6 +20,8 @@ export function ChatInterface() {
     uploadFileMutation,
     isProcessingLlm,
   } = useChat();
+  // Filtros de marca, modelo, categoria e idioma aplicados à busca nos documentos
+  const [filters, setFilters] = useState<RetrievalFilters>({});
   
   const isLoading = createSessionMutation.isPending || 
                    sendMessageMutation.isPending || 
@@ -53,6 +57,7 @@ export function ChatInterface() {
     sendMessageMutation.mutate({
       sessionId: currentSession.id,
       content,
+      filters,
     });
   };
   
@@ -67,14 +72,17 @@ export function ChatInterface() {
   };
 
   return (
-    <SharedChatInterface
-      messages={messages}
-      currentSession={currentSession}
-      avatar={chatAvatar}
-      isLoading={isLoading}
-      isProcessingLlm={isProcessingLlm}
-      onSendMessage={handleSendMessage}
-      onFileUpload={handleFileUpload}
-    />
+    <>
+      <RetrievalFilterBar filters={filters} onChange={setFilters} />
+      <SharedChatInterface
+        messages={messages}
+        currentSession={currentSession}
+        avatar={chatAvatar}
+        isLoading={isLoading}
+        isProcessingLlm={isProcessingLlm}
+        onSendMessage={handleSendMessage}
+        onFileUpload={handleFileUpload}
+      />
+    </>
   );
 }
\ No newline at end of file
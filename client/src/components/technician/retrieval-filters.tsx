@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLanguage } from "@/hooks/use-language";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter, X } from "lucide-react";
+import { RetrievalFilters } from "@shared/schema";
+
+type RetrievalFilterOptions = {
+  brands: string[];
+  device_models: string[];
+  board_revisions: string[];
+  categories: { id: number; name: string }[];
+};
+
+// Valor usado no Select para "sem filtro" (o Select não aceita valor vazio)
+const ANY = "any";
+
+interface RetrievalFilterBarProps {
+  filters: RetrievalFilters;
+  onChange: (filters: RetrievalFilters) => void;
+}
+
+export function RetrievalFilterBar({ filters, onChange }: RetrievalFilterBarProps) {
+  const { t } = useLanguage();
+  const { data: options } = useQuery<RetrievalFilterOptions>({
+    queryKey: ["/api/chat/retrieval-filters/options"],
+  });
+
+  const hasFilters = Object.keys(filters).length > 0;
+
+  // Remove a chave quando o valor volta para "qualquer"
+  const setFilter = <K extends keyof RetrievalFilters>(key: K, value: RetrievalFilters[K] | undefined) => {
+    const { [key]: _, ...rest } = filters;
+    onChange(value === undefined ? rest : { ...rest, [key]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b bg-neutral-50">
+      <Filter className="h-4 w-4 text-neutral-500" aria-label={t("technician.searchFilters")} />
+
+      <Select
+        value={filters.brand || ANY}
+        onValueChange={(value) => setFilter("brand", value === ANY ? undefined : value)}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue placeholder={t("technician.filterBrand")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("technician.filterBrand")}: {t("technician.filterAny")}</SelectItem>
+          {options?.brands.map(brand => (
+            <SelectItem key={brand} value={brand}>{brand}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.device_models?.[0] || ANY}
+        onValueChange={(value) => setFilter("device_models", value === ANY ? undefined : [value])}
+      >
+        <SelectTrigger className="h-8 w-40 text-xs">
+          <SelectValue placeholder={t("technician.filterModel")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("technician.filterModel")}: {t("technician.filterAny")}</SelectItem>
+          {options?.device_models.map(model => (
+            <SelectItem key={model} value={model}>{model}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.category_ids?.[0]?.toString() || ANY}
+        onValueChange={(value) => setFilter("category_ids", value === ANY ? undefined : [parseInt(value)])}
+      >
+        <SelectTrigger className="h-8 w-40 text-xs">
+          <SelectValue placeholder={t("technician.filterCategory")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("technician.filterCategory")}: {t("technician.filterAny")}</SelectItem>
+          {options?.categories.map(category => (
+            <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.language || ANY}
+        onValueChange={(value) => setFilter("language", value === ANY ? undefined : value as "pt" | "en")}
+      >
+        <SelectTrigger className="h-8 w-44 text-xs">
+          <SelectValue placeholder={t("technician.filterDocumentLanguage")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("technician.filterDocumentLanguage")}: {t("technician.filterAny")}</SelectItem>
+          <SelectItem value="pt">Português</SelectItem>
+          <SelectItem value="en">English</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => onChange({})}>
+          <X className="h-3 w-3 mr-1" />
+          {t("technician.clearFilters")}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -303,7 +303,9 @@ export function EmbeddedChat({ apiKey, initialOpen = false, hideHeader = false,
     online: t("widget.online", "Online"),
     downloadFile: t("widget.downloadFile", "Baixar arquivo"),
     messageUnavailable: t("widget.messageUnavailable", "Conteúdo não disponível"),
-    supportedFormats: t("widget.supportedFormats", "Formatos suportados: PNG, JPG, PDF (máx 50MB)")
+    supportedFormats: t("widget.supportedFormats", "Formatos suportados: PNG, JPG, PDF (máx 50MB)"),
+    sources: t("widget.sources", "Fontes"),
+    excerpt: t("widget.excerpt", "trecho")
   };
   
   // Obtendo os parâmetros da URL e calculando se o header deve ser ocultado - tudo de uma vez para evitar problemas com hooks
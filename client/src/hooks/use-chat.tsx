@@ -1,8 +1,9 @@
 import { createContext, ReactNode, useContext, useState, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiEventStream, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from "@/hooks/use-language";
+import { RetrievalFilters } from "@shared/schema";
 
 interface ChatSession {
   id: number;
@@ -133,18 +134,63 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     mutationFn: async ({
       sessionId,
       content,
+      filters,
     }: {
       sessionId: number;
       content: string;
+      filters?: RetrievalFilters;
     }) => {
       setIsProcessingLlm(true);
       
-      const res = await apiRequest(
-        "POST",
+      const queryKey = ["/api/chat/sessions", sessionId, "messages"];
+      // Mensagem provisória da IA, preenchida à medida que os tokens chegam
+      const streamingId = -Date.now();
+      
+      const updateStreamingMessage = (update: (content: string) => string) => {
+        queryClient.setQueryData<ChatMessage[]>(queryKey, (current = []) => {
+          const existing = current.find((msg) => msg.id === streamingId);
+          if (existing) {
+            return current.map((msg) =>
+              msg.id === streamingId ? { ...msg, content: update(msg.content || "") } : msg
+            );
+          }
+          return [
+            ...current,
+            {
+              id: streamingId,
+              session_id: sessionId,
+              user_id: 0,
+              message_type: "text",
+              content: update(""),
+              file_url: null,
+              created_at: new Date().toISOString(),
+              is_user: false,
+            },
+          ];
+        });
+      };
+      
+      let result: any = null;
+      await apiEventStream(
         `/api/chat/sessions/${sessionId}/messages`,
-        { content }
+        { content, filters },
+        (event, payload) => {
+          if (event === "user_message") {
+            queryClient.setQueryData<ChatMessage[]>(queryKey, (current = []) => [...current, payload]);
+          } else if (event === "token") {
+            updateStreamingMessage((text) => text + payload.delta);
+          } else if (event === "reset") {
+            updateStreamingMessage(() => "");
+          } else if (event === "done") {
+            result = payload;
+            queryClient.setQueryData<ChatMessage[]>(queryKey, (current = []) => {
+              const withoutDraft = current.filter((msg) => msg.id !== streamingId);
+              return payload.aiMessage ? [...withoutDraft, payload.aiMessage] : withoutDraft;
+            });
+          }
+        }
       );
-      return await res.json();
+      return result;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({
@@ -154,6 +200,10 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       setIsProcessingLlm(false);
+      // Descartar a resposta parcial do stream
+      queryClient.invalidateQueries({
+        queryKey: ["/api/chat/sessions", currentSession?.id, "messages"],
+      });
       toast({
         title: t("common.error"),
         description: error.message,
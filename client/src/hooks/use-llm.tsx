@@ -4,9 +4,13 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from "@/hooks/use-language";
 
+export type GroundingMode = "off" | "flag" | "annotate" | "rewrite";
+
 interface LlmConfig {
   id: number;
   model_name: string;
+  provider: string;
+  base_url: string | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -17,6 +21,15 @@ interface LlmConfig {
   tone: "formal" | "normal" | "casual";
   behavior_instructions: string | null;
   should_use_training: boolean;
+  grounding_mode: GroundingMode;
+}
+
+export interface LlmProviderOption {
+  id: string;
+  label: string;
+  default_model: string;
+  requires_api_key: boolean;
+  requires_base_url: boolean;
 }
 
 interface LlmData {
@@ -28,19 +41,25 @@ interface LlmData {
 interface TestConnectionParams {
   model_name: string;
   api_key: string;
+  provider?: string;
+  base_url?: string | null;
 }
 
 interface SaveConfigParams {
   model_name: string;
   api_key: string;
+  provider: string;
+  base_url?: string | null;
   tone: "formal" | "normal" | "casual";
   behavior_instructions: string | null;
   should_use_training: boolean;
+  grounding_mode: GroundingMode;
 }
 
 type LlmContextType = {
   llmData: LlmData | null;
   isLoading: boolean;
+  providers: LlmProviderOption[];
   testConnectionMutation: any;
   saveConfigMutation: any;
   refetchLlmConfig: () => void;
@@ -62,6 +81,12 @@ export function LlmProvider({ children }: { children: ReactNode }) {
     retry: false,
   });
 
+  // Get registered LLM providers
+  const { data: providers = [] } = useQuery<LlmProviderOption[]>({
+    queryKey: ["/api/admin/llm/providers"],
+    retry: false,
+  });
+
   // Test connection mutation
   const testConnectionMutation = useMutation({
     mutationFn: async (params: TestConnectionParams) => {
@@ -117,6 +142,7 @@ export function LlmProvider({ children }: { children: ReactNode }) {
       value={{
         llmData,
         isLoading,
+        providers,
         testConnectionMutation,
         saveConfigMutation,
         refetchLlmConfig,
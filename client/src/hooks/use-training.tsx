@@ -1,9 +1,14 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useTranslation } from "react-i18next";
+import type { IngestionPhase, IngestionProgressEvent } from "@shared/schema";
 
 // Types
+// system_rule e guardrail são sempre incluídos no prompt; reference apenas quando recuperado
+export type DocumentKind = "system_rule" | "guardrail" | "reference";
+
 export type Document = {
   id: number;
   name: string;
@@ -18,6 +23,13 @@ export type Document = {
   status: "pending" | "processing" | "completed" | "error" | "indexed";
   error_message: string | null;
   progress: number | null;
+  processing_phase: IngestionPhase | null;
+  kind: DocumentKind;
+  priority: number;
+  brand: string | null;
+  device_models: string[];
+  board_revision: string | null;
+  metadata_source: "auto" | "manual" | null;
   created_at: string;
   updated_at: string;
   created_by: number;
@@ -34,6 +46,12 @@ export type Category = {
 };
 
 // Form data types
+export type DocumentMetadataFormData = {
+  brand: string | null;
+  device_models: string[];
+  board_revision: string | null;
+};
+
 export type DocumentFormData = {
   name: string;
   description: string | null;
@@ -41,6 +59,8 @@ export type DocumentFormData = {
   content?: string;
   website_url?: string;
   categories?: number[];
+  kind?: DocumentKind;
+  priority?: number;
   file?: File;
   image?: File;
 };
@@ -50,6 +70,35 @@ export type CategoryFormData = {
   description: string | null;
 };
 
+// Progresso da ingestão em tempo real (SSE), enquanto o documento está na fila ou em processamento
+export function useIngestionProgress(document: Document): IngestionProgressEvent | null {
+  const [event, setEvent] = useState<IngestionProgressEvent | null>(null);
+  const enabled = document.status === "pending" || document.status === "processing";
+
+  useEffect(() => {
+    if (!enabled) {
+      setEvent(null);
+      return;
+    }
+
+    const source = new EventSource(`/api/training/documents/${document.id}/progress`, { withCredentials: true });
+    source.addEventListener("progress", (message) => {
+      const data = JSON.parse((message as MessageEvent).data) as IngestionProgressEvent;
+      setEvent(data);
+      if (data.phase === "completed" || data.phase === "error") {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/training/documents"] });
+      }
+    });
+    // Sem reconexão automática: a lista de documentos continua sendo atualizada periodicamente
+    source.onerror = () => source.close();
+
+    return () => source.close();
+  }, [document.id, enabled]);
+
+  return event;
+}
+
 // Training hook
 export function useTraining() {
   const { toast } = useToast();
@@ -67,7 +116,12 @@ export function useTraining() {
       const res = await apiRequest("GET", "/api/training/documents");
       const data = await res.json();
       return data as Document[];
-    }
+    },
+    // O processamento roda na fila do servidor; atualizar enquanto houver documentos aguardando
+    refetchInterval: (query) =>
+      (query.state.data as Document[] | undefined)?.some(doc => doc.status === "pending" || doc.status === "processing")
+        ? 5000
+        : false,
   });
 
   // Mutation genérica para documentos
@@ -102,6 +156,14 @@ export function useTraining() {
         formData.append('website_url', document.website_url);
       }
       
+      if (document.kind) {
+        formData.append('kind', document.kind);
+      }
+      
+      if (document.priority !== undefined) {
+        formData.append('priority', document.priority.toString());
+      }
+      
       if (document.categories && document.categories.length > 0) {
         document.categories.forEach(categoryId => {
           formData.append('categories[]', categoryId.toString());
@@ -375,6 +437,8 @@ export function useTraining() {
           formData.append('description', data.document.description !== null ? data.document.description : '');
         if (data.document.content) formData.append('content', data.document.content);
         if (data.document.website_url) formData.append('website_url', data.document.website_url);
+        if (data.document.kind) formData.append('kind', data.document.kind);
+        if (data.document.priority !== undefined) formData.append('priority', data.document.priority.toString());
         
         // Adicionar o arquivo de imagem
         formData.append('image', data.document.image);
@@ -419,6 +483,28 @@ export function useTraining() {
     }
   });
 
+  // Metadados (marca, modelos, revisão da placa) usados nos filtros da busca
+  const updateDocumentMetadataMutation = useMutation({
+    mutationFn: async (data: { id: number; metadata: DocumentMetadataFormData }) => {
+      const res = await apiRequest("PUT", `/api/training/documents/${data.id}/metadata`, data.metadata);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Sucesso",
+        description: "Metadados do documento atualizados",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/training/documents"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao atualizar metadados do documento",
+        variant: "destructive",
+      });
+    }
+  });
+
   const deleteDocumentMutation = useMutation({
     mutationFn: async (id: number) => {
       const res = await apiRequest("DELETE", `/api/training/documents/${id}`);
@@ -615,6 +701,7 @@ export function useTraining() {
     createFileDocumentMutation,
     createImageDocumentMutation,
     updateDocumentMutation,
+    updateDocumentMetadataMutation,
     deleteDocumentMutation,
     
     // Categories
@@ -1,6 +1,6 @@
 import { createContext, useState, useContext, ReactNode, useRef } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiEventStream } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { v4 as uuidv4 } from 'uuid';
 
@@ -264,6 +264,58 @@ export function WidgetChatProvider({
           );
         }
         
+        // Mensagens do visitante recebem a resposta da IA em streaming (SSE)
+        if (isUser) {
+          const queryKey = ["/api/widgets-messages", sessionId];
+          // Mensagem provisória da IA, preenchida à medida que os tokens chegam
+          const streamingId = -Date.now();
+          
+          const updateStreamingMessage = (update: (content: string) => string) => {
+            queryClient.setQueryData<WidgetChatMessage[]>(queryKey, (current = []) => {
+              if (current.some(msg => msg.id === streamingId)) {
+                return current.map(msg =>
+                  msg.id === streamingId ? { ...msg, content: update(msg.content || "") } : msg
+                );
+              }
+              return [
+                ...current,
+                {
+                  id: streamingId,
+                  session_id: sessionId,
+                  message_type: "text",
+                  content: update(""),
+                  file_url: null,
+                  created_at: new Date().toISOString(),
+                  is_user: false
+                }
+              ];
+            });
+          };
+          
+          let result: any = null;
+          await apiEventStream("/api/widgets-messages", {
+            session_id: sessionId,
+            content,
+            message_type: messageType,
+            is_user: isUser
+          }, (event, payload) => {
+            if (event === "token") {
+              // O texto parcial substitui a animação de carregamento
+              setIsProcessingLlm(false);
+              updateStreamingMessage(text => text + payload.delta);
+            } else if (event === "reset") {
+              updateStreamingMessage(() => "");
+            } else if (event === "done") {
+              result = payload;
+              queryClient.setQueryData<WidgetChatMessage[]>(queryKey, (current = []) =>
+                current.filter(msg => msg.id !== streamingId)
+              );
+            }
+          });
+          
+          return result;
+        }
+        
         // Enviar a mensagem
         const res = await apiRequest("POST", "/api/widgets-messages", {
           session_id: sessionId,
@@ -314,7 +366,8 @@ export function WidgetChatProvider({
       // Filtrar mensagens temporárias (criadas pelo preview)
       const filteredMessages = currentMessages.filter(msg => 
         // Manter mensagens que não sejam do usuário ou que tenham ID mais antigo
-        !msg.is_user || msg.id < Date.now() - 10000
+        // (IDs negativos são rascunhos do streaming)
+        msg.id > 0 && (!msg.is_user || msg.id < Date.now() - 10000)
       );
       
       const newMessages = [...filteredMessages];
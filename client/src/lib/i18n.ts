@@ -97,6 +97,15 @@ const enTranslations = {
     online: 'Online',
     messageUnavailable: 'Message unavailable',
     downloadFile: 'Download file',
+    sources: 'Sources',
+    excerpt: 'excerpt',
+    searchFilters: 'Search filters',
+    filterBrand: 'Brand',
+    filterModel: 'Model',
+    filterCategory: 'Category',
+    filterDocumentLanguage: 'Document language',
+    filterAny: 'Any',
+    clearFilters: 'Clear filters',
     botWelcome: "Hello! I'm the ToledoIA Bot. How can I help with your maintenance today? You can send images or files of the circuit board for analysis."
   },
   admin: {
@@ -199,6 +208,14 @@ const enTranslations = {
     widgetMessages: 'Widget Messages',
     widgetInteractions: 'Interactive sessions with visitors',
     uniqueVisitors: 'Unique visitors',
+    responseCacheStats: 'Response Cache',
+    cacheHitRate: 'Cache hit rate',
+    cacheHitsMisses: 'answered from cache / answered by the LLM',
+    cacheEntries: 'Cached answers',
+    cacheEntriesHint: 'Valid entries, invalidated when documents change',
+    cacheLast30Days: 'Last 30 days',
+    clearCache: 'Clear cache',
+    cacheCleared: 'Response cache cleared',
     
     actionUserLogin: 'User login',
     actionUserLogout: 'User logout',
@@ -270,7 +287,7 @@ const enTranslations = {
     newDocumentTraining: 'New Document Training',
     documentFileLabel: 'Document File',
     selectDocumentFile: 'Select Document File',
-    documentSizeLimit: 'Max size: 50MB. Supported formats: PDF, DOC, DOCX, TXT',
+    documentSizeLimit: 'Max size: 50MB. Supported formats: PDF, DOC, DOCX, TXT, XLSX, CSV, MD, HTML, PPTX',
     documentDescriptionPlaceholder: 'Enter document description (optional)',
     supportedDocumentFormats: 'Supported formats',
     submitDocument: 'Submit Document',
@@ -300,6 +317,16 @@ const enTranslations = {
       completed: 'Completed',
       error: 'Error'
     },
+    ingestionPhases: {
+      queued: 'Queued',
+      extracting: 'Extracting content',
+      chunking: 'Splitting into chunks',
+      embedding: 'Generating embeddings',
+      indexing: 'Indexing',
+      completed: 'Completed',
+      error: 'Error'
+    },
+    ingestionChunks: '{{processed}}/{{total}} chunks',
     enterCategoryName: 'Enter category name',
     enterDocumentDescription: 'Enter document description (optional)',
     enterCategoryDescription: 'Enter category description (optional)',
@@ -540,6 +567,15 @@ const ptTranslations = {
     online: 'Online',
     messageUnavailable: 'Mensagem indisponível',
     downloadFile: 'Baixar arquivo',
+    sources: 'Fontes',
+    excerpt: 'trecho',
+    searchFilters: 'Filtros da busca',
+    filterBrand: 'Marca',
+    filterModel: 'Modelo',
+    filterCategory: 'Categoria',
+    filterDocumentLanguage: 'Idioma dos documentos',
+    filterAny: 'Qualquer',
+    clearFilters: 'Limpar filtros',
     botWelcome: "Olá! Sou o Bot ToledoIA. Como posso ajudar com sua manutenção hoje? Você pode enviar imagens ou arquivos da placa de circuito para análise."
   },
   admin: {
@@ -558,6 +594,14 @@ const ptTranslations = {
     widgetMessages: 'Mensagens de Widget',
     widgetInteractions: 'Sessões interativas com visitantes',
     uniqueVisitors: 'Visitantes únicos',
+    responseCacheStats: 'Cache de Respostas',
+    cacheHitRate: 'Taxa de acerto do cache',
+    cacheHitsMisses: 'respondidas pelo cache / respondidas pelo LLM',
+    cacheEntries: 'Respostas em cache',
+    cacheEntriesHint: 'Entradas válidas, invalidadas quando os documentos mudam',
+    cacheLast30Days: 'Últimos 30 dias',
+    clearCache: 'Limpar cache',
+    cacheCleared: 'Cache de respostas limpo',
     dashboard: 'Dashboard',
     settings: 'Configurações',
     users: 'Usuários',
@@ -691,7 +735,7 @@ const ptTranslations = {
     newDocumentTraining: 'Novo Treinamento de Documento',
     documentFileLabel: 'Arquivo de Documento',
     selectDocumentFile: 'Selecionar Arquivo de Documento',
-    documentSizeLimit: 'Tamanho máximo: 50MB. Formatos suportados: PDF, DOC, DOCX, TXT',
+    documentSizeLimit: 'Tamanho máximo: 50MB. Formatos suportados: PDF, DOC, DOCX, TXT, XLSX, CSV, MD, HTML, PPTX',
     documentDescriptionPlaceholder: 'Digite a descrição do documento (opcional)',
     supportedDocumentFormats: 'Formatos suportados',
     submitDocument: 'Enviar Documento',
@@ -721,6 +765,16 @@ const ptTranslations = {
       completed: 'Concluído',
       error: 'Erro'
     },
+    ingestionPhases: {
+      queued: 'Na fila',
+      extracting: 'Extraindo conteúdo',
+      chunking: 'Dividindo em chunks',
+      embedding: 'Gerando embeddings',
+      indexing: 'Indexando',
+      completed: 'Concluído',
+      error: 'Erro'
+    },
+    ingestionChunks: '{{processed}}/{{total}} chunks',
     selectCategories: 'Selecionar Categorias',
     creating: 'Criando...',
     create: 'Criar',
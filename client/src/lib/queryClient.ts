@@ -23,6 +23,71 @@ export async function apiRequest(
   return res;
 }
 
+// Faz um POST pedindo Server-Sent Events e entrega cada evento recebido.
+// Um evento "error" do servidor é convertido em exceção.
+export async function apiEventStream(
+  url: string,
+  data: unknown,
+  onEvent: (event: string, payload: any) => void,
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+
+  if (!res.body) {
+    throw new Error("Streaming not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trim());
+      }
+    }
+    if (dataLines.length === 0) return;
+
+    const payload = JSON.parse(dataLines.join("\n"));
+    if (event === "error") {
+      throw new Error(payload?.message || "Stream error");
+    }
+    onEvent(event, payload);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r/g, "");
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      dispatch(block);
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,5 @@
+-- Verificação de fundamentação das respostas: cada afirmação da resposta é conferida contra os
+-- chunks recuperados antes de responder. off = desativada; flag = apenas registra o resultado
+-- no rastreamento; annotate = acrescenta aviso "não encontrado nos manuais"; rewrite = reescreve
+-- a resposta mantendo só o que os manuais sustentam
+ALTER TABLE llm_configs ADD COLUMN IF NOT EXISTS grounding_mode TEXT NOT NULL DEFAULT 'off';
@@ -0,0 +1,7 @@
+-- Re-indexação incremental: os chunks são comparados pelo hash do conteúdo e
+-- embeddings de chunks idênticos (inclusive de outros documentos) são reaproveitados.
+CREATE INDEX IF NOT EXISTS document_chunks_content_hash_idx
+  ON document_chunks (content_hash);
+
+CREATE INDEX IF NOT EXISTS document_chunks_document_id_idx
+  ON document_chunks (document_id);
@@ -0,0 +1,12 @@
+-- Busca textual nos chunks com tsvector: dicionário conforme o idioma do chunk
+-- (stemming e stopwords de português ou inglês) e ranking com ts_rank_cd.
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    CASE WHEN language = 'en'
+      THEN to_tsvector('english'::regconfig, content)
+      ELSE to_tsvector('portuguese'::regconfig, content)
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS document_chunks_search_vector_idx
+  ON document_chunks USING gin (search_vector);
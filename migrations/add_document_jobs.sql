@@ -0,0 +1,31 @@
+-- Fila persistente do processamento de documentos: extração de conteúdo e indexação rodam como jobs
+-- reservados por lease, com novas tentativas e status "dead" após esgotar as tentativas.
+CREATE TABLE IF NOT EXISTS document_jobs (
+  id SERIAL PRIMARY KEY,
+  document_id INTEGER NOT NULL REFERENCES training_documents(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  lease_expires_at TIMESTAMP,
+  last_error TEXT,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- Reserva de jobs: pendentes prontos para rodar e em execução com lease vencido
+CREATE INDEX IF NOT EXISTS document_jobs_claim_idx ON document_jobs (status, run_at);
+CREATE INDEX IF NOT EXISTS document_jobs_document_idx ON document_jobs (document_id);
+
+-- Documentos que ficaram em "processing" sem job (processamento antigo, interrompido) voltam para a fila
+INSERT INTO document_jobs (document_id, type)
+SELECT id, CASE WHEN content IS NULL OR content = '' THEN 'extract' ELSE 'index' END
+FROM training_documents
+WHERE status = 'processing'
+  AND NOT EXISTS (
+    SELECT 1 FROM document_jobs j WHERE j.document_id = training_documents.id AND j.status IN ('pending', 'running')
+  );
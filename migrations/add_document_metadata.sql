@@ -0,0 +1,14 @@
+-- Metadados estruturados dos documentos de treinamento (marca, modelos de aparelho e revisão da placa),
+-- extraídos automaticamente na indexação ou editados pelo administrador. Valores em minúsculas.
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS brand TEXT;
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS device_models TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS board_revision TEXT;
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS metadata_source TEXT;
+
+-- Cópia dos metadados nos chunks para filtrar a busca sem junção com training_documents
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS brand TEXT;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS device_models TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS board_revision TEXT;
+
+CREATE INDEX IF NOT EXISTS document_chunks_brand_idx ON document_chunks (brand);
+CREATE INDEX IF NOT EXISTS document_chunks_device_models_idx ON document_chunks USING GIN (device_models);
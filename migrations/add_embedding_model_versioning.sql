@@ -0,0 +1,36 @@
+-- Versionamento do modelo de embedding: cada vetor guarda o modelo e a dimensão que o geraram,
+-- e a busca compara apenas vetores do modelo ativo.
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS embedding_dim INTEGER;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_dim INTEGER;
+
+-- Entradas de documentos da base de conhecimento sempre foram geradas com o text-embedding-ada-002
+UPDATE knowledge_base
+SET embedding_model = 'text-embedding-ada-002', embedding_dim = 1536
+WHERE source_type = 'document' AND embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Chunks com vetor de 1536 dimensões vieram do modelo padrão da OpenAI (único com essa dimensão em uso);
+-- os demais ficam sem modelo e serão regerados pela migração de embeddings
+UPDATE document_chunks
+SET embedding_model = 'text-embedding-3-small', embedding_dim = 1536
+WHERE embedding_vector IS NOT NULL AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_model_idx ON document_chunks (embedding_model);
+CREATE INDEX IF NOT EXISTS knowledge_base_embedding_model_idx ON knowledge_base (embedding_model);
+
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id SERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running',
+  target_model TEXT NOT NULL,
+  total INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  reused INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  last_chunk_id INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_by INTEGER REFERENCES users(id),
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
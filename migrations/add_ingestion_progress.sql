@@ -0,0 +1,6 @@
+-- Fase atual da ingestão do documento (queued, extracting, chunking, embedding, indexing, completed, error),
+-- exibida junto com o progresso na lista de documentos de treinamento
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS processing_phase TEXT;
+
+UPDATE training_documents SET processing_phase = 'completed' WHERE status IN ('completed', 'indexed') AND processing_phase IS NULL;
+UPDATE training_documents SET processing_phase = 'error' WHERE status = 'error' AND processing_phase IS NULL;
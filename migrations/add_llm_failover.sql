@@ -0,0 +1,6 @@
+-- Cadeia de failover de LLM: configurações com fallback_order preenchido são usadas,
+-- em ordem crescente, quando a configuração ativa falha
+ALTER TABLE llm_configs ADD COLUMN IF NOT EXISTS fallback_order INTEGER;
+
+-- Registro de failover no log de uso: "provedor/modelo" que assumiu a chamada após a falha
+ALTER TABLE llm_usage_logs ADD COLUMN IF NOT EXISTS failover_to TEXT;
@@ -0,0 +1,7 @@
+-- Adiciona o provedor explícito e a URL base às configurações de LLM
+ALTER TABLE llm_configs ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'anthropic';
+ALTER TABLE llm_configs ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+-- Preencher o provedor das configurações existentes a partir do nome do modelo
+UPDATE llm_configs SET provider = 'openai'
+WHERE provider = 'anthropic' AND (model_name LIKE 'gpt%' OR model_name ~ '^o[0-9]');
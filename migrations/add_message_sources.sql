@@ -0,0 +1,3 @@
+-- Fontes citadas nas respostas do RAG (documento, chunk, trecho e página), exibidas como notas de rodapé
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS sources JSON;
+ALTER TABLE widget_chat_messages ADD COLUMN IF NOT EXISTS sources JSON;
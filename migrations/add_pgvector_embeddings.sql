@@ -0,0 +1,25 @@
+-- Busca por similaridade no próprio Postgres com pgvector, sem depender da RPC do Supabase.
+-- A coluna texto "embedding" é mantida por compatibilidade; "embedding_vector" é a usada nas consultas.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_vector vector(1536);
+ALTER TABLE knowledge_base ADD COLUMN IF NOT EXISTS embedding_vector vector(1536);
+
+-- Copia os embeddings já gravados como JSON (apenas os que têm a dimensão esperada)
+UPDATE document_chunks
+SET embedding_vector = embedding::vector
+WHERE embedding_vector IS NULL
+  AND embedding LIKE '[%'
+  AND json_array_length(embedding::json) = 1536;
+
+UPDATE knowledge_base
+SET embedding_vector = embedding::vector
+WHERE embedding_vector IS NULL
+  AND embedding LIKE '[%'
+  AND json_array_length(embedding::json) = 1536;
+
+-- Índices HNSW para distância de cosseno (operador <=>)
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_vector_idx
+  ON document_chunks USING hnsw (embedding_vector vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS knowledge_base_embedding_vector_idx
+  ON knowledge_base USING hnsw (embedding_vector vector_cosine_ops);
@@ -0,0 +1,57 @@
+-- Avaliação do RAG com conjuntos de perguntas de referência (golden sets).
+-- Cada execução guarda as métricas (hit rate, MRR, nota do juiz LLM) para comparar mudanças de chunking/modelo.
+CREATE TABLE IF NOT EXISTS rag_eval_sets (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS rag_eval_questions (
+  id SERIAL PRIMARY KEY,
+  set_id INTEGER NOT NULL REFERENCES rag_eval_sets(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  expected_answer TEXT NOT NULL,
+  expected_document_ids INTEGER[] NOT NULL DEFAULT '{}'::integer[],
+  language TEXT NOT NULL DEFAULT 'pt',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rag_eval_questions_set_id_idx ON rag_eval_questions (set_id);
+
+CREATE TABLE IF NOT EXISTS rag_eval_runs (
+  id SERIAL PRIMARY KEY,
+  set_id INTEGER NOT NULL REFERENCES rag_eval_sets(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running',
+  label TEXT,
+  config JSON,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  hit_rate REAL,
+  mrr REAL,
+  answer_score REAL,
+  error_message TEXT,
+  created_by INTEGER REFERENCES users(id),
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS rag_eval_runs_set_id_idx ON rag_eval_runs (set_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS rag_eval_results (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES rag_eval_runs(id) ON DELETE CASCADE,
+  question_id INTEGER NOT NULL REFERENCES rag_eval_questions(id) ON DELETE CASCADE,
+  answer TEXT,
+  retrieved_document_ids INTEGER[] NOT NULL DEFAULT '{}'::integer[],
+  hit BOOLEAN NOT NULL DEFAULT FALSE,
+  reciprocal_rank REAL NOT NULL DEFAULT 0,
+  answer_score REAL,
+  judge_reasoning TEXT,
+  latency_ms INTEGER,
+  error_message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rag_eval_results_run_id_idx ON rag_eval_results (run_id);
@@ -0,0 +1,30 @@
+-- Cache semântico de respostas: perguntas quase idênticas no mesmo escopo (widget, categorias,
+-- idioma e modelo) reutilizam a resposta gravada em vez de repetir a busca e a chamada ao LLM.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS response_cache (
+  id SERIAL PRIMARY KEY,
+  scope_key TEXT NOT NULL,
+  query TEXT NOT NULL,
+  embedding_vector vector(1536) NOT NULL,
+  embedding_model TEXT NOT NULL,
+  response TEXT NOT NULL,
+  sources JSON NOT NULL DEFAULT '[]',
+  document_ids INTEGER[] NOT NULL DEFAULT '{}'::integer[],
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_hit_at TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS response_cache_scope_key_idx ON response_cache (scope_key, embedding_model);
+-- Invalidação pelos documentos usados na resposta (operador &&)
+CREATE INDEX IF NOT EXISTS response_cache_document_ids_idx ON response_cache USING gin (document_ids);
+CREATE INDEX IF NOT EXISTS response_cache_embedding_vector_idx
+  ON response_cache USING hnsw (embedding_vector vector_cosine_ops);
+
+CREATE TABLE IF NOT EXISTS response_cache_stats (
+  day TEXT PRIMARY KEY,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0
+);
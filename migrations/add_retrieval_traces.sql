@@ -0,0 +1,14 @@
+-- Rastreamento da recuperação de cada resposta do bot (tópicos, intenção, chunks e scores,
+-- documentos prioritários, busca externa e tamanho do prompt), para o inspetor do administrador.
+-- Tabela separada das mensagens para não expor o prompt aos clientes do chat e do widget.
+CREATE TABLE IF NOT EXISTS retrieval_traces (
+  id SERIAL PRIMARY KEY,
+  chat_message_id INTEGER REFERENCES chat_messages(id) ON DELETE CASCADE,
+  widget_message_id INTEGER REFERENCES widget_chat_messages(id) ON DELETE CASCADE,
+  trace JSON NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrieval_traces_chat_message ON retrieval_traces(chat_message_id);
+CREATE INDEX IF NOT EXISTS idx_retrieval_traces_widget_message ON retrieval_traces(widget_message_id);
+CREATE INDEX IF NOT EXISTS idx_retrieval_traces_created_at ON retrieval_traces(created_at DESC);
@@ -0,0 +1,18 @@
+-- Tipo e prioridade explícitos para documentos de treinamento.
+-- system_rule e guardrail são sempre incluídos no prompt; reference apenas quando recuperado pela busca.
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'reference';
+ALTER TABLE training_documents ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+
+-- Migração única dos documentos antes identificados por heurística de nome/conteúdo.
+-- Instruções de não encaminhar a técnicos externos viram guardrails (prioridade mais alta).
+UPDATE training_documents
+SET kind = 'guardrail', priority = 100
+WHERE kind = 'reference'
+  AND LOWER(COALESCE(content, '')) ~ '(nunca levar|não levar|jamais levar|não recorrer|não consultar|nunca consultar|nunca recorrer|não deve levar|nunca deve levar)';
+
+UPDATE training_documents
+SET kind = 'system_rule', priority = 50
+WHERE kind = 'reference'
+  AND LOWER(name) ~ '(instruç|instruc|priorit|regras|nunca|proibid|obrigat)';
+
+CREATE INDEX IF NOT EXISTS training_documents_kind_idx ON training_documents (kind, priority DESC) WHERE kind <> 'reference';
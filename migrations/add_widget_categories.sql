@@ -0,0 +1,12 @@
+-- Escopo de conhecimento por widget: categorias de treinamento vinculadas ao widget.
+-- Widgets sem categorias continuam buscando em todos os documentos.
+-- Sem ON DELETE CASCADE na categoria: excluir uma categoria em uso deixaria o widget sem escopo
+CREATE TABLE IF NOT EXISTS widget_categories (
+  id SERIAL PRIMARY KEY,
+  widget_id UUID NOT NULL REFERENCES chat_widgets(id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES training_categories(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (widget_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS widget_categories_widget_id_idx ON widget_categories (widget_id);
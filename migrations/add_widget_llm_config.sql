@@ -0,0 +1,6 @@
+-- Configuração de LLM por widget: modelo (linha de llm_configs), temperatura, tom e instruções de comportamento.
+-- Campos nulos herdam a configuração global ativa
+ALTER TABLE chat_widgets ADD COLUMN IF NOT EXISTS llm_config_id INTEGER REFERENCES llm_configs(id) ON DELETE SET NULL;
+ALTER TABLE chat_widgets ADD COLUMN IF NOT EXISTS llm_temperature TEXT;
+ALTER TABLE chat_widgets ADD COLUMN IF NOT EXISTS llm_tone TEXT;
+ALTER TABLE chat_widgets ADD COLUMN IF NOT EXISTS llm_behavior_instructions TEXT;
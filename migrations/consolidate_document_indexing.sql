@@ -0,0 +1,12 @@
+-- Indexação única: os documentos de treinamento passam a ser indexados apenas em document_chunks.
+-- As entradas de trechos de documento na knowledge_base (pipeline antigo) deixam de ser usadas.
+DELETE FROM knowledge_base WHERE source_type = 'document';
+
+-- Documentos treinados apenas pelo pipeline antigo não têm chunks: voltam para "completed"
+-- para serem reprocessados por "Gerar embeddings" (que indexa os documentos nesse status).
+UPDATE training_documents
+SET status = 'completed', progress = 0
+WHERE status = 'indexed'
+  AND NOT EXISTS (
+    SELECT 1 FROM document_chunks WHERE document_chunks.document_id = training_documents.id
+  );
@@ -4,6 +4,19 @@ import { extractQueryTopics, processQueryWithRAG } from "./rag-processor";
 import { storage } from "./storage";
 import { logAction } from "./audit";
 import { systemMaintenanceService } from "./system-maintenance";
+import { startRagEvaluationRun } from "./rag-evaluation";
+import { createRetrievalTrace } from "./retrieval-trace";
+import { startEmbeddingMigration, getEmbeddingMigrationStatus } from "./embedding-migration";
+import { getResponseCacheSummary } from "./response-cache";
+import { getDocumentJobQueueStatus, retryDocumentJob } from "./document-jobs";
+import { insertRagEvalSetSchema, insertRagEvalQuestionSchema, RetrievalTrace } from "@shared/schema";
+import { z } from "zod";
+
+// Validação dos conjuntos e perguntas de avaliação do RAG
+const ragEvalSetBodySchema = insertRagEvalSetSchema.omit({ created_by: true });
+const ragEvalQuestionBodySchema = insertRagEvalQuestionSchema.omit({ set_id: true }).extend({
+  expected_document_ids: z.array(z.number().int().positive()).default([])
+});
 
 // Registra as rotas específicas para administradores
 export function registerAdminRoutes(app: Express) {
@@ -198,9 +211,11 @@ export function registerAdminRoutes(app: Express) {
       console.log(`[Admin RAG Test] Encontrados ${documents.length} documentos relevantes`);
       
       // Gerar resposta utilizando o processador RAG
-      const response = await processQueryWithRAG(query, {
+      const trace = createRetrievalTrace(query);
+      const { text: response, sources } = await processQueryWithRAG(query, {
         language: 'pt',
-        userId: req.user!.id
+        userId: req.user!.id,
+        trace
       });
       
       // Registrar a ação de teste do RAG
@@ -220,7 +235,9 @@ export function registerAdminRoutes(app: Express) {
         query,
         topics,
         documents,
-        response
+        response,
+        sources,
+        trace
       });
     } catch (error) {
       console.error("Erro ao testar sistema RAG:", error);
@@ -230,4 +247,300 @@ export function registerAdminRoutes(app: Express) {
       });
     }
   });
-}
\ No newline at end of file
+
+  // Rastreamento da recuperação das respostas do bot ("por que ele respondeu isso?")
+  app.get("/api/admin/retrieval-traces", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const records = await storage.getRecentRetrievalTraces(limit);
+      
+      // Apenas o resumo; o rastreamento completo (com o prompt) é buscado por mensagem
+      res.json(records.map(record => {
+        const trace = record.trace as RetrievalTrace;
+        return {
+          id: record.id,
+          chat_message_id: record.chat_message_id,
+          widget_message_id: record.widget_message_id,
+          created_at: record.created_at,
+          query: trace.query,
+          path: trace.path,
+          chunk_count: trace.chunks.length,
+          external_search_used: trace.external_search.used,
+          grounding_status: trace.grounding?.status ?? null,
+          prompt_tokens: trace.prompt_tokens
+        };
+      }));
+    } catch (error) {
+      console.error("Erro ao listar rastreamentos de recuperação:", error);
+      res.status(500).json({ message: "Erro ao listar rastreamentos de recuperação" });
+    }
+  });
+
+  app.get("/api/admin/retrieval-traces/:source/:messageId", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const { source } = req.params;
+      const messageId = parseInt(req.params.messageId);
+      if ((source !== 'chat' && source !== 'widget') || isNaN(messageId)) {
+        return res.status(400).json({ message: "Mensagem inválida" });
+      }
+      
+      const record = await storage.getRetrievalTraceByMessage(source, messageId);
+      if (!record) {
+        return res.status(404).json({ message: "Nenhum rastreamento encontrado para esta mensagem" });
+      }
+      
+      res.json(record);
+    } catch (error) {
+      console.error("Erro ao buscar rastreamento de recuperação:", error);
+      res.status(500).json({ message: "Erro ao buscar rastreamento de recuperação" });
+    }
+  });
+
+  // Embeddings: modelo ativo, chunks por modelo e migração para o modelo ativo
+  app.get("/api/admin/embeddings/status", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      res.json(await getEmbeddingMigrationStatus());
+    } catch (error) {
+      console.error("Erro ao obter situação dos embeddings:", error);
+      res.status(500).json({ message: "Erro ao obter situação dos embeddings" });
+    }
+  });
+
+  app.post("/api/admin/embeddings/migrate", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const job = await startEmbeddingMigration(req.user!.id);
+      
+      await logAction({
+        userId: req.user!.id,
+        action: "embedding_migration_started",
+        details: { jobId: job.id, targetModel: job.target_model, total: job.total },
+        ipAddress: req.ip
+      });
+      
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Erro ao iniciar migração de embeddings:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Erro ao iniciar migração de embeddings" });
+    }
+  });
+
+  // Fila de processamento de documentos: jobs por status e nova tentativa dos desistidos
+  app.get("/api/admin/document-jobs", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      res.json(await getDocumentJobQueueStatus(limit));
+    } catch (error) {
+      console.error("Erro ao obter a fila de processamento de documentos:", error);
+      res.status(500).json({ message: "Erro ao obter a fila de processamento de documentos" });
+    }
+  });
+
+  app.post("/api/admin/document-jobs/:id/retry", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const job = await retryDocumentJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Job não encontrado ou não está desistido" });
+      }
+      
+      await logAction({
+        userId: req.user!.id,
+        action: "document_job_retried",
+        details: { jobId: job.id, type: job.type, documentId: job.document_id },
+        ipAddress: req.ip
+      });
+      
+      res.json(job);
+    } catch (error) {
+      console.error("Erro ao repetir job de documento:", error);
+      res.status(500).json({ message: "Erro ao repetir job de documento" });
+    }
+  });
+
+  // Cache semântico de respostas: taxa de acerto e limpeza manual
+  app.get("/api/admin/response-cache/stats", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const days = Math.min(parseInt(req.query.days as string) || 30, 365);
+      res.json(await getResponseCacheSummary(days));
+    } catch (error) {
+      console.error("Erro ao obter estatísticas do cache de respostas:", error);
+      res.status(500).json({ message: "Erro ao obter estatísticas do cache de respostas" });
+    }
+  });
+
+  app.delete("/api/admin/response-cache", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const removed = await storage.clearResponseCache();
+      
+      await logAction({
+        userId: req.user!.id,
+        action: "response_cache_cleared",
+        details: { removed },
+        ipAddress: req.ip
+      });
+      
+      res.json({ removed });
+    } catch (error) {
+      console.error("Erro ao limpar o cache de respostas:", error);
+      res.status(500).json({ message: "Erro ao limpar o cache de respostas" });
+    }
+  });
+
+  // Avaliação do RAG: conjuntos de perguntas de referência e execuções em lote
+  app.get("/api/admin/rag-eval/sets", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getRagEvalSets());
+    } catch (error) {
+      console.error("Erro ao listar conjuntos de avaliação:", error);
+      res.status(500).json({ message: "Erro ao listar conjuntos de avaliação" });
+    }
+  });
+
+  app.post("/api/admin/rag-eval/sets", isAuthenticated, checkRole("admin"), async (req, res) => {
+    const parsed = ragEvalSetBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
+    }
+
+    try {
+      const evalSet = await storage.createRagEvalSet({ ...parsed.data, created_by: req.user!.id });
+      res.status(201).json(evalSet);
+    } catch (error) {
+      console.error("Erro ao criar conjunto de avaliação:", error);
+      res.status(500).json({ message: "Erro ao criar conjunto de avaliação" });
+    }
+  });
+
+  app.put("/api/admin/rag-eval/sets/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
+    const parsed = ragEvalSetBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
+    }
+
+    try {
+      const evalSet = await storage.updateRagEvalSet(parseInt(req.params.id), parsed.data);
+      if (!evalSet) {
+        return res.status(404).json({ message: "Conjunto de avaliação não encontrado" });
+      }
+      res.json(evalSet);
+    } catch (error) {
+      console.error("Erro ao atualizar conjunto de avaliação:", error);
+      res.status(500).json({ message: "Erro ao atualizar conjunto de avaliação" });
+    }
+  });
+
+  app.delete("/api/admin/rag-eval/sets/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteRagEvalSet(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Erro ao excluir conjunto de avaliação:", error);
+      res.status(500).json({ message: "Erro ao excluir conjunto de avaliação" });
+    }
+  });
+
+  app.get("/api/admin/rag-eval/sets/:id/questions", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getRagEvalQuestions(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Erro ao listar perguntas de avaliação:", error);
+      res.status(500).json({ message: "Erro ao listar perguntas de avaliação" });
+    }
+  });
+
+  app.post("/api/admin/rag-eval/sets/:id/questions", isAuthenticated, checkRole("admin"), async (req, res) => {
+    const parsed = ragEvalQuestionBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
+    }
+
+    try {
+      const setId = parseInt(req.params.id);
+      if (!(await storage.getRagEvalSet(setId))) {
+        return res.status(404).json({ message: "Conjunto de avaliação não encontrado" });
+      }
+      const question = await storage.createRagEvalQuestion({ ...parsed.data, set_id: setId });
+      res.status(201).json(question);
+    } catch (error) {
+      console.error("Erro ao criar pergunta de avaliação:", error);
+      res.status(500).json({ message: "Erro ao criar pergunta de avaliação" });
+    }
+  });
+
+  app.put("/api/admin/rag-eval/questions/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
+    const parsed = ragEvalQuestionBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
+    }
+
+    try {
+      const question = await storage.updateRagEvalQuestion(parseInt(req.params.id), parsed.data);
+      if (!question) {
+        return res.status(404).json({ message: "Pergunta de avaliação não encontrada" });
+      }
+      res.json(question);
+    } catch (error) {
+      console.error("Erro ao atualizar pergunta de avaliação:", error);
+      res.status(500).json({ message: "Erro ao atualizar pergunta de avaliação" });
+    }
+  });
+
+  app.delete("/api/admin/rag-eval/questions/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteRagEvalQuestion(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Erro ao excluir pergunta de avaliação:", error);
+      res.status(500).json({ message: "Erro ao excluir pergunta de avaliação" });
+    }
+  });
+
+  app.get("/api/admin/rag-eval/sets/:id/runs", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getRagEvalRuns(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Erro ao listar execuções de avaliação:", error);
+      res.status(500).json({ message: "Erro ao listar execuções de avaliação" });
+    }
+  });
+
+  app.post("/api/admin/rag-eval/sets/:id/runs", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const setId = parseInt(req.params.id);
+      if (!(await storage.getRagEvalSet(setId))) {
+        return res.status(404).json({ message: "Conjunto de avaliação não encontrado" });
+      }
+
+      const label = typeof req.body.label === "string" ? req.body.label : undefined;
+      const run = await startRagEvaluationRun(setId, { label, userId: req.user!.id });
+
+      await logAction({
+        userId: req.user!.id,
+        action: "rag_evaluation_run",
+        details: { setId, runId: run.id, label },
+        ipAddress: req.ip
+      });
+
+      res.status(202).json(run);
+    } catch (error) {
+      console.error("Erro ao iniciar avaliação do RAG:", error);
+      res.status(400).json({
+        message: "Erro ao iniciar avaliação do RAG",
+        error: error instanceof Error ? error.message : "Erro desconhecido"
+      });
+    }
+  });
+
+  app.get("/api/admin/rag-eval/runs/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const runId = parseInt(req.params.id);
+      const run = await storage.getRagEvalRun(runId);
+      if (!run) {
+        return res.status(404).json({ message: "Execução de avaliação não encontrada" });
+      }
+      res.json({ ...run, results: await storage.getRagEvalResults(runId) });
+    } catch (error) {
+      console.error("Erro ao buscar execução de avaliação:", error);
+      res.status(500).json({ message: "Erro ao buscar execução de avaliação" });
+    }
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Verificação de fundamentação das respostas (alucinação)
+ *
+ * O modelo pode responder com valores e procedimentos que nenhum chunk recuperado sustenta,
+ * e para um técnico uma tensão inventada é pior do que nenhuma resposta. Depois da geração,
+ * um LLM juiz separa as afirmações factuais da resposta e confere cada uma contra os trechos
+ * que estavam no contexto. Conforme o modo da configuração LLM (grounding_mode), uma resposta
+ * com sustentação fraca é apenas sinalizada, recebe um aviso de "não encontrado nos manuais"
+ * ou é reescrita mantendo só o que os trechos sustentam. O resultado fica no rastreamento da
+ * mensagem (trace.grounding).
+ */
+import { GroundingClaim, GroundingVerdict, RetrievalTrace } from '@shared/schema';
+import { LlmFullConfig } from './llm';
+import { LlmStreamListener, getLlmProvider } from './llm-providers';
+import { runWithFailover } from './llm-failover';
+
+// Fração mínima de afirmações sustentadas para considerar a resposta fundamentada
+const GROUNDED_MIN_SCORE = 0.8;
+// Abaixo desta fração a resposta é considerada sem sustentação
+const WEAK_MIN_SCORE = 0.5;
+// Limites do texto dos trechos enviado ao juiz
+const EVIDENCE_MAX_CHARS_PER_DOCUMENT = 4000;
+const EVIDENCE_MAX_CHARS = 24000;
+// Afirmações sem sustentação listadas no aviso
+const NOTICE_MAX_CLAIMS = 5;
+
+export interface GroundingOptions {
+  llmInfo: LlmFullConfig;
+  query: string;
+  language?: 'pt' | 'en';
+  stream?: LlmStreamListener;
+  trace?: RetrievalTrace;
+  userId?: number;
+  widgetId?: string;
+}
+
+/**
+ * Monta o texto dos trechos do contexto, identificados pela citação ([S1]) ou pelo nome do documento
+ */
+function formatEvidence(documents: any[]): string {
+  let evidence = '';
+
+  for (const doc of documents) {
+    const content: string = (doc?.content || doc?.text || '').trim();
+    if (!content) {
+      continue;
+    }
+
+    const label = doc.citation_id ? `[${doc.citation_id}] ${doc.document_name || ''}` : (doc.document_name || 'Documento');
+    const excerpt = content.length > EVIDENCE_MAX_CHARS_PER_DOCUMENT
+      ? content.substring(0, EVIDENCE_MAX_CHARS_PER_DOCUMENT) + '...'
+      : content;
+    const block = `--- ${label.trim()} ---\n${excerpt}\n\n`;
+
+    if (evidence.length + block.length > EVIDENCE_MAX_CHARS) {
+      break;
+    }
+    evidence += block;
+  }
+
+  return evidence.trim();
+}
+
+function classifyScore(score: number): GroundingVerdict['status'] {
+  if (score >= GROUNDED_MIN_SCORE) {
+    return 'grounded';
+  }
+  return score >= WEAK_MIN_SCORE ? 'weak' : 'unsupported';
+}
+
+async function runGroundingPrompt(
+  systemPrompt: string,
+  content: string,
+  maxTokens: number,
+  options: GroundingOptions
+): Promise<string> {
+  const result = await runWithFailover(options.llmInfo, 'text', async (target) => {
+    const adapter = getLlmProvider(target.provider);
+    return await adapter.chat({
+      model: target.modelName,
+      apiKey: target.apiKey,
+      baseUrl: target.baseUrl,
+      system: systemPrompt,
+      messages: [{ role: 'user', content }],
+      temperature: 0,
+      maxTokens
+    });
+  }, { userId: options.userId, widgetId: options.widgetId });
+
+  return result.text || '';
+}
+
+/**
+ * Pede ao LLM juiz as afirmações factuais da resposta e se cada uma é sustentada pelos trechos
+ */
+export async function verifyAnswerGrounding(
+  answer: string,
+  documents: any[],
+  options: GroundingOptions
+): Promise<Omit<GroundingVerdict, 'action'>> {
+  const evidence = formatEvidence(documents);
+
+  const systemPrompt = `
+    Você verifica respostas de um assistente de manutenção de placas eletrônicas.
+    Liste as afirmações factuais da resposta (valores de tensão, resistência, componentes, procedimentos,
+    diagnósticos) e, para cada uma, diga se os TRECHOS DOS MANUAIS a sustentam.
+    Uma afirmação só é sustentada se o trecho disser o mesmo; valores numéricos devem coincidir.
+    Ignore saudações, frases de cortesia e perguntas ao usuário.
+    Responda APENAS com JSON no formato:
+    {"claims": [{"claim": "<afirmação resumida>", "supported": true|false, "source": "<identificador do trecho, ex.: S2, ou null>"}]}
+  `;
+
+  const text = await runGroundingPrompt(
+    systemPrompt,
+    `Pergunta: ${options.query}\n\nTRECHOS DOS MANUAIS:\n${evidence || '(nenhum trecho)'}\n\nResposta a verificar:\n${answer}`,
+    1000,
+    options
+  );
+
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('Resposta do verificador sem JSON');
+  }
+
+  const parsed = JSON.parse(match[0]);
+  const claims: GroundingClaim[] = (Array.isArray(parsed.claims) ? parsed.claims : [])
+    .filter((item: any) => item && typeof item.claim === 'string' && item.claim.trim())
+    .map((item: any) => ({
+      claim: item.claim.trim(),
+      supported: item.supported === true,
+      citation_id: typeof item.source === 'string' && /^S\d+$/.test(item.source) ? item.source : null
+    }));
+
+  // Resposta sem afirmações factuais (ex.: pedido de mais detalhes) não tem o que contradizer
+  const score = claims.length > 0
+    ? claims.filter(claim => claim.supported).length / claims.length
+    : 1;
+
+  return { status: classifyScore(score), score, claims };
+}
+
+function buildNotFoundNotice(claims: GroundingClaim[], language: 'pt' | 'en'): string {
+  const unsupported = claims.filter(claim => !claim.supported).slice(0, NOTICE_MAX_CLAIMS);
+  const list = unsupported.map(claim => `- ${claim.claim}`).join('\n');
+
+  if (language === 'en') {
+    return `⚠️ Not found in the manuals: the following information could not be confirmed in the reference documents and should be checked before use:\n${list}`;
+  }
+  return `⚠️ Não encontrado nos manuais: as informações abaixo não puderam ser confirmadas nos documentos de referência e devem ser conferidas antes do uso:\n${list}`;
+}
+
+/**
+ * Reescreve a resposta mantendo apenas o que os trechos sustentam
+ */
+async function rewriteConservatively(
+  answer: string,
+  claims: GroundingClaim[],
+  documents: any[],
+  options: GroundingOptions
+): Promise<string> {
+  const language = options.language || 'pt';
+  const unsupported = claims.filter(claim => !claim.supported).map(claim => `- ${claim.claim}`).join('\n');
+
+  const systemPrompt = `
+    Você corrige respostas de um assistente de manutenção de placas eletrônicas.
+    Reescreva a resposta removendo as AFIRMAÇÕES NÃO SUSTENTADAS e qualquer outra informação que os
+    TRECHOS DOS MANUAIS não confirmem. Mantenha as informações sustentadas, o tom e os identificadores
+    de citação (ex.: [S1]). Quando a parte removida era essencial para a pergunta, diga explicitamente
+    que ${language === 'en' ? '"this information was not found in the manuals"' : '"essa informação não foi encontrada nos manuais"'}.
+    Não acrescente informações novas. Responda em ${language === 'en' ? 'inglês' : 'português'}, apenas com a resposta reescrita.
+  `;
+
+  const text = await runGroundingPrompt(
+    systemPrompt,
+    `Pergunta: ${options.query}\n\nTRECHOS DOS MANUAIS:\n${formatEvidence(documents)}\n\n` +
+      `AFIRMAÇÕES NÃO SUSTENTADAS:\n${unsupported}\n\nResposta original:\n${answer}`,
+    1000,
+    options
+  );
+
+  if (!text.trim()) {
+    throw new Error('Reescrita vazia');
+  }
+  return text.trim();
+}
+
+/**
+ * Listener a usar na geração da resposta. No modo rewrite a resposta só pode chegar ao usuário
+ * depois de verificada: os tokens são retidos e applyGroundingCheck envia apenas o texto final.
+ * Nos demais modos o listener do chamador é devolvido sem alterações.
+ */
+export function holdStreamForGrounding(llmInfo: LlmFullConfig, stream?: LlmStreamListener): LlmStreamListener | undefined {
+  if (!stream || llmInfo.groundingMode !== 'rewrite') {
+    return stream;
+  }
+  return { onToken: () => {}, onReset: () => {} };
+}
+
+/**
+ * Verifica a resposta contra os trechos do contexto e aplica o modo configurado
+ * (flag, annotate ou rewrite). Devolve o texto final; em modo off ou em caso de erro
+ * na verificação, a resposta original é mantida.
+ * No modo rewrite a geração usou holdStreamForGrounding e o texto final é enviado aqui.
+ */
+export async function applyGroundingCheck(
+  answer: string,
+  documents: any[],
+  options: GroundingOptions
+): Promise<string> {
+  const mode = options.llmInfo.groundingMode || 'off';
+  const text = await groundAnswer(answer, documents, options, mode);
+
+  if (mode === 'rewrite') {
+    options.stream?.onToken(text);
+  }
+  return text;
+}
+
+async function groundAnswer(
+  answer: string,
+  documents: any[],
+  options: GroundingOptions,
+  mode: NonNullable<LlmFullConfig['groundingMode']>
+): Promise<string> {
+  const language = options.language || 'pt';
+
+  if (mode === 'off' || !answer.trim() || documents.length === 0) {
+    return answer;
+  }
+
+  let verdict: Omit<GroundingVerdict, 'action'>;
+  try {
+    verdict = await verifyAnswerGrounding(answer, documents, options);
+  } catch (error) {
+    console.error('[Fundamentação] Erro ao verificar a resposta, mantendo a resposta original:', error);
+    return answer;
+  }
+
+  console.log(`[Fundamentação] Resposta ${verdict.status}: ${verdict.claims.filter(claim => claim.supported).length}/${verdict.claims.length} afirmações sustentadas`);
+
+  let text = answer;
+  let action: GroundingVerdict['action'] = 'none';
+  let originalText: string | undefined;
+
+  if (verdict.status !== 'grounded') {
+    if (mode === 'rewrite') {
+      try {
+        text = await rewriteConservatively(answer, verdict.claims, documents, options);
+        originalText = answer;
+        action = 'rewritten';
+      } catch (error) {
+        console.error('[Fundamentação] Erro ao reescrever a resposta, acrescentando aviso:', error);
+      }
+    }
+
+    if (mode === 'annotate' || (mode === 'rewrite' && action === 'none')) {
+      const notice = `\n\n${buildNotFoundNotice(verdict.claims, language)}`;
+      text = answer + notice;
+      action = 'annotated';
+      // No modo rewrite o texto completo é enviado por applyGroundingCheck
+      if (mode === 'annotate') {
+        options.stream?.onToken(notice);
+      }
+    } else if (mode === 'flag') {
+      action = 'flagged';
+    }
+  }
+
+  if (options.trace) {
+    options.trace.grounding = { ...verdict, action, ...(originalText ? { original_text: originalText } : {}) };
+  }
+
+  return text;
+}
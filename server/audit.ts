@@ -29,8 +29,8 @@ export function getAuditLogText(action: string, details: Record<string, any>, la
   switch (action) {
     case "document_auto_recovery":
       return language === "pt"
-        ? `Documento recuperado automaticamente: ${details.documentName} (ID: ${details.documentId}), progresso: ${details.progress || 0}%`
-        : `Document auto-recovered: ${details.documentName} (ID: ${details.documentId}), progress: ${details.progress || 0}%`;
+        ? `Documento devolvido à fila de processamento: ${details.documentName} (ID: ${details.documentId}), progresso: ${details.progress || 0}%`
+        : `Document re-queued for processing: ${details.documentName} (ID: ${details.documentId}), progress: ${details.progress || 0}%`;
     
     case "user_registered":
       return language === "pt"
@@ -102,6 +102,31 @@ export function getAuditLogText(action: string, details: Record<string, any>, la
         ? `Avatar redefinido para o padrão`
         : `Avatar reset to default`;
         
+    case "rag_evaluation_run":
+      return language === "pt"
+        ? `Avaliação do RAG iniciada: conjunto ${details.setId}, execução ${details.runId}${details.label ? ` (${details.label})` : ""}`
+        : `RAG evaluation started: set ${details.setId}, run ${details.runId}${details.label ? ` (${details.label})` : ""}`;
+    
+    case "embedding_migration_started":
+      return language === "pt"
+        ? `Migração de embeddings iniciada para o modelo ${details.targetModel} (${details.total} chunks)`
+        : `Embedding migration started for model ${details.targetModel} (${details.total} chunks)`;
+    
+    case "response_cache_cleared":
+      return language === "pt"
+        ? `Cache de respostas limpo (${details.removed} respostas removidas)`
+        : `Response cache cleared (${details.removed} answers removed)`;
+
+    case "document_job_retried":
+      return language === "pt"
+        ? `Nova tentativa do job ${details.jobId} (${details.type}) do documento ${details.documentId}`
+        : `Retried job ${details.jobId} (${details.type}) of document ${details.documentId}`;
+
+    case "document_metadata_updated":
+      return language === "pt"
+        ? `Metadados do documento ${details.documentId} atualizados: marca ${details.brand || "-"}, modelos ${(details.device_models || []).join(", ") || "-"}`
+        : `Document ${details.documentId} metadata updated: brand ${details.brand || "-"}, models ${(details.device_models || []).join(", ") || "-"}`;
+
     default:
       return language === "pt"
         ? `Ação: ${action}`
@@ -0,0 +1,248 @@
+/**
+ * Histórico de conversa para o chat com documentos treinados
+ *
+ * A busca do RAG recebe apenas a última mensagem, o que não resolve perguntas de
+ * continuação ("e o segundo capacitor?"). Aqui o histórico da sessão é convertido
+ * para o formato do LLM e usado para reescrever a pergunta como consulta autônoma
+ * antes da busca híbrida.
+ *
+ * Para o prompt, o histórico é limitado por um orçamento de tokens
+ * (CHAT_HISTORY_TOKEN_BUDGET): as mensagens mais recentes entram na íntegra e as
+ * mais antigas são resumidas pelo modelo leve do provedor ativo.
+ */
+import crypto from 'crypto';
+import { getActiveLlmInfo, LlmFullConfig, estimateTokens } from './llm';
+import { LlmChatMessage, getLlmProvider } from './llm-providers';
+import { runWithFailover } from './llm-failover';
+
+// Mensagens mais recentes consideradas na reescrita da consulta
+const CONDENSE_MAX_TURNS = 6;
+// Limite de caracteres por mensagem enviada ao condensador
+const CONDENSE_MAX_MESSAGE_CHARS = 500;
+// Orçamento padrão de tokens para as mensagens mantidas na íntegra
+const DEFAULT_HISTORY_TOKEN_BUDGET = 1500;
+// Tamanho máximo do resumo das mensagens antigas (fora do orçamento acima)
+const SUMMARY_MAX_TOKENS = 300;
+// Resumos já gerados, pelo hash das mensagens resumidas (evita resumir de novo a cada mensagem)
+const SUMMARY_CACHE_SIZE = 200;
+const summaryCache = new Map<string, string>();
+
+interface StoredMessage {
+  id: number;
+  content: string | null;
+  message_type: string;
+  is_user: boolean;
+  created_at: Date;
+}
+
+/**
+ * Converte as mensagens salvas da sessão em histórico do LLM, em ordem cronológica.
+ * Apenas mensagens de texto entram; a mensagem atual pode ser excluída pelo id.
+ */
+export function buildConversationHistory(messages: StoredMessage[], excludeMessageId?: number): LlmChatMessage[] {
+  return [...messages]
+    .filter(message =>
+      message.id !== excludeMessageId &&
+      message.message_type === 'text' &&
+      !!message.content && message.content.trim().length > 0
+    )
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id - b.id)
+    .map(message => ({
+      role: message.is_user ? 'user' : 'assistant',
+      content: message.content!.trim()
+    }));
+}
+
+function truncateMessage(text: string): string {
+  return text.length > CONDENSE_MAX_MESSAGE_CHARS ? text.substring(0, CONDENSE_MAX_MESSAGE_CHARS) + '...' : text;
+}
+
+/**
+ * Reescreve uma pergunta de continuação como consulta autônoma usando o histórico.
+ * Sem histórico, ou se o LLM falhar, devolve a mensagem original.
+ */
+export async function condenseFollowUpQuery(
+  message: string,
+  history: LlmChatMessage[],
+  llmInfo?: LlmFullConfig
+): Promise<string> {
+  const recentTurns = history.slice(-CONDENSE_MAX_TURNS);
+  if (recentTurns.length === 0) {
+    return message;
+  }
+
+  try {
+    const primary = llmInfo || await getActiveLlmInfo();
+
+    const systemPrompt = `
+      Você reescreve a última pergunta de um técnico de manutenção como uma consulta de busca autônoma.
+      Use a conversa anterior para resolver referências (ex.: "o segundo capacitor", "essa placa", "e a tensão?"),
+      incluindo modelo do equipamento, componente e sintoma quando forem mencionados antes.
+      Se a pergunta já for autônoma, repita-a sem alterações. Mantenha o idioma da pergunta.
+      Responda APENAS com a consulta reescrita, sem explicações.
+    `;
+
+    const transcript = recentTurns
+      .map(turn => `${turn.role === 'user' ? 'Técnico' : 'Assistente'}: ${truncateMessage(turn.content)}`)
+      .join('\n');
+
+    const result = await runWithFailover(primary, 'text', async (target) => {
+      const adapter = getLlmProvider(target.provider);
+      return await adapter.chat({
+        model: adapter.lightModel || target.modelName,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: `Conversa anterior:\n${transcript}\n\nÚltima pergunta: ${message}` }
+        ],
+        temperature: 0,
+        maxTokens: 150
+      });
+    });
+
+    const condensed = (result.text || '').trim().replace(/^["']|["']$/g, '');
+    if (!condensed) {
+      return message;
+    }
+
+    console.log(`[RAG] Consulta reescrita com histórico (${recentTurns.length} mensagens): "${message}" -> "${condensed}"`);
+    return condensed;
+  } catch (error) {
+    console.error('[RAG] Erro ao reescrever consulta com histórico, usando a mensagem original:', error);
+    return message;
+  }
+}
+
+function getHistoryTokenBudget(): number {
+  const budget = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '', 10);
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+/**
+ * Junta mensagens consecutivas do mesmo papel (ex.: resposta do bot que falhou e não foi salva),
+ * já que alguns provedores exigem alternância entre usuário e assistente
+ */
+function mergeConsecutiveRoles(history: LlmChatMessage[]): LlmChatMessage[] {
+  const merged: LlmChatMessage[] = [];
+  for (const message of history) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === message.role) {
+      last.content = `${last.content}\n\n${message.content}`;
+    } else {
+      merged.push({ ...message });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Resume as mensagens antigas da conversa com o modelo leve; null se o LLM falhar
+ */
+async function summarizeConversation(messages: LlmChatMessage[], llmInfo?: LlmFullConfig): Promise<string | null> {
+  const transcript = messages
+    .map(turn => `${turn.role === 'user' ? 'Técnico' : 'Assistente'}: ${truncateMessage(turn.content)}`)
+    .join('\n');
+
+  const cacheKey = crypto.createHash('md5').update(transcript).digest('hex');
+  const cached = summaryCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const primary = llmInfo || await getActiveLlmInfo();
+
+    const systemPrompt = `
+      Você resume o início de uma conversa entre um técnico de manutenção e um assistente.
+      Preserve equipamento, modelo da placa, sintomas, medições, componentes citados e o que já foi tentado ou descartado.
+      Escreva no idioma da conversa, em no máximo 8 tópicos curtos, sem introdução.
+    `;
+
+    const result = await runWithFailover(primary, 'text', async (target) => {
+      const adapter = getLlmProvider(target.provider);
+      return await adapter.chat({
+        model: adapter.lightModel || target.modelName,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: transcript }],
+        temperature: 0,
+        maxTokens: SUMMARY_MAX_TOKENS
+      });
+    });
+
+    const summary = (result.text || '').trim();
+    if (!summary) {
+      return null;
+    }
+
+    if (summaryCache.size >= SUMMARY_CACHE_SIZE) {
+      summaryCache.delete(summaryCache.keys().next().value as string);
+    }
+    summaryCache.set(cacheKey, summary);
+    return summary;
+  } catch (error) {
+    console.error('[Histórico] Erro ao resumir mensagens antigas, descartando-as do prompt:', error);
+    return null;
+  }
+}
+
+/**
+ * Janela de histórico para o prompt, limitada pelo orçamento de tokens.
+ * As mensagens mais recentes que cabem no orçamento entram na íntegra (começando
+ * sempre por uma mensagem do usuário); as anteriores viram um resumo anexado à
+ * primeira mensagem da janela.
+ */
+export async function buildHistoryWindow(
+  history: LlmChatMessage[],
+  options: { llmInfo?: LlmFullConfig; maxTokens?: number } = {}
+): Promise<LlmChatMessage[]> {
+  const messages = mergeConsecutiveRoles(history);
+  if (messages.length === 0) {
+    return [];
+  }
+
+  const budget = options.maxTokens ?? getHistoryTokenBudget();
+  const model = options.llmInfo?.modelName || '';
+
+  // Percorrer do fim para o início enquanto couber no orçamento
+  let start = messages.length;
+  let usedTokens = 0;
+  while (start > 0) {
+    const tokens = estimateTokens(messages[start - 1].content, model);
+    if (usedTokens + tokens > budget) {
+      break;
+    }
+    usedTokens += tokens;
+    start--;
+  }
+
+  // A janela deve começar com uma mensagem do usuário
+  while (start < messages.length && messages[start].role !== 'user') {
+    usedTokens -= estimateTokens(messages[start].content, model);
+    start++;
+  }
+
+  const recent = messages.slice(start);
+  const older = messages.slice(0, start);
+  if (older.length === 0) {
+    return recent;
+  }
+
+  const summary = await summarizeConversation(older, options.llmInfo);
+  console.log(`[Histórico] ${recent.length} mensagens recentes (~${usedTokens} tokens) mantidas; ${older.length} anteriores ${summary ? 'resumidas' : 'descartadas'}`);
+
+  if (!summary) {
+    return recent;
+  }
+
+  const summaryText = `[Resumo da conversa anterior]\n${summary}`;
+  if (recent.length === 0) {
+    return [{ role: 'user', content: summaryText }];
+  }
+  return [
+    { role: 'user', content: `${summaryText}\n\n[Mensagem]\n${recent[0].content}` },
+    ...recent.slice(1)
+  ];
+}
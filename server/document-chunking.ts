@@ -12,9 +12,73 @@ export interface DocumentChunk {
     contentHash: string;
     documentName?: string;
     language?: string;
+    // Páginas do documento de origem cobertas pelo chunk (PDFs)
+    pageStart?: number;
+    pageEnd?: number;
   };
 }
 
+/**
+ * Texto extraído de PDFs: cada página começa com uma linha "[Página N]"
+ * (ver formatPdfPages), usada para registrar as páginas de cada chunk
+ */
+const PAGE_MARKER_PATTERN = /^\[Página (\d+)\]$/gm;
+
+export function formatPageMarker(page: number): string {
+  return `[Página ${page}]`;
+}
+
+/**
+ * Registra em cada chunk as páginas que ele cobre: a página em que o chunk começa
+ * (último marcador antes dele no texto) até o último marcador contido no chunk.
+ * Textos sem marcadores de página não são alterados.
+ */
+export function assignChunkPages(chunks: DocumentChunk[], text: string): void {
+  const markers = Array.from(text.matchAll(PAGE_MARKER_PATTERN), match => ({ index: match.index ?? 0, page: parseInt(match[1], 10) }));
+  if (markers.length === 0) {
+    return;
+  }
+  
+  let searchFrom = 0;
+  for (const chunk of chunks) {
+    // A primeira linha do chunk localiza o trecho no texto original (os chunkers reagrupam parágrafos)
+    const probe = chunk.content.split('\n')[0].slice(0, 80);
+    let position = text.indexOf(probe, searchFrom);
+    if (position < 0) {
+      position = text.indexOf(probe);
+    }
+    if (position >= 0) {
+      searchFrom = position;
+    }
+    
+    const start = position >= 0 ? position : searchFrom;
+    let pageStart = markers[0].page;
+    for (const marker of markers) {
+      if (marker.index > start) break;
+      pageStart = marker.page;
+    }
+    
+    const innerPages = Array.from(chunk.content.matchAll(PAGE_MARKER_PATTERN), match => parseInt(match[1], 10));
+    chunk.metadata.pageStart = pageStart;
+    chunk.metadata.pageEnd = Math.max(pageStart, ...innerPages);
+  }
+}
+
+/**
+ * Formato do texto extraído de planilhas (ver extractTextFromSpreadsheet):
+ *   [Planilha: Nome da aba]
+ *   Colunas: Componente | Pino | Tensão (V)
+ *   Linha 2: Componente: U2 | Pino: 4 | Tensão (V): 3.3
+ * Cada linha já carrega os nomes das colunas; o marcador e a linha de colunas
+ * são repetidos no início de cada chunk da aba.
+ */
+export const SPREADSHEET_SHEET_PREFIX = '[Planilha: ';
+export const SPREADSHEET_COLUMNS_PREFIX = 'Colunas: ';
+
+export function isSpreadsheetText(text: string): boolean {
+  return text.startsWith(SPREADSHEET_SHEET_PREFIX);
+}
+
 /**
  * Divide um texto em chunks de tamanho semelhante, respeitando parágrafos
  */
@@ -347,6 +411,61 @@ export function recursiveChunking(
   return chunks;
 }
 
+/**
+ * Divide o texto de uma planilha em chunks com linhas inteiras, repetindo no início
+ * de cada chunk a aba e as colunas (contexto do cabeçalho)
+ */
+export function spreadsheetChunking(
+  text: string,
+  documentId: number,
+  sourceType: string = 'document',
+  options: {
+    maxChunkSize?: number;
+    language?: string;
+    documentName?: string;
+  } = {}
+): DocumentChunk[] {
+  const {
+    maxChunkSize = 1500,
+    language = 'pt',
+    documentName = `Documento ${documentId}`
+  } = options;
+  
+  const chunks: DocumentChunk[] = [];
+  const sheets = text.split(/\n(?=\[Planilha: )/);
+  
+  for (const sheet of sheets) {
+    const lines = sheet.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    
+    // Marcador da aba, título acima da tabela e linha de colunas formam o cabeçalho do chunk
+    const columnsIndex = lines.findIndex(line => line.startsWith(SPREADSHEET_COLUMNS_PREFIX));
+    const headerLength = columnsIndex >= 0 ? columnsIndex + 1 : Math.min(1, lines.length);
+    const header = lines.slice(0, headerLength).join('\n');
+    const rows = lines.slice(headerLength);
+    
+    if (rows.length === 0) {
+      continue;
+    }
+    
+    let currentRows: string[] = [];
+    let currentLength = header.length;
+    
+    for (const row of rows) {
+      if (currentRows.length > 0 && currentLength + row.length + 1 > maxChunkSize) {
+        chunks.push(createChunk(`${header}\n${currentRows.join('\n')}`, chunks.length, documentId, sourceType, { language, documentName }));
+        currentRows = [];
+        currentLength = header.length;
+      }
+      currentRows.push(row);
+      currentLength += row.length + 1;
+    }
+    
+    chunks.push(createChunk(`${header}\n${currentRows.join('\n')}`, chunks.length, documentId, sourceType, { language, documentName }));
+  }
+  
+  return chunks;
+}
+
 /**
  * Combina diferentes estratégias para chunking inteligente de documentos
  */
@@ -364,6 +483,11 @@ export function smartChunking(
 ): DocumentChunk[] {
   // Determinar qual estratégia usar com base no tipo e tamanho do documento
   
+  // Planilhas: chunks por linhas, mantendo o cabeçalho
+  if (isSpreadsheetText(text)) {
+    return spreadsheetChunking(text, documentId, sourceType, options);
+  }
+  
   // Para documentos pequenos, usar chunking simples
   if (text.length < 3000) {
     return chunkText(text, documentId, sourceType, options);
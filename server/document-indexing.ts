@@ -0,0 +1,732 @@
+/**
+ * Serviço único de indexação e busca dos documentos de treinamento
+ *
+ * Todo documento é dividido com smartChunking e gravado na tabela document_chunks,
+ * com o embedding do modelo ativo. A busca (semântica, textual e híbrida) usa apenas
+ * esse armazenamento, de modo que o que foi indexado fica visível para todos os
+ * caminhos de resposta (RAG, chat treinado e rotas de teste de treinamento).
+ */
+import { storage } from './storage';
+import { ChunkMetadataFilter, DocumentChunk as StoredDocumentChunk, EMBEDDING_DIMENSIONS } from '@shared/schema';
+import { DocumentChunk, smartChunking, assignChunkPages } from './document-chunking';
+import { supabase } from './supabase';
+import { getActiveLlmInfo, LlmFullConfig } from './llm';
+import { getLlmProvider } from './llm-providers';
+import { rerankChunks } from './reranker';
+import { invalidateResponseCacheForDocument } from './response-cache';
+import { refreshDocumentMetadata } from './document-metadata';
+import { reportIngestionProgress } from './ingestion-progress';
+
+type ChunkSourceType = StoredDocumentChunk['source_type'];
+
+/**
+ * Resultado da sincronização dos chunks de um documento
+ */
+export interface ChunkSyncResult {
+  total: number;
+  unchanged: number; // Chunks já gravados com o mesmo conteúdo (nada a fazer)
+  reused: number;    // Chunks novos cujo embedding veio de um chunk idêntico já indexado
+  embedded: number;  // Chunks que precisaram de um embedding novo
+  removed: number;   // Chunks que deixaram de existir no documento
+  failed: number;    // Chunks que ficaram sem embedding (falha no provedor ou ao gravar)
+}
+
+/**
+ * O embedding pode vir do banco como texto JSON ou já convertido em array
+ */
+function serializeEmbedding(embedding: unknown): string | null {
+  if (Array.isArray(embedding)) {
+    return JSON.stringify(embedding);
+  }
+  return typeof embedding === 'string' && embedding.length > 0 ? embedding : null;
+}
+
+/**
+ * Re-indexação incremental: compara os chunks novos com os gravados pelo hash do conteúdo.
+ * - chunk gravado com o mesmo hash e embedding do modelo ativo: mantido (apenas o índice é atualizado se mudou)
+ * - chunk novo com conteúdo idêntico a outro já indexado com o modelo ativo (em qualquer documento): reaproveita o embedding
+ * - demais chunks: embedding novo
+ * Chunks gravados que não aparecem mais no documento são removidos.
+ */
+export async function syncDocumentChunks(
+  documentId: number,
+  chunks: DocumentChunk[],
+  options: {
+    sourceType?: ChunkSourceType;
+    language?: 'pt' | 'en';
+    onProgress?: (processed: number, total: number) => Promise<void> | void;
+  } = {}
+): Promise<ChunkSyncResult> {
+  const { sourceType = 'document', language = 'pt', onProgress } = options;
+  const result: ChunkSyncResult = { total: chunks.length, unchanged: 0, reused: 0, embedded: 0, removed: 0, failed: 0 };
+  
+  // Embeddings de outro modelo (ou com dimensão diferente da coluna vector) não servem: o chunk é tratado como novo
+  const embeddingModel = await getActiveEmbeddingModel();
+  const hasCurrentEmbedding = (existing: StoredDocumentChunk) =>
+    !!serializeEmbedding(existing.embedding) &&
+    existing.embedding_model === embeddingModel &&
+    existing.embedding_dim === EMBEDDING_DIMENSIONS;
+  
+  const existingChunks = await storage.getDocumentChunksByDocument(documentId);
+  const existingByHash = new Map<string, StoredDocumentChunk[]>();
+  for (const existing of existingChunks) {
+    const sameHash = existingByHash.get(existing.content_hash) || [];
+    sameHash.push(existing);
+    existingByHash.set(existing.content_hash, sameHash);
+  }
+  const keptIds = new Set<number>();
+  
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const { contentHash, chunkIndex } = chunk.metadata;
+    const sameHash = existingByHash.get(contentHash) || [];
+    
+    try {
+      // Preferir o chunk gravado no mesmo índice; conteúdo deslocado mantém o registro e muda o índice
+      const candidates = sameHash.filter(existing => !keptIds.has(existing.id) && hasCurrentEmbedding(existing));
+      const match = candidates.find(existing => existing.chunk_index === chunkIndex) || candidates[0];
+      
+      if (match) {
+        keptIds.add(match.id);
+        if (match.chunk_index !== chunkIndex) {
+          await storage.updateDocumentChunkIndex(match.id, chunkIndex);
+        }
+        result.unchanged++;
+      } else {
+        // Conteúdo idêntico já indexado neste documento (chunk repetido) ou em outro documento
+        const donor = sameHash.find(hasCurrentEmbedding)
+          || (embeddingModel ? await storage.findDocumentChunkByContentHash(contentHash, embeddingModel) : undefined);
+        let embedding = donor ? serializeEmbedding(donor.embedding) : null;
+        let model = donor ? donor.embedding_model : null;
+        let dimensions = donor ? donor.embedding_dim : null;
+        
+        if (embedding) {
+          result.reused++;
+        } else {
+          const created = await createEmbeddingWithModel(chunk.content);
+          if (created) {
+            embedding = JSON.stringify(created.vector);
+            model = created.model;
+            dimensions = created.vector.length;
+            result.embedded++;
+          } else {
+            // Gravado sem vetor: na próxima sincronização o chunk não casa e o embedding é refeito
+            result.failed++;
+          }
+        }
+        
+        await storage.createDocumentChunk({
+          document_id: documentId,
+          chunk_index: chunkIndex,
+          content: chunk.content,
+          content_hash: contentHash,
+          source_type: sourceType,
+          language,
+          embedding,
+          embedding_model: model,
+          embedding_dim: dimensions,
+          metadata: chunk.metadata.pageStart
+            ? { page: chunk.metadata.pageStart, page_end: chunk.metadata.pageEnd }
+            : null
+        });
+      }
+    } catch (chunkError: any) {
+      console.error(`Erro ao processar chunk ${chunkIndex} do documento ${documentId}:`, chunkError);
+      result.failed++;
+      // Continuar para o próximo chunk
+    }
+    
+    if (onProgress) {
+      await onProgress(i + 1, chunks.length);
+    }
+  }
+  
+  // Remover os chunks que não existem mais no documento
+  for (const existing of existingChunks) {
+    if (!keptIds.has(existing.id)) {
+      await storage.deleteDocumentChunk(existing.id);
+      result.removed++;
+    }
+  }
+  
+  console.log(`[RAG] Documento ${documentId} re-indexado: ${result.total} chunks, ${result.unchanged} inalterados, ${result.reused} com embedding reaproveitado, ${result.embedded} embeddings novos, ${result.removed} removidos, ${result.failed} com falha`);
+  return result;
+}
+
+/**
+ * Divide o texto de um documento em chunks e sincroniza o armazenamento de chunks
+ */
+export async function processDocumentForRAG(
+  documentId: number,
+  documentText: string,
+  options: {
+    sourceType?: string;
+    documentType?: string;
+    language?: 'pt' | 'en';
+    documentName?: string;
+    chunkSize?: number;
+    overlapSize?: number;
+    onProgress?: (processed: number, total: number) => Promise<void> | void;
+  } = {}
+): Promise<{
+  chunks: DocumentChunk[];
+  totalChunks: number;
+  sync?: ChunkSyncResult;
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const {
+      sourceType = 'document',
+      documentType = 'manual',
+      language = 'pt',
+      documentName = `Documento ${documentId}`,
+      chunkSize = 1500,
+      overlapSize = 150,
+      onProgress
+    } = options;
+    
+    console.log(`Processando documento ${documentId} para RAG: ${documentName}`);
+    
+    if (!documentText || documentText.trim().length === 0) {
+      return {
+        chunks: [],
+        totalChunks: 0,
+        success: false,
+        error: 'Documento vazio'
+      };
+    }
+    
+    // Dividir documento em chunks usando estratégia inteligente
+    const chunks = smartChunking(documentText, documentId, sourceType, documentType, {
+      maxChunkSize: chunkSize,
+      overlapSize: overlapSize,
+      language,
+      documentName
+    });
+    
+    // Páginas de origem (PDFs), usadas nas citações das respostas
+    assignChunkPages(chunks, documentText);
+    
+    console.log(`Documento dividido em ${chunks.length} chunks`);
+    
+    // Salvar chunks no banco de dados, gerando embeddings apenas para conteúdo novo
+    const sync = await syncDocumentChunks(documentId, chunks, {
+      sourceType: sourceType as ChunkSourceType,
+      language,
+      onProgress
+    });
+    
+    return {
+      chunks,
+      totalChunks: chunks.length,
+      sync,
+      success: true
+    };
+  } catch (error: any) {
+    console.error('Erro ao processar documento para RAG:', error);
+    return {
+      chunks: [],
+      totalChunks: 0,
+      success: false,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Indexa um documento de treinamento, acompanhando o status e o progresso na tabela
+ * training_documents. É o ponto de entrada usado pelas rotas de treinamento.
+ * @param documentId ID do documento a ser indexado
+ */
+export async function indexTrainingDocument(documentId: number): Promise<boolean> {
+  try {
+    const document = await storage.getTrainingDocument(documentId);
+    if (!document) {
+      console.error(`Documento com ID ${documentId} não encontrado`);
+      return false;
+    }
+    
+    if (!document.content || document.content.trim().length === 0) {
+      console.error(`Documento ${documentId} não tem conteúdo para indexação`);
+      await storage.updateTrainingDocument(documentId, {
+        status: 'error',
+        error_message: document.document_type === 'file' ? 'Arquivo não possui conteúdo legível' : 'Documento sem conteúdo'
+      });
+      return false;
+    }
+    
+    await storage.updateTrainingDocument(documentId, {
+      status: "processing",
+      error_message: null
+    });
+    await reportIngestionProgress(documentId, 'chunking');
+    
+    // Cada chunk sincronizado (embedding novo, reaproveitado ou inalterado) avança a fase de embeddings
+    const onProgress = (processed: number, total: number) =>
+      reportIngestionProgress(documentId, 'embedding', { processed, total });
+    
+    const result = await processDocumentForRAG(document.id, document.content, {
+      documentType: document.document_type === 'file' ? 'technical' : (document.document_type || 'manual'),
+      documentName: document.name,
+      language: 'pt',
+      onProgress
+    });
+    
+    if (!result.success || !result.sync) {
+      throw new Error(result.error || 'Falha ao indexar o documento');
+    }
+    
+    // Chunks sem vetor não aparecem na busca semântica: o documento não pode ser marcado como indexado
+    if (result.sync.failed > 0) {
+      const mismatch = getEmbeddingDimensionMismatch(await getActiveEmbeddingModel());
+      throw new Error(mismatch
+        ? describeEmbeddingDimensionMismatch(mismatch)
+        : `${result.sync.failed} de ${result.totalChunks} chunks ficaram sem embedding`);
+    }
+    
+    await reportIngestionProgress(documentId, 'indexing', { total: result.totalChunks });
+    
+    // Marca, modelos e revisão da placa, copiados para os chunks (filtros da busca)
+    const contentChanged = result.sync.embedded + result.sync.reused + result.sync.removed > 0;
+    await refreshDocumentMetadata(document, contentChanged);
+    
+    const embeddingModel = await getActiveEmbeddingModel();
+    await storage.updateTrainingDocument(documentId, {
+      status: "indexed", // Status "indexed" significa "Treinado" na UI
+      progress: 100,
+      updated_at: new Date(),
+      file_metadata: {
+        chunks_count: result.totalChunks,
+        unchanged_chunks: result.sync.unchanged,
+        reused_embeddings: result.sync.reused,
+        embedding_model: embeddingModel,
+        processing_date: new Date().toISOString(),
+        processed: true
+      }
+    });
+    
+    // Respostas do cache baseadas no conteúdo anterior do documento deixam de valer
+    if (contentChanged) {
+      await invalidateResponseCacheForDocument(documentId, document.kind);
+    }
+    
+    await reportIngestionProgress(documentId, 'completed', { total: result.totalChunks });
+    
+    console.log(`Documento ${documentId} indexado com ${result.totalChunks} chunks`);
+    return true;
+  } catch (error: any) {
+    console.error(`Erro ao indexar documento ${documentId}:`, error);
+    
+    try {
+      await storage.updateTrainingDocument(documentId, {
+        status: "error",
+        error_message: error.message,
+        updated_at: new Date()
+      });
+    } catch (updateError) {
+      console.error("Erro adicional ao atualizar status do documento:", updateError);
+    }
+    
+    return false;
+  }
+}
+
+/**
+ * Embedding com o modelo que o gerou
+ */
+export interface EmbeddingResult {
+  vector: number[];
+  model: string;
+}
+
+// Dimensão dos vetores devolvidos por cada modelo de embedding (registrada a cada embedding criado)
+const observedEmbeddingDimensions = new Map<string, number>();
+
+export interface EmbeddingDimensionMismatch {
+  model: string;
+  dimensions: number;
+  expected: number;
+}
+
+/**
+ * Modelo cujos vetores não têm EMBEDDING_DIMENSIONS dimensões (a coluna vector do pgvector é fixa)
+ */
+export function getEmbeddingDimensionMismatch(model: string | null): EmbeddingDimensionMismatch | null {
+  const dimensions = model ? observedEmbeddingDimensions.get(model) : undefined;
+  if (!model || dimensions === undefined || dimensions === EMBEDDING_DIMENSIONS) {
+    return null;
+  }
+  return { model, dimensions, expected: EMBEDDING_DIMENSIONS };
+}
+
+export function describeEmbeddingDimensionMismatch(mismatch: EmbeddingDimensionMismatch): string {
+  return `O modelo de embedding ${mismatch.model} gera vetores de ${mismatch.dimensions} dimensões; a busca semântica exige ${mismatch.expected}`;
+}
+
+/**
+ * Provedor e modelo de embedding a partir do provedor LLM ativo.
+ * Provedores sem suporte a embeddings (Anthropic) usam a OpenAI via variável de ambiente.
+ */
+async function resolveEmbeddingTarget() {
+  const llmInfo = await getActiveLlmInfo();
+  
+  let adapter = getLlmProvider(llmInfo.provider);
+  let apiKey = llmInfo.apiKey;
+  let baseUrl = llmInfo.baseUrl;
+  
+  if (!adapter.embed || !adapter.defaultEmbeddingModel) {
+    adapter = getLlmProvider('openai');
+    apiKey = process.env.OPENAI_API_KEY || '';
+    baseUrl = null;
+  }
+  
+  return { adapter, model: adapter.defaultEmbeddingModel!, apiKey, baseUrl };
+}
+
+/**
+ * Modelo de embedding em uso para os chunks, ou null se não houver configuração LLM
+ */
+export async function getActiveEmbeddingModel(): Promise<string | null> {
+  try {
+    return (await resolveEmbeddingTarget()).model;
+  } catch (error) {
+    console.error('Erro ao determinar o modelo de embedding ativo:', error);
+    return null;
+  }
+}
+
+/**
+ * Cria o embedding de um texto com o modelo ativo, informando qual modelo foi usado.
+ * Vetores com dimensão diferente de EMBEDDING_DIMENSIONS são recusados (null): não cabem na coluna vector.
+ */
+export async function createEmbeddingWithModel(text: string): Promise<EmbeddingResult | null> {
+  try {
+    // Truncar o texto se for muito grande (limite API OpenAI)
+    const truncatedText = text.length > 8000 ? text.substring(0, 8000) : text;
+    
+    const { adapter, model, apiKey, baseUrl } = await resolveEmbeddingTarget();
+    
+    if (!apiKey && adapter.requiresApiKey) {
+      throw new Error('API key não disponível para criação de embedding');
+    }
+    
+    const vector = await adapter.embed!({
+      model,
+      apiKey,
+      baseUrl,
+      input: truncatedText
+    });
+    if (!vector) {
+      return null;
+    }
+    
+    observedEmbeddingDimensions.set(model, vector.length);
+    if (vector.length !== EMBEDDING_DIMENSIONS) {
+      console.error(`Embedding recusado: ${describeEmbeddingDimensionMismatch({ model, dimensions: vector.length, expected: EMBEDDING_DIMENSIONS })}`);
+      return null;
+    }
+    return { vector, model };
+  } catch (error: any) {
+    console.error('Erro ao criar embedding:', error);
+    return null;
+  }
+}
+
+/**
+ * Cria embeddings para um texto usando o provedor LLM ativo
+ */
+export async function createEmbedding(text: string): Promise<number[] | null> {
+  const result = await createEmbeddingWithModel(text);
+  return result ? result.vector : null;
+}
+
+
+/**
+ * Busca documentos relevantes com base em uma consulta
+ */
+export async function queryRelevantDocuments(
+  query: string,
+  options: {
+    limit?: number;
+    language?: 'pt' | 'en';
+    useSupabase?: boolean;
+    documentIds?: number[];
+    filters?: ChunkMetadataFilter;
+  } = {}
+): Promise<any[]> {
+  const {
+    limit = 5,
+    language = 'pt',
+    useSupabase = true,
+    documentIds,
+    filters
+  } = options;
+  
+  try {
+    // Criar embedding para a consulta
+    const queryEmbedding = await createEmbeddingWithModel(query);
+    
+    if (!queryEmbedding) {
+      throw new Error('Não foi possível criar embedding para a consulta');
+    }
+    
+    return await searchChunksByEmbedding(queryEmbedding, { limit, language, documentIds, useSupabase, filters });
+  } catch (error: any) {
+    console.error('Erro ao buscar documentos relevantes:', error);
+    return [];
+  }
+}
+
+/**
+ * Busca semântica nos chunks: pgvector no Postgres é a fonte principal.
+ * O Supabase (RPC match_document_chunks) só é consultado como complemento
+ * quando configurado e a busca local não encontrar nada; como ele não conhece
+ * os metadados dos chunks, não é usado quando há filtros de metadados.
+ */
+async function searchChunksByEmbedding(
+  queryEmbedding: EmbeddingResult,
+  options: {
+    limit: number;
+    language: 'pt' | 'en';
+    documentIds?: number[];
+    minSimilarity?: number;
+    useSupabase?: boolean;
+    filters?: ChunkMetadataFilter;
+  }
+): Promise<any[]> {
+  const { limit, language, documentIds, minSimilarity = 0, useSupabase = true, filters } = options;
+  
+  try {
+    // Apenas chunks do mesmo modelo da consulta: vetores de modelos diferentes não são comparáveis
+    const results = await storage.searchDocumentChunksByEmbedding(queryEmbedding.vector, language, {
+      limit,
+      minSimilarity,
+      documentIds,
+      embeddingModel: queryEmbedding.model,
+      filters
+    });
+    
+    if (results.length > 0) {
+      return results;
+    }
+  } catch (error) {
+    console.error('Erro na busca por similaridade com pgvector:', error);
+  }
+  
+  if (useSupabase && !hasMetadataFilter(filters) && process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY) {
+    try {
+      return await queryRelevantDocumentsWithSupabase(queryEmbedding.vector, { limit, language, documentIds });
+    } catch (supabaseError) {
+      console.error('Erro ao buscar com Supabase:', supabaseError);
+    }
+  }
+  
+  return [];
+}
+
+function hasMetadataFilter(filters?: ChunkMetadataFilter): boolean {
+  return !!filters && (!!filters.brand || !!filters.board_revision || (filters.device_models?.length ?? 0) > 0);
+}
+
+/**
+ * Usa supabase para busca de similaridade se estiver configurado
+ */
+export async function queryRelevantDocumentsWithSupabase(
+  queryEmbedding: number[],
+  options: {
+    limit?: number;
+    language?: 'pt' | 'en';
+    documentIds?: number[];
+  } = {}
+): Promise<any[]> {
+  const { limit = 5, language = 'pt', documentIds } = options;
+  
+  if (documentIds && documentIds.length === 0) {
+    return [];
+  }
+  
+  try {
+    // Executar busca de similaridade
+    // A função match_document_chunks não filtra por documento; com escopo, buscar
+    // mais candidatos e descartar os que estão fora dele
+    const { data, error } = await supabase.rpc('match_document_chunks', {
+      query_embedding: queryEmbedding,
+      match_threshold: 0.6,
+      match_count: documentIds ? limit * 4 : limit,
+      lang: language
+    });
+    
+    if (error) throw error;
+    
+    if (documentIds) {
+      return (data || [])
+        .filter((chunk: any) => documentIds.includes(chunk.document_id))
+        .slice(0, limit);
+    }
+    
+    return data || [];
+  } catch (error: any) {
+    console.error('Erro na busca Supabase:', error);
+    throw error;
+  }
+}
+
+// Constante de suavização do Reciprocal Rank Fusion (valor usual da literatura)
+const RRF_K = 60;
+
+/**
+ * Combina listas ranqueadas com Reciprocal Rank Fusion: cada item soma 1 / (RRF_K + posição)
+ * em cada lista em que aparece. Não depende da escala dos scores de cada busca.
+ */
+function fuseByReciprocalRank(rankedLists: any[][]): any[] {
+  const fused = new Map<number, any>();
+  
+  for (const list of rankedLists) {
+    list.forEach((item, index) => {
+      const existing = fused.get(item.id);
+      const contribution = 1 / (RRF_K + index + 1);
+      
+      if (existing) {
+        existing.rrf_score += contribution;
+        // Manter a maior similaridade conhecida para exibição no prompt
+        existing.similarity = Math.max(existing.similarity || 0, item.similarity || 0);
+      } else {
+        fused.set(item.id, { ...item, rrf_score: contribution });
+      }
+    });
+  }
+  
+  return Array.from(fused.values()).sort((a, b) => b.rrf_score - a.rrf_score);
+}
+
+/**
+ * Realiza uma pesquisa híbrida (texto completo + semântica) com fusão por Reciprocal Rank Fusion.
+ * Se houver reranker configurado, os candidatos fundidos passam por ele antes do corte em `limit`.
+ */
+export async function hybridSearch(
+  query: string,
+  options: {
+    limit?: number;
+    language?: 'pt' | 'en';
+    documentIds?: number[];
+    rerank?: boolean;
+    llmInfo?: LlmFullConfig;
+    // Filtro de marca, modelo e revisão da placa (chunks sem metadados sempre passam)
+    filters?: ChunkMetadataFilter;
+  } = {}
+): Promise<any[]> {
+  const { limit = 7, language = 'pt', documentIds, rerank = true, llmInfo, filters } = options;
+  // Cada busca traz mais candidatos do que o limite para a fusão ter o que combinar
+  const candidateLimit = limit * 2;
+  
+  try {
+    // Busca textual (tsvector) no dicionário do idioma
+    let keywordResults: any[] = [];
+    try {
+      keywordResults = (await storage.searchDocumentChunksByKeywords(query, language, documentIds, candidateLimit, filters))
+        .map(chunk => ({ ...chunk, similarity: chunk.score }));
+    } catch (error) {
+      console.error('Erro na busca textual:', error);
+    }
+    
+    // Buscar com base em embeddings
+    const queryEmbedding = await createEmbeddingWithModel(query);
+    let semanticResults: any[] = [];
+    
+    if (queryEmbedding) {
+      try {
+        semanticResults = await searchChunksByEmbedding(queryEmbedding, {
+          limit: candidateLimit,
+          language,
+          documentIds,
+          minSimilarity: 0.6,
+          filters
+        });
+      } catch (error) {
+        console.error('Erro na busca semântica:', error);
+      }
+    }
+    
+    const fusedResults = fuseByReciprocalRank([semanticResults, keywordResults]);
+    console.log(`[RAG] Busca híbrida: ${semanticResults.length} semânticos, ${keywordResults.length} textuais, ${fusedResults.length} após fusão`);
+    
+    if (!rerank) {
+      return fusedResults.slice(0, limit);
+    }
+    
+    return await rerankChunks(query, fusedResults.slice(0, candidateLimit), { topK: limit, llmInfo });
+  } catch (error: any) {
+    console.error('Erro na busca híbrida:', error);
+    return [];
+  }
+}
+
+/**
+ * Busca apenas semântica nos chunks, consolidada por documento (trechos do mesmo documento
+ * são concatenados). Usada como alternativa quando a busca híbrida não traz resultados.
+ * @param query Consulta do usuário
+ * @param maxResults Número máximo de documentos a retornar
+ * @param documentIds Escopo de documentos do widget (opcional, padrão é todos)
+ * @param filters Filtro de marca, modelo e revisão da placa (opcional)
+ */
+export async function searchRelevantDocuments(
+  query: string,
+  maxResults: number = 3,
+  documentIds?: number[],
+  filters?: ChunkMetadataFilter
+): Promise<Array<{
+  document_id: number;
+  document_name: string;
+  content: string;
+  relevance_score: number;
+}>> {
+  try {
+    const queryEmbedding = await createEmbeddingWithModel(query);
+    if (!queryEmbedding) {
+      throw new Error('Não foi possível criar embedding para a consulta');
+    }
+    
+    const chunks = await searchChunksByEmbedding(queryEmbedding, {
+      limit: maxResults * 3,
+      language: 'pt',
+      documentIds,
+      minSimilarity: 0.6,
+      filters
+    });
+    
+    const documentMap = new Map<number, { document_id: number; document_name: string; content: string; relevance_score: number }>();
+    for (const chunk of chunks) {
+      if (!chunk || !chunk.document_id || !chunk.content) {
+        continue;
+      }
+      
+      const existing = documentMap.get(chunk.document_id);
+      if (existing) {
+        existing.relevance_score = Math.max(existing.relevance_score, chunk.similarity || 0);
+        // Adicionar o trecho se não for duplicado e não exceder um tamanho razoável
+        if (!existing.content.includes(chunk.content) && existing.content.length + chunk.content.length < 2500) {
+          existing.content += "\n\n" + chunk.content;
+        }
+      } else {
+        const document = await storage.getTrainingDocument(chunk.document_id);
+        documentMap.set(chunk.document_id, {
+          document_id: chunk.document_id,
+          document_name: document?.name || `Documento ${chunk.document_id}`,
+          content: chunk.content,
+          relevance_score: chunk.similarity || 0
+        });
+      }
+    }
+    
+    const results = Array.from(documentMap.values())
+      .sort((a, b) => b.relevance_score - a.relevance_score)
+      .slice(0, maxResults);
+    
+    console.log(`Encontrados ${results.length} documentos relevantes para a consulta`);
+    return results;
+  } catch (error: any) {
+    console.error("Erro ao buscar documentos relevantes:", error);
+    return [];
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Fila persistente do processamento de documentos
+ *
+ * A extração do conteúdo (PDF, DOCX, imagem, website) e a indexação (chunks + embeddings) rodavam
+ * dentro da requisição de upload ou em segundo plano sem registro, e um reinício do servidor perdia
+ * o trabalho. Cada etapa agora é um job na tabela document_jobs: o worker reserva o job por um
+ * período (lease) e renova a reserva enquanto trabalha. Se o processo cair, a reserva expira e o
+ * job é reservado de novo, por este ou por outro processo.
+ *
+ * Falhas são repetidas com espera exponencial até max_attempts; depois disso o job fica "dead" e o
+ * documento em erro, até que um administrador peça nova tentativa. Erros que não se resolvem
+ * repetindo (arquivo inexistente, tipo não suportado) vão direto para "dead".
+ */
+import os from 'os';
+import path from 'path';
+import { storage } from './storage';
+import { DocumentJob, DocumentJobType, TrainingDocument } from '@shared/schema';
+import { indexTrainingDocument } from './document-indexing';
+import { processDocumentContent } from './document-processors';
+import { phaseStartProgress, reportIngestionProgress } from './ingestion-progress';
+
+// Identificação deste processo nas reservas
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+// Jobs executados ao mesmo tempo por este processo (extração e embeddings consomem memória e cota do provedor)
+const CONCURRENCY = Math.max(1, parseInt(process.env.DOCUMENT_JOB_CONCURRENCY || '', 10) || 2);
+const POLL_INTERVAL_MS = 5000;
+// Duração da reserva; renovada a cada LEASE_RENEW_MS enquanto o job roda
+const LEASE_MS = 5 * 60 * 1000;
+const LEASE_RENEW_MS = 60 * 1000;
+// Conclusão do job: só vale enquanto a reserva for deste worker
+const LEASE_CONDITIONS = { status: 'running' as const, lockedBy: WORKER_ID };
+// Espera antes de uma nova tentativa: 30s, 1min, 2min, ... até 1h
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Marcadores que processDocumentContent devolve no lugar do conteúdo quando a extração falha
+const PERMANENT_EXTRACTION_FAILURE = /^\[(Arquivo não encontrado|Arquivo muito grande|Imagem muito grande|Conteúdo não processável|Tipo de documento não suportado|Caminho d[oa] (arquivo|imagem) não fornecido|URL do website não fornecida|Processamento de vídeo não implementado|Conteúdo de texto não fornecido|Planilha sem dados|Planilha ilegível|Apresentação sem texto|Apresentação ilegível)/;
+const TRANSIENT_EXTRACTION_FAILURE = /^(\[Erro|Não foi possível extrair o conteúdo do website)/;
+
+/**
+ * Erro que não adianta repetir: o job vai direto para "dead"
+ */
+class PermanentJobError extends Error {}
+
+// Jobs em execução neste processo
+const activeJobIds = new Set<number>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Caminho do arquivo enviado: file_path ou, em documentos antigos, derivado de file_url (/uploads/<arquivo>)
+ */
+function resolveDocumentFilePath(document: TrainingDocument): string | undefined {
+  if (document.file_path) {
+    return document.file_path;
+  }
+  if (document.file_url) {
+    return path.join(process.cwd(), 'uploads/files', path.basename(document.file_url));
+  }
+  return undefined;
+}
+
+async function runExtractJob(document: TrainingDocument): Promise<void> {
+  await storage.updateTrainingDocument(document.id, {
+    status: 'processing',
+    error_message: null,
+    updated_at: new Date()
+  });
+  await reportIngestionProgress(document.id, 'extracting');
+
+  const content = await processDocumentContent(
+    document.document_type,
+    resolveDocumentFilePath(document),
+    document.website_url || undefined,
+    document.content || undefined,
+    document.description || undefined
+  );
+
+  if (!content || !content.trim()) {
+    throw new PermanentJobError('Nenhum conteúdo extraído do documento');
+  }
+  if (PERMANENT_EXTRACTION_FAILURE.test(content)) {
+    throw new PermanentJobError(content.replace(/^\[|\]$/g, ''));
+  }
+  if (TRANSIENT_EXTRACTION_FAILURE.test(content)) {
+    throw new Error(content.replace(/^\[|\]$/g, ''));
+  }
+
+  await storage.updateTrainingDocument(document.id, { content, updated_at: new Date() });
+  console.log(`[Jobs] Conteúdo extraído do documento ${document.id}: ${content.length} caracteres`);
+}
+
+async function runIndexJob(document: TrainingDocument): Promise<void> {
+  if (!document.content || !document.content.trim()) {
+    throw new PermanentJobError(document.document_type === 'file' ? 'Arquivo não possui conteúdo legível' : 'Documento sem conteúdo');
+  }
+
+  const success = await indexTrainingDocument(document.id);
+  if (!success) {
+    // indexTrainingDocument registra o motivo no documento
+    const updated = await storage.getTrainingDocument(document.id);
+    throw new Error(updated?.error_message || 'Falha ao indexar o documento');
+  }
+}
+
+/**
+ * A reserva expirou e outro worker assumiu o job: o resultado desta execução é descartado
+ */
+function logLostLease(job: DocumentJob): void {
+  console.warn(`[Jobs] Job ${job.id} (${job.type}) do documento ${job.document_id} foi reservado por outro worker; resultado de ${WORKER_ID} descartado`);
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+async function handleJobFailure(job: DocumentJob, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof PermanentJobError || job.attempts >= job.max_attempts) {
+    const dead = await storage.updateDocumentJob(job.id, {
+      status: 'dead',
+      last_error: message,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: new Date()
+    }, LEASE_CONDITIONS);
+    if (!dead) {
+      logLostLease(job);
+      return;
+    }
+    await storage.updateTrainingDocument(job.document_id, {
+      status: 'error',
+      error_message: message,
+      updated_at: new Date()
+    });
+    await reportIngestionProgress(job.document_id, 'error', { message });
+    console.error(`[Jobs] Job ${job.id} (${job.type}) do documento ${job.document_id} desistido após ${job.attempts} tentativas: ${message}`);
+    return;
+  }
+
+  const runAt = new Date(Date.now() + retryDelay(job.attempts));
+  const rescheduled = await storage.updateDocumentJob(job.id, {
+    status: 'pending',
+    run_at: runAt,
+    last_error: message,
+    locked_by: null,
+    lease_expires_at: null
+  }, LEASE_CONDITIONS);
+  if (!rescheduled) {
+    logLostLease(job);
+    return;
+  }
+  const retryMessage = `Tentativa ${job.attempts} de ${job.max_attempts} falhou (${message}); nova tentativa às ${runAt.toLocaleTimeString('pt-BR')}`;
+  await storage.updateTrainingDocument(job.document_id, {
+    status: 'pending',
+    error_message: retryMessage,
+    updated_at: new Date()
+  });
+  await reportIngestionProgress(job.document_id, 'queued', { message: retryMessage, progress: 0 });
+  console.warn(`[Jobs] Job ${job.id} (${job.type}) do documento ${job.document_id} falhou na tentativa ${job.attempts}/${job.max_attempts}, nova tentativa em ${runAt.toISOString()}: ${message}`);
+}
+
+async function executeJob(job: DocumentJob): Promise<void> {
+  activeJobIds.add(job.id);
+
+  // Renovar a reserva enquanto o job roda; se ela se perdeu, outro worker já pode ter assumido o job
+  const heartbeat = setInterval(() => {
+    storage.renewDocumentJobLease(job.id, WORKER_ID, LEASE_MS)
+      .then(renewed => {
+        if (!renewed) {
+          console.warn(`[Jobs] Reserva do job ${job.id} perdida pelo worker ${WORKER_ID}`);
+        }
+      })
+      .catch(error => console.error(`[Jobs] Erro ao renovar a reserva do job ${job.id}:`, error));
+  }, LEASE_RENEW_MS);
+
+  try {
+    // Job reservado de novo depois de derrubar o processo várias vezes (ex.: falta de memória)
+    if (job.attempts > job.max_attempts) {
+      throw new PermanentJobError('Processamento interrompido repetidamente; tentativas esgotadas');
+    }
+
+    const document = await storage.getTrainingDocument(job.document_id);
+    if (!document) {
+      throw new PermanentJobError(`Documento ${job.document_id} não encontrado`);
+    }
+
+    console.log(`[Jobs] Executando job ${job.id} (${job.type}) do documento ${job.document_id}, tentativa ${job.attempts}/${job.max_attempts}`);
+
+    if (job.type === 'extract') {
+      await runExtractJob(document);
+    } else {
+      await runIndexJob(document);
+    }
+
+    const completed = await storage.updateDocumentJob(job.id, {
+      status: 'completed',
+      last_error: null,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: new Date()
+    }, LEASE_CONDITIONS);
+
+    // Conteúdo extraído segue para a indexação
+    if (!completed) {
+      logLostLease(job);
+    } else if (job.type === 'extract') {
+      await enqueueDocumentJob(job.document_id, 'index', job.created_by ?? undefined, phaseStartProgress('chunking'));
+    }
+  } catch (error) {
+    console.error(`[Jobs] Erro no job ${job.id} (${job.type}) do documento ${job.document_id}:`, error);
+    try {
+      await handleJobFailure(job, error);
+    } catch (updateError) {
+      console.error(`[Jobs] Erro ao registrar a falha do job ${job.id}:`, updateError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    activeJobIds.delete(job.id);
+    wakeDocumentJobWorker();
+  }
+}
+
+/**
+ * Reserva jobs prontos até o limite de concorrência e os executa
+ */
+async function pollDocumentJobs(): Promise<void> {
+  if (polling) {
+    return;
+  }
+  polling = true;
+
+  try {
+    const slots = CONCURRENCY - activeJobIds.size;
+    if (slots <= 0) {
+      return;
+    }
+
+    const jobs = await storage.claimDocumentJobs(WORKER_ID, slots, LEASE_MS);
+    for (const job of jobs) {
+      executeJob(job).catch(error =>
+        console.error(`[Jobs] Falha inesperada no job ${job.id}:`, error)
+      );
+    }
+  } catch (error) {
+    console.error('[Jobs] Erro ao buscar jobs de documentos:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Procura jobs imediatamente (após enfileirar ou concluir um job), sem esperar o próximo ciclo
+ */
+function wakeDocumentJobWorker(): void {
+  if (pollTimer) {
+    setImmediate(() => pollDocumentJobs());
+  }
+}
+
+/**
+ * Enfileira uma etapa do processamento do documento. Se o documento já tem um job pendente, ele é
+ * devolvido (uma extração pendente já termina com a indexação). Um job em execução pode estar lendo
+ * o conteúdo anterior: nesse caso um novo job é enfileirado e só é reservado quando o atual terminar.
+ * @param initialProgress Progresso total já alcançado (a indexação depois da extração não recomeça do zero)
+ */
+export async function enqueueDocumentJob(
+  documentId: number,
+  type: DocumentJobType,
+  createdBy?: number,
+  initialProgress: number = 0
+): Promise<DocumentJob> {
+  const [pendingJob] = await storage.getDocumentJobs({ status: 'pending', documentId, limit: 1 });
+  if (pendingJob) {
+    // Uma extração pedida depois de uma indexação pendente substitui a indexação (a extração termina com ela)
+    if (type === 'extract' && pendingJob.type === 'index') {
+      return (await storage.updateDocumentJob(pendingJob.id, { type: 'extract' }, { status: 'pending' })) || pendingJob;
+    }
+    return pendingJob;
+  }
+
+  const job = await storage.createDocumentJob({
+    document_id: documentId,
+    type,
+    created_by: createdBy
+  });
+  await storage.updateTrainingDocument(documentId, {
+    status: 'pending',
+    error_message: null,
+    updated_at: new Date()
+  });
+  await reportIngestionProgress(documentId, 'queued', { progress: initialProgress });
+
+  console.log(`[Jobs] Job ${job.id} (${type}) enfileirado para o documento ${documentId}`);
+  wakeDocumentJobWorker();
+  return job;
+}
+
+/**
+ * Primeira etapa do documento: extração para arquivos, imagens e websites; indexação para textos
+ */
+export function initialJobType(document: TrainingDocument): DocumentJobType {
+  return document.document_type === 'text' && document.content ? 'index' : 'extract';
+}
+
+/**
+ * Nova tentativa de um job desistido ("dead"), pedida pelo administrador
+ */
+export async function retryDocumentJob(jobId: number): Promise<DocumentJob | undefined> {
+  const job = await storage.getDocumentJob(jobId);
+  if (!job || job.status !== 'dead') {
+    return undefined;
+  }
+
+  const retried = await storage.updateDocumentJob(jobId, {
+    status: 'pending',
+    attempts: 0,
+    run_at: new Date(),
+    completed_at: null
+  });
+  await storage.updateTrainingDocument(job.document_id, {
+    status: 'pending',
+    error_message: null,
+    updated_at: new Date()
+  });
+  await reportIngestionProgress(job.document_id, 'queued', { progress: 0 });
+
+  wakeDocumentJobWorker();
+  return retried;
+}
+
+/**
+ * Inicia o worker deste processo. Jobs que estavam em execução quando o servidor parou são
+ * retomados quando a reserva deles expira.
+ */
+export function startDocumentJobWorker(): void {
+  if (pollTimer) {
+    return;
+  }
+
+  console.log(`[Jobs] Worker ${WORKER_ID} iniciado (até ${CONCURRENCY} jobs simultâneos)`);
+  pollTimer = setInterval(() => pollDocumentJobs(), POLL_INTERVAL_MS);
+  pollDocumentJobs();
+}
+
+/**
+ * Situação da fila: jobs por status e os mais recentes
+ */
+export async function getDocumentJobQueueStatus(limit: number = 50) {
+  const stats = await storage.getDocumentJobStats();
+  const jobs = await storage.getDocumentJobs({ limit });
+
+  return {
+    workerId: WORKER_ID,
+    concurrency: CONCURRENCY,
+    counts: stats.reduce<Record<string, number>>((counts, entry) => ({ ...counts, [entry.status]: entry.count }), {}),
+    jobs
+  };
+}
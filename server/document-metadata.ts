@@ -0,0 +1,315 @@
+/**
+ * Metadados estruturados dos documentos e filtros da recuperação
+ *
+ * A busca filtrava apenas por idioma, e um técnico trabalhando numa placa Samsung recebia
+ * trechos de manuais de iPhone. Cada documento tem marca, modelos de aparelho e revisão da
+ * placa, extraídos por LLM na indexação ou editados pelo administrador, e esses valores são
+ * copiados para os chunks (device_models do chunk fica restrito aos modelos citados no trecho).
+ *
+ * Na consulta, os filtros vêm da interface do chat ou são inferidos do texto da pergunta,
+ * comparando-o com os valores cadastrados no acervo. Documentos sem metadados (genéricos)
+ * continuam aparecendo com qualquer filtro.
+ */
+import { z } from 'zod';
+import { storage } from './storage';
+import { ChunkMetadataFilter, RetrievalFilters, RetrievalTrace, TrainingDocument } from '@shared/schema';
+import { getActiveLlmInfo } from './llm';
+import { getLlmProvider } from './llm-providers';
+
+// Trecho inicial do documento enviado ao LLM na extração (capa, índice e introdução costumam bastar)
+const EXTRACTION_MAX_CHARS = 6000;
+// Validade do vocabulário de metadados usado na inferência de filtros
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+
+export interface DocumentMetadata {
+  brand: string | null;
+  device_models: string[];
+  board_revision: string | null;
+}
+
+// Filtros enviados pela interface do chat
+export const retrievalFiltersSchema = z.object({
+  brand: z.string().optional(),
+  device_models: z.array(z.string()).optional(),
+  board_revision: z.string().optional(),
+  category_ids: z.array(z.coerce.number().int()).optional(),
+  language: z.enum(['pt', 'en']).optional()
+});
+
+/**
+ * Valores são gravados e comparados em minúsculas, sem espaços repetidos
+ */
+export function normalizeMetadataValue(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalized.length > 0 ? normalized : null;
+}
+
+/**
+ * Aceita os modelos como lista ou texto separado por vírgulas (formulário do administrador)
+ */
+export function normalizeDocumentMetadata(input: {
+  brand?: unknown;
+  device_models?: unknown;
+  board_revision?: unknown;
+}): DocumentMetadata {
+  const rawModels = Array.isArray(input.device_models)
+    ? input.device_models
+    : typeof input.device_models === 'string' ? input.device_models.split(',') : [];
+  const deviceModels = rawModels
+    .map(normalizeMetadataValue)
+    .filter((model): model is string => !!model);
+
+  return {
+    brand: normalizeMetadataValue(input.brand),
+    device_models: Array.from(new Set(deviceModels)),
+    board_revision: normalizeMetadataValue(input.board_revision)
+  };
+}
+
+export function getDocumentMetadata(document: TrainingDocument): DocumentMetadata {
+  return {
+    brand: document.brand,
+    device_models: document.device_models || [],
+    board_revision: document.board_revision
+  };
+}
+
+/**
+ * Texto em minúsculas, sem acentos e pontuação, para procurar termos por palavra inteira
+ */
+function normalizeForMatch(text: string): string {
+  return ` ${text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+function mentions(normalizedText: string, term: string): boolean {
+  const normalizedTerm = normalizeForMatch(term);
+  return normalizedTerm.trim().length > 0 && normalizedText.includes(normalizedTerm);
+}
+
+/**
+ * Pede ao LLM marca, modelos e revisão da placa a partir do nome e do início do documento
+ */
+export async function extractDocumentMetadata(name: string, content: string): Promise<DocumentMetadata | null> {
+  try {
+    const llmInfo = await getActiveLlmInfo();
+    const adapter = getLlmProvider(llmInfo.provider);
+
+    const systemPrompt = `
+      Você cataloga manuais técnicos de manutenção de placas eletrônicas.
+      Identifique no documento a marca do aparelho, os modelos cobertos e a revisão da placa.
+      Use null (ou lista vazia) quando o documento for genérico ou a informação não aparecer.
+      Não invente valores.
+      Responda APENAS com JSON no formato:
+      {"brand": "<marca ou null>", "device_models": ["<modelo>"], "board_revision": "<revisão ou null>"}
+    `;
+
+    const result = await adapter.chat({
+      model: adapter.lightModel || llmInfo.modelName,
+      apiKey: llmInfo.apiKey,
+      baseUrl: llmInfo.baseUrl,
+      system: systemPrompt,
+      messages: [{
+        role: 'user',
+        content: `Nome do documento: ${name}\n\n${content.substring(0, EXTRACTION_MAX_CHARS)}`
+      }],
+      temperature: 0,
+      maxTokens: 300
+    });
+
+    const match = (result.text || '').match(/\{[\s\S]*\}/);
+    if (!match) {
+      console.warn(`[Metadados] Resposta sem JSON na extração do documento "${name}"`);
+      return null;
+    }
+
+    return normalizeDocumentMetadata(JSON.parse(match[0]));
+  } catch (error) {
+    console.error(`[Metadados] Erro ao extrair metadados do documento "${name}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Metadados de um chunk: os do documento, com os modelos restritos aos citados no trecho.
+ * Trechos que não citam nenhum modelo (introdução, procedimentos comuns) valem para todos.
+ */
+function deriveChunkMetadata(metadata: DocumentMetadata, content: string): DocumentMetadata {
+  const normalizedContent = normalizeForMatch(content);
+  const citedModels = metadata.device_models.filter(model => mentions(normalizedContent, model));
+
+  return {
+    ...metadata,
+    device_models: citedModels.length > 0 ? citedModels : metadata.device_models
+  };
+}
+
+/**
+ * Copia os metadados do documento para os chunks, gravando apenas os que mudaram
+ */
+export async function applyDocumentMetadataToChunks(documentId: number, metadata: DocumentMetadata): Promise<number> {
+  const chunks = await storage.getDocumentChunksByDocument(documentId);
+  let updated = 0;
+
+  for (const chunk of chunks) {
+    const chunkMetadata = deriveChunkMetadata(metadata, chunk.content);
+    const unchanged = chunk.brand === chunkMetadata.brand &&
+      chunk.board_revision === chunkMetadata.board_revision &&
+      (chunk.device_models || []).join('|') === chunkMetadata.device_models.join('|');
+
+    if (!unchanged) {
+      await storage.updateDocumentChunkMetadata(chunk.id, chunkMetadata);
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Grava os metadados no documento e nos chunks
+ * @param source manual quando editados pelo administrador (a indexação deixa de sobrescrevê-los)
+ */
+export async function saveDocumentMetadata(
+  documentId: number,
+  metadata: DocumentMetadata,
+  source: 'auto' | 'manual'
+): Promise<void> {
+  await storage.updateTrainingDocument(documentId, { ...metadata, metadata_source: source });
+  const updatedChunks = await applyDocumentMetadataToChunks(documentId, metadata);
+  invalidateMetadataVocabulary();
+
+  console.log(`[Metadados] Documento ${documentId} (${source}): marca=${metadata.brand || '-'}, modelos=${metadata.device_models.join(', ') || '-'}, revisão=${metadata.board_revision || '-'}; ${updatedChunks} chunks atualizados`);
+}
+
+/**
+ * Atualiza os metadados de um documento recém-indexado. Metadados editados pelo administrador
+ * são mantidos; os automáticos são extraídos de novo apenas quando o conteúdo mudou.
+ */
+export async function refreshDocumentMetadata(document: TrainingDocument, contentChanged: boolean): Promise<void> {
+  let metadata = getDocumentMetadata(document);
+
+  if (document.metadata_source !== 'manual' && (contentChanged || !document.metadata_source)) {
+    metadata = await extractDocumentMetadata(document.name, document.content || '') || metadata;
+  }
+
+  await saveDocumentMetadata(document.id, metadata, document.metadata_source === 'manual' ? 'manual' : 'auto');
+}
+
+let vocabularyCache: { value: Awaited<ReturnType<typeof storage.getDocumentMetadataVocabulary>>; loadedAt: number } | null = null;
+
+/**
+ * Valores cadastrados de marca, modelo e revisão (cache de alguns minutos)
+ */
+export async function getMetadataVocabulary() {
+  if (!vocabularyCache || Date.now() - vocabularyCache.loadedAt > VOCABULARY_TTL_MS) {
+    vocabularyCache = { value: await storage.getDocumentMetadataVocabulary(), loadedAt: Date.now() };
+  }
+  return vocabularyCache.value;
+}
+
+export function invalidateMetadataVocabulary(): void {
+  vocabularyCache = null;
+}
+
+/**
+ * Filtros citados na pergunta: marcas, modelos e revisões do acervo que aparecem no texto
+ */
+export async function inferRetrievalFilters(query: string): Promise<RetrievalFilters> {
+  try {
+    const vocabulary = await getMetadataVocabulary();
+    const normalizedQuery = normalizeForMatch(query);
+    const filters: RetrievalFilters = {};
+
+    const brand = vocabulary.brands.find(value => mentions(normalizedQuery, value));
+    if (brand) {
+      filters.brand = brand;
+    }
+
+    const deviceModels = vocabulary.device_models.filter(value => mentions(normalizedQuery, value));
+    if (deviceModels.length > 0) {
+      filters.device_models = deviceModels;
+    }
+
+    const boardRevision = vocabulary.board_revisions.find(value => mentions(normalizedQuery, value));
+    if (boardRevision) {
+      filters.board_revision = boardRevision;
+    }
+
+    return filters;
+  } catch (error) {
+    console.error('[Metadados] Erro ao inferir filtros da consulta:', error);
+    return {};
+  }
+}
+
+function normalizeDocumentMetadataFilter(filters: RetrievalFilters): RetrievalFilters {
+  const metadata = normalizeDocumentMetadata(filters);
+  return {
+    ...(metadata.brand ? { brand: metadata.brand } : {}),
+    ...(metadata.device_models.length > 0 ? { device_models: metadata.device_models } : {}),
+    ...(metadata.board_revision ? { board_revision: metadata.board_revision } : {})
+  };
+}
+
+/**
+ * Combina os filtros informados pela interface com os inferidos da pergunta
+ * (os informados prevalecem) e registra ambos no rastreamento
+ */
+export async function resolveRetrievalFilters(
+  query: string,
+  explicit: RetrievalFilters = {},
+  trace?: RetrievalTrace
+): Promise<RetrievalFilters> {
+  const normalizedExplicit: RetrievalFilters = {
+    ...normalizeDocumentMetadataFilter(explicit),
+    ...(explicit.category_ids && explicit.category_ids.length > 0 ? { category_ids: explicit.category_ids } : {}),
+    ...(explicit.language ? { language: explicit.language } : {})
+  };
+  const inferred = await inferRetrievalFilters(query);
+  const filters = { ...inferred, ...normalizedExplicit };
+
+  if (trace && Object.keys(filters).length > 0) {
+    trace.filters = { explicit: normalizedExplicit, inferred };
+  }
+  if (Object.keys(inferred).length > 0) {
+    console.log(`[Metadados] Filtros inferidos da consulta: ${JSON.stringify(inferred)}`);
+  }
+
+  return filters;
+}
+
+/**
+ * Restringe o escopo de documentos às categorias do filtro.
+ * undefined = sem restrição; array vazio = nenhum documento.
+ */
+export async function applyCategoryFilter(documentIds: number[] | undefined, categoryIds?: number[]): Promise<number[] | undefined> {
+  if (!categoryIds || categoryIds.length === 0) {
+    return documentIds;
+  }
+
+  const categoryDocumentIds = await storage.getDocumentIdsByCategories(categoryIds);
+  return documentIds
+    ? documentIds.filter(id => categoryDocumentIds.includes(id))
+    : categoryDocumentIds;
+}
+
+/**
+ * Aplica o filtro de metadados a documentos inteiros (caminhos que usam o documento completo);
+ * documentos sem o metadado passam, como na busca de chunks
+ */
+export function filterDocumentsByMetadata<T extends TrainingDocument>(documents: T[], filters?: ChunkMetadataFilter): T[] {
+  if (!filters) {
+    return documents;
+  }
+
+  const deviceModels = filters.device_models || [];
+  return documents.filter(doc =>
+    (!filters.brand || !doc.brand || doc.brand === filters.brand) &&
+    (deviceModels.length === 0 || !doc.device_models || doc.device_models.length === 0 ||
+      doc.device_models.some(model => deviceModels.includes(model))) &&
+    (!filters.board_revision || !doc.board_revision || doc.board_revision === filters.board_revision)
+  );
+}
@@ -3,23 +3,32 @@
  * 
  * Este módulo implementa um sistema de monitoramento automático para documentos
  * que ficam travados em estado de processamento por muito tempo.
+ * 
+ * O processamento roda na fila de jobs (document-jobs.ts), que retoma sozinha os jobs
+ * interrompidos. O monitor cuida dos documentos que ficaram em "processing" ou "pending"
+ * sem nenhum job na fila (processamento anterior à fila, ou job perdido) e os devolve à fila;
+ * eles nunca foram indexados e não podem ser marcados como concluídos.
  */
 
 import { storage } from './storage';
 import { logAction } from './audit';
+import { enqueueDocumentJob, initialJobType } from './document-jobs';
 
 // Tempo máximo (em minutos) que um documento pode ficar em estado "processing"
 const MAX_PROCESSING_TIME_MINUTES = 30; 
 
 /**
- * Verifica documentos travados em processamento e tenta recuperá-los
+ * Verifica documentos travados em processamento e os devolve à fila de jobs
  */
 export async function checkStuckDocuments() {
   try {
     console.log('Verificando documentos travados em processamento...');
     
-    // Buscar todos os documentos em processamento
-    const documents = await storage.getTrainingDocumentsByStatus('processing');
+    // Buscar todos os documentos em processamento ou aguardando processamento
+    const documents = [
+      ...await storage.getTrainingDocumentsByStatus('processing'),
+      ...await storage.getTrainingDocumentsByStatus('pending')
+    ];
     
     if (documents.length === 0) {
       console.log('Nenhum documento em processamento encontrado.');
@@ -32,10 +41,13 @@ export async function checkStuckDocuments() {
     const cutoffTime = new Date();
     cutoffTime.setMinutes(cutoffTime.getMinutes() - MAX_PROCESSING_TIME_MINUTES);
     
-    // Filtrar documentos travados (updated_at anterior ao cutoffTime)
-    const stuckDocuments = documents.filter(doc => 
-      doc.updated_at && new Date(doc.updated_at) < cutoffTime
-    );
+    // Filtrar documentos travados (updated_at anterior ao cutoffTime e sem job na fila)
+    const stuckDocuments: typeof documents = [];
+    for (const doc of documents) {
+      if (doc.updated_at && new Date(doc.updated_at) < cutoffTime && !await storage.getActiveDocumentJob(doc.id)) {
+        stuckDocuments.push(doc);
+      }
+    }
     
     if (stuckDocuments.length === 0) {
       console.log('Nenhum documento travado encontrado.');
@@ -61,15 +73,10 @@ export async function checkStuckDocuments() {
         ipAddress: "system"
       });
       
-      // Resetar o status do documento para permitir reprocessamento
-      await storage.updateTrainingDocument(doc.id, {
-        status: 'completed',
-        error_message: `Documento foi automaticamente recuperado após estar travado em processamento por mais de ${MAX_PROCESSING_TIME_MINUTES} minutos com progresso de ${doc.progress || 0}%.`,
-        updated_at: new Date(),
-        progress: 0
-      });
+      // Devolver o documento à fila para ser processado de novo
+      const job = await enqueueDocumentJob(doc.id, initialJobType(doc));
       
-      console.log(`Documento ID ${doc.id} recuperado com sucesso.`);
+      console.log(`Documento ID ${doc.id} devolvido à fila (job ${job.id}, ${job.type}).`);
     }
     
     console.log('Verificação de documentos travados concluída.');
@@ -1,12 +1,16 @@
 import fs from 'fs';
 import fetch from 'node-fetch';
 import path from 'path';
-import pdfParse from 'pdf-parse';
 import mammoth from 'mammoth';
+import ExcelJS from 'exceljs';
+import { parse as parseCsv } from 'csv-parse/sync';
+import JSZip from 'jszip';
 import { promisify } from 'util';
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { logLlmUsage } from './llm';
+import { SPREADSHEET_SHEET_PREFIX, SPREADSHEET_COLUMNS_PREFIX } from './document-chunking';
+import { extractPdfPages, ocrScannedPages, formatPdfPages } from './pdf-extraction';
 
 // Método auxiliar para ler arquivos como Promise
 const readFile = promisify(fs.readFile);
@@ -50,22 +54,12 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
         
         console.log(`Lido início do PDF (${maxInitialRead / (1024 * 1024)} MB) para tentar extrair texto parcial.`);
         
-        // Tentar extrair texto dessa parte inicial
-        const partialOptions = {
-          max: 30,  // limitar a 30 páginas
-          version: 'v1.10.100'
-        };
-        
+        // Tentar extrair texto dessa parte inicial (limitado a 30 páginas)
         try {
-          const partialData = await pdfParse(bufferStart, partialOptions);
+          const partialData = await extractPdfPages(bufferStart, 30);
+          const partialText = formatPdfPages(partialData.pages);
           
-          if (partialData && partialData.text && partialData.text.length > 0) {
-            let partialText = partialData.text
-              .replace(/\f/g, '\n')
-              .replace(/\r\n/g, '\n')
-              .replace(/\n{3,}/g, '\n\n')
-              .trim();
-              
+          if (partialText.length > 0) {
             console.log(`Extração parcial bem-sucedida: ${partialText.length} caracteres obtidos.`);
             
             // Aviso sobre extração parcial
@@ -93,16 +87,10 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
       return "Erro ao ler o arquivo PDF";
     }
     
-    // Configurações otimizadas com base no tamanho do PDF
-    const options = {
-      max: 0,                 // sem limite de páginas por padrão
-      pagerender: undefined,  // renderização padrão
-      version: 'v1.10.100',   // versão específica para estabilidade
-      // Para PDFs grandes, limitar o uso de recursos se necessário
-      ...(isLargePDF ? { max: 400 } : {}) // Limitar a 400 páginas para PDFs grandes
-    };
+    // Limitar a 400 páginas para PDFs grandes (0 = sem limite)
+    const maxPages = isLargePDF ? 400 : 0;
     
-    // Extrair o texto
+    // Extrair o texto página a página (parágrafos, tabelas e marcadores de página)
     let data;
     try {
       console.log("Iniciando extração de texto do PDF...");
@@ -110,7 +98,7 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
       const timeoutMs = isLargePDF ? 120000 : 60000; // 2 minutos para PDFs grandes, 1 minuto para normais
       
       // Executar com timeout para evitar bloqueio indefinido
-      const extractionPromise = pdfParse(dataBuffer, options);
+      const extractionPromise = extractPdfPages(dataBuffer, maxPages);
       
       // Criar promise com timeout
       const timeoutPromise = new Promise((_, reject) => {
@@ -118,8 +106,10 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
       });
       
       // Corrida entre extração e timeout
-      data = await Promise.race([extractionPromise, timeoutPromise]) as any;
-      console.log(`Texto extraído do PDF: ${data.text?.length || 0} caracteres em ${data.numpages || 0} páginas`);
+      data = await Promise.race([extractionPromise, timeoutPromise]) as Awaited<typeof extractionPromise>;
+      const tables = data.pages.reduce((sum, page) => sum + page.tables, 0);
+      const scannedPages = data.pages.filter(page => page.scanned).length;
+      console.log(`Texto extraído do PDF: ${data.pages.length} de ${data.numpages} páginas, ${tables} tabelas, ${scannedPages} páginas digitalizadas`);
     } catch (parseError) {
       console.error("Erro ao fazer parse do PDF:", parseError instanceof Error ? parseError.message : 'Erro desconhecido');
       
@@ -135,22 +125,18 @@ export async function extractTextFromPDF(filePath: string): Promise<string> {
       return "Erro ao analisar o conteúdo do PDF. O arquivo pode estar corrompido ou protegido.";
     }
     
-    // Melhorar a qualidade do texto extraído
-    if (!data || !data.text || data.text.trim().length === 0) {
+    // Páginas digitalizadas (sem camada de texto) passam pelo OCR
+    await ocrScannedPages(dataBuffer, data.pages);
+    
+    let text = formatPdfPages(data.pages);
+    
+    if (text.length === 0) {
       console.error("PDF sem texto extraível, adicionando marcador de conteúdo visual");
       
       // Em vez de falhar, retornar um texto especial que indica conteúdo visual
       return "[DOCUMENTO VISUAL DETECTADO: Este documento parece conter principalmente imagens, diagramas ou gráficos com pouco texto extraível. O sistema continuará o processamento considerando que pode haver informações visuais importantes como esquemas de placas de circuito, diagramas técnicos, valores numéricos em imagens ou outras referências visuais relevantes para manutenção técnica.]";
     }
     
-    let text = data.text;
-    
-    // Remover quebras de página e normalizar espaçamento
-    text = text.replace(/\f/g, '\n')
-               .replace(/\r\n/g, '\n')
-               .replace(/\n{3,}/g, '\n\n')
-               .trim();
-               
     console.log(`PDF processado com sucesso: ${text.length} caracteres extraídos em ${data.numpages} páginas`);
     
     // Sinal claro de sucesso quando temos texto suficiente extraído
@@ -402,6 +388,454 @@ export async function extractTextFromDOCX(filePath: string): Promise<string> {
   }
 }
 
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.csv'];
+// Formatos binários antigos (Excel 97-2003 e OpenDocument) não são lidos: o arquivo precisa ser
+// salvo como XLSX ou CSV antes do envio
+export const LEGACY_SPREADSHEET_EXTENSIONS = ['.xls', '.ods'];
+// Limite de linhas por planilha; tabelas maiores são truncadas
+const MAX_SPREADSHEET_ROWS = 50000;
+// Separadores aceitos em CSV (planilhas em português costumam exportar com ";")
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+  // Número (1 em diante) da primeira linha de rows na planilha original
+  firstRow: number;
+}
+
+function normalizeCell(value: unknown): string {
+  return String(value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+// Letra da coluna no padrão das planilhas (0 → A, 26 → AA)
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + (n - 1) % 26) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Escolhe a linha de cabeçalho entre as primeiras linhas da aba: a primeira com ao menos
+ * duas células preenchidas e a maioria delas com texto (não numérico)
+ */
+function findHeaderRow(rows: string[][]): number {
+  const limit = Math.min(rows.length, 10);
+  for (let i = 0; i < limit; i++) {
+    const filled = rows[i].filter(cell => cell.length > 0);
+    const textual = filled.filter(cell => !/^[-+]?[\d.,]+%?$/.test(cell));
+    if (filled.length >= 2 && textual.length > filled.length / 2) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Nomes das colunas: células vazias viram "Coluna B" e nomes repetidos recebem um sufixo
+ */
+function buildColumnNames(headerRow: string[], width: number): string[] {
+  const seen = new Map<string, number>();
+  const names: string[] = [];
+  for (let c = 0; c < width; c++) {
+    let name = headerRow[c] || `Coluna ${columnLetter(c)}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    if (count > 1) {
+      name = `${name} (${count})`;
+    }
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Texto exibido de uma célula XLSX: resultado das fórmulas, datas sem horário quando à meia-noite
+ * e porcentagens conforme o formato numérico da célula
+ */
+function formatExcelCell(cell: ExcelJS.Cell): string {
+  const value = cell.type === ExcelJS.ValueType.Formula ? cell.result : cell.value;
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ');
+  }
+  if (typeof value === 'number' && cell.numFmt?.includes('%')) {
+    return `${Number((value * 100).toFixed(4))}%`;
+  }
+  return normalizeCell(cell.text);
+}
+
+/**
+ * Lê as abas visíveis de um arquivo XLSX. Células mescladas (ex.: componente que abrange várias
+ * linhas) repetem o valor em toda a área
+ */
+async function readXlsxSheets(filePath: string): Promise<SpreadsheetSheet[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  
+  const sheets: SpreadsheetSheet[] = [];
+  for (const worksheet of workbook.worksheets) {
+    if (worksheet.state !== 'visible' || worksheet.actualRowCount === 0) {
+      continue;
+    }
+    
+    const { top, left, bottom, right } = worksheet.dimensions;
+    const rows: string[][] = [];
+    for (let r = top; r <= bottom; r++) {
+      const row = worksheet.getRow(r);
+      const cells: string[] = [];
+      for (let c = left; c <= right; c++) {
+        const cell = row.getCell(c);
+        cells.push(formatExcelCell(cell.isMerged ? cell.master : cell));
+      }
+      rows.push(cells);
+    }
+    sheets.push({ name: worksheet.name, rows, firstRow: top });
+  }
+  return sheets;
+}
+
+/**
+ * Lê um CSV como texto UTF-8 e sem conversão de valores (ex.: "1/2" não vira data). O separador
+ * é o mais frequente na primeira linha preenchida
+ */
+async function readCsvSheet(filePath: string): Promise<SpreadsheetSheet[]> {
+  const text = (await readFile(filePath, 'utf8')).replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/).find(line => line.trim().length > 0) || '';
+  const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+  
+  const records = parseCsv(text, {
+    delimiter,
+    relax_column_count: true,
+    relax_quotes: true,
+    skip_empty_lines: false
+  }) as string[][];
+  
+  return [{
+    name: path.basename(filePath, path.extname(filePath)),
+    rows: records.map(record => record.map(normalizeCell)),
+    firstRow: 1
+  }];
+}
+
+/**
+ * Extrai o texto de planilhas (XLSX e CSV). Cada linha vira uma linha de texto
+ * com os nomes das colunas ("Pino: 4 | Tensão (V): 3.3"), para que os chunks continuem
+ * compreensíveis longe do cabeçalho. O formato é o esperado por spreadsheetChunking.
+ * @param filePath Caminho completo para o arquivo da planilha
+ */
+export async function extractTextFromSpreadsheet(filePath: string): Promise<string> {
+  try {
+    const extension = path.extname(filePath).toLowerCase();
+    console.log(`Iniciando processamento de planilha ${extension}: ${filePath}`);
+    
+    const sheets = extension === '.csv'
+      ? await readCsvSheet(filePath)
+      : await readXlsxSheets(filePath);
+    
+    const sections: string[] = [];
+    let totalRows = 0;
+    
+    for (const { name, rows, firstRow } of sheets) {
+      const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+      const headerIndex = findHeaderRow(rows);
+      const columns = buildColumnNames(headerIndex >= 0 ? rows[headerIndex] : [], width);
+      
+      const lines: string[] = [`${SPREADSHEET_SHEET_PREFIX}${name}]`];
+      // Linhas acima do cabeçalho costumam ser o título da tabela
+      for (let r = 0; r < headerIndex; r++) {
+        const title = rows[r].filter(cell => cell.length > 0).join(' ');
+        if (title) lines.push(title);
+      }
+      lines.push(`${SPREADSHEET_COLUMNS_PREFIX}${columns.join(' | ')}`);
+      
+      let sheetRows = 0;
+      for (let r = headerIndex + 1; r < rows.length; r++) {
+        const cells = rows[r]
+          .map((cell, c) => cell ? `${columns[c]}: ${cell}` : '')
+          .filter(cell => cell.length > 0);
+        if (cells.length === 0) continue;
+        
+        if (totalRows >= MAX_SPREADSHEET_ROWS) {
+          console.warn(`Planilha ${filePath} truncada em ${MAX_SPREADSHEET_ROWS} linhas`);
+          break;
+        }
+        lines.push(`Linha ${firstRow + r}: ${cells.join(' | ')}`);
+        sheetRows++;
+        totalRows++;
+      }
+      
+      if (sheetRows > 0) {
+        sections.push(lines.join('\n'));
+      }
+    }
+    
+    if (sections.length === 0) {
+      return "[Planilha sem dados: nenhuma aba com linhas preenchidas]";
+    }
+    
+    console.log(`Planilha processada com sucesso: ${sections.length} abas, ${totalRows} linhas`);
+    return sections.join('\n\n');
+  } catch (error) {
+    console.error("Erro ao extrair dados da planilha:", error);
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    return `[Planilha ilegível: ${errorMessage}]`;
+  }
+}
+
+export const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+export const HTML_EXTENSIONS = ['.html', '.htm'];
+export const PRESENTATION_EXTENSIONS = ['.pptx'];
+
+// semanticChunking reconhece títulos "#" a "###"; níveis mais profundos são agrupados no terceiro
+function markdownHeading(level: number, title: string): string {
+  return `${'#'.repeat(Math.min(Math.max(level, 1), 3))} ${title.trim()}`;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…', deg: '°', plusmn: '±', micro: 'µ', ohm: 'Ω'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanStructuredText(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extrai o texto de arquivos Markdown mantendo os títulos, que delimitam as seções do chunking.
+ * Títulos sublinhados (=== / ---) viram títulos "#"; imagens ficam apenas com o texto alternativo.
+ * @param filePath Caminho completo para o arquivo Markdown
+ */
+export async function extractTextFromMarkdown(filePath: string): Promise<string> {
+  try {
+    let content = (await readFile(filePath, 'utf8')).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    
+    // Metadados (front matter) no início de páginas de wiki
+    content = content.replace(/^---\n[\s\S]*?\n---\n/, '');
+    
+    const lines: string[] = [];
+    let inCodeBlock = false;
+    const sourceLines = content.split('\n');
+    
+    for (let i = 0; i < sourceLines.length; i++) {
+      const line = sourceLines[i];
+      
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        lines.push(line);
+        continue;
+      }
+      if (inCodeBlock) {
+        // Comentários "# ..." de scripts não podem ser confundidos com títulos de seção
+        lines.push(line.replace(/^#/, ' #'));
+        continue;
+      }
+      
+      const atx = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (atx) {
+        lines.push('', markdownHeading(atx[1].length, atx[2]));
+        continue;
+      }
+      
+      const next = sourceLines[i + 1];
+      if (line.trim() && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) {
+        lines.push('', markdownHeading(next.trim()[0] === '=' ? 1 : 2, line));
+        i++;
+        continue;
+      }
+      
+      lines.push(line
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1'));
+    }
+    
+    const text = cleanStructuredText(lines.join('\n'));
+    console.log(`Markdown processado com sucesso: ${text.length} caracteres extraídos`);
+    return text;
+  } catch (error) {
+    console.error("Erro ao extrair texto do arquivo Markdown:", error);
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    return `[Erro ao processar conteúdo: ${errorMessage}]`;
+  }
+}
+
+/**
+ * Converte HTML em texto com títulos no formato Markdown, listas com marcadores e
+ * tabelas com uma linha por registro
+ */
+function htmlToStructuredText(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|nav)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_match, code: string) => `\n\n${code.replace(/<[^>]+>/g, '')}\n\n`)
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, title: string) =>
+      `\n\n${markdownHeading(parseInt(level, 10), title.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' '))}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/t[dh]>\s*(?=<t[dh])/gi, ' | ')
+    .replace(/<\/tr>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|table|ul|ol|blockquote|header|footer|main|aside|dl|dt|dd|figure|figcaption)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .split('\n')
+    .map(line => decodeEntities(line).replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n');
+  
+  return cleanStructuredText(text);
+}
+
+/**
+ * Extrai o texto de arquivos HTML (páginas de wiki exportadas) mantendo os títulos h1-h6
+ * @param filePath Caminho completo para o arquivo HTML
+ */
+export async function extractTextFromHTML(filePath: string): Promise<string> {
+  try {
+    const html = await readFile(filePath, 'utf8');
+    const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '').replace(/\s+/g, ' ').trim();
+    let text = htmlToStructuredText(html);
+    
+    // Página sem h1: o título do documento abre o texto
+    if (title && !text.startsWith('# ')) {
+      text = `${markdownHeading(1, title)}\n\n${text}`;
+    }
+    
+    console.log(`HTML processado com sucesso: ${text.length} caracteres extraídos`);
+    return text;
+  } catch (error) {
+    console.error("Erro ao extrair texto do arquivo HTML:", error);
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    return `[Erro ao processar conteúdo: ${errorMessage}]`;
+  }
+}
+
+function xmlText(xml: string): string {
+  return decodeEntities(Array.from(xml.matchAll(/<a:t>([^<]*)<\/a:t>/g), match => match[1]).join(''));
+}
+
+/**
+ * Texto de um slide (ou das notas): título, parágrafos das caixas de texto e tabelas.
+ * Marcadores de número do slide, data e rodapé são ignorados.
+ */
+function extractSlideContent(xml: string): { title: string; lines: string[] } {
+  let title = '';
+  const lines: string[] = [];
+  
+  const shapes = xml.match(/<p:(sp|graphicFrame)>[\s\S]*?<\/p:\1>/g) || [];
+  for (const shape of shapes) {
+    const placeholder = shape.match(/<p:ph[^>]*type="(\w+)"/)?.[1];
+    if (placeholder === 'sldNum' || placeholder === 'dt' || placeholder === 'ftr' || placeholder === 'sldImg') {
+      continue;
+    }
+    
+    if (shape.includes('<a:tbl>')) {
+      for (const row of shape.match(/<a:tr[\s>][\s\S]*?<\/a:tr>/g) || []) {
+        const cells = (row.match(/<a:tc[\s>][\s\S]*?<\/a:tc>/g) || []).map(cell => xmlText(cell).trim());
+        if (cells.some(cell => cell.length > 0)) {
+          lines.push(cells.join(' | '));
+        }
+      }
+      continue;
+    }
+    
+    const paragraphs = (shape.match(/<a:p>[\s\S]*?<\/a:p>/g) || [])
+      .map(paragraph => ({ text: xmlText(paragraph).trim(), level: parseInt(paragraph.match(/<a:pPr[^>]*lvl="(\d)"/)?.[1] || '0', 10) }))
+      .filter(paragraph => paragraph.text.length > 0);
+    
+    if ((placeholder === 'title' || placeholder === 'ctrTitle') && !title) {
+      title = paragraphs.map(paragraph => paragraph.text).join(' ');
+      continue;
+    }
+    
+    const isBody = placeholder === 'body' || placeholder === undefined || placeholder === 'obj';
+    for (const paragraph of paragraphs) {
+      lines.push(isBody && paragraphs.length > 1 ? `${'  '.repeat(paragraph.level)}- ${paragraph.text}` : paragraph.text);
+    }
+  }
+  
+  return { title, lines };
+}
+
+/**
+ * Extrai o texto de apresentações PPTX. Cada slide vira uma seção "## Slide N: título",
+ * seguida do conteúdo e das notas do apresentador.
+ * @param filePath Caminho completo para o arquivo PPTX
+ */
+export async function extractTextFromPPTX(filePath: string): Promise<string> {
+  try {
+    const zip = await JSZip.loadAsync(await readFile(filePath));
+    const readEntry = async (name: string) => (await zip.file(name)?.async('string')) ?? null;
+    
+    // Ordem dos slides definida na apresentação (os nomes dos arquivos não acompanham reordenações)
+    const relationTargets = (rels: string | null) => new Map(
+      Array.from((rels || '').matchAll(/<Relationship\b[^>]*>/g), match => match[0])
+        .map(tag => [tag.match(/\bId="([^"]+)"/)?.[1] || '', tag] as [string, string])
+    );
+    const presentationRels = relationTargets(await readEntry('ppt/_rels/presentation.xml.rels'));
+    const presentation = await readEntry('ppt/presentation.xml') || '';
+    let slidePaths = Array.from(presentation.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g), match => presentationRels.get(match[1]))
+      .map(tag => tag?.match(/\bTarget="([^"]+)"/)?.[1])
+      .filter((target): target is string => !!target)
+      .map(target => path.posix.join('ppt', target.replace(/^\/?ppt\//, '')));
+    
+    if (slidePaths.length === 0) {
+      slidePaths = Object.keys(zip.files)
+        .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+        .sort((a, b) => parseInt(a.match(/\d+/)![0], 10) - parseInt(b.match(/\d+/)![0], 10));
+    }
+    
+    const sections: string[] = [];
+    for (let i = 0; i < slidePaths.length; i++) {
+      const slideXml = await readEntry(slidePaths[i]);
+      if (!slideXml) continue;
+      
+      const { title, lines } = extractSlideContent(slideXml);
+      
+      // Notas do apresentador, ligadas pelo arquivo de relacionamentos do slide
+      const slideRels = relationTargets(await readEntry(slidePaths[i].replace(/slides\/(slide\d+\.xml)$/, 'slides/_rels/$1.rels')));
+      const notesTag = Array.from(slideRels.values()).find(tag => /\/notesSlide"/.test(tag));
+      const notesTarget = notesTag?.match(/\bTarget="([^"]+)"/)?.[1];
+      const notesXml = notesTarget ? await readEntry(path.posix.join(path.posix.dirname(slidePaths[i]), notesTarget)) : null;
+      const notes = notesXml ? extractSlideContent(notesXml).lines.map(line => line.replace(/^\s*- /, '')) : [];
+      
+      if (!title && lines.length === 0 && notes.length === 0) continue;
+      
+      const section = [markdownHeading(2, `Slide ${i + 1}${title ? `: ${title}` : ''}`), ...lines];
+      if (notes.length > 0) {
+        section.push('', `Notas do apresentador: ${notes.join(' ')}`);
+      }
+      sections.push(section.join('\n'));
+    }
+    
+    if (sections.length === 0) {
+      return "[Apresentação sem texto: nenhum slide com conteúdo textual]";
+    }
+    
+    console.log(`PPTX processado com sucesso: ${sections.length} slides com texto`);
+    return sections.join('\n\n');
+  } catch (error) {
+    console.error("Erro ao extrair texto da apresentação PPTX:", error);
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    return `[Apresentação ilegível: ${errorMessage}]`;
+  }
+}
+
 /**
  * Processa uma imagem e extrai seu conteúdo textual usando modelos multimodais
  * @param filePath Caminho completo para o arquivo de imagem
@@ -658,7 +1092,14 @@ export async function processDocumentContent(
         ".pdf": 100,   // 100 MB
         ".txt": 20,    // 20 MB
         ".docx": 50,   // 50 MB
-        ".doc": 50     // 50 MB
+        ".doc": 50,    // 50 MB
+        ".xlsx": 20,   // 20 MB
+        ".csv": 20,    // 20 MB
+        ".md": 20,     // 20 MB
+        ".markdown": 20, // 20 MB
+        ".html": 20,   // 20 MB
+        ".htm": 20,    // 20 MB
+        ".pptx": 100   // 100 MB (imagens dos slides ocupam a maior parte)
       };
       
       const maxSizeForType = maxSizes[extension] || 5; // padrão 5 MB para tipos desconhecidos
@@ -680,6 +1121,22 @@ export async function processDocumentContent(
       else if (extension === ".docx" || extension === ".doc") {
         return await extractTextFromDOCX(filePath);
       }
+      else if (SPREADSHEET_EXTENSIONS.includes(extension)) {
+        return await extractTextFromSpreadsheet(filePath);
+      }
+      else if (LEGACY_SPREADSHEET_EXTENSIONS.includes(extension)) {
+        console.warn(`Planilha em formato antigo não suportado: ${extension}`);
+        return `[Planilha ${extension} não suportada: salve o arquivo como XLSX ou CSV e envie novamente]`;
+      }
+      else if (MARKDOWN_EXTENSIONS.includes(extension)) {
+        return await extractTextFromMarkdown(filePath);
+      }
+      else if (HTML_EXTENSIONS.includes(extension)) {
+        return await extractTextFromHTML(filePath);
+      }
+      else if (PRESENTATION_EXTENSIONS.includes(extension)) {
+        return await extractTextFromPPTX(filePath);
+      }
       else if (extension === ".jpg" || extension === ".jpeg" || extension === ".png" || extension === ".gif" || extension === ".webp") {
         console.log(`Detectado arquivo de imagem: ${extension}. Processando com LLM para análise visual.`);
         return await extractContentFromImage(filePath, description);
@@ -0,0 +1,194 @@
+/**
+ * Migração dos embeddings dos chunks para o modelo de embedding ativo
+ *
+ * Cada chunk guarda o modelo que gerou o seu vetor e a busca só compara vetores do
+ * modelo ativo. Quando o provedor/modelo muda, os chunks antigos deixam de aparecer
+ * na busca semântica até serem regerados por esta migração.
+ *
+ * A execução percorre os chunks em lotes por ordem de id e grava o último id processado
+ * (last_chunk_id), de modo que uma execução interrompida por reinício do servidor é
+ * retomada de onde parou.
+ */
+import { storage } from './storage';
+import { EMBEDDING_DIMENSIONS, EmbeddingJob } from '@shared/schema';
+import {
+  createEmbeddingWithModel,
+  describeEmbeddingDimensionMismatch,
+  getActiveEmbeddingModel,
+  getEmbeddingDimensionMismatch
+} from './document-indexing';
+
+const BATCH_SIZE = 50;
+
+// Execuções em andamento neste processo (evita rodar a mesma execução duas vezes)
+const activeJobIds = new Set<number>();
+
+async function executeJob(job: EmbeddingJob) {
+  if (activeJobIds.has(job.id)) {
+    return;
+  }
+  activeJobIds.add(job.id);
+
+  let { processed, reused, failed, last_chunk_id: cursor } = job;
+
+  try {
+    while (true) {
+      // Se o modelo ativo mudou durante a migração, esta execução perdeu o sentido
+      const activeModel = await getActiveEmbeddingModel();
+      if (activeModel !== job.target_model) {
+        await storage.updateEmbeddingJob(job.id, {
+          status: 'cancelled',
+          error_message: `O modelo de embedding ativo mudou para ${activeModel || 'nenhum'}`,
+          completed_at: new Date()
+        });
+        console.log(`[Embeddings] Migração ${job.id} cancelada: modelo ativo mudou de ${job.target_model} para ${activeModel}`);
+        return;
+      }
+
+      const batch = await storage.getDocumentChunksNeedingEmbedding(job.target_model, cursor, BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      let batchFailures = 0;
+      for (const chunk of batch) {
+        // Chunk idêntico já migrado (mesmo conteúdo em outro documento): copiar o vetor
+        const donor = await storage.findDocumentChunkByContentHash(chunk.content_hash, job.target_model);
+        const donorEmbedding = donor
+          ? (Array.isArray(donor.embedding) ? donor.embedding : JSON.parse(donor.embedding || 'null'))
+          : null;
+
+        if (Array.isArray(donorEmbedding)) {
+          await storage.updateDocumentChunkEmbedding(chunk.id, donorEmbedding, job.target_model);
+          reused++;
+        } else {
+          const result = await createEmbeddingWithModel(chunk.content);
+          if (result && result.model === job.target_model) {
+            await storage.updateDocumentChunkEmbedding(chunk.id, result.vector, result.model);
+          } else {
+            failed++;
+            batchFailures++;
+          }
+        }
+
+        processed++;
+        cursor = chunk.id;
+      }
+
+      await storage.updateEmbeddingJob(job.id, { processed, reused, failed, last_chunk_id: cursor });
+      console.log(`[Embeddings] Migração ${job.id}: ${processed}/${job.total} chunks (${reused} reaproveitados, ${failed} falhas)`);
+
+      // Lote inteiro sem embedding indica provedor indisponível ou modelo incompatível; parar para não percorrer o corpus à toa
+      if (batchFailures === batch.length) {
+        const mismatch = getEmbeddingDimensionMismatch(job.target_model);
+        throw new Error(mismatch ? describeEmbeddingDimensionMismatch(mismatch) : 'Não foi possível gerar embeddings com o provedor ativo');
+      }
+    }
+
+    // Chunks que falharam continuam sem vetor: a migração não pode ser dada como concluída
+    if (failed > 0) {
+      throw new Error(`${failed} chunks ficaram sem embedding; execute a migração novamente`);
+    }
+
+    await storage.updateEmbeddingJob(job.id, { status: 'completed', completed_at: new Date() });
+    console.log(`[Embeddings] Migração ${job.id} concluída para o modelo ${job.target_model}`);
+  } catch (error) {
+    console.error(`[Embeddings] Erro na migração ${job.id}:`, error);
+    await storage.updateEmbeddingJob(job.id, {
+      status: 'error',
+      error_message: error instanceof Error ? error.message : String(error),
+      completed_at: new Date()
+    });
+  } finally {
+    activeJobIds.delete(job.id);
+  }
+}
+
+/**
+ * Inicia a migração para o modelo ativo. Se já houver uma em andamento, ela é devolvida.
+ * Chunks que já foram migrados por uma execução anterior (com erro ou cancelada) não são refeitos.
+ */
+export async function startEmbeddingMigration(userId?: number): Promise<EmbeddingJob> {
+  const [runningJob] = await storage.getRunningEmbeddingJobs();
+  if (runningJob) {
+    executeJob(runningJob).catch(error =>
+      console.error(`[Embeddings] Falha inesperada na migração ${runningJob.id}:`, error)
+    );
+    return runningJob;
+  }
+
+  const targetModel = await getActiveEmbeddingModel();
+  if (!targetModel) {
+    throw new Error('Nenhum modelo de embedding disponível na configuração LLM ativa');
+  }
+
+  // Embedding de teste: um modelo com dimensão incompatível falharia em todos os chunks
+  await createEmbeddingWithModel('teste de dimensão do embedding');
+  const mismatch = getEmbeddingDimensionMismatch(targetModel);
+  if (mismatch) {
+    throw new Error(describeEmbeddingDimensionMismatch(mismatch));
+  }
+
+  const total = await storage.countDocumentChunksNeedingEmbedding(targetModel);
+  const job = await storage.createEmbeddingJob({
+    target_model: targetModel,
+    total,
+    created_by: userId
+  });
+
+  console.log(`[Embeddings] Iniciando migração ${job.id}: ${total} chunks para o modelo ${targetModel}`);
+
+  executeJob(job).catch(error =>
+    console.error(`[Embeddings] Falha inesperada na migração ${job.id}:`, error)
+  );
+
+  return job;
+}
+
+/**
+ * Retoma as migrações que estavam em andamento quando o servidor parou
+ */
+export async function resumeEmbeddingMigrations(): Promise<void> {
+  try {
+    const runningJobs = await storage.getRunningEmbeddingJobs();
+    for (const job of runningJobs) {
+      console.log(`[Embeddings] Retomando migração ${job.id} a partir do chunk ${job.last_chunk_id}`);
+      executeJob(job).catch(error =>
+        console.error(`[Embeddings] Falha inesperada na migração ${job.id}:`, error)
+      );
+    }
+  } catch (error) {
+    console.error('[Embeddings] Erro ao retomar migrações de embeddings:', error);
+  }
+}
+
+/**
+ * Situação dos embeddings: modelo ativo, chunks por modelo, última migração e
+ * incompatibilidade entre a dimensão do modelo ativo e a coluna vector
+ */
+export async function getEmbeddingMigrationStatus() {
+  const activeModel = await getActiveEmbeddingModel();
+  const models = await storage.getEmbeddingModelStats();
+  const latestJob = await storage.getLatestEmbeddingJob();
+
+  // Chunks de outro modelo ou sem vetor (falha ao gerar o embedding)
+  const outdatedChunks = activeModel ? await storage.countDocumentChunksNeedingEmbedding(activeModel) : 0;
+
+  // Dimensão observada nos embeddings criados por este processo ou gravada nos chunks do modelo ativo
+  const storedDimensions = models.find(entry =>
+    entry.embedding_model === activeModel && entry.embedding_dim !== null && entry.embedding_dim !== EMBEDDING_DIMENSIONS
+  );
+  const dimensionMismatch = getEmbeddingDimensionMismatch(activeModel)
+    || (activeModel && storedDimensions
+      ? { model: activeModel, dimensions: storedDimensions.embedding_dim!, expected: EMBEDDING_DIMENSIONS }
+      : null);
+
+  return {
+    activeModel,
+    models,
+    outdatedChunks,
+    expectedDimensions: EMBEDDING_DIMENSIONS,
+    dimensionMismatch,
+    latestJob: latestJob || null
+  };
+}
@@ -5,6 +5,8 @@ import { db } from "./db";
 import path from "path";
 import fs from "fs";
 import { startDocumentMonitor } from "./document-monitor";
+import { resumeEmbeddingMigrations } from "./embedding-migration";
+import { startDocumentJobWorker } from "./document-jobs";
 
 // Criar a aplicação Express
 const app = express();
@@ -191,6 +193,12 @@ async function initServer() {
     // Iniciar monitoramento de documentos
     startDocumentMonitor(15);
 
+    // Retomar migrações de embeddings interrompidas
+    resumeEmbeddingMigrations();
+
+    // Processar a fila de documentos (retoma jobs interrompidos quando a reserva expira)
+    startDocumentJobWorker();
+
     return server;
   } catch (error) {
     console.error('Erro ao inicializar servidor:', error);
@@ -0,0 +1,142 @@
+/**
+ * Progresso da ingestão dos documentos de treinamento
+ *
+ * O pipeline (fila de jobs, extração e indexação) informa a fase em que o documento está
+ * (na fila, extraindo, dividindo em chunks, gerando embeddings n/m, indexando) e este módulo
+ * converte a fase em um progresso total de 0 a 100, repassa o evento aos assinantes (rota SSE
+ * GET /api/training/documents/:id/progress) e grava fase e progresso no documento, para quem
+ * consulta a lista sem streaming.
+ *
+ * Os eventos são do processo que executa o job; a rota SSE começa pelo estado gravado no documento.
+ */
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import { IngestionPhase, IngestionProgressEvent, TrainingDocument } from '@shared/schema';
+
+// Faixa do progresso total ocupada por cada fase
+const PHASE_RANGES: Record<IngestionPhase, [number, number]> = {
+  queued: [0, 0],
+  extracting: [0, 20],
+  chunking: [20, 25],
+  embedding: [25, 90],
+  indexing: [90, 99],
+  completed: [100, 100],
+  error: [0, 0]
+};
+// Gravar o progresso no banco apenas a cada 5% (documentos grandes têm milhares de chunks)
+const PERSIST_STEP = 5;
+
+const emitter = new EventEmitter();
+// Uma rota SSE por documento acompanhado; sem limite de assinantes
+emitter.setMaxListeners(0);
+
+// Último evento de cada documento em processamento neste processo
+const latestEvents = new Map<number, IngestionProgressEvent>();
+const persistedProgress = new Map<number, { phase: IngestionPhase; progress: number }>();
+
+function channel(documentId: number): string {
+  return `document:${documentId}`;
+}
+
+function computeProgress(phase: IngestionPhase, processed?: number, total?: number): number {
+  const [start, end] = PHASE_RANGES[phase];
+  if (!total || processed === undefined) {
+    return start;
+  }
+  return Math.round(start + (end - start) * Math.min(processed / total, 1));
+}
+
+/**
+ * Progresso total no início de uma fase
+ */
+export function phaseStartProgress(phase: IngestionPhase): number {
+  return PHASE_RANGES[phase][0];
+}
+
+/**
+ * Informa a fase atual da ingestão do documento
+ * @param update.progress Progresso total explícito (ex.: documento devolvido à fila depois da extração)
+ */
+export async function reportIngestionProgress(
+  documentId: number,
+  phase: IngestionPhase,
+  update: { processed?: number; total?: number; message?: string | null; progress?: number } = {}
+): Promise<void> {
+  const previous = latestEvents.get(documentId);
+  const progress = update.progress ?? (phase === 'error' ? previous?.progress ?? 0 : computeProgress(phase, update.processed, update.total));
+
+  const event: IngestionProgressEvent = {
+    document_id: documentId,
+    phase,
+    progress,
+    processed: update.processed,
+    total: update.total,
+    message: update.message ?? null,
+    updated_at: new Date().toISOString()
+  };
+
+  if (phase === 'completed' || phase === 'error') {
+    latestEvents.delete(documentId);
+  } else {
+    latestEvents.set(documentId, event);
+  }
+  emitter.emit(channel(documentId), event);
+
+  const persisted = persistedProgress.get(documentId);
+  const shouldPersist = !persisted || persisted.phase !== phase || Math.abs(progress - persisted.progress) >= PERSIST_STEP;
+  if (!shouldPersist) {
+    return;
+  }
+
+  if (phase === 'completed' || phase === 'error') {
+    persistedProgress.delete(documentId);
+  } else {
+    persistedProgress.set(documentId, { phase, progress });
+  }
+
+  try {
+    await storage.updateTrainingDocument(documentId, { processing_phase: phase, progress });
+  } catch (error) {
+    console.error(`[Ingestão] Erro ao gravar o progresso do documento ${documentId}:`, error);
+  }
+}
+
+/**
+ * Estado atual do documento: o último evento deste processo ou, se não houver, o que está gravado
+ */
+export function getIngestionSnapshot(document: TrainingDocument): IngestionProgressEvent {
+  const latest = latestEvents.get(document.id);
+  if (latest) {
+    return latest;
+  }
+
+  const phase: IngestionPhase = document.processing_phase
+    || (document.status === 'error' ? 'error'
+      : document.status === 'indexed' || document.status === 'completed' ? 'completed'
+      : 'queued');
+
+  return {
+    document_id: document.id,
+    phase,
+    progress: document.progress ?? 0,
+    message: document.error_message,
+    updated_at: new Date(document.updated_at).toISOString()
+  };
+}
+
+/**
+ * Assina os eventos de progresso de um documento; devolve a função que cancela a assinatura
+ */
+export function subscribeIngestionProgress(
+  documentId: number,
+  listener: (event: IngestionProgressEvent) => void
+): () => void {
+  emitter.on(channel(documentId), listener);
+  return () => {
+    emitter.off(channel(documentId), listener);
+  };
+}
+
+export function isFinalIngestionPhase(phase: IngestionPhase): boolean {
+  return phase === 'completed' || phase === 'error';
+}
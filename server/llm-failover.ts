@@ -0,0 +1,220 @@
+/**
+ * Failover entre configurações de LLM
+ *
+ * A configuração ativa é a primeira da cadeia; em seguida vêm as configurações com
+ * fallback_order preenchido (ordem crescente). Cada chamada é repetida com backoff
+ * exponencial em falhas temporárias e, se continuar falhando, passa para o próximo
+ * item da cadeia. Um circuit breaker por provedor evita insistir em um provedor fora do ar.
+ */
+import { storage } from './storage';
+import { LlmProviderError, LlmProvider } from './llm-providers';
+import { buildLlmFullConfig, logLlmUsage, LlmFullConfig } from './llm';
+
+type LlmOperationType = "text" | "image" | "audio" | "file" | "test";
+
+// Tentativas extras na mesma configuração antes de passar para a próxima
+const MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 4000;
+
+// Falhas consecutivas que abrem o circuito e tempo até permitir nova tentativa
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+  lastError: string | null;
+}
+
+const circuits = new Map<LlmProvider, CircuitState>();
+
+function getCircuit(provider: LlmProvider): CircuitState {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { failures: 0, openedAt: null, lastError: null };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Circuito aberto: o provedor falhou repetidamente e ainda está no período de espera.
+ * Após o cooldown o circuito fica "meio aberto" e uma chamada de teste é permitida.
+ */
+function isCircuitOpen(provider: LlmProvider): boolean {
+  const circuit = getCircuit(provider);
+  if (circuit.openedAt === null) {
+    return false;
+  }
+  return Date.now() - circuit.openedAt < CIRCUIT_COOLDOWN_MS;
+}
+
+function recordSuccess(provider: LlmProvider): void {
+  const circuit = getCircuit(provider);
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.lastError = null;
+}
+
+/**
+ * Apenas falhas temporárias contam para o circuito: um 4xx de uma configuração (chave inválida,
+ * modelo inexistente) não indica que o provedor está fora do ar para as demais configurações
+ */
+function recordFailure(provider: LlmProvider, error: unknown): void {
+  if (!isRetryableError(error)) {
+    return;
+  }
+
+  const circuit = getCircuit(provider);
+  circuit.failures++;
+  circuit.lastError = error instanceof Error ? error.message : String(error);
+
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    // Reabrir também renova o cooldown quando a chamada de teste falha
+    circuit.openedAt = Date.now();
+    console.warn(`Circuit breaker ABERTO para o provedor ${provider} após ${circuit.failures} falhas consecutivas`);
+  }
+}
+
+/**
+ * Falhas temporárias merecem nova tentativa: rate limit, timeout, erro 5xx ou falha de rede.
+ * Erros 4xx de configuração (chave inválida, modelo inexistente) passam direto para o próximo da cadeia.
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof LlmProviderError) {
+    return error.retryable;
+  }
+  // fetch lança TypeError em falhas de rede (DNS, conexão recusada, reset)
+  return error instanceof TypeError;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * Math.pow(2, attempt), BACKOFF_MAX_MS);
+  // Jitter para não sincronizar as novas tentativas de requisições simultâneas
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+async function callWithRetry<T>(target: LlmFullConfig, operation: (target: LlmFullConfig) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(target);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt);
+      console.log(`Falha temporária em ${target.provider}/${target.modelName}, nova tentativa em ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+function describeTarget(config: LlmFullConfig): string {
+  return `${config.provider}/${config.modelName}`;
+}
+
+/**
+ * Monta a cadeia de failover: a configuração principal seguida dos fallbacks cadastrados.
+ * Os fallbacks herdam tom, temperatura e instruções da principal, trocando apenas provedor, modelo e credenciais.
+ */
+export async function getLlmFailoverChain(primary: LlmFullConfig): Promise<LlmFullConfig[]> {
+  const chain: LlmFullConfig[] = [primary];
+
+  try {
+    const fallbackConfigs = await storage.getLlmFallbackConfigs();
+
+    for (const fallback of fallbackConfigs) {
+      if (fallback.id === primary.configId) {
+        continue;
+      }
+      const fallbackInfo = buildLlmFullConfig(fallback);
+      chain.push({
+        ...primary,
+        configId: fallbackInfo.configId,
+        provider: fallbackInfo.provider,
+        modelName: fallbackInfo.modelName,
+        apiKey: fallbackInfo.apiKey,
+        baseUrl: fallbackInfo.baseUrl
+      });
+    }
+  } catch (error) {
+    console.error('Erro ao carregar cadeia de failover de LLM:', error);
+  }
+
+  return chain;
+}
+
+/**
+ * Executa uma operação de LLM percorrendo a cadeia de failover.
+ * Cada troca de configuração é registrada em llm_usage_logs (success=false, failover_to preenchido).
+ */
+export async function runWithFailover<T>(
+  primary: LlmFullConfig,
+  operationType: LlmOperationType,
+  operation: (target: LlmFullConfig) => Promise<T>,
+  context: { userId?: number; widgetId?: string } = {}
+): Promise<T> {
+  const chain = await getLlmFailoverChain(primary);
+  let lastError: unknown = null;
+  let failed: LlmFullConfig | null = null;
+
+  for (const target of chain) {
+    if (isCircuitOpen(target.provider)) {
+      console.warn(`Circuit breaker aberto para ${target.provider}, pulando ${describeTarget(target)}`);
+      lastError = lastError || new Error(`Circuit breaker aberto para o provedor ${target.provider}`);
+      continue;
+    }
+
+    if (failed) {
+      console.warn(`FAILOVER: ${describeTarget(failed)} falhou, usando ${describeTarget(target)}`);
+      await logLlmUsage(
+        failed.modelName,
+        operationType,
+        false,
+        context.userId,
+        context.widgetId,
+        0,
+        lastError instanceof Error ? lastError.message : String(lastError),
+        failed.provider,
+        describeTarget(target)
+      );
+    }
+
+    try {
+      const result = await callWithRetry(target, operation);
+      recordSuccess(target.provider);
+      return result;
+    } catch (error) {
+      console.error(`Erro em ${describeTarget(target)}:`, error);
+      recordFailure(target.provider, error);
+      lastError = error;
+      failed = target;
+    }
+  }
+
+  throw lastError || new Error('Nenhuma configuração de LLM disponível');
+}
+
+/**
+ * Estado atual dos circuit breakers, para a tela de administração
+ */
+export function getCircuitBreakerStatus(): Array<{
+  provider: LlmProvider;
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  lastError: string | null;
+}> {
+  return Array.from(circuits.entries()).map(([provider, circuit]) => ({
+    provider,
+    state: circuit.openedAt === null
+      ? 'closed'
+      : isCircuitOpen(provider) ? 'open' : 'half-open',
+    failures: circuit.failures,
+    lastError: circuit.lastError
+  }));
+}
@@ -0,0 +1,574 @@
+/**
+ * Registro de provedores LLM
+ *
+ * Cada backend (Anthropic, OpenAI, endpoints compatíveis com OpenAI como
+ * llama.cpp ou Ollama) é implementado como um adaptador com a mesma interface
+ * de chat, visão e embeddings. Para adicionar um novo backend basta escrever
+ * um adaptador e registrá-lo com registerLlmProvider().
+ */
+
+// Identificador do provedor, gravado na coluna llm_configs.provider
+export type LlmProvider = string;
+
+export type LlmChatRole = 'user' | 'assistant';
+
+export interface LlmChatMessage {
+  role: LlmChatRole;
+  content: string;
+}
+
+export interface LlmImageInput {
+  // Dados da imagem em base64 (sem o prefixo data:)
+  data: string;
+  mediaType: string;
+}
+
+export interface LlmRequestBase {
+  model: string;
+  apiKey: string;
+  baseUrl?: string | null;
+}
+
+export interface LlmChatRequest extends LlmRequestBase {
+  system?: string;
+  messages: LlmChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmVisionRequest extends LlmRequestBase {
+  system?: string;
+  prompt: string;
+  image: LlmImageInput;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmEmbeddingRequest extends LlmRequestBase {
+  input: string;
+}
+
+export interface LlmChatResult {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Recebe os tokens de uma resposta em streaming.
+ * onReset é chamado quando uma nova tentativa começa e o texto parcial já enviado deve ser descartado.
+ */
+export interface LlmStreamListener {
+  onToken: (delta: string) => void;
+  onReset?: () => void;
+}
+
+export interface LlmProviderAdapter {
+  id: LlmProvider;
+  label: string;
+  defaultModel: string;
+  defaultEmbeddingModel?: string;
+  // Modelo mais leve para tarefas auxiliares (extração de tópicos, intenção)
+  lightModel?: string;
+  // Variável de ambiente usada como fallback quando a configuração não tem chave
+  envApiKey?: string;
+  // Endpoints locais (llama.cpp, Ollama) normalmente não exigem chave
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  // Usado para inferir o provedor de configurações antigas sem a coluna provider
+  matchesModel(modelName: string): boolean;
+  chat(request: LlmChatRequest): Promise<LlmChatResult>;
+  // Mesma chamada de chat, emitindo cada trecho de texto assim que chega
+  chatStream?(request: LlmChatRequest, onToken: (delta: string) => void): Promise<LlmChatResult>;
+  vision?(request: LlmVisionRequest): Promise<LlmChatResult>;
+  embed?(request: LlmEmbeddingRequest): Promise<number[]>;
+}
+
+/**
+ * Erro HTTP retornado pela API de um provedor.
+ * O status permite ao failover distinguir falhas temporárias (429, 5xx) de erros de configuração.
+ */
+export class LlmProviderError extends Error {
+  status: number;
+  providerLabel: string;
+
+  constructor(providerLabel: string, status: number, detail: string) {
+    super(`${providerLabel} API error: ${status} - ${detail}`);
+    this.name = 'LlmProviderError';
+    this.status = status;
+    this.providerLabel = providerLabel;
+  }
+
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+const providers = new Map<LlmProvider, LlmProviderAdapter>();
+
+export function registerLlmProvider(adapter: LlmProviderAdapter): void {
+  providers.set(adapter.id, adapter);
+}
+
+export function getLlmProvider(id: LlmProvider): LlmProviderAdapter {
+  const adapter = providers.get(id);
+  if (!adapter) {
+    throw new Error(`Provedor LLM não registrado: ${id}`);
+  }
+  return adapter;
+}
+
+export function hasLlmProvider(id: LlmProvider): boolean {
+  return providers.has(id);
+}
+
+export function listLlmProviders(): LlmProviderAdapter[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Infere o provedor a partir do nome do modelo.
+ * Só deve ser usado para configurações que ainda não possuem a coluna provider.
+ */
+export function resolveProviderForModel(modelName: string): LlmProvider {
+  for (const adapter of Array.from(providers.values())) {
+    if (adapter.matchesModel(modelName)) {
+      return adapter.id;
+    }
+  }
+  return 'anthropic';
+}
+
+/**
+ * Executa um chat emitindo os tokens para o listener quando houver um.
+ * Provedores sem chatStream enviam a resposta completa como um único trecho.
+ */
+export async function chatWithStream(
+  adapter: LlmProviderAdapter,
+  request: LlmChatRequest,
+  listener?: LlmStreamListener
+): Promise<LlmChatResult> {
+  if (!listener) {
+    return adapter.chat(request);
+  }
+
+  // Cada chamada é uma nova tentativa: o cliente descarta o texto parcial anterior
+  listener.onReset?.();
+
+  if (adapter.chatStream) {
+    return adapter.chatStream(request, listener.onToken);
+  }
+
+  const result = await adapter.chat(request);
+  if (result.text) {
+    listener.onToken(result.text);
+  }
+  return result;
+}
+
+/**
+ * Remove prefixo 'Bearer ', aspas e espaços de uma chave de API
+ */
+function sanitizeApiKey(apiKey: string | undefined | null): string {
+  return (apiKey || '').replace(/^bearer\s+/i, '').replace(/["']/g, '').trim();
+}
+
+function joinUrl(baseUrl: string, endpoint: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, providerLabel: string): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`Erro ${providerLabel} (${response.status}): ${errorText}`);
+    throw new LlmProviderError(providerLabel, response.status, errorText);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Faz um POST com stream=true e entrega o campo data de cada evento SSE recebido
+ */
+async function postEventStream(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  providerLabel: string,
+  onData: (data: string) => void
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    console.error(`Erro ${providerLabel} (${response.status}): ${errorText}`);
+    throw new LlmProviderError(providerLabel, response.status, errorText);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line.startsWith('data:')) {
+        const data = line.slice(5).trim();
+        if (data && data !== '[DONE]') {
+          onData(data);
+        }
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic
+// ---------------------------------------------------------------------------
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+function anthropicHeaders(apiKey: string): Record<string, string> {
+  return {
+    'x-api-key': sanitizeApiKey(apiKey),
+    'anthropic-version': ANTHROPIC_API_VERSION
+  };
+}
+
+function parseAnthropicResult(data: any): LlmChatResult {
+  const text = Array.isArray(data.content)
+    ? data.content
+        .filter((block: any) => block && block.type === 'text')
+        .map((block: any) => block.text)
+        .join('')
+    : '';
+  const inputTokens = data.usage?.input_tokens || 0;
+  const outputTokens = data.usage?.output_tokens || 0;
+
+  return { text, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+export const anthropicProvider: LlmProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+  defaultModel: 'claude-3-7-sonnet-20250219',
+  lightModel: 'claude-3-7-sonnet-20250219',
+  envApiKey: 'ANTHROPIC_API_KEY',
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+
+  matchesModel(modelName: string): boolean {
+    return modelName.startsWith('claude');
+  },
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const data = await postJson(
+      joinUrl(request.baseUrl || ANTHROPIC_BASE_URL, 'messages'),
+      anthropicHeaders(request.apiKey),
+      {
+        model: request.model,
+        max_tokens: request.maxTokens || 1024,
+        temperature: request.temperature ?? 0.3,
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.messages
+      },
+      'Anthropic'
+    );
+    return parseAnthropicResult(data);
+  },
+
+  async chatStream(request: LlmChatRequest, onToken: (delta: string) => void): Promise<LlmChatResult> {
+    let text = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    await postEventStream(
+      joinUrl(request.baseUrl || ANTHROPIC_BASE_URL, 'messages'),
+      anthropicHeaders(request.apiKey),
+      {
+        model: request.model,
+        max_tokens: request.maxTokens || 1024,
+        temperature: request.temperature ?? 0.3,
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.messages,
+        stream: true
+      },
+      'Anthropic',
+      (data) => {
+        const event = JSON.parse(data);
+        if (event.type === 'message_start') {
+          inputTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens || outputTokens;
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream error: ${event.error?.message || 'erro desconhecido'}`);
+        }
+      }
+    );
+
+    return { text, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  },
+
+  async vision(request: LlmVisionRequest): Promise<LlmChatResult> {
+    const data = await postJson(
+      joinUrl(request.baseUrl || ANTHROPIC_BASE_URL, 'messages'),
+      anthropicHeaders(request.apiKey),
+      {
+        model: request.model,
+        max_tokens: request.maxTokens || 1024,
+        temperature: request.temperature ?? 0.3,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt },
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: request.image.mediaType,
+                  data: request.image.data
+                }
+              }
+            ]
+          }
+        ]
+      },
+      'Anthropic'
+    );
+    return parseAnthropicResult(data);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// OpenAI e endpoints compatíveis com OpenAI
+// ---------------------------------------------------------------------------
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+function openAIHeaders(apiKey: string): Record<string, string> {
+  const key = sanitizeApiKey(apiKey);
+  return key ? { 'Authorization': `Bearer ${key}` } : {};
+}
+
+function parseOpenAIResult(data: any): LlmChatResult {
+  const text = data.choices?.[0]?.message?.content || '';
+  const inputTokens = data.usage?.prompt_tokens || 0;
+  const outputTokens = data.usage?.completion_tokens || 0;
+
+  return {
+    text,
+    inputTokens,
+    outputTokens,
+    totalTokens: data.usage?.total_tokens || inputTokens + outputTokens
+  };
+}
+
+/**
+ * Cria um adaptador que fala o protocolo /chat/completions da OpenAI.
+ * Usado tanto pela OpenAI quanto por servidores self-hosted compatíveis.
+ */
+function createOpenAIStyleProvider(options: {
+  id: LlmProvider;
+  label: string;
+  defaultModel: string;
+  defaultEmbeddingModel?: string;
+  lightModel?: string;
+  defaultBaseUrl?: string;
+  envApiKey?: string;
+  requiresApiKey: boolean;
+  // Pede a contagem de tokens no último evento do stream (stream_options.include_usage)
+  streamUsage?: boolean;
+  matchesModel: (modelName: string) => boolean;
+}): LlmProviderAdapter {
+  const resolveBaseUrl = (baseUrl?: string | null): string => {
+    const resolved = baseUrl || options.defaultBaseUrl;
+    if (!resolved) {
+      throw new Error(`URL base não configurada para o provedor ${options.label}`);
+    }
+    return resolved;
+  };
+
+  return {
+    id: options.id,
+    label: options.label,
+    defaultModel: options.defaultModel,
+    defaultEmbeddingModel: options.defaultEmbeddingModel,
+    lightModel: options.lightModel,
+    envApiKey: options.envApiKey,
+    requiresApiKey: options.requiresApiKey,
+    requiresBaseUrl: !options.defaultBaseUrl,
+    matchesModel: options.matchesModel,
+
+    async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+      const messages: Array<{ role: string; content: unknown }> = [];
+      if (request.system) {
+        messages.push({ role: 'system', content: request.system });
+      }
+      messages.push(...request.messages);
+
+      const data = await postJson(
+        joinUrl(resolveBaseUrl(request.baseUrl), 'chat/completions'),
+        openAIHeaders(request.apiKey),
+        {
+          model: request.model,
+          max_tokens: request.maxTokens || 1024,
+          temperature: request.temperature ?? 0.3,
+          messages
+        },
+        options.label
+      );
+      return parseOpenAIResult(data);
+    },
+
+    async chatStream(request: LlmChatRequest, onToken: (delta: string) => void): Promise<LlmChatResult> {
+      const messages: Array<{ role: string; content: unknown }> = [];
+      if (request.system) {
+        messages.push({ role: 'system', content: request.system });
+      }
+      messages.push(...request.messages);
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      await postEventStream(
+        joinUrl(resolveBaseUrl(request.baseUrl), 'chat/completions'),
+        openAIHeaders(request.apiKey),
+        {
+          model: request.model,
+          max_tokens: request.maxTokens || 1024,
+          temperature: request.temperature ?? 0.3,
+          messages,
+          stream: true,
+          ...(options.streamUsage ? { stream_options: { include_usage: true } } : {})
+        },
+        options.label,
+        (data) => {
+          const chunk = JSON.parse(data);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onToken(delta);
+          }
+          if (chunk.usage) {
+            inputTokens = chunk.usage.prompt_tokens || 0;
+            outputTokens = chunk.usage.completion_tokens || 0;
+          }
+        }
+      );
+
+      return { text, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+    },
+
+    async vision(request: LlmVisionRequest): Promise<LlmChatResult> {
+      const messages: Array<{ role: string; content: unknown }> = [];
+      if (request.system) {
+        messages.push({ role: 'system', content: request.system });
+      }
+      messages.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: request.prompt },
+          {
+            type: 'image_url',
+            image_url: { url: `data:${request.image.mediaType};base64,${request.image.data}` }
+          }
+        ]
+      });
+
+      const data = await postJson(
+        joinUrl(resolveBaseUrl(request.baseUrl), 'chat/completions'),
+        openAIHeaders(request.apiKey),
+        {
+          model: request.model,
+          max_tokens: request.maxTokens || 1024,
+          temperature: request.temperature ?? 0.3,
+          messages
+        },
+        options.label
+      );
+      return parseOpenAIResult(data);
+    },
+
+    async embed(request: LlmEmbeddingRequest): Promise<number[]> {
+      const data = await postJson(
+        joinUrl(resolveBaseUrl(request.baseUrl), 'embeddings'),
+        openAIHeaders(request.apiKey),
+        {
+          model: request.model,
+          input: request.input,
+          encoding_format: 'float'
+        },
+        options.label
+      );
+
+      const embedding = data.data?.[0]?.embedding;
+      if (!Array.isArray(embedding)) {
+        throw new Error(`Resposta de embedding inválida do provedor ${options.label}`);
+      }
+      return embedding;
+    }
+  };
+}
+
+export const openAIProvider = createOpenAIStyleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+  defaultModel: 'gpt-4o',
+  defaultEmbeddingModel: 'text-embedding-3-small',
+  lightModel: 'gpt-4o-mini',
+  defaultBaseUrl: OPENAI_BASE_URL,
+  envApiKey: 'OPENAI_API_KEY',
+  requiresApiKey: true,
+  streamUsage: true,
+  matchesModel: (modelName: string) =>
+    modelName.startsWith('gpt') || /^o\d/.test(modelName)
+});
+
+export const openAICompatibleProvider = createOpenAIStyleProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaultModel: 'llama3',
+  defaultEmbeddingModel: 'nomic-embed-text',
+  requiresApiKey: false,
+  // Nunca inferido pelo nome do modelo: precisa ser escolhido explicitamente junto com base_url
+  matchesModel: () => false
+});
+
+registerLlmProvider(anthropicProvider);
+registerLlmProvider(openAIProvider);
+registerLlmProvider(openAICompatibleProvider);
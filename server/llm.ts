@@ -1,10 +1,18 @@
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import fs from 'fs';
 import { promisify } from 'util';
 import { storage } from './storage';
 import path from 'path';
 import pdfParse from 'pdf-parse';
+import { ChatWidget, LlmConfig } from '@shared/schema';
+import {
+  LlmProvider,
+  LlmStreamListener,
+  chatWithStream,
+  getLlmProvider,
+  hasLlmProvider,
+  resolveProviderForModel
+} from './llm-providers';
+import { runWithFailover } from './llm-failover';
 
 /**
  * Função utilitária para limpar chaves de API
@@ -68,14 +76,18 @@ export async function logLlmUsage(
   userId?: number, 
   widgetId?: string, 
   tokenCount: number = 0, 
-  errorMessage?: string
+  errorMessage?: string,
+  providerId?: LlmProvider,
+  failoverTo?: string
 ): Promise<void> {
   try {
-    // Detectar o provedor com base no nome do modelo
-    let provider = '';
+    // Usar o provedor informado pela configuração quando disponível
+    let provider = providerId || '';
     
     // Detecção mais precisa de provedor
-    if (modelName.includes('gpt') || modelName.includes('o4') || modelName.includes('o3')) {
+    if (provider) {
+      // Provedor já conhecido
+    } else if (modelName.includes('gpt') || modelName.includes('o4') || modelName.includes('o3')) {
       provider = 'openai';
     } else if (modelName.includes('claude')) {
       provider = 'anthropic';
@@ -104,7 +116,8 @@ export async function logLlmUsage(
       widget_id: widgetId,
       token_count: tokenCount,
       success,
-      error_message: errorMessage
+      error_message: errorMessage,
+      failover_to: failoverTo
     });
     
     console.log(`LLM usage logged: ${modelName} (${provider}) - ${operationType} - ${success ? 'Success' : 'Failed'} - ${tokenCount} tokens`);
@@ -114,29 +127,69 @@ export async function logLlmUsage(
   }
 }
 
-// LLM Providers
-type LlmProvider = 'anthropic' | 'openai';
-
 // Tone options
 type LlmTone = 'formal' | 'normal' | 'casual';
 
+// Verificação de fundamentação das respostas (ver answer-grounding.ts)
+export type GroundingMode = 'off' | 'flag' | 'annotate' | 'rewrite';
+
 // LLM Configuration interface
-interface LlmFullConfig {
+export interface LlmFullConfig {
+  // Linha de llm_configs que originou a configuração (usada para montar a cadeia de failover)
+  configId?: number;
   provider: LlmProvider; 
   modelName: string; 
   apiKey: string;
+  baseUrl?: string | null;
   tone: LlmTone;
   temperature: string;
   behaviorInstructions?: string;
   shouldUseTrained: boolean;
+  groundingMode: GroundingMode;
 }
 
 // Convert fs.readFile to use promises
 const readFile = promisify(fs.readFile);
 
-// Nota: A função de limpeza de API key foi substituída por
-// métodos mais robustos diretamente nas funções getOpenAIClient e getAnthropicClient
-// para tratar as chaves adequadamente.
+/**
+ * Converte uma linha de llm_configs para a configuração completa usada pelos processadores.
+ * O provedor vem da coluna provider; configurações antigas sem ela têm o provedor inferido pelo modelo.
+ */
+export function buildLlmFullConfig(config: LlmConfig): LlmFullConfig {
+  const provider = config.provider && hasLlmProvider(config.provider)
+    ? config.provider
+    : resolveProviderForModel(config.model_name);
+  const adapter = getLlmProvider(provider);
+  
+  let apiKey = config.api_key || '';
+  
+  // Verificar se a chave API existe na configuração
+  if (adapter.requiresApiKey && apiKey.length < 10) {
+    console.error('ERRO CRÍTICO: Chave API na configuração do banco é inválida ou muito curta');
+    
+    // Tentar usar chave do ambiente do provedor como fallback
+    const envKey = adapter.envApiKey ? process.env[adapter.envApiKey] : undefined;
+    if (envKey) {
+      console.log(`DIAGNÓSTICO: Usando chave de ambiente ${adapter.label} como fallback`);
+      apiKey = envKey;
+    } else {
+      console.error('ERRO CRÍTICO: Sem chave API válida disponível para o modelo configurado');
+    }
+  }
+  
+  return {
+    configId: config.id,
+    provider,
+    modelName: config.model_name,
+    apiKey,
+    baseUrl: config.base_url,
+    tone: (config.tone as LlmTone) || 'normal',
+    temperature: config.temperature || '0.3',
+    behaviorInstructions: config.behavior_instructions || '',
+    shouldUseTrained: config.should_use_training !== false,
+    groundingMode: (config.grounding_mode as GroundingMode) || 'off'
+  };
+}
 
 // Get active LLM provider and model name with all configuration options
 export async function getActiveLlmInfo(): Promise<LlmFullConfig> {
@@ -145,91 +198,85 @@ export async function getActiveLlmInfo(): Promise<LlmFullConfig> {
   // Try to get active config from database
   const activeConfig = await storage.getActiveLlmConfig();
   
-  // Set default values
-  let provider: LlmProvider = 'anthropic';
-  let modelName = DEFAULT_CLAUDE_MODEL;
-  let apiKey = process.env.ANTHROPIC_API_KEY || '';
-  let tone: LlmTone = 'normal';
-  let temperature = '0.3'; // Valor padrão
-  let behaviorInstructions = '';
-  let shouldUseTrained = true;
+  let config: LlmFullConfig;
   
   if (activeConfig) {
     console.log('DIAGNÓSTICO: Encontrada configuração LLM ativa na base de dados');
     console.log('DIAGNÓSTICO: Modelo configurado: ' + activeConfig.model_name);
     
-    // Verificar se a chave API existe na configuração
-    if (!activeConfig.api_key || activeConfig.api_key.length < 10) {
-      console.error('ERRO CRÍTICO: Chave API na configuração do banco é inválida ou muito curta');
-      
-      // Tentar usar chave do ambiente como fallback
-      if (activeConfig.model_name.startsWith('gpt') && process.env.OPENAI_API_KEY) {
-        console.log('DIAGNÓSTICO: Usando chave de ambiente OpenAI como fallback');
-        apiKey = process.env.OPENAI_API_KEY;
-      } else if (!activeConfig.model_name.startsWith('gpt') && process.env.ANTHROPIC_API_KEY) {
-        console.log('DIAGNÓSTICO: Usando chave de ambiente Anthropic como fallback');
-        apiKey = process.env.ANTHROPIC_API_KEY;
-      } else {
-        console.error('ERRO CRÍTICO: Sem chave API válida disponível para o modelo configurado');
-      }
-    } else {
-      // If we have a config, use it directly without cleaning the API key
-      apiKey = activeConfig.api_key;
-      
+    config = buildLlmFullConfig(activeConfig);
+    
+    if (config.apiKey) {
       // Verificar a chave parcialmente mascarada
-      const maskedKey = apiKey.substring(0, 4) + '...' + apiKey.substring(apiKey.length - 4);
+      const maskedKey = config.apiKey.substring(0, 4) + '...' + config.apiKey.substring(config.apiKey.length - 4);
       console.log('DIAGNÓSTICO: Chave API carregada (parcial): ' + maskedKey);
     }
-    
-    modelName = activeConfig.model_name;
-    tone = activeConfig.tone as LlmTone || 'normal';
-    temperature = activeConfig.temperature || '0.3';
-    behaviorInstructions = activeConfig.behavior_instructions || '';
-    shouldUseTrained = activeConfig.should_use_training !== false;
-    
-    // Determine provider from model name
-    if (modelName.startsWith('gpt')) {
-      provider = 'openai';
-    } else {
-      provider = 'anthropic';
-    }
   } else {
     console.log('DIAGNÓSTICO: Nenhuma configuração LLM encontrada na base, usando variáveis de ambiente');
     
+    config = {
+      provider: 'anthropic',
+      modelName: DEFAULT_CLAUDE_MODEL,
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+      tone: 'normal',
+      temperature: '0.3',
+      behaviorInstructions: '',
+      shouldUseTrained: true,
+      groundingMode: 'off'
+    };
+    
     // No config, use environment variables and defaults
     if (process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-      provider = 'openai';
-      apiKey = process.env.OPENAI_API_KEY || '';
-      modelName = DEFAULT_GPT_MODEL;
+      config.provider = 'openai';
+      config.apiKey = process.env.OPENAI_API_KEY || '';
+      config.modelName = DEFAULT_GPT_MODEL;
       console.log('DIAGNÓSTICO: Usando OpenAI do ambiente (sem configuração na base)');
     } else {
       // Use Anthropic como padrão, usar a chave diretamente
-      apiKey = process.env.ANTHROPIC_API_KEY || '';
       console.log('DIAGNÓSTICO: Usando Anthropic do ambiente (sem configuração na base)');
     }
   }
   
-  if (!apiKey) {
+  if (!config.apiKey && getLlmProvider(config.provider).requiresApiKey) {
     console.error('ERRO CRÍTICO: Nenhuma chave API disponível para LLM!');
     throw new Error('No API key available for LLM');
   }
   
-  console.log(`DIAGNÓSTICO: Configuração final - Provider: ${provider}, Modelo: ${modelName}, Tom: ${tone}, Temperatura: ${temperature}`);
+  console.log(`DIAGNÓSTICO: Configuração final - Provider: ${config.provider}, Modelo: ${config.modelName}, Tom: ${config.tone}, Temperatura: ${config.temperature}`);
   
-  // Retornar a configuração completa com a chave API já limpa
-  return { 
-    provider, 
-    modelName, 
-    apiKey, 
-    tone, 
-    temperature,
-    behaviorInstructions, 
-    shouldUseTrained 
-  };
+  return config;
 }
 
-// Client singleton para OpenAI
-let openaiClient: OpenAI | null = null;
+/**
+ * Configuração de LLM efetiva de um widget.
+ * Usa a linha de llm_configs escolhida no widget (ou a ativa global) e sobrepõe
+ * temperatura, tom e instruções de comportamento quando o widget os define.
+ */
+export async function getWidgetLlmConfig(widget: ChatWidget): Promise<LlmConfig | undefined> {
+  let baseConfig: LlmConfig | undefined;
+  
+  if (widget.llm_config_id) {
+    baseConfig = await storage.getLlmConfig(widget.llm_config_id);
+    if (!baseConfig) {
+      console.warn(`Configuração LLM ${widget.llm_config_id} do widget ${widget.id} não encontrada, usando a configuração ativa`);
+    }
+  }
+  
+  if (!baseConfig) {
+    baseConfig = await storage.getActiveLlmConfig();
+  }
+  
+  if (!baseConfig) {
+    return undefined;
+  }
+  
+  return {
+    ...baseConfig,
+    temperature: widget.llm_temperature || baseConfig.temperature,
+    tone: widget.llm_tone || baseConfig.tone,
+    behavior_instructions: widget.llm_behavior_instructions || baseConfig.behavior_instructions
+  };
+}
 
 /**
  * Implementação segura de chamadas diretas para a API da OpenAI
@@ -284,61 +331,6 @@ export async function fetchOpenAIDirectly(endpoint: string, data: any, apiKey: s
   }
 }
 
-function getOpenAIClient(apiKey: string) {
-  // Usar singleton para reutilizar
-  if (openaiClient) {
-    return openaiClient;
-  }
-  
-  // Garantir que não temos nenhum prefixo em NENHUMA circunstância
-  if (typeof apiKey !== 'string') {
-    throw new Error('API key inválida para OpenAI: não é uma string');
-  }
-  
-  // Remover qualquer prefixo em todas as circunstâncias
-  const cleanedKey = apiKey.replace(/^bearer\s+/i, '').replace(/["']/g, '').trim();
-  
-  // Verificar comprimento mínimo após limpeza
-  if (cleanedKey.length < 20) {
-    throw new Error('API key da OpenAI parece ser inválida (muito curta)');
-  }
-  
-  // Verificar se a chave começa com o formato esperado
-  if (!cleanedKey.startsWith('sk-')) {
-    console.error('AVISO: Chave OpenAI não começa com sk-, formato potencialmente inválido');
-  }
-  
-  // Validar corretamente os novos formatos de chave (sk-proj-) além do formato tradicional (sk-)
-  console.log('Formato da chave OpenAI: ' + (cleanedKey.startsWith('sk-proj-') ? 'Novo formato (sk-proj-)' : 'Formato tradicional'));
-  
-  // Loga a chave parcialmente mascarada para debug
-  const maskedKey = cleanedKey.substring(0, 4) + '...' + cleanedKey.substring(cleanedKey.length - 4);
-  console.log('Inicializando OpenAI com chave: ' + maskedKey.substring(0, 4) + '...' + maskedKey.substring(maskedKey.length - 4));
-  
-  // Criar um cliente falso que usa fetch diretamente
-  try {
-    // Criar um cliente fake que usa nossa implementação de fetch direta
-    openaiClient = {
-      chat: {
-        completions: {
-          create: async (params: any) => {
-            const response = await fetchOpenAIDirectly('chat/completions', params, cleanedKey);
-            return response;
-          }
-        }
-      }
-    } as any;
-    
-    return openaiClient;
-  } catch (err) {
-    console.error('Erro ao criar cliente OpenAI:', err);
-    throw new Error('Falha ao inicializar cliente OpenAI');
-  }
-}
-
-// Client singleton para Anthropic
-let anthropicClient: Anthropic | null = null;
-
 /**
  * Implementação segura de chamadas diretas para a API da Anthropic
  * Esta função evita problemas de formatação com tokens Bearer e headers HTTP
@@ -415,61 +407,6 @@ export async function fetchAnthropicDirectly(endpoint: string, data: any, apiKey
   }
 }
 
-function getAnthropicClient(apiKey: string) {
-  // Usar singleton para reutilizar
-  if (anthropicClient) {
-    return anthropicClient;
-  }
-  
-  // Garantir que não temos nenhum prefixo em NENHUMA circunstância
-  if (typeof apiKey !== 'string') {
-    throw new Error('API key inválida para Anthropic: não é uma string');
-  }
-  
-  // Remover qualquer prefixo em todas as circunstâncias
-  const cleanedKey = apiKey.replace(/^bearer\s+/i, '').replace(/["']/g, '').trim();
-  
-  // Verificar comprimento mínimo após limpeza
-  if (cleanedKey.length < 20) {
-    throw new Error('API key da Anthropic parece ser inválida (muito curta)');
-  }
-  
-  // Loga a chave parcialmente mascarada para debug
-  const maskedKey = cleanedKey.substring(0, 4) + '...' + cleanedKey.substring(cleanedKey.length - 4);
-  console.log('Inicializando Anthropic com chave: ' + maskedKey.substring(0, 4) + '...' + maskedKey.substring(maskedKey.length - 4));
-  
-  try {
-    // Verificando se a chave já está no formato correto para o Anthropic
-    if (cleanedKey.startsWith('sk-ant-')) {
-      console.log('Chave Anthropic corretamente formatada');
-    } else {
-      console.log('AVISO: Chave Anthropic não começa com sk-ant-, pode causar problemas');
-    }
-    
-    // Criar um cliente falso que usa fetch diretamente
-    anthropicClient = {
-      messages: {
-        create: async (params: any) => {
-          const response = await fetchAnthropicDirectly('messages', params, cleanedKey);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: response.content
-              }
-            ]
-          };
-        }
-      }
-    } as any;
-    
-    return anthropicClient;
-  } catch (err) {
-    console.error('Erro ao criar cliente Anthropic:', err);
-    throw new Error('Falha ao inicializar cliente Anthropic');
-  }
-}
-
 // Verifica se um buffer contém uma imagem válida
 function isValidImageBuffer(buffer: Buffer): boolean {
   // Assinaturas de arquivo comuns para formatos de imagem
@@ -584,7 +521,7 @@ function detectImageFormat(buffer: Buffer): string {
 }
 
 // Analyze image with either Anthropic or OpenAI with enhanced error handling
-export async function analyzeImage(imagePath: string, language: string, userId?: number, widgetId?: string): Promise<string> {
+export async function analyzeImage(imagePath: string, language: string, userId?: number, widgetId?: string, llmConfig?: LlmFullConfig): Promise<string> {
   try {
     // Declarações de erros e mensagens
     const errorMessages = {
@@ -618,7 +555,7 @@ export async function analyzeImage(imagePath: string, language: string, userId?:
     }
     
     try {
-      const config = await getActiveLlmInfo();
+      const config = llmConfig || await getActiveLlmInfo();
       const { provider, modelName, apiKey, tone, behaviorInstructions, temperature } = config;
       
       // Obter conteúdo do buffer novamente para detectar formato real
@@ -693,112 +630,45 @@ export async function analyzeImage(imagePath: string, language: string, userId?:
         ? 'Analise rapidamente esta placa de circuito. Identifique apenas os problemas mais críticos (se houver) e sugira soluções práticas. Seja extremamente conciso.'
         : 'Quickly analyze this circuit board. Identify only the most critical issues (if any) and suggest practical solutions. Be extremely concise.';
 
-      // Process with appropriate provider with enhanced error handling
-      if (provider === 'anthropic') {
-        // Use Anthropic Claude with direct fetch approach
-        try {
-          console.log(`Analisando imagem com Anthropic: ${modelName}`);
-          const anthropic = getAnthropicClient(apiKey);
-          
-          // Claude suporta formatos específicos de imagem
-          const supportedFormats = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-          
-          // Para Claude, sempre usar image/jpeg como é mais universalmente compatível
-          console.log(`Usando formato image/jpeg para o Claude independente do formato original`);
-          
-          // Estruturar dados para a chamada fetch direta para o Anthropic
-          const response = await anthropic.messages.create({
-            model: modelName,
-            max_tokens: 1024,
-            system: systemPrompt,
-            temperature: parseFloat(temperature || '0.3'),
-            messages: [
-              {
-                role: 'user',
-                content: [
-                  {
-                    type: 'text',
-                    text: userPrompt
-                  },
-                  {
-                    type: 'image',
-                    source: {
-                      type: 'base64',
-                      media_type: "image/jpeg" as "image/jpeg",
-                      data: base64Image
-                    }
-                  }
-                ]
-              }
-            ]
-          });
-
-          if (response.content[0].type === 'text') {
-            // Registrar uso bem-sucedido
-            await logLlmUsage(modelName, "image", true, userId, widgetId, estimatedTotalTokens);
-            return response.content[0].text;
-          } else {
-            console.error('Resposta do Claude em formato inesperado');
-            // Registrar erro
-            await logLlmUsage(modelName, "image", false, userId, widgetId, 0, 'Resposta em formato inesperado');
-            return errorMessages.modelError;
-          }
-        } catch (claudeError) {
-          console.error('Erro específico do Claude:', claudeError);
-          const errorMessage = claudeError instanceof Error ? claudeError.message : 'Erro desconhecido do Claude';
-          await logLlmUsage(modelName, "image", false, userId, widgetId, 0, errorMessage);
-          return errorMessages.modelError;
-        }
-      } else {
-        // Use OpenAI com tratamento de erros avançado
-        try {
-          const openai = getOpenAIClient(apiKey);
-          
-          // o modelo mais recente da OpenAI é "gpt-4o" que foi lançado em 13 de maio de 2024. não mude isso a menos que explicitamente solicitado pelo usuário
-          const actualModel = modelName === 'gpt-4' ? 'gpt-4o' : modelName;
-          
-          const response = await openai.chat.completions.create({
-            model: actualModel, 
-            max_tokens: 1024,
-            temperature: parseFloat(temperature || '0.3'),
-            messages: [
-              {
-                role: "system",
-                content: systemPrompt
-              },
-              {
-                role: "user",
-                content: [
-                  {
-                    type: "text",
-                    text: userPrompt
-                  },
-                  {
-                    type: "image_url",
-                    image_url: {
-                      url: `data:${detectedFormat};base64,${base64Image}`
-                    }
-                  }
-                ]
-              }
-            ]
-          });
+      // Processar com o adaptador do provedor configurado
+      const adapter = getLlmProvider(provider);
+      if (!adapter.vision) {
+        console.error(`Provedor ${adapter.label} não suporta análise de imagens`);
+        await logLlmUsage(modelName, "image", false, userId, widgetId, 0, 'Provedor sem suporte a imagens', provider);
+        return errorMessages.modelError;
+      }
+      
+      try {
+        console.log(`Analisando imagem com ${adapter.label}: ${modelName}`);
+        
+        // o modelo mais recente da OpenAI é "gpt-4o" que foi lançado em 13 de maio de 2024. não mude isso a menos que explicitamente solicitado pelo usuário
+        const actualModel = provider === 'openai' && modelName === 'gpt-4' ? 'gpt-4o' : modelName;
+        
+        const response = await adapter.vision({
+          model: actualModel,
+          apiKey,
+          baseUrl: config.baseUrl,
+          system: systemPrompt,
+          prompt: userPrompt,
+          image: { data: base64Image, mediaType: detectedFormat },
+          temperature: parseFloat(temperature || '0.3'),
+          maxTokens: 1024
+        });
 
-          if (!response.choices[0].message.content) {
-            console.error('Resposta vazia do OpenAI');
-            await logLlmUsage(modelName, "image", false, userId, widgetId, 0, 'Resposta vazia');
-            return errorMessages.modelError;
-          }
-          
-          // Registrar uso bem-sucedido
-          await logLlmUsage(modelName, "image", true, userId, widgetId, estimatedTotalTokens);
-          return response.choices[0].message.content;
-        } catch (openaiError) {
-          console.error('Erro específico do OpenAI:', openaiError);
-          const errorMessage = openaiError instanceof Error ? openaiError.message : 'Erro desconhecido do OpenAI';
-          await logLlmUsage(modelName, "image", false, userId, widgetId, 0, errorMessage);
+        if (!response.text) {
+          console.error(`Resposta vazia do ${adapter.label}`);
+          await logLlmUsage(modelName, "image", false, userId, widgetId, 0, 'Resposta vazia', provider);
           return errorMessages.modelError;
         }
+        
+        // Registrar uso bem-sucedido
+        await logLlmUsage(modelName, "image", true, userId, widgetId, response.totalTokens || estimatedTotalTokens, undefined, provider);
+        return response.text;
+      } catch (providerError) {
+        console.error(`Erro específico do ${adapter.label}:`, providerError);
+        const errorMessage = providerError instanceof Error ? providerError.message : `Erro desconhecido do ${adapter.label}`;
+        await logLlmUsage(modelName, "image", false, userId, widgetId, 0, errorMessage, provider);
+        return errorMessages.modelError;
       }
     } catch (error) {
       console.error('Erro geral na análise de imagem:', error);
@@ -834,12 +704,13 @@ export async function processTextMessage(
   llmConfig?: LlmFullConfig,
   history: Array<{ content: string, role: 'user' | 'assistant' }> = [],
   userId?: number,
-  widgetId?: string
+  widgetId?: string,
+  stream?: LlmStreamListener
 ): Promise<string> {
   try {
     // Se não recebemos configuração LLM, tentar obter configurações padrão
     const config = llmConfig || await getActiveLlmInfo();
-    const { provider, modelName, apiKey, tone, behaviorInstructions, shouldUseTrained, temperature } = config;
+    const { provider, modelName, tone, behaviorInstructions, temperature } = config;
     
     // Se o idioma não foi especificado, detectamos a partir do histórico ou mensagem atual
     const detectedLanguage = language || detectLanguage(message, history);
@@ -893,98 +764,52 @@ export async function processTextMessage(
          talking to a fellow technician. Avoid overly lengthy and academic explanations. Format your responses using Markdown when appropriate.
          Respond in English. ${toneStyle} ${customBehavior}`;
     
-    // Process with appropriate provider
-    if (provider === 'anthropic') {
-      // Use Anthropic Claude
-      console.log("Processando texto com Anthropic Claude:", {
-        model: modelName,
-        messageLength: message.length,
-        historyLength: history.length
-      });
-      
-      const anthropic = getAnthropicClient(apiKey);
-      
-      // Preparar mensagens com histórico
-      const messages = [...history]; // Clone o histórico
-      
-      // Adicionar a mensagem atual do usuário se não estiver no histórico
-      if (!messages.find(m => m.content === truncatedMessage && m.role === 'user')) {
-        messages.push({ role: 'user', content: truncatedMessage });
-      }
-      
-      const response = await anthropic.messages.create({
-        model: modelName,
-        max_tokens: 1024,
-        system: systemPrompt,
-        temperature: parseFloat(temperature || '0.3'),
-        messages
-      });
-
-      if (response.content[0].type === 'text') {
-        const responseText = response.content[0].text;
-        
-        // Registrar uso bem-sucedido
-        const tokenEstimate = estimateTokens(truncatedMessage, modelName) + estimateTokens(responseText, modelName);
-        await logLlmUsage(modelName, "text", true, userId, widgetId, tokenEstimate);
-        
-        return responseText;
-      } else {
-        // Registrar erro de formato
-        await logLlmUsage(modelName, "text", false, userId, widgetId, 0, 'Erro no formato da resposta');
-        return 'Erro no formato da resposta do modelo.';
-      }
-    } else {
-      // Use OpenAI com fetch direto
-      console.log("Processando texto com OpenAI:", {
-        model: modelName,
-        messageLength: message.length,
-        historyLength: history.length
-      });
-      
-      const openai = getOpenAIClient(apiKey);
-      
-      // Preparar mensagens para OpenAI
-      const messages = [{ role: "system", content: systemPrompt }];
-      
-      // Adicionar histórico se existir
-      if (history.length > 0) {
-        messages.push(...history.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })));
-      }
-      
-      // Adicionar a mensagem atual do usuário se não estiver no final do histórico
-      const lastMessage = history.length > 0 ? history[history.length - 1] : null;
-      if (!lastMessage || lastMessage.role !== 'user' || lastMessage.content !== truncatedMessage) {
-        messages.push({ role: "user", content: truncatedMessage });
-      }
-      
+    console.log(`Processando texto com ${provider}:`, {
+      model: modelName,
+      messageLength: message.length,
+      historyLength: history.length
+    });
+    
+    // Preparar mensagens com histórico
+    const messages = [...history]; // Clone o histórico
+    
+    // Adicionar a mensagem atual do usuário se não estiver no final do histórico
+    const lastMessage = history.length > 0 ? history[history.length - 1] : null;
+    if (!lastMessage || lastMessage.role !== 'user' || lastMessage.content !== truncatedMessage) {
+      messages.push({ role: 'user', content: truncatedMessage });
+    }
+    
+    // Percorrer a cadeia de failover: configuração principal e fallbacks cadastrados
+    const { response, target } = await runWithFailover(config, "text", async (target) => {
       // o modelo mais recente da OpenAI é "gpt-4o" que foi lançado em 13 de maio de 2024. não mude isso a menos que explicitamente solicitado pelo usuário
-      const actualModel = modelName === 'gpt-4' ? 'gpt-4o' : modelName;
+      const actualModel = target.provider === 'openai' && target.modelName === 'gpt-4' ? 'gpt-4o' : target.modelName;
       
-      // Utilizando cliente baseado em fetch direto
-      const response = await openai.chat.completions.create({
+      const response = await chatWithStream(getLlmProvider(target.provider), {
         model: actualModel,
-        max_tokens: 1024,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
+        system: systemPrompt,
+        messages,
         temperature: parseFloat(temperature || '0.3'),
-        messages: messages
-      });
+        maxTokens: 1024
+      }, stream);
+      return { response, target };
+    }, { userId, widgetId });
 
-      if (response.choices && response.choices[0] && response.choices[0].message && response.choices[0].message.content) {
-        const responseText = response.choices[0].message.content;
-        
-        // Registrar uso bem-sucedido
-        const tokenEstimate = estimateTokens(truncatedMessage, modelName) + estimateTokens(responseText, modelName);
-        await logLlmUsage(modelName, "text", true, userId, widgetId, tokenEstimate);
-        
-        return responseText;
-      }
+    if (response.text) {
+      const responseText = response.text;
+      
+      // Registrar uso bem-sucedido
+      const tokenEstimate = response.totalTokens ||
+        estimateTokens(truncatedMessage, target.modelName) + estimateTokens(responseText, target.modelName);
+      await logLlmUsage(target.modelName, "text", true, userId, widgetId, tokenEstimate, undefined, target.provider);
       
-      // Registrar erro de resposta vazia
-      await logLlmUsage(modelName, "text", false, userId, widgetId, 0, 'Resposta vazia do modelo');
-      return 'Sem resposta do modelo.';
+      return responseText;
     }
+    
+    // Registrar erro de resposta vazia
+    await logLlmUsage(target.modelName, "text", false, userId, widgetId, 0, 'Resposta vazia do modelo', target.provider);
+    return 'Sem resposta do modelo.';
   } catch (error) {
     console.error('Erro ao processar mensagem de texto:', error);
     
@@ -996,7 +821,7 @@ export async function processTextMessage(
                       (llmConfig?.provider === 'openai' ? DEFAULT_GPT_MODEL : DEFAULT_CLAUDE_MODEL));
     
     // Registrar o erro no sistema
-    await logLlmUsage(modelToLog, "text", false, userId, widgetId, 0, errorMessage);
+    await logLlmUsage(modelToLog, "text", false, userId, widgetId, 0, errorMessage, llmConfig?.provider);
     
     // Tenta detectar o idioma da mensagem original para fornecer resposta de erro adequada
     // Aqui usamos o idioma passado como parâmetro, ou detectamos a partir da mensagem
@@ -1081,7 +906,7 @@ function truncateText(text: string, maxLength: number = 10000): string {
 }
 
 // Estimativa mais precisa de tokens baseada nos principais tokenizadores
-function estimateTokens(text: string, model: string = ''): number {
+export function estimateTokens(text: string, model: string = ''): number {
   if (!text) return 0;
   
   // Diferentes modelos usam diferentes métricas de tokenização
@@ -1274,91 +1099,42 @@ export async function analyzeFile(filePath: string, language: string, llmConfig?
       ? `Por favor, analise o conteúdo deste arquivo e extraia informações técnicas relevantes para manutenção de placas de circuito. O conteúdo do arquivo é:\n\n${fileContent}`
       : `Please analyze the content of this file and extract relevant technical information for circuit board maintenance. The file content is:\n\n${fileContent}`;
     
-    // Process with appropriate provider
-    if (provider === 'anthropic') {
-      // Use Anthropic Claude com fetch direto
-      try {
-        console.log(`Analisando arquivo com Anthropic: ${modelName}`);
-        const anthropic = getAnthropicClient(apiKey);
-        
-        // Preparar a chamada para o método fetch direto
-        const response = await anthropic.messages.create({
-          model: modelName,
-          max_tokens: 1024,
-          system: systemPrompt,
-          temperature: parseFloat(temperature || '0.3'),
-          messages: [
-            {
-              role: 'user',
-              content: userPrompt
-            }
-          ]
-        });
-
-        if (response.content && response.content[0] && response.content[0].type === 'text') {
-          // Registrar uso bem-sucedido
-          await logLlmUsage(modelName, "file", true, userId, widgetId, estimatedTokens);
-          return response.content[0].text;
-        } else {
-          console.error('Resposta em formato inesperado do Anthropic');
-          await logLlmUsage(modelName, "file", false, userId, widgetId, 0, 'Resposta em formato inesperado');
-          return language === 'pt'
-            ? 'Erro ao analisar o arquivo. Por favor, tente novamente mais tarde.'
-            : 'Error analyzing the file. Please try again later.';
-        }
-      } catch (claudeError) {
-        console.error('Erro específico do Claude ao analisar arquivo:', claudeError);
-        const errorMessage = claudeError instanceof Error ? claudeError.message : 'Erro desconhecido';
-        await logLlmUsage(modelName, "file", false, userId, widgetId, 0, errorMessage);
-        return language === 'pt'
-          ? 'Erro ao analisar o arquivo com Claude. Por favor, tente novamente mais tarde.'
-          : 'Error analyzing the file with Claude. Please try again later.';
-      }
-    } else {
-      // Use OpenAI com fetch direto
-      try {
-        console.log(`Analisando arquivo com OpenAI: ${modelName}`);
-        const openai = getOpenAIClient(apiKey);
-        
-        // o modelo mais recente da OpenAI é "gpt-4o" que foi lançado em 13 de maio de 2024. não mude isso a menos que explicitamente solicitado pelo usuário
-        const actualModel = modelName === 'gpt-4' ? 'gpt-4o' : modelName;
-        
-        // Preparar a chamada para o método fetch direto
-        const response = await openai.chat.completions.create({
-          model: actualModel,
-          max_tokens: 1024,
-          temperature: parseFloat(temperature || '0.3'),
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt
-            },
-            {
-              role: "user",
-              content: userPrompt
-            }
-          ]
-        });
+    // Processar com o adaptador do provedor configurado
+    const adapter = getLlmProvider(provider);
+    try {
+      console.log(`Analisando arquivo com ${adapter.label}: ${modelName}`);
+      
+      // o modelo mais recente da OpenAI é "gpt-4o" que foi lançado em 13 de maio de 2024. não mude isso a menos que explicitamente solicitado pelo usuário
+      const actualModel = provider === 'openai' && modelName === 'gpt-4' ? 'gpt-4o' : modelName;
+      
+      const response = await adapter.chat({
+        model: actualModel,
+        apiKey,
+        baseUrl: activeConfig.baseUrl,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        temperature: parseFloat(temperature || '0.3'),
+        maxTokens: 1024
+      });
 
-        if (response.choices && response.choices[0] && response.choices[0].message && response.choices[0].message.content) {
-          // Registrar uso bem-sucedido
-          await logLlmUsage(modelName, "file", true, userId, widgetId, estimatedTokens);
-          return response.choices[0].message.content;
-        }
-        
-        console.error('Resposta vazia ou inválida do OpenAI');
-        await logLlmUsage(modelName, "file", false, userId, widgetId, 0, 'Resposta vazia ou inválida');
-        return language === 'pt'
-          ? 'Sem resposta válida do modelo. Por favor, tente novamente.'
-          : 'No valid response from the model. Please try again.';
-      } catch (gptError) {
-        console.error('Erro específico do OpenAI ao analisar arquivo:', gptError);
-        const errorMessage = gptError instanceof Error ? gptError.message : 'Erro desconhecido';
-        await logLlmUsage(modelName, "file", false, userId, widgetId, 0, errorMessage);
-        return language === 'pt'
-          ? 'Erro ao analisar o arquivo com GPT. Por favor, tente novamente mais tarde.'
-          : 'Error analyzing the file with GPT. Please try again later.';
+      if (response.text) {
+        // Registrar uso bem-sucedido
+        await logLlmUsage(modelName, "file", true, userId, widgetId, response.totalTokens || estimatedTokens, undefined, provider);
+        return response.text;
       }
+      
+      console.error(`Resposta vazia ou inválida do ${adapter.label}`);
+      await logLlmUsage(modelName, "file", false, userId, widgetId, 0, 'Resposta vazia ou inválida', provider);
+      return language === 'pt'
+        ? 'Sem resposta válida do modelo. Por favor, tente novamente.'
+        : 'No valid response from the model. Please try again.';
+    } catch (providerError) {
+      console.error(`Erro específico do ${adapter.label} ao analisar arquivo:`, providerError);
+      const errorMessage = providerError instanceof Error ? providerError.message : 'Erro desconhecido';
+      await logLlmUsage(modelName, "file", false, userId, widgetId, 0, errorMessage, provider);
+      return language === 'pt'
+        ? `Erro ao analisar o arquivo com ${adapter.label}. Por favor, tente novamente mais tarde.`
+        : `Error analyzing the file with ${adapter.label}. Please try again later.`;
     }
   } catch (error) {
     console.error('Error analyzing file:', error);
@@ -1389,127 +1165,57 @@ function getMediaType(filePath: string): string {
   }
 }
 
-// Test connection to either Anthropic or OpenAI API
-export async function testConnection(apiKey: string, modelName: string): Promise<boolean> {
+// Test connection to the configured LLM provider
+export async function testConnection(
+  apiKey: string,
+  modelName: string,
+  providerId?: LlmProvider,
+  baseUrl?: string | null
+): Promise<boolean> {
+  // Configurações antigas não informam o provedor; inferir pelo nome do modelo
+  const provider = providerId || resolveProviderForModel(modelName);
+  
   try {
-    console.log(`Testando conexão com modelo ${modelName} usando API key [parcial]: ${apiKey.substring(0, 4)}...`);
+    console.log(`Testando conexão com modelo ${modelName} (${provider}) usando API key [parcial]: ${(apiKey || '').substring(0, 4)}...`);
     
-    // Determine provider based on model name
-    const isOpenAI = modelName.startsWith('gpt');
+    const adapter = getLlmProvider(provider);
     
-    if (isOpenAI) {
-      try {
-        // Test OpenAI connection usando fetch direto
-        console.log(`Testando conexão OpenAI direta via fetch com modelo: ${modelName}`);
-        
-        // Parâmetros para teste OpenAI
-        const params = {
-          model: modelName,
-          max_tokens: 10,
-          messages: [
-            {
-              role: 'user',
-              content: 'Test connection'
-            }
-          ]
-        };
-        
-        // Chamada direta sem usar o cliente - abordagem mais confiável
-        const response = await fetchOpenAIDirectly('chat/completions', params, apiKey);
-        
-        if (response.choices && response.choices[0] && response.choices[0].message) {
-          console.log('Conexão com OpenAI bem-sucedida');
-          
-          // Registrar o uso bem-sucedido
-          // Para testes administrativos não é necessário userId ou widgetId
-          await logLlmUsage(modelName, "test", true, undefined, undefined, 10);
-          
-          return true;
-        }
-        
-        console.log('Resposta inválida do OpenAI no teste de conexão');
-        
-        // Registrar o uso malsucedido
-        await logLlmUsage(modelName, "test", false, undefined, undefined, 0, 'Resposta inválida do OpenAI');
-        
-        return false;
-      } catch (openaiError) {
-        console.error('Erro testando conexão com OpenAI:', openaiError);
-        
-        // Registrar o erro
-        await logLlmUsage(modelName, "test", false, undefined, undefined, 0, 
-          openaiError instanceof Error ? openaiError.message : 'Erro desconhecido no teste OpenAI');
-        
-        return false;
-      }
-    } else {
-      try {
-        // Test Anthropic connection usando fetch direto
-        console.log(`Testando conexão Anthropic direta via fetch com modelo: ${modelName}`);
-        
-        // Determinar o formato correto baseado no modelo
-        let params: any;
-        
-        if (modelName.includes('claude-3')) {
-          // Format for Claude 3 API (usar messages array)
-          params = {
-            model: modelName,
-            max_tokens: 10,
-            messages: [
-              {
-                role: 'user',
-                content: 'Test connection'
-              }
-            ]
-          };
-        } else {
-          // Format for older Claude models (usar prompt)
-          params = {
-            model: modelName,
-            max_tokens: 10,
-            prompt: "\n\nHuman: Test connection\n\nAssistant: "
-          };
-        }
-        
-        console.log('Dados enviados para Anthropic:', JSON.stringify(params));
-        
-        // Chamada direta sem usar o cliente - abordagem mais confiável
-        const response = await fetchAnthropicDirectly('messages', params, apiKey);
-        console.log('Resposta do Anthropic:', JSON.stringify(response));
-        
-        if ((response.content && response.content.length > 0) || 
-            (response.completion && response.completion.length > 0)) {
-          console.log('Conexão com Anthropic bem-sucedida');
-          
-          // Registrar o uso bem-sucedido
-          // Para testes administrativos não é necessário userId ou widgetId
-          await logLlmUsage(modelName, "test", true, undefined, undefined, 10);
-          
-          return true;
-        }
-        
-        console.log('Resposta inválida do Anthropic no teste de conexão');
-        
-        // Registrar o uso malsucedido
-        await logLlmUsage(modelName, "test", false, undefined, undefined, 0, 'Resposta inválida do Anthropic');
-        
-        return false;
-      } catch (anthropicError) {
-        console.error('Erro testando conexão com Anthropic:', anthropicError);
-        
-        // Registrar o erro
-        await logLlmUsage(modelName, "test", false, undefined, undefined, 0, 
-          anthropicError instanceof Error ? anthropicError.message : 'Erro desconhecido no teste Anthropic');
-        
-        return false;
-      }
+    if (adapter.requiresBaseUrl && !baseUrl) {
+      console.error(`URL base obrigatória para o provedor ${adapter.label}`);
+      await logLlmUsage(modelName, "test", false, undefined, undefined, 0, 'URL base não informada', provider);
+      return false;
     }
+    
+    const response = await adapter.chat({
+      model: modelName,
+      apiKey,
+      baseUrl,
+      messages: [{ role: 'user', content: 'Test connection' }],
+      maxTokens: 10
+    });
+    
+    if (response.text) {
+      console.log(`Conexão com ${adapter.label} bem-sucedida`);
+      
+      // Registrar o uso bem-sucedido
+      // Para testes administrativos não é necessário userId ou widgetId
+      await logLlmUsage(modelName, "test", true, undefined, undefined, response.totalTokens || 10, undefined, provider);
+      
+      return true;
+    }
+    
+    console.log(`Resposta inválida do ${adapter.label} no teste de conexão`);
+    
+    // Registrar o uso malsucedido
+    await logLlmUsage(modelName, "test", false, undefined, undefined, 0, `Resposta inválida do ${adapter.label}`, provider);
+    
+    return false;
   } catch (error) {
     console.error('Erro geral testando conexão LLM:', error);
     
-    // Registrar erro geral (não específico de um provedor)
+    // Registrar erro geral
     await logLlmUsage(modelName, "test", false, undefined, undefined, 0, 
-      error instanceof Error ? error.message : 'Erro desconhecido na conexão LLM');
+      error instanceof Error ? error.message : 'Erro desconhecido na conexão LLM', provider);
     
     return false;
   }
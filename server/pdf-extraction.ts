@@ -0,0 +1,441 @@
+/**
+ * Extração estruturada de PDFs
+ *
+ * O texto de cada página é remontado a partir das posições dos trechos (pdf.js, via pdf-parse):
+ * linhas pela coordenada vertical, células pelos espaços horizontais largos. Blocos de linhas
+ * com colunas alinhadas são tratados como tabela e serializados linha a linha, com o nome da
+ * coluna em cada valor. Páginas sem camada de texto (digitalizadas) têm a imagem da página
+ * extraída do PDF e transcrita pelo modelo de visão configurado (OCR).
+ */
+import pdfParse from 'pdf-parse';
+import zlib from 'zlib';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream } from 'pdf-lib';
+import { getActiveLlmInfo, logLlmUsage } from './llm';
+import { getLlmProvider } from './llm-providers';
+import { formatPageMarker, SPREADSHEET_COLUMNS_PREFIX } from './document-chunking';
+
+export interface PdfPage {
+  number: number;
+  text: string;
+  // Página sem texto extraível (digitalizada): candidata a OCR
+  scanned: boolean;
+  tables: number;
+  ocr: boolean;
+}
+
+interface TextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  end: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+// Menos caracteres do que isso na página indica ausência de camada de texto
+const MIN_PAGE_TEXT_CHARS = 20;
+// Blocos com menos linhas alinhadas são tratados como texto corrido
+const MIN_TABLE_ROWS = 3;
+// Limite de páginas transcritas por documento (cada página é uma chamada ao modelo de visão)
+const MAX_OCR_PAGES = parseInt(process.env.PDF_OCR_MAX_PAGES || '50', 10);
+
+const OCR_SYSTEM_PROMPT = `Você transcreve páginas digitalizadas de manuais técnicos de eletrônica.
+Transcreva todo o texto da página exatamente como aparece, na ordem de leitura, sem resumir nem comentar.
+Mantenha títulos em linhas próprias. Tabelas devem ser transcritas uma linha por registro, com as células separadas por " | " e a linha de cabeçalho primeiro.
+Preserve códigos de componentes, valores e unidades (ex.: R12, 10kΩ, 3,3 V). Se a página não tiver texto, responda apenas: [sem texto]`;
+
+function toTextItems(items: any[]): TextItem[] {
+  return items
+    .filter(item => typeof item.str === 'string' && item.str.trim().length > 0)
+    .map(item => ({
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width || 0,
+      height: Math.abs(item.transform[3]) || item.height || 10
+    }));
+}
+
+/**
+ * Agrupa os trechos em linhas (mesma coordenada vertical) e, dentro da linha, em células:
+ * um espaço maior que a altura da fonte separa colunas
+ */
+function buildLines(items: TextItem[]): Line[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: { y: number; height: number; items: TextItem[] }[] = [];
+
+  for (const item of sorted) {
+    const current = rows[rows.length - 1];
+    if (current && Math.abs(current.y - item.y) <= Math.max(2, Math.min(current.height, item.height) * 0.5)) {
+      current.items.push(item);
+      current.height = Math.max(current.height, item.height);
+    } else {
+      rows.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  return rows.map(row => {
+    const cells: Cell[] = [];
+    for (const item of row.items.sort((a, b) => a.x - b.x)) {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x - cell.end : Infinity;
+      if (cell && gap <= Math.max(row.height, 4)) {
+        const needsSpace = gap > row.height * 0.15 && !cell.text.endsWith(' ') && !item.str.startsWith(' ');
+        cell.text += (needsSpace ? ' ' : '') + item.str;
+        cell.end = Math.max(cell.end, item.x + item.width);
+      } else {
+        cells.push({ text: item.str, x: item.x, end: item.x + item.width });
+      }
+    }
+    for (const cell of cells) {
+      cell.text = cell.text.replace(/\s+/g, ' ').trim();
+    }
+    return { y: row.y, height: row.height, cells: cells.filter(cell => cell.text.length > 0) };
+  });
+}
+
+/**
+ * Colunas de um bloco candidato a tabela: inícios de célula próximos (até uma altura de fonte)
+ * formam uma coluna; colunas com uma única célula são descartadas
+ */
+function findColumnAnchors(lines: Line[]): number[] {
+  const tolerance = Math.max(...lines.map(line => line.height));
+  const starts = lines.flatMap(line => line.cells.map(cell => cell.x)).sort((a, b) => a - b);
+  const clusters: number[][] = [];
+
+  for (const x of starts) {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && x - cluster[cluster.length - 1] <= tolerance) {
+      cluster.push(x);
+    } else {
+      clusters.push([x]);
+    }
+  }
+
+  return clusters
+    .filter(cluster => cluster.length >= 2)
+    .map(cluster => cluster.reduce((sum, x) => sum + x, 0) / cluster.length);
+}
+
+function nearestAnchor(anchors: number[], x: number): number {
+  let best = 0;
+  for (let i = 1; i < anchors.length; i++) {
+    if (Math.abs(anchors[i] - x) < Math.abs(anchors[best] - x)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Serializa a tabela linha a linha no mesmo formato das planilhas ("Coluna: valor | ..."),
+ * para que cada linha continue compreensível fora do chunk do cabeçalho.
+ * Linhas com uma única célula fora da primeira coluna continuam a célula da linha anterior.
+ */
+function serializeTable(lines: Line[], anchors: number[]): string {
+  const rows: string[][] = [];
+  for (const line of lines) {
+    const row: string[] = anchors.map(() => '');
+    for (const cell of line.cells) {
+      const column = nearestAnchor(anchors, cell.x);
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    }
+
+    const filled = row.map((value, column) => value ? column : -1).filter(column => column >= 0);
+    const previous = rows[rows.length - 1];
+    if (previous && filled.length === 1 && filled[0] > 0) {
+      previous[filled[0]] = `${previous[filled[0]]} ${row[filled[0]]}`.trim();
+    } else {
+      rows.push(row);
+    }
+  }
+
+  const first = rows[0].filter(value => value.length > 0);
+  const hasHeader = first.length >= 2 && first.every(value => !/^[-+]?[\d.,]+\s*\S{0,3}$/.test(value));
+  const columns = anchors.map((_, column) => (hasHeader && rows[0][column]) || `Coluna ${column + 1}`);
+
+  const output = ['[Tabela]', `${SPREADSHEET_COLUMNS_PREFIX}${columns.join(' | ')}`];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cells = row.map((value, column) => value ? `${columns[column]}: ${value}` : '').filter(value => value.length > 0);
+    if (cells.length > 0) {
+      output.push(cells.join(' | '));
+    }
+  }
+  return output.join('\n');
+}
+
+/**
+ * Monta o texto da página: parágrafos separados pelo espaçamento vertical e tabelas
+ * detectadas pelo alinhamento das colunas
+ */
+function layoutPage(lines: Line[]): { text: string; tables: number } {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let tables = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(paragraph.join('\n'));
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    // Sequência de linhas com duas ou mais células, próximas entre si
+    let end = i;
+    while (end < lines.length) {
+      const line = lines[end];
+      const next = lines[end + 1];
+      const closeToPrevious = end === i || lines[end - 1].y - line.y <= lines[end - 1].height * 2.5;
+      // Uma linha de célula única entre linhas da tabela é continuação de célula
+      const isContinuation = end > i && line.cells.length === 1 && !!next && next.cells.length >= 2;
+      if (!closeToPrevious || (line.cells.length < 2 && !isContinuation)) break;
+      end++;
+    }
+
+    const candidate = lines.slice(i, end);
+    const anchors = candidate.length >= MIN_TABLE_ROWS ? findColumnAnchors(candidate) : [];
+    if (anchors.length >= 2) {
+      flushParagraph();
+      blocks.push(serializeTable(candidate, anchors));
+      tables++;
+      i = end;
+      continue;
+    }
+
+    const line = lines[i];
+    const previous = lines[i - 1];
+    if (previous && previous.y - line.y > Math.max(previous.height, line.height) * 1.8) {
+      flushParagraph();
+    }
+    paragraph.push(line.cells.map(cell => cell.text).join(' '));
+    i++;
+  }
+  flushParagraph();
+
+  return { text: blocks.join('\n\n'), tables };
+}
+
+/**
+ * Extrai o texto de cada página do PDF, mantendo parágrafos e tabelas
+ * @param maxPages Limite de páginas (0 = todas)
+ */
+export async function extractPdfPages(buffer: Buffer, maxPages: number = 0): Promise<{ pages: PdfPage[]; numpages: number }> {
+  const pages: PdfPage[] = [];
+
+  const data = await pdfParse(buffer, {
+    max: maxPages,
+    version: 'v1.10.100',
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: true, disableCombineTextItems: false });
+      const { text, tables } = layoutPage(buildLines(toTextItems(content.items)));
+      pages.push({
+        number: pageData.pageIndex + 1,
+        text,
+        scanned: text.replace(/\s/g, '').length < MIN_PAGE_TEXT_CHARS,
+        tables,
+        ocr: false
+      });
+      return text;
+    }
+  });
+
+  return { pages: pages.sort((a, b) => a.number - b.number), numpages: data.numpages };
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Converte as linhas de pixels de 8 bits (já com o byte de filtro PNG de cada linha) em um PNG
+ */
+function encodePng(width: number, height: number, channels: 1 | 3, filteredRows: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = channels === 1 ? 0 : 2;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(filteredRows)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Imagem digitalizada de uma página: a maior imagem da página, em JPEG (DCTDecode, usada
+ * como está) ou em pixels de 8 bits cinza/RGB (FlateDecode, convertida para PNG).
+ * Outros formatos (JBIG2, CCITT) não são suportados.
+ */
+function extractPageImage(pdf: PDFDocument, pageIndex: number): { data: Buffer; mediaType: string } | null {
+  const xObjects = pdf.getPage(pageIndex).node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  if (!xObjects) {
+    return null;
+  }
+
+  let largest: { stream: PDFRawStream; width: number; height: number } | null = null;
+  for (const [, ref] of xObjects.entries()) {
+    const stream = pdf.context.lookup(ref);
+    if (!(stream instanceof PDFRawStream) || stream.dict.get(PDFName.of('Subtype')) !== PDFName.of('Image')) {
+      continue;
+    }
+    const width = stream.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() || 0;
+    const height = stream.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() || 0;
+    if (!largest || width * height > largest.width * largest.height) {
+      largest = { stream, width, height };
+    }
+  }
+  if (!largest) {
+    return null;
+  }
+
+  const { stream, width, height } = largest;
+  const filter = stream.dict.lookup(PDFName.of('Filter'));
+  const filters = filter instanceof PDFArray ? filter.asArray().map(name => name.toString()) : filter ? [filter.toString()] : [];
+
+  if (filters.length === 1 && filters[0] === '/DCTDecode') {
+    return { data: Buffer.from(stream.contents), mediaType: 'image/jpeg' };
+  }
+
+  const colorSpace = stream.dict.lookup(PDFName.of('ColorSpace'));
+  const channels = colorSpace === PDFName.of('DeviceGray') ? 1 : colorSpace === PDFName.of('DeviceRGB') ? 3 : 0;
+  const bits = stream.dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+  if (filters.length !== 1 || filters[0] !== '/FlateDecode' || !channels || bits !== 8) {
+    return null;
+  }
+
+  const pixels = zlib.inflateSync(Buffer.from(stream.contents));
+  const predictor = stream.dict.lookupMaybe(PDFName.of('DecodeParms'), PDFDict)?.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() || 1;
+  const rowLength = width * channels;
+
+  // Preditores PNG (>= 10) já trazem o byte de filtro em cada linha
+  let filteredRows: Buffer;
+  if (predictor >= 10) {
+    filteredRows = pixels;
+  } else {
+    filteredRows = Buffer.alloc((rowLength + 1) * height);
+    for (let row = 0; row < height; row++) {
+      pixels.copy(filteredRows, row * (rowLength + 1) + 1, row * rowLength, (row + 1) * rowLength);
+    }
+  }
+
+  return { data: encodePng(width, height, channels as 1 | 3, filteredRows), mediaType: 'image/png' };
+}
+
+/**
+ * Transcreve as páginas digitalizadas com o modelo de visão do provedor ativo.
+ * Páginas sem imagem suportada, acima do limite ou com falha do modelo continuam sem texto.
+ */
+export async function ocrScannedPages(buffer: Buffer, pages: PdfPage[]): Promise<void> {
+  const scanned = pages.filter(page => page.scanned);
+  if (scanned.length === 0) {
+    return;
+  }
+
+  const config = await getActiveLlmInfo();
+  const adapter = getLlmProvider(config.provider);
+  if (!adapter.vision) {
+    console.warn(`[PDF] ${scanned.length} páginas digitalizadas sem OCR: o provedor ${adapter.label} não analisa imagens`);
+    return;
+  }
+
+  let pdf: PDFDocument;
+  try {
+    pdf = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false });
+  } catch (error) {
+    console.error('[PDF] Erro ao abrir o PDF para extrair as imagens das páginas:', error);
+    return;
+  }
+
+  if (scanned.length > MAX_OCR_PAGES) {
+    console.warn(`[PDF] ${scanned.length} páginas digitalizadas; apenas as primeiras ${MAX_OCR_PAGES} serão transcritas`);
+  }
+
+  for (const page of scanned.slice(0, MAX_OCR_PAGES)) {
+    let image: { data: Buffer; mediaType: string } | null = null;
+    try {
+      image = extractPageImage(pdf, page.number - 1);
+    } catch (error) {
+      console.error(`[PDF] Erro ao extrair a imagem da página ${page.number}:`, error);
+    }
+    if (!image) {
+      console.warn(`[PDF] Página ${page.number} sem imagem em formato suportado para OCR`);
+      continue;
+    }
+
+    try {
+      const response = await adapter.vision({
+        model: config.modelName,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        system: OCR_SYSTEM_PROMPT,
+        prompt: `Transcreva o texto desta página (página ${page.number} do documento).`,
+        image: { data: image.data.toString('base64'), mediaType: image.mediaType },
+        temperature: 0,
+        maxTokens: 4096
+      });
+      await logLlmUsage(config.modelName, "image", true, undefined, undefined, response.totalTokens, undefined, config.provider);
+
+      const text = response.text.trim();
+      if (text && text !== '[sem texto]') {
+        page.text = text;
+        page.ocr = true;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      console.error(`[PDF] Erro no OCR da página ${page.number}:`, errorMessage);
+      await logLlmUsage(config.modelName, "image", false, undefined, undefined, 0, errorMessage, config.provider);
+    }
+  }
+
+  console.log(`[PDF] OCR: ${scanned.filter(page => page.ocr).length} de ${scanned.length} páginas digitalizadas transcritas`);
+}
+
+/**
+ * Junta as páginas com o marcador "[Página N]" no início de cada uma; páginas sem texto são omitidas
+ */
+export function formatPdfPages(pages: PdfPage[]): string {
+  return pages
+    .filter(page => page.text.trim().length > 0 && (!page.scanned || page.ocr))
+    .map(page => `${formatPageMarker(page.number)}\n${page.ocr ? '[Texto obtido por OCR]\n' : ''}${page.text.trim()}`)
+    .join('\n\n');
+}
@@ -0,0 +1,219 @@
+/**
+ * Avaliação do RAG com conjuntos de perguntas de referência
+ *
+ * Cada conjunto guarda perguntas com a resposta esperada e os documentos de
+ * treinamento que a busca deveria recuperar. Uma execução passa todas as perguntas
+ * por processQueryWithRAG e registra, por pergunta e no agregado:
+ * - hit rate: fração das perguntas em que algum documento esperado foi recuperado
+ * - MRR: média do inverso da posição do primeiro documento esperado
+ * - nota de correção da resposta, atribuída por um LLM juiz (0 a 1)
+ *
+ * As execuções ficam salvas para comparar mudanças de chunking, reranker ou modelo
+ * antes de colocá-las em produção.
+ */
+import { storage } from './storage';
+import { RagEvalQuestion, RagEvalRun } from '@shared/schema';
+import { processQueryWithRAG } from './rag-processor';
+import { getActiveLlmInfo, LlmFullConfig } from './llm';
+import { getLlmProvider } from './llm-providers';
+import { runWithFailover } from './llm-failover';
+
+interface AnswerJudgement {
+  score: number;
+  reasoning: string;
+}
+
+/**
+ * Posição (base 0) do primeiro documento esperado entre os recuperados, ou -1
+ */
+function findFirstExpectedRank(retrievedDocumentIds: number[], expectedDocumentIds: number[]): number {
+  return retrievedDocumentIds.findIndex(id => expectedDocumentIds.includes(id));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Pede ao LLM uma nota de 0 a 1 para a resposta, comparando com a resposta esperada
+ */
+async function judgeAnswer(
+  question: RagEvalQuestion,
+  answer: string,
+  llmInfo: LlmFullConfig
+): Promise<AnswerJudgement> {
+  const systemPrompt = `
+    Você avalia respostas de um assistente de manutenção de placas eletrônicas.
+    Compare a resposta obtida com a resposta esperada e dê uma nota de 0 a 10 para a correção técnica:
+    10 = contém todas as informações essenciais da resposta esperada, sem contradições;
+    5 = parcialmente correta ou incompleta;
+    0 = errada, contraditória ou não responde.
+    Ignore diferenças de estilo e informações extras que não contradizem a resposta esperada.
+    Responda APENAS com JSON no formato: {"score": <0-10>, "reasoning": "<uma frase>"}
+  `;
+
+  const result = await runWithFailover(llmInfo, 'text', async (target) => {
+    const adapter = getLlmProvider(target.provider);
+    return await adapter.chat({
+      model: target.modelName,
+      apiKey: target.apiKey,
+      baseUrl: target.baseUrl,
+      system: systemPrompt,
+      messages: [{
+        role: 'user',
+        content: `Pergunta: ${question.question}\n\nResposta esperada:\n${question.expected_answer}\n\nResposta obtida:\n${answer}`
+      }],
+      temperature: 0,
+      maxTokens: 200
+    });
+  });
+
+  const match = (result.text || '').match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('Resposta do juiz LLM sem JSON');
+  }
+
+  const parsed = JSON.parse(match[0]);
+  const score = Number(parsed.score);
+  if (!Number.isFinite(score)) {
+    throw new Error('Nota inválida na resposta do juiz LLM');
+  }
+
+  return {
+    score: Math.min(Math.max(score, 0), 10) / 10,
+    reasoning: String(parsed.reasoning || '')
+  };
+}
+
+/**
+ * Executa uma pergunta e grava o resultado; devolve as métricas para o agregado
+ */
+async function evaluateQuestion(run: RagEvalRun, question: RagEvalQuestion, llmInfo: LlmFullConfig, userId?: number) {
+  const startTime = Date.now();
+
+  try {
+    const response = await processQueryWithRAG(question.question, {
+      language: question.language,
+      llmInfo,
+      userId
+    });
+    const latencyMs = Date.now() - startTime;
+
+    const retrievedDocumentIds = response.retrievedDocumentIds || [];
+    const rank = findFirstExpectedRank(retrievedDocumentIds, question.expected_document_ids);
+    const hit = rank >= 0;
+    const reciprocalRank = hit ? 1 / (rank + 1) : 0;
+
+    let judgement: AnswerJudgement | null = null;
+    let errorMessage: string | null = null;
+    try {
+      judgement = await judgeAnswer(question, response.text, llmInfo);
+    } catch (judgeError) {
+      errorMessage = `Juiz LLM: ${judgeError instanceof Error ? judgeError.message : String(judgeError)}`;
+      console.error(`[Avaliação RAG] Erro ao avaliar resposta da pergunta ${question.id}:`, judgeError);
+    }
+
+    await storage.createRagEvalResult({
+      run_id: run.id,
+      question_id: question.id,
+      answer: response.text,
+      retrieved_document_ids: retrievedDocumentIds,
+      hit,
+      reciprocal_rank: reciprocalRank,
+      answer_score: judgement?.score ?? null,
+      judge_reasoning: judgement?.reasoning ?? null,
+      latency_ms: latencyMs,
+      error_message: errorMessage
+    });
+
+    return { hit, reciprocalRank, answerScore: judgement?.score ?? null };
+  } catch (error) {
+    console.error(`[Avaliação RAG] Erro na pergunta ${question.id}:`, error);
+    await storage.createRagEvalResult({
+      run_id: run.id,
+      question_id: question.id,
+      answer_score: 0, // Falha na consulta conta como resposta errada
+      latency_ms: Date.now() - startTime,
+      error_message: error instanceof Error ? error.message : String(error)
+    });
+    return { hit: false, reciprocalRank: 0, answerScore: 0 };
+  }
+}
+
+/**
+ * Executa todas as perguntas em sequência e grava as métricas agregadas
+ */
+async function executeRun(run: RagEvalRun, questions: RagEvalQuestion[], llmInfo: LlmFullConfig, userId?: number) {
+  const hits: number[] = [];
+  const reciprocalRanks: number[] = [];
+  const answerScores: number[] = [];
+
+  try {
+    for (const question of questions) {
+      const metrics = await evaluateQuestion(run, question, llmInfo, userId);
+
+      // Perguntas sem documentos esperados não entram nas métricas de recuperação
+      if (question.expected_document_ids.length > 0) {
+        hits.push(metrics.hit ? 1 : 0);
+        reciprocalRanks.push(metrics.reciprocalRank);
+      }
+      if (metrics.answerScore !== null) {
+        answerScores.push(metrics.answerScore);
+      }
+    }
+
+    const completedRun = await storage.updateRagEvalRun(run.id, {
+      status: 'completed',
+      hit_rate: average(hits),
+      mrr: average(reciprocalRanks),
+      answer_score: average(answerScores),
+      completed_at: new Date()
+    });
+
+    console.log(`[Avaliação RAG] Execução ${run.id} concluída: hit rate=${completedRun?.hit_rate ?? '-'}, MRR=${completedRun?.mrr ?? '-'}, nota=${completedRun?.answer_score ?? '-'}`);
+  } catch (error) {
+    console.error(`[Avaliação RAG] Erro na execução ${run.id}:`, error);
+    await storage.updateRagEvalRun(run.id, {
+      status: 'error',
+      error_message: error instanceof Error ? error.message : String(error),
+      completed_at: new Date()
+    });
+  }
+}
+
+/**
+ * Inicia uma execução do conjunto. A execução roda em segundo plano;
+ * o progresso pode ser acompanhado pelo status e pelos resultados gravados.
+ */
+export async function startRagEvaluationRun(
+  setId: number,
+  options: { label?: string; userId?: number } = {}
+): Promise<RagEvalRun> {
+  const questions = await storage.getRagEvalQuestions(setId);
+  if (questions.length === 0) {
+    throw new Error('O conjunto de avaliação não tem perguntas');
+  }
+
+  const llmInfo = await getActiveLlmInfo();
+
+  const run = await storage.createRagEvalRun({
+    set_id: setId,
+    label: options.label || null,
+    // Configuração registrada para comparar execuções
+    config: {
+      provider: llmInfo.provider,
+      model: llmInfo.modelName,
+      reranker: process.env.RAG_RERANKER || 'none'
+    },
+    question_count: questions.length,
+    created_by: options.userId
+  });
+
+  console.log(`[Avaliação RAG] Iniciando execução ${run.id} do conjunto ${setId} com ${questions.length} perguntas`);
+
+  executeRun(run, questions, llmInfo, options.userId).catch(error =>
+    console.error(`[Avaliação RAG] Falha inesperada na execução ${run.id}:`, error)
+  );
+
+  return run;
+}
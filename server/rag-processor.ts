@@ -1,385 +1,188 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
 import { storage } from './storage';
-import { DocumentChunk, smartChunking } from './document-chunking';
-import { createClient } from '@supabase/supabase-js';
-import { logLlmUsage } from './llm';
+import { MessageSource, RetrievalFilters, RetrievalTrace, TrainingDocument } from '@shared/schema';
+import { logLlmUsage, getActiveLlmInfo, LlmFullConfig } from './llm';
+import { LlmChatMessage, LlmStreamListener, chatWithStream, getLlmProvider, listLlmProviders, resolveProviderForModel } from './llm-providers';
+import { runWithFailover } from './llm-failover';
+import { hybridSearch } from './document-indexing';
+import { recordTraceChunks, recordTracePriorityDocuments, recordTracePrompt } from './retrieval-trace';
+import { applyGroundingCheck, holdStreamForGrounding } from './answer-grounding';
+import { applyCategoryFilter, filterDocumentsByMetadata, resolveRetrievalFilters } from './document-metadata';
 import dotenv from 'dotenv';
 
 // Carregar variáveis de ambiente
 dotenv.config();
 
 /**
- * Processa um documento, divide em chunks e cria embeddings
+ * Escopo de conhecimento de um widget: ids dos documentos das categorias vinculadas a ele.
+ * Retorna undefined quando não há restrição (sem widget ou widget sem categorias);
+ * um array vazio significa que nenhum documento pode ser usado.
  */
-export async function processDocumentForRAG(
-  documentId: number,
-  documentText: string,
-  options: {
-    sourceType?: string;
-    documentType?: string;
-    language?: 'pt' | 'en';
-    documentName?: string;
-    chunkSize?: number;
-    overlapSize?: number;
-  } = {}
-): Promise<{
-  chunks: DocumentChunk[];
-  totalChunks: number;
-  success: boolean;
-  error?: string;
-}> {
-  try {
-    const {
-      sourceType = 'document',
-      documentType = 'manual',
-      language = 'pt',
-      documentName = `Documento ${documentId}`,
-      chunkSize = 1500,
-      overlapSize = 150
-    } = options;
-    
-    console.log(`Processando documento ${documentId} para RAG: ${documentName}`);
-    
-    if (!documentText || documentText.trim().length === 0) {
-      return {
-        chunks: [],
-        totalChunks: 0,
-        success: false,
-        error: 'Documento vazio'
-      };
-    }
-    
-    // Dividir documento em chunks usando estratégia inteligente
-    const chunks = smartChunking(documentText, documentId, sourceType, documentType, {
-      maxChunkSize: chunkSize,
-      overlapSize: overlapSize,
-      language,
-      documentName
-    });
-    
-    console.log(`Documento dividido em ${chunks.length} chunks`);
-    
-    // Salvar chunks no banco de dados
-    for (const chunk of chunks) {
-      try {
-        // Criar embedding para o chunk
-        const embedding = await createEmbedding(chunk.content);
-        
-        // Salvar o chunk com embedding
-        await storage.createDocumentChunk({
-          document_id: documentId,
-          chunk_index: chunk.metadata.chunkIndex,
-          content: chunk.content,
-          content_hash: chunk.metadata.contentHash,
-          source_type: sourceType,
-          language: language,
-          embedding: embedding || undefined
-        });
-      } catch (chunkError: any) {
-        console.error(`Erro ao processar chunk ${chunk.metadata.chunkIndex}:`, chunkError);
-        // Continuar para o próximo chunk
-      }
-    }
-    
-    // Criar uma entrada na base de conhecimento (para fins de busca)
-    await storage.createKnowledgeEntry({
-      source_type: sourceType as any,
-      source_id: documentId,
-      content: documentText.substring(0, 1000) + (documentText.length > 1000 ? '...' : ''),
-      language: language,
-      metadata: JSON.stringify({
-        documentName: documentName,
-        documentType: documentType,
-        chunkCount: chunks.length
-      }),
-      processed_at: new Date(),
-      is_verified: true
-    });
-    
-    return {
-      chunks,
-      totalChunks: chunks.length,
-      success: true
-    };
-  } catch (error: any) {
-    console.error('Erro ao processar documento para RAG:', error);
-    return {
-      chunks: [],
-      totalChunks: 0,
-      success: false,
-      error: error.message
-    };
+export async function getWidgetDocumentScope(widgetId?: string): Promise<number[] | undefined> {
+  if (!widgetId) {
+    return undefined;
   }
+  
+  const categoryIds = await storage.getWidgetCategoryIds(widgetId);
+  if (categoryIds.length === 0) {
+    return undefined;
+  }
+  
+  const documentIds = await storage.getDocumentIdsByCategories(categoryIds);
+  console.log(`[RAG] Widget ${widgetId} restrito a ${documentIds.length} documentos de ${categoryIds.length} categorias`);
+  return documentIds;
 }
 
 /**
- * Cria embeddings para um texto usando OpenAI
+ * Filtra uma lista de documentos de treinamento pelo escopo do widget
  */
-export async function createEmbedding(text: string): Promise<number[] | null> {
-  try {
-    // Truncar o texto se for muito grande (limite API OpenAI)
-    const truncatedText = text.length > 8000 ? text.substring(0, 8000) : text;
-    
-    // Obter configuração LLM
-    const llmConfig = await storage.getActiveLlmConfig();
-    if (!llmConfig) {
-      throw new Error('Nenhuma configuração LLM ativa encontrada');
-    }
-    
-    // Determinar qual modelo usar
-    const apiKey = llmConfig.api_key || process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error('API key não disponível para criação de embedding');
-    }
-    
-    // Inicializar cliente OpenAI
-    const openai = new OpenAI({ apiKey });
-    
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: truncatedText,
-      encoding_format: "float"
-    });
-    
-    return response.data[0].embedding;
-  } catch (error: any) {
-    console.error('Erro ao criar embedding:', error);
-    return null;
+export function filterDocumentsByScope<T extends { id: number }>(documents: T[], documentIds?: number[]): T[] {
+  if (!documentIds) {
+    return documents;
   }
+  return documents.filter(doc => documentIds.includes(doc.id));
 }
 
 /**
- * Converte tokens de volta para texto (função auxiliar)
+ * Resposta do RAG com as fontes (chunks) que ficaram disponíveis para citação
  */
-function decode(tokens: number[]): string {
-  // Esta é uma implementação simplificada
-  // Na prática, seria necessário um tokenizador adequado
-  return tokens.join(' ');
+export interface RagResponse {
+  text: string;
+  sources: MessageSource[];
+  // Documentos recuperados pela busca, na ordem de relevância (sem os prioritários); usado na avaliação
+  retrievedDocumentIds?: number[];
+  // Rastreamento da recuperação, gravado junto com a mensagem do bot
+  trace?: RetrievalTrace;
+  // Texto de falha (LLM indisponível ou erro no pipeline): não conta como resposta e não vai para o cache
+  failed?: boolean;
 }
 
 /**
- * Busca documentos relevantes com base em uma consulta
+ * Falha na geração da resposta depois de esgotar o failover e o provedor de fallback.
+ * A mensagem é a exibida ao usuário.
  */
-export async function queryRelevantDocuments(
-  query: string,
-  options: {
-    limit?: number;
-    language?: 'pt' | 'en';
-    useSupabase?: boolean;
-  } = {}
-): Promise<any[]> {
-  const {
-    limit = 5,
-    language = 'pt',
-    useSupabase = true
-  } = options;
+class RagGenerationError extends Error {}
+
+// Tamanho do trecho de cada fonte devolvido à interface
+const SOURCE_SNIPPET_LENGTH = 240;
+
+/**
+ * Atribui um identificador de citação estável ([S1], [S2]...) a cada chunk do contexto.
+ * O mesmo chunk (documento + índice) recebe sempre o mesmo identificador.
+ */
+export function assignCitationIds(documents: any[]): MessageSource[] {
+  const sources: MessageSource[] = [];
+  const idsByChunk = new Map<string, string>();
   
-  try {
-    // Criar embedding para a consulta
-    const queryEmbedding = await createEmbedding(query);
-    
-    if (!queryEmbedding) {
-      throw new Error('Não foi possível criar embedding para a consulta');
-    }
-    
-    // Usar Supabase para busca de similaridade se disponível
-    if (useSupabase && process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY) {
-      try {
-        const results = await queryRelevantDocumentsWithSupabase(queryEmbedding, { limit, language });
-        
-        if (results && results.length > 0) {
-          return results;
-        }
-      } catch (supabaseError) {
-        console.error('Erro ao buscar com Supabase, usando fallback:', supabaseError);
-      }
+  for (const doc of documents) {
+    if (!doc || doc.document_id == null) {
+      continue;
     }
     
-    // Fallback: usar busca de similaridade local
-    // Obter chunks de documentos
-    const documentChunks = await storage.getDocumentChunksByLanguage(language);
-    
-    if (!documentChunks || documentChunks.length === 0) {
-      return [];
+    const chunkIndex = typeof doc.chunk_index === 'number' ? doc.chunk_index : null;
+    const key = `${doc.document_id}:${chunkIndex ?? '*'}`;
+    
+    let citationId = idsByChunk.get(key);
+    if (!citationId) {
+      citationId = `S${sources.length + 1}`;
+      idsByChunk.set(key, citationId);
+      
+      const content: string = doc.content || doc.text || '';
+      const metadata = typeof doc.metadata === 'string' ? safeParseJson(doc.metadata) : doc.metadata;
+      const page = Number(metadata?.page ?? doc.page);
+      
+      sources.push({
+        id: citationId,
+        document_id: doc.document_id,
+        document_name: doc.document_name || `Documento ${doc.document_id}`,
+        chunk_index: chunkIndex,
+        snippet: content.length > SOURCE_SNIPPET_LENGTH
+          ? content.substring(0, SOURCE_SNIPPET_LENGTH).trim() + '...'
+          : content.trim(),
+        page: Number.isFinite(page) && page > 0 ? page : null
+      });
     }
     
-    // Calcular similaridade para cada chunk
-    const chunksWithSimilarity = documentChunks
-      .map(chunk => {
-        // Calcular similaridade de cosseno se o chunk tiver embedding
-        let similarity = 0;
-        
-        try {
-          // Processar embedding armazenado como texto JSON
-          let embeddingArray: number[];
-          
-          if (typeof chunk.embedding === 'string') {
-            // Converter de string JSON para array
-            embeddingArray = JSON.parse(chunk.embedding);
-          } else if (chunk.embedding && Array.isArray(chunk.embedding)) {
-            embeddingArray = chunk.embedding;
-          } else {
-            return { ...chunk, similarity: 0 };
-          }
-          
-          similarity = calculateCosineSimilarity(queryEmbedding, embeddingArray);
-        } catch (error) {
-          console.error('Erro ao processar embedding:', error);
-          similarity = 0;
-        }
-        
-        return {
-          ...chunk,
-          similarity
-        };
-      })
-      .filter(chunk => chunk.similarity > 0);
-    
-    // Ordenar por similaridade e limitar resultados
-    chunksWithSimilarity.sort((a, b) => b.similarity - a.similarity);
-    
-    return chunksWithSimilarity.slice(0, limit);
-  } catch (error: any) {
-    console.error('Erro ao buscar documentos relevantes:', error);
-    return [];
+    doc.citation_id = citationId;
   }
+  
+  return sources;
 }
 
 /**
- * Usa supabase para busca de similaridade se estiver configurado
+ * Mantém apenas as fontes citadas no texto. Se o modelo não citou nenhuma,
+ * devolve todas as fontes do contexto para não perder a proveniência.
  */
-export async function queryRelevantDocumentsWithSupabase(
-  queryEmbedding: number[],
-  options: {
-    limit?: number;
-    language?: 'pt' | 'en';
-  } = {}
-): Promise<any[]> {
-  const { limit = 5, language = 'pt' } = options;
-  
-  // Verificar configuração do Supabase
-  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
-    throw new Error('Configuração do Supabase não disponível');
+export function selectCitedSources(text: string, sources: MessageSource[]): MessageSource[] {
+  const citedIds = new Set((text.match(/\[S\d+\]/g) || []).map(tag => tag.slice(1, -1)));
+  if (citedIds.size === 0) {
+    return sources;
   }
-  
-  // Inicializar cliente Supabase
-  const supabase = createClient(
-    process.env.SUPABASE_URL,
-    process.env.SUPABASE_ANON_KEY
-  );
-  
+  return sources.filter(source => citedIds.has(source.id));
+}
+
+function formatCitationTag(doc: any): string {
+  return doc.citation_id ? ` [${doc.citation_id}]` : '';
+}
+
+function safeParseJson(value: string): any {
   try {
-    // Executar busca de similaridade
-    const { data, error } = await supabase.rpc('match_document_chunks', {
-      query_embedding: queryEmbedding,
-      match_threshold: 0.6,
-      match_count: limit,
-      lang: language
-    });
-    
-    if (error) throw error;
-    
-    return data || [];
-  } catch (error: any) {
-    console.error('Erro na busca Supabase:', error);
-    throw error;
+    return JSON.parse(value);
+  } catch (e) {
+    return null;
   }
 }
 
 /**
- * Realiza uma pesquisa híbrida (keyword + semântica)
+ * Indica se o tipo do documento o torna sempre presente no prompt (system_rule/guardrail)
  */
-export async function hybridSearch(
-  query: string,
-  options: {
-    limit?: number;
-    language?: 'pt' | 'en';
-  } = {}
-): Promise<any[]> {
-  const { limit = 7, language = 'pt' } = options;
-  
-  try {
-    // Extrair palavras-chave da consulta
-    const keywords = extractKeywords(query);
-    
-    // Buscar com base em keywords
-    let keywordResults = await storage.searchDocumentChunksByKeywords(keywords, language);
-    
-    // Buscar com base em embeddings
-    const queryEmbedding = await createEmbedding(query);
-    let semanticResults: any[] = [];
-    
-    if (queryEmbedding) {
-      try {
-        if (process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY) {
-          semanticResults = await queryRelevantDocumentsWithSupabase(queryEmbedding, { 
-            limit: Math.ceil(limit * 0.6), 
-            language 
-          });
-        } else {
-          // Fallback para busca local
-          const documentChunks = await storage.getDocumentChunksByLanguage(language);
-          
-          if (documentChunks && documentChunks.length > 0) {
-            semanticResults = documentChunks
-              .filter(chunk => chunk.embedding)
-              .map(chunk => {
-                try {
-                  // Processar embedding armazenado como texto JSON ou array
-                  let embeddingArray: number[];
-                  
-                  if (typeof chunk.embedding === 'string') {
-                    // Converter de string JSON para array
-                    embeddingArray = JSON.parse(chunk.embedding);
-                  } else if (Array.isArray(chunk.embedding)) {
-                    embeddingArray = chunk.embedding;
-                  } else {
-                    return { ...chunk, similarity: 0 };
-                  }
-                  
-                  return {
-                    ...chunk,
-                    similarity: calculateCosineSimilarity(queryEmbedding, embeddingArray)
-                  };
-                } catch (error) {
-                  console.error('Erro ao processar embedding na busca híbrida:', error);
-                  return { ...chunk, similarity: 0 };
-                }
-              })
-              .filter(chunk => chunk.similarity > 0.6)
-              .sort((a, b) => b.similarity - a.similarity)
-              .slice(0, Math.ceil(limit * 0.6));
-          }
-        }
-      } catch (error) {
-        console.error('Erro na busca semântica:', error);
-      }
-    }
-    
-    // Combinar resultados e remover duplicatas
-    const combinedResults = [...semanticResults];
-    
-    // Adicionar resultados baseados em keywords que não estão já incluídos
-    for (const keywordResult of keywordResults) {
-      if (!combinedResults.some(r => r.id === keywordResult.id)) {
-        combinedResults.push({
-          ...keywordResult,
-          similarity: keywordResult.score || 0.5 // Score padrão para resultados baseados em keyword
-        });
-      }
-    }
-    
-    // Ordenar por relevância (combinando scores de similaridade e keyword)
-    combinedResults.sort((a, b) => b.similarity - a.similarity);
-    
-    // Limitar número de resultados
-    return combinedResults.slice(0, limit);
-  } catch (error: any) {
-    console.error('Erro na busca híbrida:', error);
-    return [];
-  }
+export function isPriorityDocumentKind(kind?: string | null): boolean {
+  return kind === 'system_rule' || kind === 'guardrail';
+}
+
+/**
+ * Ordena documentos prioritários: guardrails antes de regras de sistema, depois por prioridade
+ */
+export function sortPriorityDocuments<T extends { kind?: string | null; priority?: number | null }>(documents: T[]): T[] {
+  return [...documents].sort((a, b) => {
+    const kindOrder = (a.kind === 'guardrail' ? 0 : 1) - (b.kind === 'guardrail' ? 0 : 1);
+    return kindOrder !== 0 ? kindOrder : (b.priority ?? 0) - (a.priority ?? 0);
+  });
+}
+
+/**
+ * Documento pronto para uso nas respostas: indexado pela fila de processamento
+ * ou concluído (documentos anteriores à indexação em chunks)
+ */
+export function isReadyTrainingDocument(doc: { status?: string | null }): boolean {
+  return doc.status === 'indexed' || doc.status === 'completed';
+}
+
+/**
+ * Documentos sempre injetados no prompt (system_rule/guardrail), já ordenados.
+ * Apenas documentos processados e com conteúdo são considerados.
+ */
+export function getPriorityDocuments<T extends TrainingDocument>(trainingDocuments: T[]): T[] {
+  return sortPriorityDocuments(
+    trainingDocuments.filter(doc =>
+      isPriorityDocumentKind(doc.kind) &&
+      isReadyTrainingDocument(doc) &&
+      !!doc.content && doc.content.trim().length > 0
+    )
+  );
+}
+
+/**
+ * Converte um documento prioritário para o formato de documento de contexto do prompt
+ */
+export function toPriorityContextDocument(doc: TrainingDocument) {
+  return {
+    content: doc.content || '',
+    document_name: doc.name,
+    document_id: doc.id,
+    kind: doc.kind,
+    priority: doc.priority,
+    similarity: 1.0 // Máxima similaridade para documentos de instruções
+  };
 }
 
 /**
@@ -390,40 +193,16 @@ export function formatRelevantDocumentsForPrompt(documents: any[]): string {
     return 'Nenhum documento relevante encontrado.';
   }
   
-  // Identificar quais documentos são de instruções prioritárias
-  const instructionDocs = documents.filter(doc => {
-    const docName = (doc.document_name || '').toLowerCase();
-    // Verificar o nome do documento
-    const isInstructionByName = docName.includes('instruç') || 
-                              docName.includes('instruc') || 
-                              docName.includes('priorit') || 
-                              docName.includes('regras') ||
-                              docName.includes('nunca') ||
-                              docName.includes('proibid') ||
-                              docName.includes('obrigat');
-                              
-    // Verificar se o conteúdo do documento contém palavras-chave importantes
-    const docContent = (doc.content || '').toLowerCase();
-    const hasImportantKeywords = docContent.includes('nunca levar') || 
-                               docContent.includes('não levar') ||
-                               docContent.includes('jamais levar') ||
-                               docContent.includes('assistência técnica') ||
-                               docContent.includes('técnico especializado') ||
-                               docContent.includes('não recorrer') ||
-                               docContent.includes('não consultar') ||
-                               docContent.includes('nunca consultar') ||
-                               docContent.includes('nunca recorrer') ||
-                               docContent.includes('não deve levar') ||
-                               docContent.includes('nunca deve levar');
-                               
-    return isInstructionByName || hasImportantKeywords;
-  });
+  // Documentos prioritários são identificados pelo tipo (kind) do documento de treinamento
+  const instructionDocs = sortPriorityDocuments(
+    documents.filter(doc => isPriorityDocumentKind(doc.kind))
+  );
   
   // Registrar documentos de instruções encontrados
   if (instructionDocs.length > 0) {
     console.log(`RAG: Encontrados ${instructionDocs.length} documentos de instruções prioritárias`);
     instructionDocs.forEach(doc => {
-      console.log(`- Documento de instrução: "${doc.document_name || 'Sem nome'}" (ID: ${doc.id || 'N/A'})`);
+      console.log(`- Documento de instrução (${doc.kind}, prioridade ${doc.priority ?? 0}): "${doc.document_name || 'Sem nome'}" (ID: ${doc.id || 'N/A'})`);
     });
   } else {
     console.log('RAG: Nenhum documento de instrução prioritária encontrado');
@@ -443,36 +222,27 @@ export function formatRelevantDocumentsForPrompt(documents: any[]): string {
     formattedText += `⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️\n\n`;
     formattedText += `💥 ESTAS INSTRUÇÕES DEVEM SER SEGUIDAS RIGOROSAMENTE - PRIORIDADE MÁXIMA SOBRE QUALQUER OUTRO CONTEÚDO 💥\n\n`;
     
-    // Código para identificar instruções sobre não levar a técnicos externos
-    const neverConsultDocsIndices = [];
+    // Guardrails vêm primeiro, como regras absolutas
+    const neverConsultDocsIndices: number[] = [];
     instructionDocs.forEach((doc, index) => {
-      const docContent = (doc.content || doc.text || '').toLowerCase();
-      if (docContent.includes('nunca levar') || 
-          docContent.includes('não levar') || 
-          docContent.includes('jamais levar') || 
-          docContent.includes('não recorrer') || 
-          docContent.includes('não consultar') || 
-          docContent.includes('nunca consultar') || 
-          docContent.includes('nunca recorrer') || 
-          docContent.includes('não técnico') || 
-          docContent.includes('nunca técnico')) {
+      if (doc.kind === 'guardrail') {
         neverConsultDocsIndices.push(index);
       }
     });
     
-    // Se tivermos documentos com instruções "nunca levar", adicioná-los primeiro
+    // Se tivermos guardrails, adicioná-los primeiro
     if (neverConsultDocsIndices.length > 0) {
-      formattedText += `\n\n🔴 REGRAS ABSOLUTAS SOBRE ASSISTÊNCIA EXTERNA - NUNCA VIOLE ESTAS REGRAS 🔴\n\n`;
+      formattedText += `\n\n🔴 REGRAS ABSOLUTAS - NUNCA VIOLE ESTAS REGRAS 🔴\n\n`;
       
       neverConsultDocsIndices.forEach(idx => {
         const doc = instructionDocs[idx];
         const docName = doc.document_name || `Instrução crítica ${idx + 1}`;
         
         formattedText += `\n\n==================================================\n`;
-        formattedText += `⚠️ INSTRUÇÃO CRÍTICA: "${docName}" ⚠️\n`;
+        formattedText += `⚠️ INSTRUÇÃO CRÍTICA${formatCitationTag(doc)}: "${docName}" ⚠️\n`;
         formattedText += `==================================================\n\n`;
         
-        console.log(`[RAG] Adicionando instrução CRÍTICA de não-consulta-externa "${docName}" com prioridade MÁXIMA (${(doc.content || doc.text || '').length} caracteres)`);
+        console.log(`[RAG] Adicionando guardrail "${docName}" com prioridade MÁXIMA (${(doc.content || doc.text || '').length} caracteres)`);
         
         // Adicionar conteúdo do documento
         const docContent = doc.content || doc.text || '';
@@ -502,10 +272,10 @@ export function formatRelevantDocumentsForPrompt(documents: any[]): string {
         formattedText += truncatedContent;
       });
       
-      formattedText += `\n\n🔴 FIM DAS REGRAS ABSOLUTAS SOBRE ASSISTÊNCIA EXTERNA 🔴\n\n`;
+      formattedText += `\n\n🔴 FIM DAS REGRAS ABSOLUTAS 🔴\n\n`;
     }
     
-    // Agora adicionar os outros documentos de instruções que não são sobre "nunca levar"
+    // Agora adicionar as regras de sistema
     const otherInstructionIndices = instructionDocs.map((_, idx) => idx)
       .filter(idx => !neverConsultDocsIndices.includes(idx));
     
@@ -517,7 +287,7 @@ export function formatRelevantDocumentsForPrompt(documents: any[]): string {
         const docName = doc.document_name || `Instrução prioritária ${idx + 1}`;
         
         formattedText += `\n\n--------------------------\n`;
-        formattedText += `INSTRUÇÃO PRIORITÁRIA: "${docName}"\n`;
+        formattedText += `INSTRUÇÃO PRIORITÁRIA${formatCitationTag(doc)}: "${docName}"\n`;
         formattedText += `--------------------------\n\n`;
         
         console.log(`[RAG] Adicionando instrução prioritária "${docName}" ao prompt (${(doc.content || doc.text || '').length} caracteres)`);
@@ -557,11 +327,12 @@ export function formatRelevantDocumentsForPrompt(documents: any[]): string {
       
       // Incluir informações do documento
       const docName = doc.document_name || `Documento técnico ${index + 1}`;
-      formattedText += `DOCUMENTO TÉCNICO ${index + 1}: "${docName}"`;
+      formattedText += `DOCUMENTO TÉCNICO ${index + 1}${formatCitationTag(doc)}: "${docName}"`;
       
-      // Adicionar score de relevância se disponível
-      if (doc.similarity) {
-        formattedText += ` (Relevância: ${doc.similarity.toFixed(2)})`;
+      // Adicionar score de relevância se disponível (do reranker, quando houver)
+      const relevance = doc.rerank_score ?? doc.similarity;
+      if (relevance) {
+        formattedText += ` (Relevância: ${relevance.toFixed(2)})`;
       }
       
       formattedText += `\n------------------------\n\n`;
@@ -830,11 +601,73 @@ ${formattedBehaviorInstructions}
 ⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️⚠️`;
   }
   
+  // Citações: os documentos do contexto trazem identificadores [S1], [S2]...
+  if (documents.some(doc => doc && doc.citation_id)) {
+    systemPrompt += language === 'pt'
+      ? `
+
+CITAÇÕES: cada documento acima tem um identificador entre colchetes (ex.: [S1]).
+Ao usar uma informação de um documento, coloque o identificador logo após a frase, ex.: "Meça a tensão VS1 [S2]."
+Use apenas os identificadores fornecidos e não invente outros. Não escreva "de acordo com os documentos"; o identificador basta.`
+      : `
+
+CITATIONS: each document above has an identifier in brackets (e.g. [S1]).
+When you use information from a document, put its identifier right after the sentence, e.g. "Measure the VS1 voltage [S2]."
+Only use the identifiers provided and never invent others. Do not write "according to the documents"; the identifier is enough.`;
+  }
+  
   return systemPrompt;
 }
 
+/**
+ * Acrescenta ao contexto trechos dos documentos cujo nome, tags ou conteúdo citam os tópicos da consulta
+ * @param scopeIds Documentos permitidos (escopo do widget já filtrado por categorias e metadados)
+ */
+async function appendTopicDocuments(
+  query: string,
+  relevantDocuments: any[],
+  scopeIds: number[],
+  trace?: RetrievalTrace
+): Promise<void> {
+  try {
+    const queryTopics = await extractQueryTopics(query);
+    if (trace) {
+      trace.topics = queryTopics || [];
+    }
+    if (!queryTopics || queryTopics.length === 0 || scopeIds.length === 0) {
+      return;
+    }
+    
+    console.log(`[RAG] Buscando documentos relevantes para os tópicos: ${queryTopics.join(', ')}`);
+    const topicDocuments = (await storage.getDocumentsByTopics(queryTopics, scopeIds))
+      .filter(doc => doc.content && !relevantDocuments.some(existing => existing.document_id === doc.id));
+    
+    if (topicDocuments.length === 0) {
+      return;
+    }
+    
+    console.log(`[RAG] Encontrados ${topicDocuments.length} documentos adicionais relacionados ao contexto da consulta`);
+    if (trace) {
+      trace.topic_documents = topicDocuments.map(doc => doc.name);
+    }
+    
+    for (const doc of topicDocuments) {
+      relevantDocuments.push({
+        content: `${doc.content.substring(0, 1000)}${doc.content.length > 1000 ? '...' : ''}`,
+        document_name: doc.name,
+        document_id: doc.id,
+        similarity: 0.5 // Complemento: abaixo dos trechos encontrados pela busca
+      });
+    }
+  } catch (topicError) {
+    console.error('Erro ao extrair tópicos da consulta:', topicError);
+    // Continuar mesmo se a extração de tópicos falhar
+  }
+}
+
 /**
  * Gera uma resposta com base nos documentos relevantes usando LLM
+ * (lança RagGenerationError quando nem a cadeia de failover nem o fallback respondem)
  */
 export async function generateRAGResponse(
   query: string,
@@ -842,9 +675,15 @@ export async function generateRAGResponse(
   options: {
     language?: 'pt' | 'en';
     model?: string;
+    llmInfo?: LlmFullConfig;
     userId?: number;
     widgetId?: string;
     forceExtraction?: boolean;
+    stream?: LlmStreamListener;
+    // Janela de histórico da conversa (já limitada por tokens), antes da pergunta atual
+    history?: LlmChatMessage[];
+    // Rastreamento a preencher com os tópicos e o prompt final
+    trace?: RetrievalTrace;
   } = {}
 ): Promise<string> {
   const {
@@ -852,68 +691,31 @@ export async function generateRAGResponse(
     model,
     userId,
     widgetId,
-    forceExtraction = false
+    forceExtraction = false,
+    stream,
+    history = [],
+    trace
   } = options;
   
   try {
-    // Obter configuração LLM
-    const llmConfig = await storage.getActiveLlmConfig();
-    if (!llmConfig && !process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-      throw new Error('Nenhuma configuração LLM disponível');
-    }
+    // Configuração informada (ex.: a do widget) ou a ativa global
+    // (getActiveLlmInfo lança erro se não houver configuração nem chave de ambiente)
+    const llmInfo = options.llmInfo || await getActiveLlmInfo();
     
     // Determinar qual provedor usar
-    const useModel = model || llmConfig?.model_name || 'gpt-4o';
-    const providerToUse = useModel.startsWith('claude') ? 'anthropic' : 'openai';
-    const temperature = llmConfig?.temperature || '0.3';
+    const useModel = model || llmInfo.modelName;
+    const providerToUse = model && model !== llmInfo.modelName
+      ? resolveProviderForModel(model)
+      : llmInfo.provider;
+    const temperature = llmInfo.temperature || '0.3';
     
     // Obter instruções de comportamento da configuração do LLM
-    const behaviorInstructions = llmConfig?.behavior_instructions || '';
+    const behaviorInstructions = llmInfo.behaviorInstructions || '';
     console.log(`Usando instruções de comportamento: ${behaviorInstructions ? 'Sim' : 'Não'}`);
     
     // Construir o prompt/contexto
     let systemPrompt = buildContextForLLM(query, documents, language, forceExtraction, behaviorInstructions);
     
-    // Sistema de análise de intenção da consulta para melhorar recuperação de documentos
-    console.log('Analisando intenção da consulta para otimizar recuperação de documentos...');
-    
-    // Recuperar documentos relevantes adicionais com base no contexto semântico
-    try {
-      const queryTopics = await extractQueryTopics(query);
-      if (queryTopics && queryTopics.length > 0) {
-        console.log('Tópicos identificados na consulta:', queryTopics.join(', '));
-        
-        // Buscar documentos adicionais relacionados aos tópicos identificados
-        console.log(`[RAG] Buscando documentos relevantes para os tópicos: ${queryTopics.join(', ')}`);
-        const topicDocuments = await storage.getDocumentsByTopics(queryTopics);
-        
-        if (topicDocuments && topicDocuments.length > 0) {
-          console.log(`[RAG] Encontrados ${topicDocuments.length} documentos adicionais relacionados ao contexto da consulta`);
-          
-          // Log detalhado dos documentos encontrados
-          topicDocuments.forEach((doc, index) => {
-            console.log(`[RAG] Documento #${index + 1}: "${doc.name}" (${doc.content?.length || 0} caracteres)`);
-          });
-          
-          // Adicionar estes documentos ao prompt com formatação especial
-          let additionalContext = `\n\nDOCUMENTOS RELEVANTES AO CONTEXTO:\n`;
-          
-          for (const doc of topicDocuments) {
-            if (doc.content && doc.name) {
-              additionalContext += `\n--- ${doc.name} ---\n`;
-              additionalContext += `${doc.content.substring(0, 1000)}${doc.content.length > 1000 ? '...' : ''}\n`;
-            }
-          }
-          
-          // Adicionar após o contexto principal para complementá-lo
-          systemPrompt += additionalContext;
-        }
-      }
-    } catch (topicError) {
-      console.error('Erro ao extrair tópicos da consulta:', topicError);
-      // Continuar mesmo se a extração de tópicos falhar
-    }
-    
     // Adicionar instruções de comportamento específicas se existirem
     if (behaviorInstructions && behaviorInstructions.trim().length > 0) {
       console.log('Adicionando instruções de comportamento personalizadas ao prompt');
@@ -978,104 +780,61 @@ completas, não encaminhar para outros profissionais.
 
 ${systemPrompt}`;
     
-    // Chamar o LLM apropriado
-    let response: string;
+    if (trace) {
+      recordTracePrompt(trace, systemPrompt, [...history, { role: 'user', content: query }], useModel);
+    }
     
-    if (providerToUse === 'anthropic') {
-      // Usar Anthropic Claude
-      const apiKey = llmConfig?.api_key || process.env.ANTHROPIC_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('Chave API Anthropic não disponível');
+    // Configuração principal da chamada; um modelo informado explicitamente pode trocar o provedor
+    const primaryTarget: LlmFullConfig = providerToUse === llmInfo.provider
+      ? { ...llmInfo, modelName: useModel }
+      : (() => {
+          const adapter = getLlmProvider(providerToUse);
+          return {
+            ...llmInfo,
+            configId: undefined,
+            provider: providerToUse,
+            modelName: useModel,
+            apiKey: adapter.envApiKey ? process.env[adapter.envApiKey] || '' : '',
+            baseUrl: null
+          };
+        })();
+    
+    // Chamar o LLM percorrendo a cadeia de failover
+    const { result, target } = await runWithFailover(primaryTarget, 'text', async (target) => {
+      const adapter = getLlmProvider(target.provider);
+      
+      if (!target.apiKey && adapter.requiresApiKey) {
+        throw new Error(`Chave API ${adapter.label} não disponível`);
       }
       
-      const anthropic = new Anthropic({ apiKey });
-      
-      const message = await anthropic.messages.create({
-        model: useModel,
-        max_tokens: 1000,
-        temperature: parseFloat(temperature),
+      const result = await chatWithStream(adapter, {
+        model: target.modelName,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
         system: systemPrompt,
         messages: [
-          { role: 'user', content: query }
-        ]
-      });
-      
-      // Extrair texto da resposta
-      if (message.content[0] && typeof message.content[0] === 'object' && 'text' in message.content[0]) {
-        response = message.content[0].text;
-      } else {
-        response = 'Não foi possível gerar uma resposta.';
-      }
-      
-      // Registrar uso
-      await logLlmUsage(
-        useModel,
-        'text',
-        true,
-        userId,
-        widgetId,
-        (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0)
-      );
-    } else {
-      // Usar OpenAI
-      let apiKey = llmConfig?.api_key || process.env.OPENAI_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('Chave API OpenAI não disponível');
-      }
-      
-      // Limpar a chave da API para garantir que não haja espaços ou prefixos "Bearer "
-      apiKey = apiKey.trim();
-      // Limpeza completa da API Key para evitar problemas com Bearer token
-      if (typeof apiKey === 'string') {
-        // Verificar se a chave está mascarada (caso de debugging/UI)
-        if (apiKey.includes('••••••') || apiKey.includes('Bearer •')) {
-          console.error('ERRO: Chave API mascarada detectada no RAG. Usando chave do ambiente.');
-          apiKey = process.env.OPENAI_API_KEY || '';
-          if (!apiKey) {
-            throw new Error('Chave API OpenAI não disponível no ambiente como fallback');
-          }
-        } else if (apiKey.toLowerCase().startsWith('bearer ')) {
-          // Remover prefixo 'Bearer ' se presente
-          console.log('Removendo prefixo Bearer da chave OpenAI no RAG');
-          apiKey = apiKey.substring(7).trim();
-        }
-        
-        // Remover quaisquer aspas
-        apiKey = apiKey.replace(/["']/g, '').trim();
-      }
-      
-      console.log('Usando OpenAI com chave limpa no RAG');
-      // Usar ambiente como fallback final se necessário
-      if (!apiKey || apiKey.length < 10) {
-        console.log('Usando chave de ambiente como fallback final no RAG');
-        apiKey = process.env.OPENAI_API_KEY || '';
-      }
-      
-      const openai = new OpenAI({ apiKey });
-      
-      const completion = await openai.chat.completions.create({
-        model: useModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
+          ...history,
           { role: 'user', content: query }
         ],
-        temperature: parseFloat(temperature)
-      });
-      
-      response = completion.choices[0]?.message?.content || 'Não foi possível gerar uma resposta.';
-      
-      // Registrar uso
-      await logLlmUsage(
-        useModel,
-        'text',
-        true,
-        userId,
-        widgetId,
-        completion.usage?.total_tokens || 0
-      );
-    }
+        temperature: parseFloat(temperature),
+        maxTokens: 1000
+      }, stream);
+      return { result, target };
+    }, { userId, widgetId });
+    
+    const response = result.text || 'Não foi possível gerar uma resposta.';
+    
+    // Registrar uso
+    await logLlmUsage(
+      target.modelName,
+      'text',
+      true,
+      userId,
+      widgetId,
+      result.totalTokens,
+      undefined,
+      target.provider
+    );
     
     return response;
   } catch (error: any) {
@@ -1092,18 +851,28 @@ ${systemPrompt}`;
       error.message
     );
     
-    // Tentar com um modelo alternativo (fallback)
+    // Último recurso após esgotar a cadeia de failover: outro provedor com chave no ambiente
     try {
       console.log('Tentando fallback para outro modelo após erro...');
       
-      // Extrair o provedor atual do modelo
-      const currentProvider = model?.startsWith('claude') ? 'anthropic' : 'openai';
+      // Extrair o provedor atual
+      let currentProvider = model ? resolveProviderForModel(model) : 'anthropic';
+      try {
+        currentProvider = (await getActiveLlmInfo()).provider;
+      } catch {}
+      
+      // Usar outro provedor registrado que tenha chave disponível no ambiente
+      const fallbackAdapter = listLlmProviders().find(adapter =>
+        adapter.id !== currentProvider && adapter.envApiKey && process.env[adapter.envApiKey]
+      );
       
-      // Se o modelo atual é OpenAI, tentar Claude e vice-versa
-      const fallbackProvider = currentProvider === 'openai' ? 'anthropic' : 'openai';
-      const fallbackModel = fallbackProvider === 'anthropic' 
-        ? 'claude-3-7-sonnet-20250219' // the newest Anthropic model
-        : 'gpt-4o-mini'; // modelo mais leve da OpenAI para fallback
+      if (!fallbackAdapter) {
+        throw new Error('Nenhum provedor alternativo disponível para fallback');
+      }
+      
+      const fallbackProvider = fallbackAdapter.id;
+      // Modelo mais leve do provedor para fallback
+      const fallbackModel = fallbackAdapter.lightModel || fallbackAdapter.defaultModel;
       
       console.log(`Usando fallback para ${fallbackProvider} / ${fallbackModel}`);
       
@@ -1132,97 +901,34 @@ ABSOLUTE AND INVIOLABLE RULES:
 
 Respond in a helpful, accurate, and concise manner.`;
       
-      if (fallbackProvider === 'anthropic') {
-        // Verificar se temos chave API para Anthropic
-        const apiKey = process.env.ANTHROPIC_API_KEY;
-        
-        if (!apiKey) {
-          throw new Error('Sem chave API Anthropic disponível para fallback');
-        }
-        
-        const anthropic = new Anthropic({ apiKey });
-        
-        const message = await anthropic.messages.create({
-          model: fallbackModel,
-          max_tokens: 1000,
-          temperature: 0.3, // temperatura mais baixa para fallback
-          system: systemInstructions,
-          messages: [
-            { role: 'user', content: query }
-          ]
-        });
-        
-        // Extrair texto da resposta
-        if (message.content[0] && typeof message.content[0] === 'object' && 'text' in message.content[0]) {
-          const response = message.content[0].text;
-          
-          // Registrar uso do fallback
-          await logLlmUsage(
-            fallbackModel,
-            'text',
-            true,
-            userId,
-            widgetId,
-            (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0)
-          );
-          
-          console.log('Fallback para Anthropic bem-sucedido');
-          return response;
-        }
-      } else {
-        // Verificar se temos chave API para OpenAI
-        let apiKey = process.env.OPENAI_API_KEY;
-        
-        if (!apiKey) {
-          throw new Error('Sem chave API OpenAI disponível para fallback');
-        }
-        
-        // Limpeza completa da API Key para evitar problemas com Bearer token
-        if (typeof apiKey === 'string') {
-          // Verificar se a chave está mascarada (caso de debugging/UI)
-          if (apiKey.includes('••••••') || apiKey.includes('Bearer •')) {
-            console.error('ERRO: Chave API mascarada detectada no RAG (fallback). Usando chave do ambiente.');
-            apiKey = process.env.OPENAI_API_KEY || '';
-            if (!apiKey) {
-              throw new Error('Chave API OpenAI não disponível no ambiente como fallback');
-            }
-          } else if (apiKey.toLowerCase().startsWith('bearer ')) {
-            // Remover prefixo 'Bearer ' se presente
-            console.log('Removendo prefixo Bearer da chave OpenAI no RAG (fallback)');
-            apiKey = apiKey.substring(7).trim();
-          }
-          
-          // Remover quaisquer aspas
-          apiKey = apiKey.replace(/["']/g, '').trim();
-        }
-        
-        console.log('Usando OpenAI com chave limpa no RAG (fallback)');
-        const openai = new OpenAI({ apiKey });
-        
-        const completion = await openai.chat.completions.create({
-          model: fallbackModel,
-          messages: [
-            { role: 'system', content: systemInstructions },
-            { role: 'user', content: query }
-          ],
-          temperature: 0.3 // temperatura mais baixa para fallback
-        });
-        
-        const response = completion.choices[0]?.message?.content || 'Não foi possível gerar uma resposta.';
-        
-        // Registrar uso do fallback
-        await logLlmUsage(
-          fallbackModel,
-          'text',
-          true,
-          userId,
-          widgetId,
-          completion.usage?.total_tokens || 0
-        );
-        
-        console.log('Fallback para OpenAI bem-sucedido');
-        return response;
-      }
+      const fallbackResult = await chatWithStream(fallbackAdapter, {
+        model: fallbackModel,
+        apiKey: process.env[fallbackAdapter.envApiKey!] || '',
+        system: systemInstructions,
+        messages: [
+          ...history,
+          { role: 'user', content: query }
+        ],
+        temperature: 0.3, // temperatura mais baixa para fallback
+        maxTokens: 1000
+      }, stream);
+      
+      const response = fallbackResult.text || 'Não foi possível gerar uma resposta.';
+      
+      // Registrar uso do fallback
+      await logLlmUsage(
+        fallbackModel,
+        'text',
+        true,
+        userId,
+        widgetId,
+        fallbackResult.totalTokens,
+        undefined,
+        fallbackProvider
+      );
+      
+      console.log(`Fallback para ${fallbackAdapter.label} bem-sucedido`);
+      return response;
     } catch (fallbackError: any) {
       console.error('Erro também no modelo de fallback:', fallbackError);
       
@@ -1238,11 +944,11 @@ Respond in a helpful, accurate, and concise manner.`;
       );
       
       // Mensagem de erro mais amigável para o usuário final
-      return `Não foi possível processar sua consulta neste momento. Por favor, tente novamente mais tarde.`;
+      throw new RagGenerationError(`Não foi possível processar sua consulta neste momento. Por favor, tente novamente mais tarde.`);
     }
     
     // Isso só será alcançado se houver um erro não tratado no código de fallback
-    return `Desculpe, estamos enfrentando problemas técnicos. Por favor, tente novamente em alguns minutos.`;
+    throw new RagGenerationError(`Desculpe, estamos enfrentando problemas técnicos. Por favor, tente novamente em alguns minutos.`);
   }
 }
 
@@ -1254,82 +960,95 @@ export async function processQueryWithRAG(
   options: {
     language?: 'pt' | 'en';
     model?: string;
+    llmInfo?: LlmFullConfig;
     userId?: number;
     widgetId?: string;
+    documentIds?: number[];
     limit?: number;
     forceExtraction?: boolean;
+    stream?: LlmStreamListener;
+    // Consulta usada na busca, ex.: pergunta reescrita a partir do histórico (padrão: query)
+    retrievalQuery?: string;
+    // Janela de histórico da conversa enviada ao modelo junto com a pergunta
+    history?: LlmChatMessage[];
+    // Rastreamento a preencher (chunks, documentos prioritários, tópicos e prompt)
+    trace?: RetrievalTrace;
+    // Filtros já resolvidos pelo chamador; sem eles, os filtros são inferidos da consulta
+    filters?: RetrievalFilters;
+    // Critério do chamador para aceitar a resposta; respostas recusadas (que serão descartadas
+    // em uma nova tentativa) não passam pela verificação de fundamentação
+    acceptResponse?: (text: string) => boolean;
   } = {}
-): Promise<string> {
+): Promise<RagResponse> {
   const {
     language = 'pt',
     model,
+    llmInfo,
     userId,
     widgetId,
     limit = 7,
-    forceExtraction = false
+    forceExtraction = false,
+    stream,
+    retrievalQuery = query,
+    trace
   } = options;
   
   try {
     console.log(`Processando consulta RAG: "${query}"`);
+    if (retrievalQuery !== query) {
+      console.log(`Consulta usada na busca: "${retrievalQuery}"`);
+    }
+    
+    // Escopo de documentos: informado pelo chamador ou derivado das categorias do widget
+    const documentIds = options.documentIds ?? await getWidgetDocumentScope(widgetId);
     
     // Verificar se temos documentos treinados
-    const trainingDocuments = await storage.getTrainingDocuments();
+    const trainingDocuments = filterDocumentsByScope(await storage.getTrainingDocuments(), documentIds);
     console.log(`Verificando documentos treinados: ${trainingDocuments.length} documentos disponíveis no total`);
     
     if (trainingDocuments.length === 0) {
       console.log("ALERTA: Não há documentos treinados disponíveis para RAG");
       
       if (language === 'pt') {
-        return "Desculpe, mas não há nenhum documento de referência treinado disponível. Por favor, contate o administrador para adicionar documentos.";
+        return { text: "Desculpe, mas não há nenhum documento de referência treinado disponível. Por favor, contate o administrador para adicionar documentos.", sources: [] };
       } else {
-        return "Sorry, but there are no trained reference documents available. Please contact the administrator to add documents.";
+        return { text: "Sorry, but there are no trained reference documents available. Please contact the administrator to add documents.", sources: [] };
       }
     }
     
-    // Primeiro, procurar documentos prioritários de instruções
-    const instructionDocuments = trainingDocuments.filter((doc: any) => 
-      doc.name.toLowerCase().includes('instrução') || 
-      doc.name.toLowerCase().includes('instrucoes') || 
-      doc.name.toLowerCase().includes('instruções') ||
-      doc.name.toLowerCase().includes('priorit') ||
-      doc.name.toLowerCase().includes('regras') ||
-      (doc.tags && Array.isArray(doc.tags) && (
-        doc.tags.includes('instrucoes') || 
-        doc.tags.includes('prioritario') || 
-        doc.tags.includes('regras')
-      ))
-    );
+    // Regras de sistema e guardrails entram sempre no contexto, independentemente da busca
+    const instructionDocuments = getPriorityDocuments(trainingDocuments);
     
     console.log(`Encontrados ${instructionDocuments.length} documentos de instruções prioritárias`);
+    if (trace) {
+      trace.retrieval_query = retrievalQuery;
+      recordTracePriorityDocuments(trace, instructionDocuments);
+    }
+    
+    // Filtros de metadados (marca, modelo, revisão), categorias e idioma dos chunks.
+    // As categorias restringem apenas a busca: os documentos prioritários continuam no contexto.
+    const filters = options.filters ?? await resolveRetrievalFilters(retrievalQuery, {}, trace);
+    const searchDocumentIds = await applyCategoryFilter(documentIds, filters.category_ids);
     
     // Realizar busca híbrida para obter documentos relevantes para a consulta
-    const relevantDocuments = await hybridSearch(query, { 
-      language, 
-      limit 
+    const searchResults = await hybridSearch(retrievalQuery, { 
+      language: filters.language || language, 
+      limit,
+      documentIds: searchDocumentIds,
+      llmInfo,
+      filters
     });
     
-    console.log(`Encontrados ${relevantDocuments.length} documentos relevantes através de busca híbrida`);
+    console.log(`Encontrados ${searchResults.length} documentos relevantes através de busca híbrida`);
+    const retrievedDocumentIds = Array.from(new Set(searchResults.map(doc => doc.document_id as number)));
+    
+    // Os documentos prioritários entram completos; descartar chunks soltos deles vindos da busca
+    const instructionIds = new Set(instructionDocuments.map(doc => doc.id));
+    const relevantDocuments: any[] = searchResults.filter(doc => !instructionIds.has(doc.document_id));
     
-    // SEMPRE incluir os documentos de instruções prioritárias
     if (instructionDocuments.length > 0) {
       console.log(`IMPORTANTE: Adicionando ${instructionDocuments.length} documentos de instruções prioritárias ao contexto`);
-      
-      for (const instructionDoc of instructionDocuments) {
-        // Verificar se este documento já está nos resultados relevantes
-        const isAlreadyIncluded = relevantDocuments.some(existing => 
-          existing.document_id === instructionDoc.id);
-        
-        if (!isAlreadyIncluded && instructionDoc.content && instructionDoc.content.trim().length > 0) {
-          console.log(`Adicionando documento de instrução prioritária "${instructionDoc.name}" (ID: ${instructionDoc.id}) com ${instructionDoc.content.length} caracteres`);
-          // Nota: Usamos similaridade 1.0 para documentos de instruções para garantir maior peso
-          relevantDocuments.unshift({
-            content: instructionDoc.content,
-            document_name: instructionDoc.name,
-            similarity: 1.0, // Máxima similaridade para documentos de instruções
-            document_id: instructionDoc.id
-          });
-        }
-      }
+      relevantDocuments.unshift(...instructionDocuments.map(toPriorityContextDocument));
     }
     
     // Verificar se temos conteúdo nos documentos retornados
@@ -1344,8 +1063,8 @@ export async function processQueryWithRAG(
       console.log(`${forceExtraction ? "Modo de extração forçada ativado" : "Nenhum documento relevante com conteúdo encontrado"}, adicionando todos os documentos treinados`);
       
       // Como fallback, adicionamos TODOS os documentos treinados
-      const allTrainingDocs = trainingDocuments
-        .filter((doc: any) => doc.status === 'completed' && doc.content && doc.content.trim().length > 0);
+      const allTrainingDocs = filterDocumentsByMetadata(filterDocumentsByScope(trainingDocuments, searchDocumentIds), filters)
+        .filter((doc: any) => isReadyTrainingDocument(doc) && doc.content && doc.content.trim().length > 0);
       
       if (allTrainingDocs.length > 0) {
         console.log(`Adicionando ${allTrainingDocs.length} documentos completos para análise exaustiva`);
@@ -1374,59 +1093,73 @@ export async function processQueryWithRAG(
       console.log("ERRO: Nenhum documento relevante encontrado mesmo após fallback");
       
       if (language === 'pt') {
-        return "Não encontrei documentos relevantes para responder à sua pergunta. Por favor, seja mais específico ou reformule sua pergunta.";
+        return { text: "Não encontrei documentos relevantes para responder à sua pergunta. Por favor, seja mais específico ou reformule sua pergunta.", sources: [] };
       } else {
-        return "I couldn't find relevant documents to answer your question. Please be more specific or rephrase your question.";
+        return { text: "I couldn't find relevant documents to answer your question. Please be more specific or rephrase your question.", sources: [] };
       }
     }
     
-    // Gerar resposta com base nos documentos relevantes
+    // Documentos relacionados aos tópicos da consulta, restritos ao mesmo escopo da busca
+    // (categorias e filtros de metadados) e citáveis como os demais trechos do contexto
+    const topicScopeIds = filterDocumentsByMetadata(filterDocumentsByScope(trainingDocuments, searchDocumentIds), filters)
+      .filter(doc => isReadyTrainingDocument(doc) && !instructionIds.has(doc.id))
+      .map(doc => doc.id);
+    await appendTopicDocuments(query, relevantDocuments, topicScopeIds, trace);
+    
+    // Identificadores de citação para cada chunk enviado ao modelo
+    const sources = assignCitationIds(relevantDocuments);
+    if (trace) {
+      recordTraceChunks(trace, relevantDocuments, sources);
+    }
+    
+    // Gerar resposta com base nos documentos relevantes (no modo rewrite os tokens são retidos
+    // até a verificação de fundamentação)
+    const activeLlmInfo = llmInfo || await getActiveLlmInfo();
     const response = await generateRAGResponse(query, relevantDocuments, {
       language,
       model,
+      llmInfo: activeLlmInfo,
       userId,
       widgetId,
-      forceExtraction
+      forceExtraction,
+      stream: holdStreamForGrounding(activeLlmInfo, stream),
+      history: options.history,
+      trace
     });
     
-    return response;
+    if (options.acceptResponse && !options.acceptResponse(response)) {
+      return { text: response, sources: selectCitedSources(response, sources), retrievedDocumentIds };
+    }
+    
+    // Conferir as afirmações da resposta contra os trechos do contexto (conforme grounding_mode)
+    const verifiedResponse = await applyGroundingCheck(response, relevantDocuments, {
+      llmInfo: activeLlmInfo,
+      query,
+      language,
+      stream,
+      trace,
+      userId,
+      widgetId
+    });
+    
+    return { text: verifiedResponse, sources: selectCitedSources(verifiedResponse, sources), retrievedDocumentIds };
   } catch (error: any) {
     console.error('Erro no processamento RAG completo:', error);
     
+    if (error instanceof RagGenerationError) {
+      return { text: error.message, sources: [], failed: true };
+    }
+    
     if (language === 'pt') {
-      return `Ocorreu um erro ao processar sua consulta: ${error.message}`;
+      return { text: `Ocorreu um erro ao processar sua consulta: ${error.message}`, sources: [], failed: true };
     } else {
-      return `An error occurred while processing your query: ${error.message}`;
+      return { text: `An error occurred while processing your query: ${error.message}`, sources: [], failed: true };
     }
   }
 }
 
 // Funções auxiliares
 
-function calculateCosineSimilarity(vecA: number[], vecB: number[]): number {
-  if (!vecA || !vecB || vecA.length !== vecB.length) {
-    return 0;
-  }
-  
-  // Calcular produto escalar
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
-  }
-  
-  // Evitar divisão por zero
-  if (normA === 0 || normB === 0) {
-    return 0;
-  }
-  
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
-
 function extractKeywords(query: string): string[] {
   // Lista de stopwords em português
   const stopwords = new Set([
@@ -1456,6 +1189,32 @@ function extractKeywords(query: string): string[] {
   return Array.from(new Set(words));
 }
 
+/**
+ * Executa um prompt auxiliar (tópicos, intenção) com o modelo leve do provedor ativo
+ */
+async function runAuxiliaryPrompt(
+  llmInfo: LlmFullConfig,
+  systemPrompt: string,
+  query: string,
+  maxTokens: number
+): Promise<string | null> {
+  const adapter = getLlmProvider(llmInfo.provider);
+  
+  const result = await adapter.chat({
+    model: adapter.lightModel || llmInfo.modelName,
+    apiKey: llmInfo.apiKey,
+    baseUrl: llmInfo.baseUrl,
+    system: systemPrompt,
+    messages: [
+      { role: 'user', content: query }
+    ],
+    temperature: 0.2, // Temperatura baixa para maior consistência
+    maxTokens
+  });
+  
+  return result.text || null;
+}
+
 /**
  * Extrai tópicos relevantes de uma consulta do usuário usando LLM
  * Esta função analisa semanticamente a consulta para identificar tópicos principais
@@ -1463,27 +1222,14 @@ function extractKeywords(query: string): string[] {
 export async function extractQueryTopics(query: string): Promise<string[]> {
   try {
     // Obter configuração LLM
-    const llmConfig = await storage.getActiveLlmConfig();
-    if (!llmConfig) {
-      console.error('Nenhuma configuração LLM ativa encontrada');
-      return extractKeywords(query); // Fallback para método simples
-    }
-    
-    // Determinar qual API usar
-    const useOpenAI = llmConfig.model_name.startsWith('gpt-') || !llmConfig.model_name.startsWith('claude-');
-    let apiKey = llmConfig.api_key || (useOpenAI ? process.env.OPENAI_API_KEY : process.env.ANTHROPIC_API_KEY);
-    
-    if (!apiKey) {
-      console.error('API key não disponível para extração de tópicos');
+    let llmInfo: LlmFullConfig;
+    try {
+      llmInfo = await getActiveLlmInfo();
+    } catch (configError) {
+      console.error('Nenhuma configuração LLM disponível para extração de tópicos');
       return extractKeywords(query); // Fallback para método simples
     }
     
-    // Limpar a chave da API
-    apiKey = apiKey.trim();
-    if (apiKey.startsWith('Bearer ')) {
-      apiKey = apiKey.substring(7).trim();
-    }
-    
     const systemPrompt = `
       Você é um especialista em análise de consultas técnicas sobre eletrônica e placas de circuito.
       Identifique os 3-5 tópicos ou conceitos-chave mais relevantes nesta consulta.
@@ -1497,53 +1243,15 @@ export async function extractQueryTopics(query: string): Promise<string[]> {
       6. NÃO inclua explicações ou comentários adicionais
     `;
     
-    if (useOpenAI) {
-      // Usar OpenAI para extração de tópicos
-      const openai = new OpenAI({ apiKey });
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini", // Modelo mais leve para esta função secundária
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: query }
-        ],
-        temperature: 0.2 // Temperatura baixa para maior consistência
-      });
-      
-      const content = response.choices[0]?.message?.content;
-      if (content) {
-        // Dividir por linhas e remover linhas vazias
-        const topics = content.split('\n')
-          .map(line => line.trim())
-          .filter(line => line.length > 0);
-        
-        console.log('Tópicos extraídos (OpenAI):', topics);
-        return topics;
-      }
-    } else {
-      // Usar Anthropic para extração de tópicos
-      const anthropic = new Anthropic({ apiKey });
-      
-      const message = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219", // the newest Anthropic model
-        max_tokens: 150,
-        temperature: 0.2,
-        system: systemPrompt,
-        messages: [
-          { role: 'user', content: query }
-        ]
-      });
+    const content = await runAuxiliaryPrompt(llmInfo, systemPrompt, query, 150);
+    if (content) {
+      // Dividir por linhas e remover linhas vazias
+      const topics = content.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
       
-      if (message.content[0] && typeof message.content[0] === 'object' && 'text' in message.content[0]) {
-        const content = message.content[0].text;
-        // Dividir por linhas e remover linhas vazias
-        const topics = content.split('\n')
-          .map(line => line.trim())
-          .filter(line => line.length > 0);
-        
-        console.log('Tópicos extraídos (Claude):', topics);
-        return topics;
-      }
+      console.log(`Tópicos extraídos (${llmInfo.provider}):`, topics);
+      return topics;
     }
     
     // Fallback para método baseado em palavras-chave
@@ -1559,29 +1267,22 @@ export async function extractQueryTopics(query: string): Promise<string[]> {
 /**
  * Analisa a intenção de uma consulta do usuário
  * Esta função complementa a extração de tópicos com análise de intenção
+ * @param llmInfo Configuração LLM do widget (padrão: configuração ativa)
  */
-export async function analyzeQueryIntent(query: string, language: 'pt' | 'en' = 'pt'): Promise<string | null> {
+export async function analyzeQueryIntent(
+  query: string,
+  language: 'pt' | 'en' = 'pt',
+  llmInfo?: LlmFullConfig
+): Promise<string | null> {
   try {
     // Obter configuração LLM
-    const llmConfig = await storage.getActiveLlmConfig();
-    if (!llmConfig) {
-      console.error('Nenhuma configuração LLM ativa encontrada');
-      return null;
-    }
-    
-    // Determinar qual API usar
-    const useOpenAI = llmConfig.model_name.startsWith('gpt-') || !llmConfig.model_name.startsWith('claude-');
-    let apiKey = llmConfig.api_key || (useOpenAI ? process.env.OPENAI_API_KEY : process.env.ANTHROPIC_API_KEY);
-    
-    if (!apiKey) {
-      console.error('API key não disponível para análise de intenção');
-      return null;
-    }
-    
-    // Limpar a chave da API
-    apiKey = apiKey.trim();
-    if (apiKey.startsWith('Bearer ')) {
-      apiKey = apiKey.substring(7).trim();
+    if (!llmInfo) {
+      try {
+        llmInfo = await getActiveLlmInfo();
+      } catch (configError) {
+        console.error('Nenhuma configuração LLM disponível para análise de intenção');
+        return null;
+      }
     }
     
     const systemPrompt = language === 'pt' ? 
@@ -1605,41 +1306,7 @@ export async function analyzeQueryIntent(query: string, language: 'pt' | 'en' =
       
       Answer ONLY with the intent, no introduction or explanation.`;
     
-    if (useOpenAI) {
-      // Usar OpenAI para análise de intenção
-      const openai = new OpenAI({ apiKey });
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini", // Modelo mais leve para esta função secundária
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: query }
-        ],
-        temperature: 0.2, // Temperatura baixa para maior consistência
-        max_tokens: 100
-      });
-      
-      return response.choices[0]?.message?.content || null;
-    } else {
-      // Usar Anthropic para análise de intenção
-      const anthropic = new Anthropic({ apiKey });
-      
-      const message = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219", // the newest Anthropic model
-        max_tokens: 100,
-        temperature: 0.2,
-        system: systemPrompt,
-        messages: [
-          { role: 'user', content: query }
-        ]
-      });
-      
-      if (message.content[0] && typeof message.content[0] === 'object' && 'text' in message.content[0]) {
-        return message.content[0].text || null;
-      }
-    }
-    
-    return null;
+    return await runAuxiliaryPrompt(llmInfo, systemPrompt, query, 100);
   } catch (error) {
     console.error('Erro ao analisar intenção da consulta:', error);
     return null;
@@ -0,0 +1,190 @@
+/**
+ * Reranking dos chunks recuperados pela busca híbrida
+ *
+ * A busca híbrida ordena por similaridade vetorial/textual, que nem sempre coloca o
+ * procedimento de reparo mais útil em primeiro. Um reranker avalia cada par
+ * (consulta, chunk) e reordena os candidatos antes de montar o contexto do prompt.
+ *
+ * Rerankers disponíveis (variável RAG_RERANKER):
+ * - "cross-encoder": modelo local servido por HTTP (RERANKER_URL), no formato /rerank
+ *   do text-embeddings-inference: { query, texts } -> [{ index, score }]
+ * - "llm": pede ao modelo leve do provedor ativo uma nota de 0 a 10 para cada chunk
+ * - "none" (padrão): mantém a ordem da busca híbrida
+ */
+import { getActiveLlmInfo, LlmFullConfig } from './llm';
+import { getLlmProvider } from './llm-providers';
+import { runWithFailover } from './llm-failover';
+
+export interface Reranker {
+  id: string;
+  name: string;
+  isAvailable(): boolean;
+  // Retorna um score entre 0 e 1 para cada passagem, na mesma ordem recebida
+  score(query: string, passages: string[], llmInfo?: LlmFullConfig): Promise<number[]>;
+}
+
+// Limite de caracteres por passagem enviada ao reranker
+const MAX_PASSAGE_CHARS = 1500;
+
+const rerankers = new Map<string, Reranker>();
+
+export function registerReranker(reranker: Reranker): void {
+  rerankers.set(reranker.id, reranker);
+}
+
+export function getReranker(id: string): Reranker | undefined {
+  return rerankers.get(id);
+}
+
+function truncatePassage(text: string): string {
+  return text.length > MAX_PASSAGE_CHARS ? text.substring(0, MAX_PASSAGE_CHARS) : text;
+}
+
+/**
+ * Cross-encoder local (ex.: bge-reranker servido pelo text-embeddings-inference)
+ */
+export const crossEncoderReranker: Reranker = {
+  id: 'cross-encoder',
+  name: 'Cross-encoder local',
+
+  isAvailable() {
+    return !!process.env.RERANKER_URL;
+  },
+
+  async score(query, passages) {
+    const url = process.env.RERANKER_URL!.replace(/\/+$/, '');
+    const response = await fetch(`${url}/rerank`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query,
+        texts: passages.map(truncatePassage),
+        raw_scores: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Reranker local respondeu ${response.status}: ${await response.text()}`);
+    }
+
+    const data: Array<{ index: number; score: number }> = await response.json();
+    const scores = new Array(passages.length).fill(0);
+    for (const item of data) {
+      scores[item.index] = item.score;
+    }
+    return scores;
+  }
+};
+
+/**
+ * Reranker via LLM: uma única chamada avalia todos os candidatos
+ */
+export const llmReranker: Reranker = {
+  id: 'llm',
+  name: 'LLM (modelo leve do provedor ativo)',
+
+  isAvailable() {
+    return true;
+  },
+
+  async score(query, passages, llmInfo) {
+    const primary = llmInfo || await getActiveLlmInfo();
+
+    const systemPrompt = `
+      Você avalia a relevância de trechos de documentação técnica para a pergunta de um técnico de manutenção.
+      Dê a cada trecho uma nota de 0 (irrelevante) a 10 (responde diretamente à pergunta).
+      Responda APENAS com um array JSON de números, um por trecho, na mesma ordem. Exemplo: [7, 0, 3]
+    `;
+
+    const numbered = passages
+      .map((passage, index) => `[${index + 1}]\n${truncatePassage(passage)}`)
+      .join('\n\n');
+
+    const result = await runWithFailover(primary, 'text', async (target) => {
+      const adapter = getLlmProvider(target.provider);
+      return await adapter.chat({
+        model: adapter.lightModel || target.modelName,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: `Pergunta: ${query}\n\nTrechos:\n\n${numbered}` }
+        ],
+        temperature: 0,
+        maxTokens: 20 + passages.length * 5
+      });
+    });
+
+    const match = (result.text || '').match(/\[[\s\S]*?\]/);
+    if (!match) {
+      throw new Error('Resposta do reranker LLM sem array de notas');
+    }
+
+    const grades: unknown[] = JSON.parse(match[0]);
+    return passages.map((_, index) => {
+      const grade = Number(grades[index]);
+      return Number.isFinite(grade) ? Math.min(Math.max(grade, 0), 10) / 10 : 0;
+    });
+  }
+};
+
+registerReranker(crossEncoderReranker);
+registerReranker(llmReranker);
+
+/**
+ * Reranker configurado, ou null quando o reranking está desligado/indisponível
+ */
+export function getConfiguredReranker(): Reranker | null {
+  const id = process.env.RAG_RERANKER || 'none';
+  if (id === 'none') {
+    return null;
+  }
+
+  const reranker = getReranker(id);
+  if (!reranker) {
+    console.warn(`[RAG] Reranker desconhecido em RAG_RERANKER: ${id}`);
+    return null;
+  }
+  if (!reranker.isAvailable()) {
+    console.warn(`[RAG] Reranker ${id} não está disponível, mantendo a ordem da busca`);
+    return null;
+  }
+  return reranker;
+}
+
+/**
+ * Reordena os chunks pelo score do reranker e mantém os topK melhores.
+ * O score fica registrado em rerank_score. Sem reranker, ou se ele falhar,
+ * devolve os primeiros topK na ordem original.
+ */
+export async function rerankChunks<T extends { content?: string; text?: string }>(
+  query: string,
+  chunks: T[],
+  options: { topK: number; llmInfo?: LlmFullConfig }
+): Promise<Array<T & { rerank_score?: number }>> {
+  const reranker = getConfiguredReranker();
+
+  if (!reranker || chunks.length <= 1) {
+    return chunks.slice(0, options.topK);
+  }
+
+  try {
+    const startTime = Date.now();
+    const scores = await reranker.score(
+      query,
+      chunks.map(chunk => chunk.content || chunk.text || ''),
+      options.llmInfo
+    );
+
+    const reranked = chunks
+      .map((chunk, index) => ({ ...chunk, rerank_score: scores[index] ?? 0 }))
+      .sort((a, b) => b.rerank_score - a.rerank_score)
+      .slice(0, options.topK);
+
+    console.log(`[RAG] Reranking (${reranker.id}) de ${chunks.length} chunks em ${Date.now() - startTime}ms; scores: ${reranked.map(chunk => chunk.rerank_score.toFixed(2)).join(', ')}`);
+    return reranked;
+  } catch (error) {
+    console.error(`[RAG] Erro no reranker ${reranker.id}, mantendo a ordem da busca:`, error);
+    return chunks.slice(0, options.topK);
+  }
+}
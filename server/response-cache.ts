@@ -0,0 +1,202 @@
+/**
+ * Cache semântico de respostas
+ *
+ * Técnicos fazem muitas perguntas quase idênticas ("iPhone XR não liga"). Antes de percorrer
+ * a análise da consulta, a busca e a chamada ao LLM, o embedding da pergunta é comparado com
+ * as perguntas já respondidas no mesmo escopo (widget, categorias do widget, idioma, modelo,
+ * persona da configuração do LLM e filtros de metadados da recuperação).
+ * Acima do limiar de similaridade a resposta gravada é devolvida.
+ *
+ * Cada entrada guarda os documentos usados na resposta; quando um deles é re-indexado,
+ * alterado ou excluído, as entradas que dependem dele são removidas. Alterações em documentos
+ * prioritários (instruções e guardrails) afetam todas as respostas e limpam o cache inteiro.
+ */
+import crypto from 'crypto';
+import { storage } from './storage';
+import { EMBEDDING_DIMENSIONS, LlmConfig, MessageSource, RetrievalFilters, RetrievalTrace } from '@shared/schema';
+import { createEmbeddingWithModel, EmbeddingResult } from './document-indexing';
+import { isPriorityDocumentKind } from './rag-processor';
+
+// Similaridade mínima entre as perguntas para reutilizar a resposta
+const CACHE_SIMILARITY_THRESHOLD = 0.95;
+// Validade das entradas: limita o tempo em que uma resposta fica sem refletir documentos novos
+const CACHE_TTL_DAYS = 7;
+// Apenas respostas baseadas em chunks identificados dos documentos de treinamento são gravadas
+const CACHEABLE_PATHS = ['rag', 'rag_forced', 'hybrid'];
+
+export interface ResponseCacheScope {
+  widgetId?: string;
+  language: 'pt' | 'en';
+  model: string;
+  // Configuração do LLM já combinada com os ajustes do widget: tom, temperatura e instruções mudam a resposta
+  llmConfig: LlmConfig;
+  // Filtros da recuperação: "iPhone XR não liga" e "iPhone XS não liga" são quase idênticas no embedding
+  filters?: RetrievalFilters;
+}
+
+/**
+ * Chave calculada na consulta ao cache e reaproveitada para gravar a resposta em caso de falha
+ */
+export interface ResponseCacheKey {
+  scopeKey: string;
+  embedding: EmbeddingResult;
+}
+
+export interface CachedResponse {
+  text: string;
+  sources: MessageSource[];
+  entryId: number;
+  similarity: number;
+  cachedQuery: string;
+}
+
+async function buildScopeKey(scope: ResponseCacheScope): Promise<string> {
+  // As categorias entram na chave: mudar as categorias do widget muda o conhecimento disponível
+  const categoryIds = scope.widgetId
+    ? (await storage.getWidgetCategoryIds(scope.widgetId)).sort((a, b) => a - b)
+    : [];
+  const filters = scope.filters || {};
+  const filterParts = [
+    filters.brand ? `marca:${filters.brand}` : null,
+    filters.device_models?.length ? `modelos:${[...filters.device_models].sort().join(',')}` : null,
+    filters.board_revision ? `revisao:${filters.board_revision}` : null,
+    filters.category_ids?.length ? `filtro-categorias:${[...filters.category_ids].sort((a, b) => a - b).join(',')}` : null,
+    filters.language ? `idioma-documentos:${filters.language}` : null
+  ].filter((part): part is string => !!part);
+  // Persona: editar a configuração ou os ajustes do widget passa a usar outra chave
+  const { id, tone, temperature, behavior_instructions, grounding_mode } = scope.llmConfig;
+  const personaHash = crypto
+    .createHash('md5')
+    .update(JSON.stringify([tone, temperature, behavior_instructions || '', grounding_mode]))
+    .digest('hex');
+  
+  return [
+    scope.widgetId ? `widget:${scope.widgetId}` : 'chat',
+    `categorias:${categoryIds.length > 0 ? categoryIds.join(',') : 'todas'}`,
+    `idioma:${scope.language}`,
+    `modelo:${scope.model}`,
+    `persona:${id}:${personaHash}`,
+    ...filterParts
+  ].join('|');
+}
+
+/**
+ * Procura uma resposta gravada para uma pergunta semelhante no mesmo escopo.
+ * Retorna a chave (para gravar a resposta depois) e a resposta, se houver acerto;
+ * a chave é null quando não foi possível gerar o embedding da pergunta.
+ */
+export async function lookupCachedResponse(
+  query: string,
+  scope: ResponseCacheScope
+): Promise<{ key: ResponseCacheKey | null; cached: CachedResponse | null }> {
+  try {
+    const embedding = await createEmbeddingWithModel(query);
+    if (!embedding || embedding.vector.length !== EMBEDDING_DIMENSIONS) {
+      return { key: null, cached: null };
+    }
+
+    const key = { scopeKey: await buildScopeKey(scope), embedding };
+    const entry = await storage.findCachedResponse(embedding.vector, {
+      scopeKey: key.scopeKey,
+      embeddingModel: embedding.model,
+      minSimilarity: CACHE_SIMILARITY_THRESHOLD
+    });
+    await storage.recordResponseCacheLookup(!!entry);
+
+    if (!entry) {
+      return { key, cached: null };
+    }
+
+    await storage.recordCachedResponseHit(entry.id);
+    console.log(`[Cache] Resposta reutilizada da entrada ${entry.id} (similaridade ${entry.similarity.toFixed(3)}): "${entry.query}"`);
+    return {
+      key,
+      cached: {
+        text: entry.response,
+        sources: (entry.sources as MessageSource[]) || [],
+        entryId: entry.id,
+        similarity: entry.similarity,
+        cachedQuery: entry.query
+      }
+    };
+  } catch (error) {
+    console.error('[Cache] Erro ao consultar o cache de respostas:', error);
+    return { key: null, cached: null };
+  }
+}
+
+/**
+ * Grava a resposta no cache se ela veio dos documentos de treinamento
+ * (sem busca externa, que depende do momento da consulta) e não é um texto de falha
+ */
+export async function storeCachedResponse(
+  key: ResponseCacheKey,
+  query: string,
+  response: { text: string; sources: MessageSource[]; failed?: boolean },
+  trace: RetrievalTrace
+): Promise<void> {
+  if (response.failed || !response.text.trim() || !CACHEABLE_PATHS.includes(trace.path) || trace.external_search.used) {
+    return;
+  }
+
+  const documentIds = Array.from(new Set([
+    ...trace.chunks.map(chunk => chunk.document_id),
+    ...trace.priority_documents.map(doc => doc.id)
+  ]));
+  if (documentIds.length === 0) {
+    return;
+  }
+
+  try {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + CACHE_TTL_DAYS);
+
+    await storage.createCachedResponse({
+      scope_key: key.scopeKey,
+      query,
+      embedding_vector: key.embedding.vector,
+      embedding_model: key.embedding.model,
+      response: response.text,
+      sources: response.sources,
+      document_ids: documentIds,
+      expires_at: expiresAt
+    });
+  } catch (error) {
+    console.error('[Cache] Erro ao gravar resposta no cache:', error);
+  }
+}
+
+/**
+ * Remove as respostas que dependem de um documento que mudou (conteúdo, tipo, status ou exclusão)
+ * @param documentId Documento alterado
+ * @param kinds Tipos do documento (antes e depois da alteração); documentos prioritários limpam o cache inteiro
+ */
+export async function invalidateResponseCacheForDocument(documentId: number, ...kinds: Array<string | null | undefined>): Promise<void> {
+  try {
+    const removed = kinds.some(kind => isPriorityDocumentKind(kind))
+      ? await storage.clearResponseCache()
+      : await storage.deleteCachedResponsesByDocuments([documentId]);
+    if (removed > 0) {
+      console.log(`[Cache] ${removed} respostas removidas do cache após alteração do documento ${documentId}`);
+    }
+  } catch (error) {
+    console.error(`[Cache] Erro ao invalidar o cache do documento ${documentId}:`, error);
+  }
+}
+
+/**
+ * Taxa de acerto do cache nos últimos dias e número de entradas válidas
+ */
+export async function getResponseCacheSummary(days: number = 30) {
+  const { entries, daily } = await storage.getResponseCacheStats(days);
+  const hits = daily.reduce((total, day) => total + day.hits, 0);
+  const misses = daily.reduce((total, day) => total + day.misses, 0);
+
+  return {
+    entries,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    daily
+  };
+}
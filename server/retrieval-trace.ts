@@ -0,0 +1,103 @@
+/**
+ * Rastreamento da recuperação de cada resposta do bot
+ *
+ * Quando um técnico reclama de uma resposta errada, o administrador precisa saber
+ * o que o modelo recebeu: tópicos e intenção da consulta, chunks recuperados com os
+ * scores de cada etapa, documentos prioritários injetados, se a busca externa foi
+ * usada e o tamanho do prompt. O rastreamento é preenchido ao longo do processamento
+ * e gravado junto com a mensagem do bot (tabela retrieval_traces).
+ */
+import { MessageSource, RetrievalTrace, RetrievalTraceChunk, TrainingDocument } from '@shared/schema';
+import { storage } from './storage';
+import { estimateTokens } from './llm';
+import { LlmChatMessage } from './llm-providers';
+
+// Limite do prompt guardado no rastreamento (o tamanho total fica em prompt_tokens)
+const TRACE_PROMPT_MAX_CHARS = 8000;
+// A análise da intenção custa uma chamada extra ao modelo por mensagem: só é feita com RETRIEVAL_TRACE_INTENT=true
+export const TRACE_INTENT_ENABLED = process.env.RETRIEVAL_TRACE_INTENT === 'true';
+
+function toScore(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export function createRetrievalTrace(query: string): RetrievalTrace {
+  return {
+    query,
+    retrieval_query: query,
+    topics: [],
+    intent: null,
+    path: 'rag',
+    chunks: [],
+    priority_documents: [],
+    topic_documents: [],
+    external_search: { attempted: false, used: false },
+    prompt_tokens: null,
+    system_prompt: null,
+    created_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Registra os chunks do contexto com seus scores e o identificador de citação atribuído
+ */
+export function recordTraceChunks(trace: RetrievalTrace, documents: any[], sources: MessageSource[] = []) {
+  trace.chunks = documents
+    .filter(doc => doc && doc.document_id != null)
+    .map((doc): RetrievalTraceChunk => {
+      const chunkIndex = typeof doc.chunk_index === 'number' ? doc.chunk_index : null;
+      const source = sources.find(item => item.document_id === doc.document_id && item.chunk_index === chunkIndex);
+      return {
+        // Documentos prioritários e completos não vêm de um chunk
+        chunk_id: chunkIndex !== null && typeof doc.id === 'number' ? doc.id : null,
+        document_id: doc.document_id,
+        document_name: doc.document_name || '',
+        chunk_index: chunkIndex,
+        similarity: toScore(doc.similarity ?? doc.relevance_score),
+        rrf_score: toScore(doc.rrf_score),
+        rerank_score: toScore(doc.rerank_score),
+        citation_id: source?.id ?? null
+      };
+    });
+}
+
+export function recordTracePriorityDocuments(trace: RetrievalTrace, documents: TrainingDocument[]) {
+  trace.priority_documents = documents.map(doc => ({
+    id: doc.id,
+    name: doc.name,
+    kind: doc.kind,
+    priority: doc.priority
+  }));
+}
+
+/**
+ * Registra o prompt final (truncado) e a estimativa de tokens de tudo o que foi enviado ao modelo
+ */
+export function recordTracePrompt(trace: RetrievalTrace, systemPrompt: string, messages: LlmChatMessage[], model: string) {
+  trace.prompt_tokens = estimateTokens(systemPrompt, model) +
+    messages.reduce((total, message) => total + estimateTokens(message.content, model), 0);
+  trace.system_prompt = systemPrompt.length > TRACE_PROMPT_MAX_CHARS
+    ? systemPrompt.substring(0, TRACE_PROMPT_MAX_CHARS) + '\n[...]'
+    : systemPrompt;
+}
+
+/**
+ * Grava o rastreamento de uma mensagem do bot; falhas não interrompem a resposta ao usuário
+ */
+export async function saveRetrievalTrace(
+  source: 'chat' | 'widget',
+  messageId: number,
+  trace: RetrievalTrace | undefined
+): Promise<void> {
+  if (!trace) {
+    return;
+  }
+
+  try {
+    await storage.createRetrievalTrace(source === 'chat'
+      ? { chat_message_id: messageId, trace }
+      : { widget_message_id: messageId, trace });
+  } catch (error) {
+    console.error(`[RAG] Erro ao gravar rastreamento da mensagem ${messageId}:`, error);
+  }
+}
@@ -2,8 +2,19 @@ import express, { type Express, Request, Response, NextFunction } from "express"
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, checkRole } from "./auth";
-import { analyzeImage, analyzeFile, processTextMessage, testConnection, getActiveLlmInfo, fetchOpenAIDirectly, fetchAnthropicDirectly } from "./llm";
+import { analyzeImage, analyzeFile, processTextMessage, testConnection, getActiveLlmInfo, buildLlmFullConfig, getWidgetLlmConfig, fetchOpenAIDirectly, fetchAnthropicDirectly } from "./llm";
+import { getLlmProvider, hasLlmProvider, listLlmProviders } from "./llm-providers";
+import { wantsEventStream, openEventStream, createStreamListener, type SseChannel } from "./sse";
+import { createTechnicianFilterListener, filterTechnicianReferences } from "./technician-filter";
+import { getCircuitBreakerStatus } from "./llm-failover";
 import { processChatWithTrainedDocuments } from "./trained-chat-processor";
+import { invalidateResponseCacheForDocument } from "./response-cache";
+import { enqueueDocumentJob, initialJobType } from "./document-jobs";
+import { SPREADSHEET_EXTENSIONS, MARKDOWN_EXTENSIONS, HTML_EXTENSIONS, PRESENTATION_EXTENSIONS } from "./document-processors";
+import { getIngestionSnapshot, subscribeIngestionProgress, isFinalIngestionPhase } from "./ingestion-progress";
+import { retrievalFiltersSchema, normalizeDocumentMetadata, saveDocumentMetadata, getMetadataVocabulary } from "./document-metadata";
+import { buildConversationHistory, buildHistoryWindow } from "./conversation-history";
+import { saveRetrievalTrace } from "./retrieval-trace";
 import { testDocumentKnowledge } from "./training-test";
 import { testTopicsLearning, addTechnicalTopic } from "./external-search";
 import { logAction } from "./audit";
@@ -165,9 +176,18 @@ import {
   insertPlanPricingSchema,
   insertChatWidgetSchema,
   insertWidgetChatSessionSchema,
-  insertWidgetChatMessageSchema
+  insertWidgetChatMessageSchema,
+  MessageSource,
+  RetrievalTrace,
+  TRAINING_DOCUMENT_KINDS
 } from "@shared/schema";
 
+// Tipo e prioridade de documentos de treinamento (multipart envia números como texto)
+const trainingDocumentKindSchema = z.object({
+  kind: z.enum(TRAINING_DOCUMENT_KINDS).optional(),
+  priority: z.coerce.number().int().optional()
+});
+
 // Importações para o Stripe e Supabase
 import { 
   stripe, 
@@ -211,6 +231,15 @@ const storageConfig = multer.diskStorage({
   },
 });
 
+// Formatos aceitos apenas como documentos de treinamento. Verificados pela extensão: navegadores
+// enviam CSV e Markdown com tipos MIME variados (ou application/octet-stream)
+const TRAINING_ONLY_EXTENSIONS = [
+  ...SPREADSHEET_EXTENSIONS,
+  ...MARKDOWN_EXTENSIONS,
+  ...HTML_EXTENSIONS,
+  ...PRESENTATION_EXTENSIONS
+];
+
 // File filter for supported formats
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   const isAvatar = req.path.includes("/avatar");
@@ -222,6 +251,8 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
     } else {
       cb(new Error("Unsupported file format. Please upload JPG or PNG."));
     }
+  } else if (req.path.startsWith("/api/training/documents") && TRAINING_ONLY_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+    cb(null, true);
   } else {
     // Chat uploads: PNG, JPG, PDF, TXT, DOC, DOCX
     if (
@@ -269,6 +300,42 @@ const avatarUpload = multer({
   }
 });
 
+// Campos de configuração de LLM do widget. Chegam como texto via FormData;
+// valor vazio significa herdar a configuração global ativa (null)
+const emptyToNull = (value: unknown) => (value === "" || value === "null" ? null : value);
+const widgetLlmFields = {
+  llm_config_id: z.preprocess(emptyToNull, z.coerce.number().int().positive().nullable()).optional(),
+  llm_temperature: z.preprocess(
+    emptyToNull,
+    z.string().refine(value => !isNaN(parseFloat(value)) && parseFloat(value) >= 0 && parseFloat(value) <= 1, {
+      message: "Temperatura deve estar entre 0 e 1"
+    }).nullable()
+  ).optional(),
+  llm_tone: z.preprocess(emptyToNull, z.enum(["formal", "normal", "casual"]).nullable()).optional(),
+  llm_behavior_instructions: z.preprocess(emptyToNull, z.string().nullable()).optional()
+};
+
+// Categorias de treinamento do widget (array ou JSON via FormData)
+const widgetCategoryIdsField = z.union([
+  z.array(z.coerce.number().int().positive()),
+  z.string().transform((str, ctx) => {
+    try {
+      return z.array(z.coerce.number().int().positive()).parse(JSON.parse(str || "[]"));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "category_ids inválido" });
+      return z.NEVER;
+    }
+  })
+]).optional();
+
+// Verifica se a configuração LLM escolhida para o widget existe
+async function validateWidgetLlmConfig(llmConfigId: number | null | undefined): Promise<boolean> {
+  if (!llmConfigId) {
+    return true;
+  }
+  return !!(await storage.getLlmConfig(llmConfigId));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Rota especial para permitir embedding do widget
   app.get('/embed/*', (req, res, next) => {
@@ -1208,6 +1275,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
+  // Provedores LLM registrados (para o seletor da tela de configurações)
+  app.get("/api/admin/llm/providers", isAuthenticated, checkRole("admin"), async (req, res) => {
+    res.json(listLlmProviders().map(adapter => ({
+      id: adapter.id,
+      label: adapter.label,
+      default_model: adapter.defaultModel,
+      requires_api_key: adapter.requiresApiKey,
+      requires_base_url: adapter.requiresBaseUrl
+    })));
+  });
+  
   app.post("/api/admin/llm", isAuthenticated, checkRole("admin"), async (req, res) => {
     try {
       // Limpar o prefixo "Bearer " da API key antes de salvar no banco
@@ -1222,6 +1300,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         created_by: req.user!.id
       });
       
+      // Validar o provedor contra o registro de adaptadores
+      if (data.provider && !hasLlmProvider(data.provider)) {
+        return res.status(400).json({ message: `Provedor LLM desconhecido: ${data.provider}` });
+      }
+      
+      if (data.provider && getLlmProvider(data.provider).requiresBaseUrl && !data.base_url) {
+        return res.status(400).json({ message: "URL base é obrigatória para este provedor" });
+      }
+      
       const newConfig = await storage.createLlmConfig(data);
       
       // Log the action
@@ -1314,11 +1401,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/admin/llm/test", isAuthenticated, checkRole("admin"), async (req, res) => {
     const schema = z.object({
       model_name: z.string(),
-      api_key: z.string()
+      api_key: z.string(),
+      provider: z.string().optional(),
+      base_url: z.string().nullable().optional()
     });
     
     try {
-      let { model_name, api_key } = schema.parse(req.body);
+      let { model_name, api_key, provider, base_url } = schema.parse(req.body);
       
       // Limpar o prefixo "Bearer " da API key antes de testar a conexão
       if (api_key && typeof api_key === 'string' && api_key.toLowerCase().startsWith('bearer ')) {
@@ -1327,8 +1416,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Testando conexão LLM com modelo ${model_name} (API key com comprimento ${api_key.length})`);
       
-      // Test connection using both OpenAI and Anthropic APIs
-      const isValid = await testConnection(api_key, model_name);
+      // Testar conexão usando o adaptador do provedor informado
+      const isValid = await testConnection(api_key, model_name, provider, base_url);
       
       res.json({ success: isValid });
     } catch (error) {
@@ -1625,6 +1714,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(safeConfig);
   });
   
+  // Lista de configurações LLM cadastradas (usada na escolha do modelo de cada widget)
+  app.get("/api/admin/llm/configs", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const configs = await storage.getLlmConfigs();
+      
+      // Don't send API keys back
+      res.json(configs.map(({ api_key, ...safeConfig }) => safeConfig));
+    } catch (error) {
+      console.error("Erro ao listar configurações LLM:", error);
+      res.status(500).json({ message: "Erro ao listar configurações LLM" });
+    }
+  });
+  
+  // Cadeia de failover de LLM: configurações usadas, em ordem, quando a ativa falha
+  app.get("/api/admin/llm/failover", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const configs = await storage.getLlmConfigs();
+      
+      res.json({
+        // Don't send API keys back
+        configs: configs.map(({ api_key, ...safeConfig }) => safeConfig),
+        chain: configs
+          .filter(config => config.fallback_order !== null)
+          .sort((a, b) => a.fallback_order! - b.fallback_order!)
+          .map(config => config.id),
+        circuits: getCircuitBreakerStatus()
+      });
+    } catch (error) {
+      console.error("Erro ao buscar cadeia de failover:", error);
+      res.status(500).json({ message: "Erro ao buscar cadeia de failover" });
+    }
+  });
+  
+  app.put("/api/admin/llm/failover", isAuthenticated, checkRole("admin"), async (req, res) => {
+    const parsed = z.object({
+      config_ids: z.array(z.number().int().positive())
+    }).safeParse(req.body);
+    
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid failover chain", errors: parsed.error.errors });
+    }
+    
+    try {
+      const configIds = Array.from(new Set(parsed.data.config_ids));
+      
+      for (const id of configIds) {
+        if (!(await storage.getLlmConfig(id))) {
+          return res.status(404).json({ message: `Configuration ${id} not found` });
+        }
+      }
+      
+      await storage.setLlmFallbackOrder(configIds);
+      
+      await logAction({
+        userId: req.user!.id,
+        action: "llm_failover_updated",
+        details: { config_ids: configIds },
+        ipAddress: req.ip
+      });
+      
+      res.json({ chain: configIds });
+    } catch (error) {
+      console.error("Erro ao salvar cadeia de failover:", error);
+      res.status(500).json({ message: "Erro ao salvar cadeia de failover" });
+    }
+  });
+  
   // Avatar Management
   app.get("/api/avatar", isAuthenticated, async (req, res) => {
     const activeAvatar = await storage.getActiveAvatar();
@@ -2620,7 +2776,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const sessions = await storage.getUserChatSessions(req.user!.id);
     res.json(sessions);
   });
-  
+
+  // Opções dos filtros da busca no chat: valores cadastrados nos documentos e categorias
+  app.get("/api/chat/retrieval-filters/options", isAuthenticated, checkRole("technician"), async (req, res) => {
+    try {
+      const vocabulary = await getMetadataVocabulary();
+      const categories = await storage.getTrainingCategories();
+
+      res.json({
+        ...vocabulary,
+        categories: categories.map(category => ({ id: category.id, name: category.name }))
+      });
+    } catch (error) {
+      console.error("Erro ao obter opções dos filtros de busca:", error);
+      res.status(500).json({ message: "Erro ao obter opções dos filtros de busca" });
+    }
+  });
+
   app.post("/api/chat/sessions", isAuthenticated, checkRole("technician"), async (req, res) => {
     try {
       const data = insertChatSessionSchema.parse({
@@ -2817,6 +2989,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
     
+    // Streaming SSE apenas para mensagens de texto; arquivos continuam com resposta JSON
+    let streamChannel: SseChannel | null = null;
+    
     try {
       let messageType = "text";
       let content = req.body.content;
@@ -2878,6 +3053,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Process content with LLM - both files and text messages
       let botResponse;
+      // Fontes citadas pela resposta (somente respostas com documentos de treinamento)
+      let botSources: MessageSource[] = [];
+      let botTrace: RetrievalTrace | undefined;
       
       if (req.file) {
         // Process file
@@ -2928,6 +3106,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             : "Sorry, there was an error processing this file. Please try again.";
         }
       } else if (content && content.trim() !== '') {
+        if (wantsEventStream(req)) {
+          streamChannel = openEventStream(req, res);
+          streamChannel.send("user_message", userMessage);
+        }
+        const streamListener = streamChannel ? createStreamListener(streamChannel) : undefined;
+        
         // Process text message
         try {
           console.log("Processando mensagem de texto:", {
@@ -2937,16 +3121,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Usar o novo processador com documentos de treinamento
           console.log("Usando processador com documentos de treinamento para interface de técnicos");
+          
+          // Histórico da sessão (sem a mensagem atual): perguntas de continuação e contexto do prompt
+          const history = buildConversationHistory(await storage.getSessionMessages(sessionId), userMessage.id);
+          
+          // Filtros de marca, modelo, categoria e idioma escolhidos no chat (opcionais)
+          const parsedFilters = retrievalFiltersSchema.safeParse(req.body.filters || {});
+          const filters = parsedFilters.success ? parsedFilters.data : {};
+          
           try {
             // Processar mensagem com documentos de treinamento
-            botResponse = await processChatWithTrainedDocuments(content, req.user?.id);
+            const trainedResponse = await processChatWithTrainedDocuments(content, req.user?.id, undefined, true, streamListener, undefined, history, session.language, filters);
+            botResponse = trainedResponse.text;
+            botSources = trainedResponse.sources;
+            botTrace = trainedResponse.trace;
           } catch (trainedError) {
             console.error("Erro ao processar com documentos de treinamento:", trainedError);
             
             // Fallback para processamento tradicional
             console.log("Usando processamento regular como fallback");
             const llmConfig = await getActiveLlmInfo();
-            botResponse = await processTextMessage(content, session.language, llmConfig, [], req.user?.id);
+            const historyWindow = await buildHistoryWindow(history, { llmInfo: llmConfig });
+            botResponse = await processTextMessage(content, session.language, llmConfig, historyWindow, req.user?.id, undefined, streamListener);
           }
           
           console.log("Resposta da LLM recebida para mensagem de texto:", {
@@ -2962,24 +3158,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create bot response message if we have one
+      let aiMessage = null;
       if (botResponse) {
         console.log("Resposta da LLM recebida:", {
           length: botResponse.length,
           preview: botResponse.substring(0, 100) + "..."
         });
         
-        await storage.createChatMessage({
+        aiMessage = await storage.createChatMessage({
           session_id: sessionId,
           user_id: req.user!.id,
           message_type: "text" as "text",
           content: botResponse,
+          sources: botSources.length > 0 ? botSources : null,
           is_user: false
         });
+        await saveRetrievalTrace('chat', aiMessage.id, botTrace);
         
         // Incrementar contagem de mensagens (cada resposta do LLM também conta 1)
         await storage.incrementMessageCount(req.user!.id);
       }
       
+      // Encerrar o stream com a mensagem final persistida
+      if (streamChannel) {
+        streamChannel.send("done", { userMessage, aiMessage });
+        streamChannel.close();
+        return;
+      }
+      
       // Se for uma imagem e temos base64, incluí-lo no objeto da mensagem
       if (req.file && req.file.mimetype.startsWith("image/") && fileBase64) {
         // Criar uma cópia da mensagem com fileBase64 incorporado
@@ -2998,6 +3204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             message_type: "text",
             content: botResponse,
             file_url: null,
+            sources: botSources,
             is_user: false,
             // Adicionar outros campos que podem estar faltando
             id: -1, // Placeholder, será substituído quando buscarmos do banco
@@ -3017,6 +3224,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             message_type: "text",
             content: botResponse,
             file_url: null,
+            sources: botSources,
             is_user: false,
             // Adicionar outros campos que podem estar faltando
             id: -1, // Placeholder, será substituído quando buscarmos do banco
@@ -3029,6 +3237,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       console.error("Erro ao processar upload:", error);
       
+      if (streamChannel) {
+        streamChannel.send("error", { message: error instanceof Error ? error.message : "Invalid request" });
+        streamChannel.close();
+        return;
+      }
+      
       // Delete uploaded file if it exists and there was an error
       if (req.file) {
         try {
@@ -3144,75 +3358,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { name, description, document_type } = req.body;
       
+      const kindFields = trainingDocumentKindSchema.safeParse(req.body);
+      if (!kindFields.success) {
+        return res.status(400).json({ message: "Tipo ou prioridade do documento inválidos", errors: kindFields.error.errors });
+      }
+      
       let content = null;
       let file_url = null;
+      let file_path = null;
       let website_url = null;
       
       if (document_type === "text") {
         content = req.body.content;
-      } else if (document_type === "image" && req.file) {
-        // Processar upload de imagem sem necessidade de conteúdo de texto
+      } else if ((document_type === "image" || document_type === "file") && req.file) {
+        // O conteúdo é extraído pela fila de jobs (análise da imagem por LLM multimodal, PDF, DOCX, etc.)
         file_url = `/uploads/${req.file.filename}`;
-        console.log(`Processando imagem: ${file_url} - Tipo MIME: ${req.file.mimetype} - Tamanho: ${(req.file.size / (1024 * 1024)).toFixed(2)}MB`);
-        
-        try {
-          // Importar o processador de documentos usando dynamic import
-          const documentProcessors = await import('./document-processors');
-          
-          // Processar a imagem para extrair conteúdo usando LLM multimodal, incluindo a descrição quando disponível
-          const filePath = path.join(process.cwd(), "uploads/files", req.file.filename);
-          content = await documentProcessors.processDocumentContent("image", filePath, undefined, undefined, description);
-          
-          if (!content) {
-            console.warn(`Não foi possível extrair o conteúdo da imagem ${req.file.originalname}`);
-          } else {
-            console.log(`Conteúdo extraído da imagem com sucesso: ${content.length} caracteres`);
-          }
-        } catch (extractionError) {
-          console.error(`Erro ao processar imagem ${req.file.originalname}:`, extractionError);
-          content = `[ERRO DE ANÁLISE] Não foi possível analisar a imagem: ${extractionError instanceof Error ? extractionError.message : 'Erro desconhecido'}`;
-        }
-      } else if (document_type === "file" && req.file) {
-        file_url = `/uploads/${req.file.filename}`;
-        
-        // Extrair conteúdo do arquivo usando os processadores de documentos
-        const filePath = path.join(process.cwd(), "uploads/files", req.file.filename);
-        console.log(`Processando arquivo: ${filePath} - Tipo MIME: ${req.file.mimetype} - Tamanho: ${(req.file.size / (1024 * 1024)).toFixed(2)}MB`);
-        
-        try {
-          // Importar o processador de documentos usando dynamic import
-          const documentProcessors = await import('./document-processors');
-          
-          // Processar o documento com tratamento adequado de erros
-          content = await documentProcessors.processDocumentContent("file", filePath);
-          
-          // Caso não tenha conseguido extrair o conteúdo
-          if (!content) {
-            console.warn(`Não foi possível extrair o conteúdo do arquivo ${req.file.originalname}`);
-          } else {
-            console.log(`Conteúdo extraído com sucesso: ${content.length} caracteres`);
-          }
-        } catch (extractionError) {
-          console.error(`Erro ao extrair conteúdo do arquivo ${req.file.originalname}:`, extractionError);
-          // Armazenar a mensagem de erro no conteúdo para que o documento ainda possa ser salvo
-          content = `[ERRO DE EXTRAÇÃO] Não foi possível extrair o conteúdo do arquivo: ${extractionError instanceof Error ? extractionError.message : 'Erro desconhecido'}`;
-        }
+        file_path = path.join(process.cwd(), "uploads/files", req.file.filename);
+        console.log(`Arquivo recebido: ${file_path} - Tipo MIME: ${req.file.mimetype} - Tamanho: ${(req.file.size / (1024 * 1024)).toFixed(2)}MB`);
       } else if (document_type === "website") {
         website_url = req.body.website_url;
-        
-        // Se tiver URL, também extrair conteúdo do site
-        if (website_url) {
-          // Importar o processador de documentos usando dynamic import
-          const documentProcessors = await import('./document-processors');
-          
-          try {
-            content = await documentProcessors.extractTextFromWebsite(website_url);
-            console.log(`Conteúdo extraído do site: ${content.length} caracteres`);
-          } catch (webError) {
-            console.error(`Erro ao extrair conteúdo do site ${website_url}:`, webError);
-            content = `Não foi possível extrair conteúdo do site: ${webError.message}`;
-          }
-        }
       }
       
       console.log("Dados para criação do documento:", {
@@ -3225,14 +3389,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         created_by: req.user?.id
       });
       
-      // Criar documento com status "processing" inicialmente
       const document = await storage.createTrainingDocument({
         name,
         description,
         document_type: document_type as any,
         content,
         file_url,
+        file_path,
         website_url,
+        ...kindFields.data,
         created_by: req.user!.id
       });
       
@@ -3242,53 +3407,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.addDocumentToCategory(document.id, parseInt(categoryId));
       }
       
-      // Processar documento imediatamente (em vez de assíncrono)
-      console.log(`Processando documento de treinamento ID ${document.id}...`);
+      // Extração e indexação rodam na fila de jobs; a resposta não espera o processamento
+      const job = await enqueueDocumentJob(document.id, initialJobType(document), req.user!.id);
+      console.log(`Documento de treinamento ID ${document.id} criado; processamento na fila (job ${job.id}, ${job.type})`);
       
-      try {
-        // Processar embeddings para melhorar a pesquisa semântica usando dynamic import
-        const documentEmbedding = await import('./document-embedding');
-        
-        console.log(`Iniciando processamento de embeddings para documento ${document.id}`);
-        
-        // Atualizar status para processamento
-        await storage.updateTrainingDocument(document.id, {
-          status: "processing",
-          updated_at: new Date()
-        });
-        
-        // Processar documento para gerar embeddings
-        const embeddingSuccess = await documentEmbedding.processDocumentEmbeddings(document.id);
-        
-        if (!embeddingSuccess) {
-          console.warn(`Falha no processamento de embeddings para documento ${document.id}. Continuando sem embeddings.`);
-          
-          // Mesmo com falha nos embeddings, o documento ainda é utilizável
-          await storage.updateTrainingDocument(document.id, {
-            status: "completed",
-            updated_at: new Date()
-          });
-        }
-        
-        console.log(`Documento de treinamento ID ${document.id} processado com sucesso.`);
-        
-        // Buscar o documento atualizado para retornar na resposta
-        const updatedDocument = await storage.getTrainingDocument(document.id);
-        res.status(201).json(updatedDocument);
-      } catch (processingError) {
-        console.error(`Erro ao processar documento de treinamento ID ${document.id}:`, processingError);
-        
-        // Atualizar o status para "error" em caso de falha
-        await storage.updateTrainingDocument(document.id, {
-          status: "error",
-          error_message: processingError instanceof Error ? processingError.message : "Erro desconhecido",
-          updated_at: new Date()
-        });
-        
-        // Ainda retorna 201 porque o documento foi criado, mesmo com erro no processamento
-        const errorDocument = await storage.getTrainingDocument(document.id);
-        res.status(201).json(errorDocument);
-      }
+      const queuedDocument = await storage.getTrainingDocument(document.id);
+      res.status(201).json(queuedDocument);
     } catch (error) {
       console.error("Erro completo ao criar documento de treinamento:", error);
       res.status(500).json({ 
@@ -3304,9 +3428,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       const { name, description } = req.body;
       
+      const kindFields = trainingDocumentKindSchema.safeParse(req.body);
+      if (!kindFields.success) {
+        return res.status(400).json({ message: "Tipo ou prioridade do documento inválidos", errors: kindFields.error.errors });
+      }
+      
+      const previous = await storage.getTrainingDocument(id);
       const document = await storage.updateTrainingDocument(id, {
         name,
         description,
+        ...kindFields.data,
         updated_at: new Date()
       });
       
@@ -3314,12 +3445,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Documento não encontrado" });
       }
       
+      await invalidateResponseCacheForDocument(id, previous?.kind, document.kind);
       res.json(document);
     } catch (error) {
       res.status(500).json({ message: "Erro ao atualizar documento de treinamento" });
     }
   });
   
+  // Metadados do documento (marca, modelos, revisão da placa) editados pelo administrador
+  app.put("/api/training/documents/:id/metadata", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const document = await storage.getTrainingDocument(id);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Documento não encontrado" });
+      }
+      
+      const metadata = normalizeDocumentMetadata(req.body);
+      await saveDocumentMetadata(id, metadata, 'manual');
+      await invalidateResponseCacheForDocument(id, document.kind);
+      
+      await logAction({
+        userId: req.user!.id,
+        action: "document_metadata_updated",
+        details: { documentId: id, ...metadata },
+        ipAddress: req.ip
+      });
+      
+      res.json(await storage.getTrainingDocument(id));
+    } catch (error) {
+      console.error("Erro ao atualizar metadados do documento:", error);
+      res.status(500).json({ message: "Erro ao atualizar metadados do documento" });
+    }
+  });
+  
+  // Progresso da ingestão do documento em tempo real (SSE); encerra na conclusão ou no erro
+  app.get("/api/training/documents/:id/progress", isAuthenticated, checkRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const document = await storage.getTrainingDocument(id);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Documento não encontrado" });
+      }
+      
+      const channel = openEventStream(req, res);
+      const snapshot = getIngestionSnapshot(document);
+      channel.send("progress", snapshot);
+      
+      if (isFinalIngestionPhase(snapshot.phase)) {
+        return channel.close();
+      }
+      
+      const unsubscribe = subscribeIngestionProgress(id, (event) => {
+        channel.send("progress", event);
+        if (isFinalIngestionPhase(event.phase)) {
+          unsubscribe();
+          channel.close();
+        }
+      });
+      req.on("close", unsubscribe);
+    } catch (error) {
+      console.error("Erro ao acompanhar o progresso do documento:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Erro ao acompanhar o progresso do documento" });
+      }
+    }
+  });
+  
   // Rota PATCH para atualização parcial com suporte a imagens
   app.patch("/api/training/documents/:id", isAuthenticated, checkRole("admin"), trainingDocumentUpload.single('image'), async (req, res) => {
     try {
@@ -3344,30 +3538,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.website_url) updateData.website_url = req.body.website_url;
       if (req.body.status) updateData.status = req.body.status;
       
+      const kindFields = trainingDocumentKindSchema.safeParse(req.body);
+      if (!kindFields.success) {
+        return res.status(400).json({ message: "Tipo ou prioridade do documento inválidos", errors: kindFields.error.errors });
+      }
+      Object.assign(updateData, kindFields.data);
+      
       // Processar arquivo de imagem se enviado
       if (req.file) {
         console.log("Arquivo de imagem recebido:", req.file.filename);
         const file_url = `/uploads/${req.file.filename}`;
         updateData.image_url = file_url;
         
-        // Processar conteúdo da imagem com descrição se for documento do tipo imagem
+        // Documento do tipo imagem: o conteúdo é extraído da nova imagem pela fila de jobs
         if (existingDoc.document_type === "image") {
-          try {
-            // Importar o processador de documentos usando dynamic import
-            const documentProcessors = await import('./document-processors');
-            
-            // Processar a imagem para extrair conteúdo usando LLM multimodal, incluindo a descrição quando disponível
-            const filePath = path.join(process.cwd(), "uploads/files", req.file.filename);
-            const description = updateData.description || existingDoc.description;
-            const content = await documentProcessors.processDocumentContent("image", filePath, undefined, undefined, description);
-            
-            if (content) {
-              console.log(`Conteúdo extraído da imagem com sucesso: ${content.length} caracteres`);
-              updateData.content = content;
-            }
-          } catch (extractionError) {
-            console.error(`Erro ao processar imagem ${req.file.originalname}:`, extractionError);
-          }
+          updateData.file_path = path.join(process.cwd(), "uploads/files", req.file.filename);
         }
         
         // Se documento já tinha uma imagem, excluir a antiga
@@ -3385,7 +3570,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Atualizar documento
-      const updatedDoc = await storage.updateTrainingDocument(id, updateData);
+      let updatedDoc = await storage.updateTrainingDocument(id, updateData);
+      await invalidateResponseCacheForDocument(id, existingDoc.kind, updatedDoc?.kind);
+      
+      if (req.file && existingDoc.document_type === "image") {
+        await enqueueDocumentJob(id, "extract", req.user!.id);
+        updatedDoc = await storage.getTrainingDocument(id);
+      }
       res.json(updatedDoc);
     } catch (error) {
       console.error("Erro ao atualizar documento:", error);
@@ -3399,7 +3590,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/training/documents/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const document = await storage.getTrainingDocument(id);
       await storage.deleteTrainingDocument(id);
+      await invalidateResponseCacheForDocument(id, document?.kind);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Erro ao excluir documento de treinamento" });
@@ -3468,6 +3661,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/training/categories/:id", isAuthenticated, checkRole("admin"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      
+      // Uma categoria que delimita o conhecimento de widgets não pode ser excluída
+      // (o widget perderia o escopo e passaria a buscar em todos os documentos)
+      const widgetIds = await storage.getCategoryWidgetIds(id);
+      if (widgetIds.length > 0) {
+        return res.status(409).json({
+          message: "Categoria vinculada a widgets. Remova-a dos widgets antes de excluir.",
+          widget_ids: widgetIds
+        });
+      }
+      
       await storage.deleteTrainingCategory(id);
       res.status(204).send();
     } catch (error) {
@@ -3620,16 +3824,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Iniciar processamento do documento - atualizar status imediatamente
-        await storage.updateTrainingDocument(parseInt(documentId), {
-          status: 'processing',
-          progress: 0,
-          error_message: null
-        });
-          
         // Verificar se o documento tem conteúdo para processar
         if ((!document.content || document.content.trim().length === 0) && 
-            (!document.file_path || document.file_path.trim().length === 0)) {
+            (!document.file_path || document.file_path.trim().length === 0) &&
+            !document.file_url && !document.website_url) {
           
           // Atualizar o status do documento para indicar o erro
           await storage.updateTrainingDocument(parseInt(documentId), {
@@ -3644,32 +3842,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Importar o processador de embeddings
-        // Usando importação dinâmica para ES Modules
-        const documentEmbedding = await import('./document-embedding.js');
-        const success = await documentEmbedding.processDocumentEmbeddings(parseInt(documentId));
+        // Documento sem conteúdo extraído passa antes pela extração
+        const job = await enqueueDocumentJob(
+          document.id,
+          document.content && document.content.trim() ? "index" : initialJobType(document),
+          req.user!.id
+        );
         
         // Registrar a ação no log de auditoria
         await logAction({
           userId: req.user!.id,
           action: "document_embeddings_processed",
-          details: { documentId, success },
+          details: { documentId, jobId: job.id },
           ipAddress: req.ip
         });
         
-        if (success) {
-          return res.json({ 
-            success: true, 
-            message: `Embeddings gerados com sucesso para o documento ${documentId}` 
-          });
-        } else {
-          // Buscar o documento novamente para obter a mensagem de erro
-          const updatedDoc = await storage.getTrainingDocument(parseInt(documentId));
-          return res.status(500).json({ 
-            success: false, 
-            message: updatedDoc?.error_message || `Falha ao gerar embeddings para o documento ${documentId}` 
-          });
-        }
+        return res.json({ 
+          success: true, 
+          message: `Processamento de embeddings do documento ${documentId} enfileirado`,
+          job
+        });
       } 
       // Processar todos os documentos
       else {
@@ -3692,42 +3884,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ipAddress: req.ip
         });
         
-        // Iniciar processamento em background
+        // Um job de indexação por documento; a fila limita quantos rodam ao mesmo tempo
+        for (const doc of activeDocuments) {
+          await enqueueDocumentJob(doc.id, "index", req.user!.id);
+        }
+        
         res.json({ 
           success: true, 
           message: `Iniciando processamento de embeddings para ${activeDocuments.length} documentos`,
           totalDocuments: activeDocuments.length
         });
-        
-        // Processar documentos em segundo plano
-        (async () => {
-          const documentEmbedding = await import('./document-embedding.js');
-          const { processDocumentEmbeddings } = documentEmbedding;
-          let successCount = 0;
-          let failCount = 0;
-          
-          console.log(`Iniciando processamento de embeddings para ${activeDocuments.length} documentos`);
-          
-          for (const doc of activeDocuments) {
-            try {
-              console.log(`Processando embeddings para documento ${doc.id}: ${doc.name}`);
-              const success = await processDocumentEmbeddings(doc.id);
-              
-              if (success) {
-                successCount++;
-                console.log(`Documento ${doc.id} processado com sucesso (${successCount}/${activeDocuments.length})`);
-              } else {
-                failCount++;
-                console.error(`Falha ao processar documento ${doc.id} (${failCount} falhas até agora)`);
-              }
-            } catch (error) {
-              failCount++;
-              console.error(`Erro no processamento do documento ${doc.id}:`, error);
-            }
-          }
-          
-          console.log(`Processamento de embeddings concluído: ${successCount} sucessos, ${failCount} falhas`);
-        })();
       }
     } catch (error) {
       console.error("Erro ao processar embeddings:", error);
@@ -4031,7 +4197,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Sem permissão para acessar este widget" });
       }
       
-      res.json(widget);
+      // Categorias de treinamento que delimitam o conhecimento do widget
+      const categoryIds = await storage.getWidgetCategoryIds(id);
+      
+      res.json({ ...widget, category_ids: categoryIds });
     } catch (error) {
       console.error("Erro ao obter widget:", error);
       res.status(500).json({ message: "Erro ao obter widget" });
@@ -4061,6 +4230,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           })
         ]).optional().default([]),
+        ...widgetLlmFields
       });
       
       // Validar os dados enviados pelo cliente
@@ -4084,9 +4254,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         greeting: validatedData.greeting,
         theme_color: validatedData.theme_color,
         allowed_domains: Array.isArray(validatedData.allowed_domains) ? validatedData.allowed_domains : [],
-        avatar_url: validatedData.avatar_url
+        avatar_url: validatedData.avatar_url,
+        llm_config_id: validatedData.llm_config_id ?? null,
+        llm_temperature: validatedData.llm_temperature ?? null,
+        llm_tone: validatedData.llm_tone ?? null,
+        llm_behavior_instructions: validatedData.llm_behavior_instructions ?? null
       };
       
+      if (!(await validateWidgetLlmConfig(widgetData.llm_config_id))) {
+        return res.status(400).json({ message: "Configuração LLM do widget não encontrada" });
+      }
+      
       // Se tiver arquivo de avatar, processar e armazenar em base64
       if (req.file) {
         // Ler o arquivo e converter para base64
@@ -4211,11 +4389,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ]).optional(),
         default_height: z.string().optional(),
         default_width: z.string().optional(),
-        custom_css: z.string().optional()
+        custom_css: z.string().optional(),
+        ...widgetLlmFields,
+        category_ids: widgetCategoryIdsField
       });
       
       // Validar os dados
-      let updateData = schema.parse(req.body);
+      let { category_ids: categoryIds, ...updateData } = schema.parse(req.body);
+      
+      if (!(await validateWidgetLlmConfig(updateData.llm_config_id))) {
+        return res.status(400).json({ message: "Configuração LLM do widget não encontrada" });
+      }
+      
+      // Atualizar o escopo de conhecimento quando informado
+      if (categoryIds !== undefined) {
+        for (const categoryId of categoryIds) {
+          if (!(await storage.getTrainingCategory(categoryId))) {
+            return res.status(400).json({ message: `Categoria ${categoryId} não encontrada` });
+          }
+        }
+        await storage.setWidgetCategories(id, categoryIds);
+      }
       
       // Se tiver arquivo de avatar, processar e armazenar em base64
       if (req.file) {
@@ -4267,11 +4461,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await logAction({
         userId: req.user!.id,
         action: "widget_updated",
-        details: { widget_id: id, updates: updateData },
+        details: { widget_id: id, updates: updateData, category_ids: categoryIds },
         ipAddress: req.ip
       });
       
-      res.json(updatedWidget);
+      res.json({ ...updatedWidget, category_ids: categoryIds ?? await storage.getWidgetCategoryIds(id) });
     } catch (error) {
       console.error("Erro ao atualizar widget:", error);
       if (error instanceof z.ZodError) {
@@ -4619,6 +4813,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Rota para enviar mensagem para uma sessão de widget (pública)
   app.post("/api/public/widgets/sessions/:id/messages", async (req, res) => {
+    let streamChannel: SseChannel | null = null;
+    
     try {
       const { id } = req.params;
       const apiKey = req.headers["x-api-key"] as string;
@@ -4675,8 +4871,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         is_user: true
       });
       
-      // Obter configuração LLM ativa
-      const llmConfig = await storage.getActiveLlmConfig();
+      // Obter configuração LLM do widget (herda a configuração ativa nos campos não definidos)
+      const llmConfig = await getWidgetLlmConfig(widget);
       if (!llmConfig) {
         return res.status(500).json({ message: "Configuração LLM não encontrada" });
       }
@@ -4684,6 +4880,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Obter avatar ativo
       const avatar = await storage.getActiveAvatar();
       
+      if (wantsEventStream(req)) {
+        streamChannel = openEventStream(req, res);
+        streamChannel.send("user_message", userMessage);
+      }
+      
       // Processar a resposta da IA
       let aiResponse: string;
       try {
@@ -4691,29 +4892,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const messages = await storage.getWidgetSessionMessages(parseInt(id));
         
         // Converter a configuração LLM para o formato esperado pela função processTextMessage
-        const formattedLlmConfig: {
-          provider: 'anthropic' | 'openai',
-          modelName: string,
-          apiKey: string,
-          tone: 'formal' | 'normal' | 'casual',
-          behaviorInstructions: string,
-          shouldUseTrained: boolean
-        } = {
-          // Detecção de provider baseada no nome do modelo, não na chave API
-          provider: llmConfig.model_name.startsWith('gpt') ? 'openai' : 'anthropic',
-          modelName: llmConfig.model_name,
-          apiKey: llmConfig.api_key, // Usa a chave API diretamente, limpeza será feita nas funções getXXXClient
-          tone: (llmConfig.tone as 'formal' | 'normal' | 'casual') || 'normal',
-          behaviorInstructions: llmConfig.behavior_instructions || '',
-          shouldUseTrained: llmConfig.should_use_training !== false
-        };
+        const formattedLlmConfig = buildLlmFullConfig(llmConfig);
         
         // Processar a mensagem com o LLM
-        // Converter mensagens para o formato que a função processTextMessage espera
-        const messageHistory = messages.filter(m => m.id !== userMessage.id).map(m => ({
-          content: m.content || "",
-          role: m.is_user ? "user" : "assistant"
-        }));
+        // Histórico da sessão limitado pelo orçamento de tokens (mensagens antigas resumidas)
+        const messageHistory = await buildHistoryWindow(
+          buildConversationHistory(messages, userMessage.id),
+          { llmInfo: formattedLlmConfig }
+        );
         
         // CORREÇÃO CRÍTICA: A assinatura correta é (message, language, llmConfig, history, userId, widgetId)
         // Detectar idioma da mensagem
@@ -4731,7 +4917,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           formattedLlmConfig,
           messageHistory,
           widget.user_id,
-          session.widget_id
+          session.widget_id,
+          streamChannel ? createStreamListener(streamChannel) : undefined
         );
       } catch (error) {
         console.error("Erro ao processar mensagem com LLM:", error);
@@ -4748,12 +4935,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Incrementar contagem de mensagens para o usuário
       await storage.incrementMessageCount(widget.user_id);
       
+      if (streamChannel) {
+        streamChannel.send("done", { userMessage, aiMessage });
+        streamChannel.close();
+        return;
+      }
+      
       res.json({
         userMessage,
         aiMessage
       });
     } catch (error) {
       console.error("Erro ao enviar mensagem para widget:", error);
+      if (streamChannel) {
+        streamChannel.send("error", { message: "Erro ao enviar mensagem" });
+        streamChannel.close();
+        return;
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
           message: "Dados inválidos", 
@@ -5050,6 +5248,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // POST /api/widgets-messages - Envia uma mensagem para uma sessão (rota modificada para evitar conflito)
   app.post("/api/widgets-messages", async (req, res) => {
+    let streamChannel: SseChannel | null = null;
+    
     try {
       const { session_id, content, message_type = "text", is_user = true } = req.body;
       
@@ -5102,92 +5302,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Se a mensagem é do usuário, gerar resposta automática
       if (is_user) {
-        // Obter configuração LLM ativa
-        const llmConfig = await storage.getActiveLlmConfig();
+        // Obter configuração LLM do widget (herda a configuração ativa nos campos não definidos)
+        const llmConfig = await getWidgetLlmConfig(widget);
         if (!llmConfig) {
           return res.status(500).json({ message: "Configuração LLM não encontrada" });
         }
         
+        if (wantsEventStream(req)) {
+          streamChannel = openEventStream(req, res);
+          streamChannel.send("user_message", userMessage);
+        }
+        // Os tokens passam pelo mesmo filtro de segurança do texto final enviado no evento done
+        const streamListener = streamChannel ? createTechnicianFilterListener(createStreamListener(streamChannel)) : undefined;
+        
         // Processar a resposta da IA
         let aiResponse: string;
+        let aiSources: MessageSource[] = [];
+        let aiTrace: RetrievalTrace | undefined;
         try {
           // Obter o histórico de mensagens da sessão
           const messages = await storage.getWidgetSessionMessages(session_id);
           
           // Converter a configuração LLM para o formato esperado pela função processTextMessage
-          const formattedLlmConfig: {
-            provider: 'anthropic' | 'openai',
-            modelName: string,
-            apiKey: string,
-            tone: 'formal' | 'normal' | 'casual',
-            behaviorInstructions: string,
-            shouldUseTrained: boolean,
-            temperature: string
-          } = {
-            provider: llmConfig.model_name.startsWith('gpt') ? "openai" : "anthropic",
-            modelName: llmConfig.model_name,
-            apiKey: llmConfig.api_key,
-            tone: (llmConfig.tone as 'formal' | 'normal' | 'casual') || 'normal',
-            behaviorInstructions: llmConfig.behavior_instructions || '',
-            shouldUseTrained: llmConfig.should_use_training !== false,
-            temperature: llmConfig.temperature || '0.3'
-          };
+          const formattedLlmConfig = buildLlmFullConfig(llmConfig);
 
           // Processar a mensagem com o novo processador que incorpora documentos de treinamento
           console.log("Usando processador com documentos de treinamento para processar mensagem do widget");
           try {
             // Processar a mensagem com o LLM e documentos de treinamento
-            let rawResponse = await processChatWithTrainedDocuments(
+            const trainedResponse = await processChatWithTrainedDocuments(
               content,
               widget.user_id,
-              session.widget_id
+              session.widget_id,
+              true,
+              streamListener,
+              llmConfig,
+              buildConversationHistory(messages, userMessage.id),
+              session.language
             );
+            const rawResponse = trainedResponse.text;
+            aiSources = trainedResponse.sources;
+            aiTrace = trainedResponse.trace;
             
             // Filtro de segurança: remover qualquer recomendação de técnico especializado
-            const blockedPhrases = [
-              "técnico especializado", 
-              "especialista", 
-              "profissional qualificado",
-              "levar a um técnico",
-              "levar ao técnico",
-              "levar para análise",
-              "enviar para reparo",
-              "técnico para abrir",
-              "técnico para reparar",
-              "enviar para assistência",
-              "assistência técnica"
-            ];
-            
-            // Verificar se alguma dessas frases está na resposta
-            const containsBlockedPhrase = blockedPhrases.some(phrase => 
-              rawResponse.toLowerCase().includes(phrase.toLowerCase())
-            );
-            
-            if (containsBlockedPhrase) {
-              console.log("⚠️ ALERTA: Resposta contendo sugestão de buscar técnico detectada e bloqueada!");
-              
-              // Substituir a resposta por uma versão segura que NÃO menciona técnicos externos
-              rawResponse = rawResponse.replace(
-                /(?:levar|buscar|consultar|procurar)(?:\s+(?:a|um|o|para))?\s+(?:técnico|especialista|profissional)(?:\s+(?:especializado|qualificado|externo))?/gi,
-                "fazer os procedimentos descritos"
-              );
-              
-              // Substituir menções a abrir o dispositivo por técnicos
-              rawResponse = rawResponse.replace(
-                /(?:técnico|especialista|profissional)(?:\s+(?:para|deve))?\s+(?:abrir|desmontar|analisar|verificar)/gi,
-                "você pode verificar"
-              );
-              
-              // Remover sugestões de enviar para assistência
-              rawResponse = rawResponse.replace(
-                /(?:enviar|levar)(?:\s+(?:para|à|a))?\s+(?:assistência|autorizada|conserto|reparo)/gi,
-                "realizar diagnóstico adicional"
-              );
-              
-              console.log("🛡️ Resposta filtrada para remover referências a técnicos externos");
-            }
-            
-            aiResponse = rawResponse;
+            aiResponse = filterTechnicianReferences(rawResponse);
           } catch (error) {
             console.error("Erro ao processar mensagem com documentos de treinamento:", error);
             
@@ -5195,66 +5353,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
               // Fallback para o processador original se houver algum erro
               console.log("Usando processador original como fallback");
               
-              // Converter mensagens para o formato antigo
-              const messageHistory = messages.filter(m => m.id !== userMessage.id).map(m => ({
-                content: m.content || "",
-                role: m.is_user ? "user" : "assistant"
-              }));
+              // Histórico da sessão limitado pelo orçamento de tokens
+              const messageHistory = await buildHistoryWindow(
+                buildConversationHistory(messages, userMessage.id),
+                { llmInfo: formattedLlmConfig }
+              );
               
-              let fallbackResponse = await processTextMessage(
+              const fallbackResponse = await processTextMessage(
                 content,
                 session.language || "pt",
                 formattedLlmConfig,
                 messageHistory,
                 widget.user_id,
-                session.widget_id
+                session.widget_id,
+                streamListener
               );
               
               // Aplicar o mesmo filtro de segurança no processador de fallback
-              const blockedPhrases = [
-                "técnico especializado", 
-                "especialista", 
-                "profissional qualificado",
-                "levar a um técnico",
-                "levar ao técnico",
-                "levar para análise",
-                "enviar para reparo",
-                "técnico para abrir",
-                "técnico para reparar",
-                "enviar para assistência",
-                "assistência técnica"
-              ];
-              
-              // Verificar se alguma dessas frases está na resposta
-              const containsBlockedPhrase = blockedPhrases.some(phrase => 
-                fallbackResponse.toLowerCase().includes(phrase.toLowerCase())
-              );
-              
-              if (containsBlockedPhrase) {
-                console.log("⚠️ ALERTA: Resposta de fallback contendo sugestão de buscar técnico detectada e bloqueada!");
-                
-                // Substituir a resposta por uma versão segura que NÃO menciona técnicos externos
-                fallbackResponse = fallbackResponse.replace(
-                  /(?:levar|buscar|consultar|procurar)(?:\s+(?:a|um|o|para))?\s+(?:técnico|especialista|profissional)(?:\s+(?:especializado|qualificado|externo))?/gi,
-                  "fazer os procedimentos descritos"
-                );
-                
-                // Substituir menções a abrir o dispositivo por técnicos
-                fallbackResponse = fallbackResponse.replace(
-                  /(?:técnico|especialista|profissional)(?:\s+(?:para|deve))?\s+(?:abrir|desmontar|analisar|verificar)/gi,
-                  "você pode verificar"
-                );
-                
-                // Remover sugestões de enviar para assistência
-                fallbackResponse = fallbackResponse.replace(
-                  /(?:enviar|levar)(?:\s+(?:para|à|a))?\s+(?:assistência|autorizada|conserto|reparo)/gi,
-                  "realizar diagnóstico adicional"
-                );
-                
-                console.log("🛡️ Resposta de fallback filtrada para remover referências a técnicos externos");
-              }
-              
-              aiResponse = fallbackResponse;
+              aiResponse = filterTechnicianReferences(fallbackResponse);
             } catch (fallbackError) {
               console.error("Erro também no processador de fallback:", fallbackError);
               
@@ -5295,26 +5411,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Criar uma mensagem para cada parte da resposta
           const aiMessages = [];
+          // Cada parte guarda as fontes citadas nela; sem citações no texto, as fontes vão na última parte
+          const hasCitations = aiSources.some(source => aiResponse.includes(`[${source.id}]`));
           
           for (let i = 0; i < responseParts.length; i++) {
             const part = responseParts[i];
+            const partSources = hasCitations
+              ? aiSources.filter(source => part.includes(`[${source.id}]`))
+              : (i === responseParts.length - 1 ? aiSources : []);
             
             // Criar a mensagem da IA para esta parte
             const aiMessage = await storage.createWidgetChatMessage({
               session_id,
               content: part,
               message_type: "text",
+              sources: partSources.length > 0 ? partSources : null,
               is_user: false
             });
             
             aiMessages.push(aiMessage);
             
+            // O rastreamento fica na primeira parte da resposta
+            if (i === 0) {
+              await saveRetrievalTrace('widget', aiMessage.id, aiTrace);
+            }
+            
             // Incrementar contagem de mensagens para o usuário (apenas uma vez por resposta)
             if (i === 0) {
               await storage.incrementMessageCount(widget.user_id);
             }
           }
           
+          if (streamChannel) {
+            streamChannel.send("done", { userMessage, aiMessage: aiMessages[0], aiMessages, hasMoreParts: aiMessages.length > 1 });
+            streamChannel.close();
+            return;
+          }
+          
           // Responder com a mensagem do usuário e a primeira parte da resposta da IA
           res.json({
             userMessage,
@@ -5328,12 +5461,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
             session_id,
             content: aiResponse,
             message_type: "text",
+            sources: aiSources.length > 0 ? aiSources : null,
             is_user: false
           });
+          await saveRetrievalTrace('widget', aiMessage.id, aiTrace);
           
           // Incrementar contagem de mensagens para o usuário
           await storage.incrementMessageCount(widget.user_id);
           
+          if (streamChannel) {
+            streamChannel.send("done", { userMessage, aiMessage });
+            streamChannel.close();
+            return;
+          }
+          
           res.json({
             userMessage,
             aiMessage
@@ -5345,6 +5486,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       console.error("Erro ao enviar mensagem para widget:", error);
+      if (streamChannel) {
+        streamChannel.send("error", { message: "Erro ao enviar mensagem" });
+        streamChannel.close();
+        return;
+      }
       res.status(500).json({ message: "Erro ao enviar mensagem" });
     }
   });
@@ -5459,13 +5605,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Incrementar contagem de mensagens para o usuário (enviada pelo visitante)
       await storage.incrementMessageCount(widget.user_id);
       
+      // Configuração LLM do widget (herda a configuração ativa nos campos não definidos)
+      const widgetLlmConfig = await getWidgetLlmConfig(widget);
+      const formattedLlmConfig = widgetLlmConfig ? buildLlmFullConfig(widgetLlmConfig) : undefined;
+      
       // Se é uma imagem, analisar com IA
       let aiResponse = "";
       if (isImage) {
         try {
           // Usar a linguagem da sessão do widget em vez de tentar obter do llmConfig
           // que não tem essa propriedade
-          aiResponse = await analyzeImage(file.path, session.language, undefined, session.widget_id);
+          aiResponse = await analyzeImage(file.path, session.language, undefined, session.widget_id, formattedLlmConfig);
         } catch (error) {
           console.error("Erro ao analisar imagem:", error);
           aiResponse = "Desculpe, não foi possível analisar essa imagem.";
@@ -5475,7 +5625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         try {
           if (file.mimetype === 'application/pdf' || file.mimetype === 'text/plain') {
             // Usar a linguagem da sessão do widget em vez de tentar obter do llmConfig
-            aiResponse = await analyzeFile(file.path, session.language, undefined, widget.user_id, session.widget_id);
+            aiResponse = await analyzeFile(file.path, session.language, formattedLlmConfig, widget.user_id, session.widget_id);
           } else {
             aiResponse = "Recebi seu arquivo. Como posso ajudar com ele?";
           }
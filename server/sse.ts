@@ -0,0 +1,94 @@
+import type { Request, Response } from "express";
+import type { LlmStreamListener } from "./llm-providers";
+
+/**
+ * Utilitários para respostas Server-Sent Events (SSE)
+ *
+ * O cliente pede streaming com o header "Accept: text/event-stream" ou com ?stream=1.
+ * Eventos emitidos pelas rotas de chat:
+ *   user_message - mensagem do usuário já persistida
+ *   token        - trecho de texto da resposta ({ delta })
+ *   reset        - a resposta parcial deve ser descartada (nova tentativa do processador)
+ *   done         - resposta final persistida
+ *   error        - falha no processamento ({ message })
+ * Evento da rota de progresso da ingestão (GET /api/training/documents/:id/progress):
+ *   progress     - fase e progresso do documento (IngestionProgressEvent)
+ */
+
+export interface SseChannel {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  isClosed: () => boolean;
+}
+
+// Intervalo do comentário de keep-alive, evita que proxies encerrem a conexão ociosa
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export function wantsEventStream(req: Request): boolean {
+  const streamParam = req.query.stream;
+  if (streamParam === "1" || streamParam === "true") {
+    return true;
+  }
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+export function openEventStream(req: Request, res: Response): SseChannel {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Desativar buffering do nginx
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      res.write(": ping\n\n");
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    res.end();
+  };
+
+  // O cliente pode fechar a aba no meio da resposta; o processamento continua e persiste a mensagem
+  req.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+  });
+
+  return {
+    send: (event: string, data: unknown) => {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close,
+    isClosed: () => closed
+  };
+}
+
+/**
+ * Cria um listener de LLM que repassa os tokens para o canal SSE.
+ * O evento reset só é enviado quando já houve tokens da tentativa anterior.
+ */
+export function createStreamListener(channel: SseChannel): LlmStreamListener {
+  let hasTokens = false;
+
+  return {
+    onToken: (delta: string) => {
+      hasTokens = true;
+      channel.send("token", { delta });
+    },
+    onReset: () => {
+      if (hasTokens) {
+        hasTokens = false;
+        channel.send("reset", {});
+      }
+    }
+  };
+}
@@ -16,7 +16,16 @@ import {
   knowledgeBase, KnowledgeBase, InsertKnowledgeBase,
   llmUsageLogs, LlmUsageLog, InsertLlmUsageLog,
   documentChunks, DocumentChunk, InsertDocumentChunk,
-  technicalTopics, TechnicalTopic, InsertTechnicalTopic
+  technicalTopics, TechnicalTopic, InsertTechnicalTopic,
+  ragEvalSets, RagEvalSet, InsertRagEvalSet,
+  ragEvalQuestions, RagEvalQuestion, InsertRagEvalQuestion,
+  ragEvalRuns, RagEvalRun, InsertRagEvalRun,
+  ragEvalResults, RagEvalResult, InsertRagEvalResult,
+  retrievalTraces, RetrievalTraceRecord, InsertRetrievalTraceRecord,
+  embeddingJobs, EmbeddingJob, InsertEmbeddingJob,
+  responseCache, ResponseCacheEntry, InsertResponseCacheEntry, responseCacheStats, ResponseCacheStats,
+  documentJobs, DocumentJob, InsertDocumentJob,
+  EMBEDDING_DIMENSIONS, ChunkMetadataFilter
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
@@ -66,6 +75,9 @@ export interface IStorage {
   createLlmConfig(config: InsertLlmConfig): Promise<LlmConfig>;
   updateLlmConfig(id: number, data: Partial<LlmConfig>): Promise<LlmConfig | undefined>;
   setActiveLlmConfig(id: number): Promise<LlmConfig | undefined>;
+  getLlmConfigs(): Promise<LlmConfig[]>;
+  getLlmFallbackConfigs(): Promise<LlmConfig[]>;
+  setLlmFallbackOrder(configIds: number[]): Promise<void>;
   
   // LLM usage logging já declarado no início da interface
   
@@ -122,13 +134,28 @@ export interface IStorage {
   getDocumentChunksByDocument(documentId: number): Promise<DocumentChunk[]>;
   deleteDocumentChunk(id: number): Promise<void>;
   deleteDocumentChunksByDocument(documentId: number): Promise<void>;
+  updateDocumentChunkIndex(id: number, chunkIndex: number): Promise<void>;
+  updateDocumentChunkMetadata(id: number, metadata: { brand: string | null; device_models: string[]; board_revision: string | null }): Promise<void>;
+  // Chunk com embedding do modelo informado e o mesmo conteúdo (hash), de qualquer documento; usado para reaproveitar embeddings
+  findDocumentChunkByContentHash(contentHash: string, embeddingModel: string): Promise<DocumentChunk | undefined>;
+  
+  // Migração de embeddings entre modelos
+  countDocumentChunksNeedingEmbedding(embeddingModel: string): Promise<number>;
+  getDocumentChunksNeedingEmbedding(embeddingModel: string, afterId: number, limit: number): Promise<DocumentChunk[]>;
+  updateDocumentChunkEmbedding(id: number, embedding: number[], embeddingModel: string): Promise<void>;
+  getEmbeddingModelStats(): Promise<Array<{ embedding_model: string | null; embedding_dim: number | null; count: number }>>;
+  getEmbeddingJob(id: number): Promise<EmbeddingJob | undefined>;
+  getLatestEmbeddingJob(): Promise<EmbeddingJob | undefined>;
+  getRunningEmbeddingJobs(): Promise<EmbeddingJob[]>;
+  createEmbeddingJob(job: InsertEmbeddingJob): Promise<EmbeddingJob>;
+  updateEmbeddingJob(id: number, data: Partial<EmbeddingJob>): Promise<EmbeddingJob | undefined>;
   getTrainingDocuments(): Promise<TrainingDocument[]>;
   createTrainingDocument(document: InsertTrainingDocument): Promise<TrainingDocument>;
   updateTrainingDocument(id: number, data: Partial<TrainingDocument>): Promise<TrainingDocument | undefined>;
   deleteTrainingDocument(id: number): Promise<void>;
   updateTrainingDocumentStatus(id: number, status: string, errorMessage?: string): Promise<TrainingDocument | undefined>;
   searchTrainingDocuments(terms: string[]): Promise<TrainingDocument[]>;
-  getDocumentsByTopics(topics: string[]): Promise<{name: string, content: string}[]>;
+  getDocumentsByTopics(topics: string[], documentIds?: number[]): Promise<{id: number, name: string, content: string}[]>;
   
   // Training categories
   getTrainingCategory(id: number): Promise<TrainingCategory | undefined>;
@@ -142,6 +169,14 @@ export interface IStorage {
   removeDocumentFromCategory(documentId: number, categoryId: number): Promise<void>;
   getDocumentCategories(documentId: number): Promise<TrainingCategory[]>;
   getCategoryDocuments(categoryId: number): Promise<TrainingDocument[]>;
+  getDocumentIdsByCategories(categoryIds: number[]): Promise<number[]>;
+  // Valores distintos de marca, modelo e revisão dos documentos ativos (inferência de filtros da consulta)
+  getDocumentMetadataVocabulary(): Promise<{ brands: string[]; device_models: string[]; board_revisions: string[] }>;
+  
+  // Widget categories (escopo de conhecimento do widget)
+  getWidgetCategoryIds(widgetId: string): Promise<number[]>;
+  setWidgetCategories(widgetId: string, categoryIds: number[]): Promise<void>;
+  getCategoryWidgetIds(categoryId: number): Promise<string[]>;
   
   // Plan features management
   getPlanFeature(id: number): Promise<PlanFeature | undefined>;
@@ -181,7 +216,7 @@ export interface IStorage {
   // Knowledge Base management - já declarado anteriormente
   getKnowledgeEntriesBySourceType(sourceType: string, language: string): Promise<KnowledgeBase[]>;
   getVerifiedKnowledgeEntries(language: string): Promise<KnowledgeBase[]>;
-  findSimilarKnowledge(embedding: number[], language: string, limit?: number): Promise<KnowledgeBase[]>;
+  findSimilarKnowledge(embedding: number[], language: 'pt' | 'en', limit?: number): Promise<KnowledgeBase[]>;
   
   // Chat widgets management
   getChatWidget(id: string): Promise<ChatWidget | undefined>;
@@ -206,6 +241,51 @@ export interface IStorage {
   getWidgetSessionMessages(sessionId: number): Promise<WidgetChatMessage[]>;
   getAllWidgetChatMessages(): Promise<WidgetChatMessage[]>;
   createWidgetChatMessage(message: InsertWidgetChatMessage): Promise<WidgetChatMessage>;
+  
+  // Avaliação do RAG (conjuntos de perguntas, execuções e resultados)
+  getRagEvalSets(): Promise<RagEvalSet[]>;
+  getRagEvalSet(id: number): Promise<RagEvalSet | undefined>;
+  createRagEvalSet(set: InsertRagEvalSet): Promise<RagEvalSet>;
+  updateRagEvalSet(id: number, data: Partial<RagEvalSet>): Promise<RagEvalSet | undefined>;
+  deleteRagEvalSet(id: number): Promise<void>;
+  getRagEvalQuestions(setId: number): Promise<RagEvalQuestion[]>;
+  createRagEvalQuestion(question: InsertRagEvalQuestion): Promise<RagEvalQuestion>;
+  updateRagEvalQuestion(id: number, data: Partial<RagEvalQuestion>): Promise<RagEvalQuestion | undefined>;
+  deleteRagEvalQuestion(id: number): Promise<void>;
+  getRagEvalRuns(setId: number): Promise<RagEvalRun[]>;
+  getRagEvalRun(id: number): Promise<RagEvalRun | undefined>;
+  createRagEvalRun(run: InsertRagEvalRun): Promise<RagEvalRun>;
+  updateRagEvalRun(id: number, data: Partial<RagEvalRun>): Promise<RagEvalRun | undefined>;
+  getRagEvalResults(runId: number): Promise<RagEvalResult[]>;
+  createRagEvalResult(result: InsertRagEvalResult): Promise<RagEvalResult>;
+  
+  // Rastreamento da recuperação das respostas do bot
+  createRetrievalTrace(record: InsertRetrievalTraceRecord): Promise<RetrievalTraceRecord>;
+  getRetrievalTraceByMessage(source: 'chat' | 'widget', messageId: number): Promise<RetrievalTraceRecord | undefined>;
+  getRecentRetrievalTraces(limit?: number): Promise<RetrievalTraceRecord[]>;
+  
+  // Cache semântico de respostas
+  findCachedResponse(
+    embedding: number[],
+    options: { scopeKey: string; embeddingModel: string; minSimilarity: number }
+  ): Promise<(ResponseCacheEntry & { similarity: number }) | undefined>;
+  createCachedResponse(entry: InsertResponseCacheEntry): Promise<ResponseCacheEntry>;
+  recordCachedResponseHit(id: number): Promise<void>;
+  deleteCachedResponsesByDocuments(documentIds: number[]): Promise<number>;
+  clearResponseCache(): Promise<number>;
+  recordResponseCacheLookup(hit: boolean): Promise<void>;
+  getResponseCacheStats(days: number): Promise<{ entries: number; daily: ResponseCacheStats[] }>;
+  
+  // Fila de processamento de documentos
+  createDocumentJob(job: InsertDocumentJob): Promise<DocumentJob>;
+  claimDocumentJobs(workerId: string, limit: number, leaseMs: number): Promise<DocumentJob[]>;
+  renewDocumentJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean>;
+  // conditions: a atualização só é aplicada se o job ainda estiver no status ou reservado pelo worker informado
+  updateDocumentJob(id: number, data: Partial<DocumentJob>, conditions?: { status?: DocumentJob["status"]; lockedBy?: string }): Promise<DocumentJob | undefined>;
+  getDocumentJob(id: number): Promise<DocumentJob | undefined>;
+  getDocumentJobs(options?: { status?: DocumentJob["status"]; documentId?: number; limit?: number }): Promise<DocumentJob[]>;
+  getActiveDocumentJob(documentId: number): Promise<DocumentJob | undefined>;
+  getDocumentJobStats(): Promise<Array<{ status: DocumentJob["status"]; count: number }>>;
 }
 
 export class MemStorage implements IStorage {
@@ -251,7 +331,8 @@ export class MemStorage implements IStorage {
       widget_id: log.widget_id || null,
       token_count: log.token_count || 0,
       success: log.success !== undefined ? log.success : true,
-      error_message: log.error_message || null
+      error_message: log.error_message || null,
+      failover_to: log.failover_to || null
     };
     
     this.llmUsageLogs.set(id, usageLog);
@@ -354,6 +435,7 @@ export class MemStorage implements IStorage {
   private trainingDocuments: Map<number, TrainingDocument>;
   private trainingCategories: Map<number, TrainingCategory>;
   private documentCategories: Map<number, DocumentCategory>;
+  private widgetCategories: Map<string, number[]>;
   private planFeatures: Map<number, PlanFeature>;
   private planPricing: Map<number, PlanPricing>;
   private analysisReports: Map<number, AnalysisReport>;
@@ -363,6 +445,15 @@ export class MemStorage implements IStorage {
   private widgetChatMessages: Map<number, WidgetChatMessage>;
   private knowledgeBase: Map<number, KnowledgeBase>;
   private llmUsageLogs: Map<number, LlmUsageLog>;
+  private ragEvalSets: Map<number, RagEvalSet>;
+  private ragEvalQuestions: Map<number, RagEvalQuestion>;
+  private ragEvalRuns: Map<number, RagEvalRun>;
+  private ragEvalResults: Map<number, RagEvalResult>;
+  private retrievalTraces: Map<number, RetrievalTraceRecord>;
+  private embeddingJobs: Map<number, EmbeddingJob>;
+  private responseCacheEntries: Map<number, ResponseCacheEntry>;
+  private responseCacheStats: Map<string, ResponseCacheStats>;
+  private documentJobs: Map<number, DocumentJob>;
   
   sessionStore: session.Store;
   
@@ -385,6 +476,14 @@ export class MemStorage implements IStorage {
     widgetChatMessageId: number;
     knowledgeBaseId: number;
     llmUsageLogId: number;
+    ragEvalSetId: number;
+    ragEvalQuestionId: number;
+    ragEvalRunId: number;
+    ragEvalResultId: number;
+    retrievalTraceId: number;
+    embeddingJobId: number;
+    responseCacheId: number;
+    documentJobId: number;
   };
 
   constructor() {
@@ -399,6 +498,7 @@ export class MemStorage implements IStorage {
     this.trainingDocuments = new Map();
     this.trainingCategories = new Map();
     this.documentCategories = new Map();
+    this.widgetCategories = new Map();
     this.planFeatures = new Map();
     this.planPricing = new Map();
     this.knowledgeBase = new Map();
@@ -408,6 +508,15 @@ export class MemStorage implements IStorage {
     this.widgetChatSessions = new Map();
     this.widgetChatMessages = new Map();
     this.llmUsageLogs = new Map();
+    this.ragEvalSets = new Map();
+    this.ragEvalQuestions = new Map();
+    this.ragEvalRuns = new Map();
+    this.ragEvalResults = new Map();
+    this.retrievalTraces = new Map();
+    this.embeddingJobs = new Map();
+    this.responseCacheEntries = new Map();
+    this.responseCacheStats = new Map();
+    this.documentJobs = new Map();
     
     this.currentIds = {
       userId: 1,
@@ -427,7 +536,15 @@ export class MemStorage implements IStorage {
       widgetChatSessionId: 1,
       widgetChatMessageId: 1,
       knowledgeBaseId: 1,
-      llmUsageLogId: 1
+      llmUsageLogId: 1,
+      ragEvalSetId: 1,
+      ragEvalQuestionId: 1,
+      ragEvalRunId: 1,
+      ragEvalResultId: 1,
+      retrievalTraceId: 1,
+      embeddingJobId: 1,
+      responseCacheId: 1,
+      documentJobId: 1
     };
     
     this.sessionStore = new MemoryStore({
@@ -528,6 +645,10 @@ export class MemStorage implements IStorage {
     
     const llmConfig: LlmConfig = {
       ...config,
+      provider: config.provider || 'anthropic',
+      base_url: config.base_url ?? null,
+      grounding_mode: config.grounding_mode || 'off',
+      fallback_order: null,
       id,
       is_active: isActive,
       created_at: now,
@@ -564,7 +685,7 @@ export class MemStorage implements IStorage {
     // Registrar a alteração do modelo ativo
     await this.logLlmUsage({
       model_name: config.model_name,
-      provider: config.model_name.split('/')[0].toLowerCase(),
+      provider: config.provider,
       operation_type: "test",
       success: true
     });
@@ -572,6 +693,24 @@ export class MemStorage implements IStorage {
     return this.llmConfigs.get(id);
   }
   
+  async getLlmConfigs(): Promise<LlmConfig[]> {
+    return Array.from(this.llmConfigs.values())
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+  
+  async getLlmFallbackConfigs(): Promise<LlmConfig[]> {
+    return Array.from(this.llmConfigs.values())
+      .filter(config => config.fallback_order !== null)
+      .sort((a, b) => (a.fallback_order ?? 0) - (b.fallback_order ?? 0));
+  }
+  
+  async setLlmFallbackOrder(configIds: number[]): Promise<void> {
+    for (const [configId, llmConfig] of Array.from(this.llmConfigs.entries())) {
+      const position = configIds.indexOf(configId);
+      this.llmConfigs.set(configId, { ...llmConfig, fallback_order: position >= 0 ? position + 1 : null });
+    }
+  }
+  
   // Estes métodos foram removidos pois duplicam a funcionalidade do método principal getLlmUsageLogs com opções
   // O método principal que aceita opções já foi implementado acima e deve ser usado para consultar os logs
   
@@ -831,6 +970,8 @@ export class MemStorage implements IStorage {
     const newDocument: TrainingDocument = {
       ...document,
       id,
+      kind: document.kind ?? "reference",
+      priority: document.priority ?? 0,
       is_active: true,
       created_at: now,
       updated_at: now
@@ -969,6 +1110,41 @@ export class MemStorage implements IStorage {
       .filter(doc => doc.is_active && documentIds.includes(doc.id))
       .sort((a, b) => a.name.localeCompare(b.name));
   }
+  
+  async getDocumentIdsByCategories(categoryIds: number[]): Promise<number[]> {
+    const documentIds = Array.from(this.documentCategories.values())
+      .filter(docCat => categoryIds.includes(docCat.category_id))
+      .map(docCat => docCat.document_id);
+    
+    return Array.from(new Set(documentIds));
+  }
+  
+  async getDocumentMetadataVocabulary(): Promise<{ brands: string[]; device_models: string[]; board_revisions: string[] }> {
+    const documents = Array.from(this.trainingDocuments.values()).filter(doc => doc.is_active);
+    const distinct = (values: Array<string | null>) =>
+      Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+    
+    return {
+      brands: distinct(documents.map(doc => doc.brand)),
+      device_models: distinct(documents.reduce<string[]>((all, doc) => all.concat(doc.device_models || []), [])),
+      board_revisions: distinct(documents.map(doc => doc.board_revision))
+    };
+  }
+  
+  // Widget categories
+  async getWidgetCategoryIds(widgetId: string): Promise<number[]> {
+    return this.widgetCategories.get(widgetId) || [];
+  }
+  
+  async setWidgetCategories(widgetId: string, categoryIds: number[]): Promise<void> {
+    this.widgetCategories.set(widgetId, Array.from(new Set(categoryIds)));
+  }
+  
+  async getCategoryWidgetIds(categoryId: number): Promise<string[]> {
+    return Array.from(this.widgetCategories.entries())
+      .filter(([, categoryIds]) => categoryIds.includes(categoryId))
+      .map(([widgetId]) => widgetId);
+  }
 
   // Plan features management
   async getPlanFeature(id: number): Promise<PlanFeature | undefined> {
@@ -1390,6 +1566,386 @@ export class MemStorage implements IStorage {
     return widgetMessage;
   }
   
+  // Avaliação do RAG
+  async getRagEvalSets(): Promise<RagEvalSet[]> {
+    return Array.from(this.ragEvalSets.values())
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+  
+  async getRagEvalSet(id: number): Promise<RagEvalSet | undefined> {
+    return this.ragEvalSets.get(id);
+  }
+  
+  async createRagEvalSet(set: InsertRagEvalSet): Promise<RagEvalSet> {
+    const id = this.currentIds.ragEvalSetId++;
+    const now = new Date();
+    const evalSet: RagEvalSet = {
+      id,
+      name: set.name,
+      description: set.description ?? null,
+      created_by: set.created_by,
+      created_at: now,
+      updated_at: now
+    };
+    this.ragEvalSets.set(id, evalSet);
+    return evalSet;
+  }
+  
+  async updateRagEvalSet(id: number, data: Partial<RagEvalSet>): Promise<RagEvalSet | undefined> {
+    const evalSet = this.ragEvalSets.get(id);
+    if (!evalSet) return undefined;
+    
+    const updatedSet = { ...evalSet, ...data, updated_at: new Date() };
+    this.ragEvalSets.set(id, updatedSet);
+    return updatedSet;
+  }
+  
+  async deleteRagEvalSet(id: number): Promise<void> {
+    this.ragEvalSets.delete(id);
+    for (const question of Array.from(this.ragEvalQuestions.values())) {
+      if (question.set_id === id) this.ragEvalQuestions.delete(question.id);
+    }
+    for (const run of Array.from(this.ragEvalRuns.values())) {
+      if (run.set_id !== id) continue;
+      this.ragEvalRuns.delete(run.id);
+      for (const result of Array.from(this.ragEvalResults.values())) {
+        if (result.run_id === run.id) this.ragEvalResults.delete(result.id);
+      }
+    }
+  }
+  
+  async getRagEvalQuestions(setId: number): Promise<RagEvalQuestion[]> {
+    return Array.from(this.ragEvalQuestions.values())
+      .filter(question => question.set_id === setId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createRagEvalQuestion(question: InsertRagEvalQuestion): Promise<RagEvalQuestion> {
+    const id = this.currentIds.ragEvalQuestionId++;
+    const evalQuestion: RagEvalQuestion = {
+      id,
+      set_id: question.set_id,
+      question: question.question,
+      expected_answer: question.expected_answer,
+      expected_document_ids: question.expected_document_ids ?? [],
+      language: question.language ?? "pt",
+      created_at: new Date()
+    };
+    this.ragEvalQuestions.set(id, evalQuestion);
+    return evalQuestion;
+  }
+  
+  async updateRagEvalQuestion(id: number, data: Partial<RagEvalQuestion>): Promise<RagEvalQuestion | undefined> {
+    const question = this.ragEvalQuestions.get(id);
+    if (!question) return undefined;
+    
+    const updatedQuestion = { ...question, ...data };
+    this.ragEvalQuestions.set(id, updatedQuestion);
+    return updatedQuestion;
+  }
+  
+  async deleteRagEvalQuestion(id: number): Promise<void> {
+    this.ragEvalQuestions.delete(id);
+  }
+  
+  async getRagEvalRuns(setId: number): Promise<RagEvalRun[]> {
+    return Array.from(this.ragEvalRuns.values())
+      .filter(run => run.set_id === setId)
+      .sort((a, b) => b.started_at.getTime() - a.started_at.getTime());
+  }
+  
+  async getRagEvalRun(id: number): Promise<RagEvalRun | undefined> {
+    return this.ragEvalRuns.get(id);
+  }
+  
+  async createRagEvalRun(run: InsertRagEvalRun): Promise<RagEvalRun> {
+    const id = this.currentIds.ragEvalRunId++;
+    const evalRun: RagEvalRun = {
+      id,
+      set_id: run.set_id,
+      status: "running",
+      label: run.label ?? null,
+      config: run.config ?? null,
+      question_count: run.question_count ?? 0,
+      hit_rate: null,
+      mrr: null,
+      answer_score: null,
+      error_message: null,
+      created_by: run.created_by ?? null,
+      started_at: new Date(),
+      completed_at: null
+    };
+    this.ragEvalRuns.set(id, evalRun);
+    return evalRun;
+  }
+  
+  async updateRagEvalRun(id: number, data: Partial<RagEvalRun>): Promise<RagEvalRun | undefined> {
+    const run = this.ragEvalRuns.get(id);
+    if (!run) return undefined;
+    
+    const updatedRun = { ...run, ...data };
+    this.ragEvalRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+  
+  async getRagEvalResults(runId: number): Promise<RagEvalResult[]> {
+    return Array.from(this.ragEvalResults.values())
+      .filter(result => result.run_id === runId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createRagEvalResult(result: InsertRagEvalResult): Promise<RagEvalResult> {
+    const id = this.currentIds.ragEvalResultId++;
+    const evalResult: RagEvalResult = {
+      id,
+      run_id: result.run_id,
+      question_id: result.question_id,
+      answer: result.answer ?? null,
+      retrieved_document_ids: result.retrieved_document_ids ?? [],
+      hit: result.hit ?? false,
+      reciprocal_rank: result.reciprocal_rank ?? 0,
+      answer_score: result.answer_score ?? null,
+      judge_reasoning: result.judge_reasoning ?? null,
+      latency_ms: result.latency_ms ?? null,
+      error_message: result.error_message ?? null,
+      created_at: new Date()
+    };
+    this.ragEvalResults.set(id, evalResult);
+    return evalResult;
+  }
+  
+  async createRetrievalTrace(record: InsertRetrievalTraceRecord): Promise<RetrievalTraceRecord> {
+    const id = this.currentIds.retrievalTraceId++;
+    const traceRecord: RetrievalTraceRecord = {
+      id,
+      chat_message_id: record.chat_message_id ?? null,
+      widget_message_id: record.widget_message_id ?? null,
+      trace: record.trace,
+      created_at: new Date()
+    };
+    this.retrievalTraces.set(id, traceRecord);
+    return traceRecord;
+  }
+  
+  async getRetrievalTraceByMessage(source: 'chat' | 'widget', messageId: number): Promise<RetrievalTraceRecord | undefined> {
+    return Array.from(this.retrievalTraces.values()).find(record =>
+      source === 'chat' ? record.chat_message_id === messageId : record.widget_message_id === messageId
+    );
+  }
+  
+  async getRecentRetrievalTraces(limit: number = 50): Promise<RetrievalTraceRecord[]> {
+    return Array.from(this.retrievalTraces.values())
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+      .slice(0, limit);
+  }
+  
+  async getEmbeddingJob(id: number): Promise<EmbeddingJob | undefined> {
+    return this.embeddingJobs.get(id);
+  }
+  
+  async getLatestEmbeddingJob(): Promise<EmbeddingJob | undefined> {
+    return Array.from(this.embeddingJobs.values())
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async getRunningEmbeddingJobs(): Promise<EmbeddingJob[]> {
+    return Array.from(this.embeddingJobs.values())
+      .filter(job => job.status === "running");
+  }
+  
+  async createEmbeddingJob(job: InsertEmbeddingJob): Promise<EmbeddingJob> {
+    const id = this.currentIds.embeddingJobId++;
+    const now = new Date();
+    const embeddingJob: EmbeddingJob = {
+      id,
+      status: "running",
+      target_model: job.target_model,
+      total: job.total ?? 0,
+      processed: 0,
+      reused: 0,
+      failed: 0,
+      last_chunk_id: 0,
+      error_message: null,
+      created_by: job.created_by ?? null,
+      started_at: now,
+      updated_at: now,
+      completed_at: null
+    };
+    this.embeddingJobs.set(id, embeddingJob);
+    return embeddingJob;
+  }
+  
+  async updateEmbeddingJob(id: number, data: Partial<EmbeddingJob>): Promise<EmbeddingJob | undefined> {
+    const job = this.embeddingJobs.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...data, updated_at: new Date() };
+    this.embeddingJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async findCachedResponse(
+    embedding: number[],
+    options: { scopeKey: string; embeddingModel: string; minSimilarity: number }
+  ): Promise<(ResponseCacheEntry & { similarity: number }) | undefined> {
+    // Busca por similaridade depende do pgvector; sem banco o cache nunca acerta
+    return undefined;
+  }
+  
+  async createCachedResponse(entry: InsertResponseCacheEntry): Promise<ResponseCacheEntry> {
+    const id = this.currentIds.responseCacheId++;
+    const cacheEntry: ResponseCacheEntry = {
+      id,
+      scope_key: entry.scope_key,
+      query: entry.query,
+      embedding_vector: entry.embedding_vector,
+      embedding_model: entry.embedding_model,
+      response: entry.response,
+      sources: entry.sources ?? [],
+      document_ids: entry.document_ids ?? [],
+      hit_count: 0,
+      created_at: new Date(),
+      last_hit_at: null,
+      expires_at: entry.expires_at
+    };
+    this.responseCacheEntries.set(id, cacheEntry);
+    return cacheEntry;
+  }
+  
+  async recordCachedResponseHit(id: number): Promise<void> {
+    const entry = this.responseCacheEntries.get(id);
+    if (entry) {
+      this.responseCacheEntries.set(id, { ...entry, hit_count: entry.hit_count + 1, last_hit_at: new Date() });
+    }
+  }
+  
+  async deleteCachedResponsesByDocuments(documentIds: number[]): Promise<number> {
+    let deleted = 0;
+    for (const entry of Array.from(this.responseCacheEntries.values())) {
+      if (entry.document_ids.some(id => documentIds.includes(id))) {
+        this.responseCacheEntries.delete(entry.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+  
+  async clearResponseCache(): Promise<number> {
+    const deleted = this.responseCacheEntries.size;
+    this.responseCacheEntries.clear();
+    return deleted;
+  }
+  
+  async recordResponseCacheLookup(hit: boolean): Promise<void> {
+    const day = new Date().toISOString().substring(0, 10);
+    const stats = this.responseCacheStats.get(day) || { day, hits: 0, misses: 0 };
+    this.responseCacheStats.set(day, hit ? { ...stats, hits: stats.hits + 1 } : { ...stats, misses: stats.misses + 1 });
+  }
+  
+  async getResponseCacheStats(days: number): Promise<{ entries: number; daily: ResponseCacheStats[] }> {
+    const daily = Array.from(this.responseCacheStats.values())
+      .sort((a, b) => b.day.localeCompare(a.day))
+      .slice(0, days);
+    return { entries: this.responseCacheEntries.size, daily };
+  }
+  
+  async createDocumentJob(job: InsertDocumentJob): Promise<DocumentJob> {
+    const id = this.currentIds.documentJobId++;
+    const now = new Date();
+    const documentJob: DocumentJob = {
+      id,
+      document_id: job.document_id,
+      type: job.type,
+      status: "pending",
+      attempts: 0,
+      max_attempts: job.max_attempts ?? 5,
+      run_at: job.run_at ?? now,
+      locked_by: null,
+      lease_expires_at: null,
+      last_error: null,
+      created_by: job.created_by ?? null,
+      created_at: now,
+      updated_at: now,
+      completed_at: null
+    };
+    this.documentJobs.set(id, documentJob);
+    return documentJob;
+  }
+  
+  async claimDocumentJobs(workerId: string, limit: number, leaseMs: number): Promise<DocumentJob[]> {
+    const now = new Date();
+    const jobs = Array.from(this.documentJobs.values());
+    // Um job de continuação espera o job em execução do mesmo documento terminar
+    const runningDocumentIds = new Set(jobs.filter(job => job.status === "running").map(job => job.document_id));
+    const claimable = jobs
+      .filter(job =>
+        (job.status === "pending" && job.run_at <= now && !runningDocumentIds.has(job.document_id)) ||
+        (job.status === "running" && !!job.lease_expires_at && job.lease_expires_at < now)
+      )
+      .sort((a, b) => a.run_at.getTime() - b.run_at.getTime() || a.id - b.id)
+      .slice(0, limit);
+    
+    return claimable.map(job => {
+      const claimed: DocumentJob = {
+        ...job,
+        status: "running",
+        locked_by: workerId,
+        lease_expires_at: new Date(now.getTime() + leaseMs),
+        attempts: job.attempts + 1,
+        updated_at: now
+      };
+      this.documentJobs.set(job.id, claimed);
+      return claimed;
+    });
+  }
+  
+  async renewDocumentJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.documentJobs.get(id);
+    if (!job || job.status !== "running" || job.locked_by !== workerId) return false;
+    
+    this.documentJobs.set(id, { ...job, lease_expires_at: new Date(Date.now() + leaseMs), updated_at: new Date() });
+    return true;
+  }
+  
+  async updateDocumentJob(id: number, data: Partial<DocumentJob>, conditions: { status?: DocumentJob["status"]; lockedBy?: string } = {}): Promise<DocumentJob | undefined> {
+    const job = this.documentJobs.get(id);
+    if (!job) return undefined;
+    if (conditions.status && job.status !== conditions.status) return undefined;
+    if (conditions.lockedBy && job.locked_by !== conditions.lockedBy) return undefined;
+    
+    const updatedJob = { ...job, ...data, updated_at: new Date() };
+    this.documentJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async getDocumentJob(id: number): Promise<DocumentJob | undefined> {
+    return this.documentJobs.get(id);
+  }
+  
+  async getDocumentJobs(options: { status?: DocumentJob["status"]; documentId?: number; limit?: number } = {}): Promise<DocumentJob[]> {
+    return Array.from(this.documentJobs.values())
+      .filter(job =>
+        (!options.status || job.status === options.status) &&
+        (options.documentId === undefined || job.document_id === options.documentId)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, options.limit ?? 100);
+  }
+  
+  async getActiveDocumentJob(documentId: number): Promise<DocumentJob | undefined> {
+    return Array.from(this.documentJobs.values())
+      .filter(job => job.document_id === documentId && (job.status === "pending" || job.status === "running"))
+      .sort((a, b) => a.id - b.id)[0];
+  }
+  
+  async getDocumentJobStats(): Promise<Array<{ status: DocumentJob["status"]; count: number }>> {
+    const counts = new Map<DocumentJob["status"], number>();
+    for (const job of Array.from(this.documentJobs.values())) {
+      counts.set(job.status, (counts.get(job.status) || 0) + 1);
+    }
+    return Array.from(counts.entries()).map(([status, count]) => ({ status, count }));
+  }
+  
   // Usage tracking
   async incrementMessageCount(userId: number): Promise<User | undefined> {
     const user = await this.getUser(userId);
@@ -1470,7 +2026,7 @@ export class MemStorage implements IStorage {
       .filter(entry => entry.is_verified && entry.language === language);
   }
   
-  async findSimilarKnowledge(embedding: number[], language: string, limit: number = 5): Promise<KnowledgeBase[]> {
+  async findSimilarKnowledge(embedding: number[], language: 'pt' | 'en', limit: number = 5): Promise<KnowledgeBase[]> {
     // Em uma implementação em memória, não temos busca por similaridade de vetores eficiente
     // Retornamos apenas entradas verificadas filtradas por idioma
     // Em uma implementação real, você usaria Cosine Similarity com os vetores de embedding
@@ -1480,13 +2036,14 @@ export class MemStorage implements IStorage {
 
 import { db, pool } from './db';
 import connectPg from "connect-pg-simple";
-import { eq, and, isNull, lt, gt, gte, lte, or, desc, asc, ilike, like, not, sql } from 'drizzle-orm';
-import { inArray } from 'drizzle-orm';
+import { eq, and, isNull, isNotNull, lt, gt, gte, lte, or, desc, asc, ilike, like, not, sql, cosineDistance } from 'drizzle-orm';
+import { inArray, arrayOverlaps } from 'drizzle-orm';
 import { 
   usersSessions, 
   trainingDocuments, 
   trainingCategories, 
   documentCategories,
+  widgetCategories,
   TrainingDocument,
   InsertTrainingDocument,
   TrainingCategory,
@@ -1595,6 +2152,47 @@ export const initializePlansAndFeatures = async (storage: IStorage) => {
   }
 };
 
+/**
+ * Condição dos filtros de metadados na busca de chunks. Chunks sem o metadado
+ * (documentos genéricos, como guias de uso do multímetro) passam em qualquer filtro.
+ */
+function chunkMetadataCondition(filter?: ChunkMetadataFilter) {
+  if (!filter) {
+    return undefined;
+  }
+  
+  return and(
+    filter.brand
+      ? or(isNull(documentChunks.brand), eq(documentChunks.brand, filter.brand))
+      : undefined,
+    filter.device_models && filter.device_models.length > 0
+      ? or(sql`cardinality(${documentChunks.device_models}) = 0`, arrayOverlaps(documentChunks.device_models, filter.device_models))
+      : undefined,
+    filter.board_revision
+      ? or(isNull(documentChunks.board_revision), eq(documentChunks.board_revision, filter.board_revision))
+      : undefined
+  );
+}
+
+/**
+ * Converte o embedding recebido (array ou JSON stringificado) para a coluna pgvector.
+ * Embeddings com dimensão diferente da coluna ficam apenas no campo texto.
+ */
+function toEmbeddingVector(embedding: unknown): number[] | null {
+  let values = embedding;
+  if (typeof values === 'string') {
+    try {
+      values = JSON.parse(values);
+    } catch (e) {
+      return null;
+    }
+  }
+  if (!Array.isArray(values) || values.length !== EMBEDDING_DIMENSIONS) {
+    return null;
+  }
+  return values as number[];
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
   
@@ -1804,6 +2402,125 @@ export class DatabaseStorage implements IStorage {
     
     return newMessage;
   }
+  
+  // Avaliação do RAG
+  async getRagEvalSets(): Promise<RagEvalSet[]> {
+    return db.select().from(ragEvalSets).orderBy(desc(ragEvalSets.created_at));
+  }
+  
+  async getRagEvalSet(id: number): Promise<RagEvalSet | undefined> {
+    const [evalSet] = await db.select().from(ragEvalSets).where(eq(ragEvalSets.id, id));
+    return evalSet;
+  }
+  
+  async createRagEvalSet(set: InsertRagEvalSet): Promise<RagEvalSet> {
+    const [evalSet] = await db.insert(ragEvalSets).values(set).returning();
+    return evalSet;
+  }
+  
+  async updateRagEvalSet(id: number, data: Partial<RagEvalSet>): Promise<RagEvalSet | undefined> {
+    const [evalSet] = await db
+      .update(ragEvalSets)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(ragEvalSets.id, id))
+      .returning();
+    return evalSet;
+  }
+  
+  async deleteRagEvalSet(id: number): Promise<void> {
+    // Perguntas, execuções e resultados são removidos em cascata
+    await db.delete(ragEvalSets).where(eq(ragEvalSets.id, id));
+  }
+  
+  async getRagEvalQuestions(setId: number): Promise<RagEvalQuestion[]> {
+    return db
+      .select()
+      .from(ragEvalQuestions)
+      .where(eq(ragEvalQuestions.set_id, setId))
+      .orderBy(asc(ragEvalQuestions.id));
+  }
+  
+  async createRagEvalQuestion(question: InsertRagEvalQuestion): Promise<RagEvalQuestion> {
+    const [evalQuestion] = await db.insert(ragEvalQuestions).values(question).returning();
+    return evalQuestion;
+  }
+  
+  async updateRagEvalQuestion(id: number, data: Partial<RagEvalQuestion>): Promise<RagEvalQuestion | undefined> {
+    const [evalQuestion] = await db
+      .update(ragEvalQuestions)
+      .set(data)
+      .where(eq(ragEvalQuestions.id, id))
+      .returning();
+    return evalQuestion;
+  }
+  
+  async deleteRagEvalQuestion(id: number): Promise<void> {
+    await db.delete(ragEvalQuestions).where(eq(ragEvalQuestions.id, id));
+  }
+  
+  async getRagEvalRuns(setId: number): Promise<RagEvalRun[]> {
+    return db
+      .select()
+      .from(ragEvalRuns)
+      .where(eq(ragEvalRuns.set_id, setId))
+      .orderBy(desc(ragEvalRuns.started_at));
+  }
+  
+  async getRagEvalRun(id: number): Promise<RagEvalRun | undefined> {
+    const [run] = await db.select().from(ragEvalRuns).where(eq(ragEvalRuns.id, id));
+    return run;
+  }
+  
+  async createRagEvalRun(run: InsertRagEvalRun): Promise<RagEvalRun> {
+    const [evalRun] = await db.insert(ragEvalRuns).values(run).returning();
+    return evalRun;
+  }
+  
+  async updateRagEvalRun(id: number, data: Partial<RagEvalRun>): Promise<RagEvalRun | undefined> {
+    const [evalRun] = await db
+      .update(ragEvalRuns)
+      .set(data)
+      .where(eq(ragEvalRuns.id, id))
+      .returning();
+    return evalRun;
+  }
+  
+  async getRagEvalResults(runId: number): Promise<RagEvalResult[]> {
+    return db
+      .select()
+      .from(ragEvalResults)
+      .where(eq(ragEvalResults.run_id, runId))
+      .orderBy(asc(ragEvalResults.id));
+  }
+  
+  async createRagEvalResult(result: InsertRagEvalResult): Promise<RagEvalResult> {
+    const [evalResult] = await db.insert(ragEvalResults).values(result).returning();
+    return evalResult;
+  }
+  
+  async createRetrievalTrace(record: InsertRetrievalTraceRecord): Promise<RetrievalTraceRecord> {
+    const [traceRecord] = await db.insert(retrievalTraces).values(record).returning();
+    return traceRecord;
+  }
+  
+  async getRetrievalTraceByMessage(source: 'chat' | 'widget', messageId: number): Promise<RetrievalTraceRecord | undefined> {
+    const [traceRecord] = await db
+      .select()
+      .from(retrievalTraces)
+      .where(source === 'chat'
+        ? eq(retrievalTraces.chat_message_id, messageId)
+        : eq(retrievalTraces.widget_message_id, messageId))
+      .limit(1);
+    return traceRecord;
+  }
+  
+  async getRecentRetrievalTraces(limit: number = 50): Promise<RetrievalTraceRecord[]> {
+    return db
+      .select()
+      .from(retrievalTraces)
+      .orderBy(desc(retrievalTraces.created_at))
+      .limit(limit);
+  }
 
   constructor() {
     this.sessionStore = new PostgresSessionStore({ 
@@ -1817,6 +2534,7 @@ export class DatabaseStorage implements IStorage {
     const [newEntry] = await db.insert(knowledgeBase)
       .values({
         ...entry,
+        embedding_vector: toEmbeddingVector(entry.embedding),
         language: entry.language || 'pt',
         created_at: new Date()
       })
@@ -1873,6 +2591,10 @@ export class DatabaseStorage implements IStorage {
     return updatedEntry;
   }
   
+  async deleteKnowledgeEntry(id: number): Promise<void> {
+    await db.delete(knowledgeBase).where(eq(knowledgeBase.id, id));
+  }
+  
   async getKnowledgeEntriesBySource(sourceType: string, sourceId: number): Promise<KnowledgeBase[]> {
     return db.select()
       .from(knowledgeBase)
@@ -1884,7 +2606,7 @@ export class DatabaseStorage implements IStorage {
       )
       .orderBy(asc(knowledgeBase.chunk_index));
   }
-  
+
   async getKnowledgeEntriesBySourceType(sourceType: string, language: string): Promise<KnowledgeBase[]> {
     return db.select()
       .from(knowledgeBase)
@@ -1907,33 +2629,50 @@ export class DatabaseStorage implements IStorage {
       );
   }
   
-  async findSimilarKnowledge(embedding: number[], language: string, limit: number = 5): Promise<KnowledgeBase[]> {
-    // Implementação básica usando produto escalar para similaridade de cosseno
-    // Para uma implementação completa, seria necessário usar uma extensão de vetor como pgvector
-    // ou implementar uma função personalizada para calcular a similaridade
-    
-    // Seleciona apenas entradas verificadas no idioma especificado
-    const entries = await this.getVerifiedKnowledgeEntries(language);
+  async findSimilarKnowledge(embedding: number[], language: 'pt' | 'en', limit: number = 5): Promise<KnowledgeBase[]> {
+    return await this.searchKnowledgeByEmbedding(embedding, language, { limit, verifiedOnly: true });
+  }
+  
+  /**
+   * Busca entradas da base de conhecimento por similaridade de cosseno calculada pelo pgvector
+   * (operador <=>, coberto pelo índice HNSW). similarity = 1 - distância de cosseno.
+   */
+  async searchKnowledgeByEmbedding(
+    embedding: number[],
+    language: 'pt' | 'en',
+    options: { limit?: number; minSimilarity?: number; sourceType?: string; verifiedOnly?: boolean; embeddingModel?: string } = {}
+  ): Promise<Array<KnowledgeBase & { similarity: number }>> {
+    const { limit = 5, minSimilarity = 0, sourceType, verifiedOnly = false, embeddingModel } = options;
+    
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+      return [];
+    }
     
-    // Ordenar por similaridade (produto escalar simples)
-    const entriesWithScore = entries.map(entry => {
-      // Calcular similaridade usando produto escalar simples
-      let similarity = 0;
-      
-      if (entry.embedding && entry.embedding.length === embedding.length) {
-        similarity = entry.embedding.reduce((sum, value, index) => {
-          return sum + value * embedding[index];
-        }, 0);
-      }
-      
-      return { entry, similarity };
-    });
+    const distance = cosineDistance(knowledgeBase.embedding_vector, embedding);
+    const similarity = sql<number>`1 - (${distance})`;
     
-    // Ordenar por similaridade decrescente
-    entriesWithScore.sort((a, b) => b.similarity - a.similarity);
+    const rows = await db.select({
+      entry: knowledgeBase,
+      similarity
+    })
+      .from(knowledgeBase)
+      .where(
+        and(
+          eq(knowledgeBase.language, language),
+          isNotNull(knowledgeBase.embedding_vector),
+          gte(similarity, minSimilarity),
+          verifiedOnly ? eq(knowledgeBase.is_verified, true) : undefined,
+          sourceType ? eq(knowledgeBase.source_type, sourceType as any) : undefined,
+          embeddingModel ? eq(knowledgeBase.embedding_model, embeddingModel) : undefined
+        )
+      )
+      .orderBy(distance)
+      .limit(limit);
     
-    // Retornar as entradas mais similares
-    return entriesWithScore.slice(0, limit).map(item => item.entry);
+    return rows.map(({ entry, similarity }) => ({
+      ...entry,
+      similarity: Number(similarity)
+    }));
   }
   
   // Document Chunks methods - Para RAG (Retrieval Augmented Generation)
@@ -1947,6 +2686,7 @@ export class DatabaseStorage implements IStorage {
     const [result] = await db.insert(documentChunks).values({
       ...chunk,
       embedding: embeddingValue as any,
+      embedding_vector: toEmbeddingVector(embeddingValue),
       created_at: new Date()
     }).returning();
 
@@ -2013,10 +2753,290 @@ export class DatabaseStorage implements IStorage {
     await db.delete(documentChunks).where(eq(documentChunks.document_id, documentId));
   }
 
-  async getDocumentChunksByLanguage(language: string): Promise<DocumentChunk[]> {
+  async updateDocumentChunkIndex(id: number, chunkIndex: number): Promise<void> {
+    await db.update(documentChunks)
+      .set({ chunk_index: chunkIndex })
+      .where(eq(documentChunks.id, id));
+  }
+
+  async updateDocumentChunkMetadata(id: number, metadata: { brand: string | null; device_models: string[]; board_revision: string | null }): Promise<void> {
+    await db.update(documentChunks)
+      .set(metadata)
+      .where(eq(documentChunks.id, id));
+  }
+
+  async findDocumentChunkByContentHash(contentHash: string, embeddingModel: string): Promise<DocumentChunk | undefined> {
+    const [chunk] = await db.select()
+      .from(documentChunks)
+      .where(and(
+        eq(documentChunks.content_hash, contentHash),
+        eq(documentChunks.embedding_model, embeddingModel),
+        isNotNull(documentChunks.embedding_vector)
+      ))
+      .limit(1);
+    return chunk;
+  }
+
+  async countDocumentChunksNeedingEmbedding(embeddingModel: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(documentChunks)
+      .where(or(
+        sql`${documentChunks.embedding_model} IS DISTINCT FROM ${embeddingModel}`,
+        isNull(documentChunks.embedding_vector)
+      ));
+    return Number(row?.count || 0);
+  }
+
+  async getDocumentChunksNeedingEmbedding(embeddingModel: string, afterId: number, limit: number): Promise<DocumentChunk[]> {
+    return db.select()
+      .from(documentChunks)
+      .where(and(
+        gt(documentChunks.id, afterId),
+        // Sem vetor: embedding que falhou ou que não cabia na coluna vector
+        or(
+          sql`${documentChunks.embedding_model} IS DISTINCT FROM ${embeddingModel}`,
+          isNull(documentChunks.embedding_vector)
+        )
+      ))
+      .orderBy(asc(documentChunks.id))
+      .limit(limit);
+  }
+
+  async updateDocumentChunkEmbedding(id: number, embedding: number[], embeddingModel: string): Promise<void> {
+    await db.update(documentChunks)
+      .set({
+        embedding: JSON.stringify(embedding),
+        embedding_vector: toEmbeddingVector(embedding),
+        embedding_model: embeddingModel,
+        embedding_dim: embedding.length
+      })
+      .where(eq(documentChunks.id, id));
+  }
+
+  async getEmbeddingModelStats(): Promise<Array<{ embedding_model: string | null; embedding_dim: number | null; count: number }>> {
+    const rows = await db.select({
+      embedding_model: documentChunks.embedding_model,
+      embedding_dim: documentChunks.embedding_dim,
+      count: sql<number>`count(*)`
+    })
+      .from(documentChunks)
+      .groupBy(documentChunks.embedding_model, documentChunks.embedding_dim);
+    return rows.map(row => ({ ...row, count: Number(row.count) }));
+  }
+
+  async getEmbeddingJob(id: number): Promise<EmbeddingJob | undefined> {
+    const [job] = await db.select().from(embeddingJobs).where(eq(embeddingJobs.id, id));
+    return job;
+  }
+
+  async getLatestEmbeddingJob(): Promise<EmbeddingJob | undefined> {
+    const [job] = await db.select().from(embeddingJobs).orderBy(desc(embeddingJobs.id)).limit(1);
+    return job;
+  }
+
+  async getRunningEmbeddingJobs(): Promise<EmbeddingJob[]> {
+    return db.select().from(embeddingJobs).where(eq(embeddingJobs.status, "running"));
+  }
+
+  async createEmbeddingJob(job: InsertEmbeddingJob): Promise<EmbeddingJob> {
+    const [embeddingJob] = await db.insert(embeddingJobs).values(job).returning();
+    return embeddingJob;
+  }
+
+  async updateEmbeddingJob(id: number, data: Partial<EmbeddingJob>): Promise<EmbeddingJob | undefined> {
+    const [embeddingJob] = await db.update(embeddingJobs)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(embeddingJobs.id, id))
+      .returning();
+    return embeddingJob;
+  }
+
+  async findCachedResponse(
+    embedding: number[],
+    options: { scopeKey: string; embeddingModel: string; minSimilarity: number }
+  ): Promise<(ResponseCacheEntry & { similarity: number }) | undefined> {
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+      return undefined;
+    }
+
+    const distance = cosineDistance(responseCache.embedding_vector, embedding);
+    const similarity = sql<number>`1 - (${distance})`;
+
+    const [row] = await db.select({
+      entry: responseCache,
+      similarity
+    })
+      .from(responseCache)
+      .where(and(
+        eq(responseCache.scope_key, options.scopeKey),
+        eq(responseCache.embedding_model, options.embeddingModel),
+        gt(responseCache.expires_at, new Date()),
+        gte(similarity, options.minSimilarity)
+      ))
+      .orderBy(distance)
+      .limit(1);
+
+    return row ? { ...row.entry, similarity: Number(row.similarity) } : undefined;
+  }
+
+  async createCachedResponse(entry: InsertResponseCacheEntry): Promise<ResponseCacheEntry> {
+    const [cacheEntry] = await db.insert(responseCache).values(entry).returning();
+    return cacheEntry;
+  }
+
+  async recordCachedResponseHit(id: number): Promise<void> {
+    await db.update(responseCache)
+      .set({ hit_count: sql`${responseCache.hit_count} + 1`, last_hit_at: new Date() })
+      .where(eq(responseCache.id, id));
+  }
+
+  async deleteCachedResponsesByDocuments(documentIds: number[]): Promise<number> {
+    if (documentIds.length === 0) {
+      return 0;
+    }
+    const deleted = await db.delete(responseCache)
+      .where(arrayOverlaps(responseCache.document_ids, documentIds))
+      .returning({ id: responseCache.id });
+    return deleted.length;
+  }
+
+  async clearResponseCache(): Promise<number> {
+    const deleted = await db.delete(responseCache).returning({ id: responseCache.id });
+    return deleted.length;
+  }
+
+  async recordResponseCacheLookup(hit: boolean): Promise<void> {
+    const day = new Date().toISOString().substring(0, 10);
+    await db.insert(responseCacheStats)
+      .values({ day, hits: hit ? 1 : 0, misses: hit ? 0 : 1 })
+      .onConflictDoUpdate({
+        target: responseCacheStats.day,
+        set: hit
+          ? { hits: sql`${responseCacheStats.hits} + 1` }
+          : { misses: sql`${responseCacheStats.misses} + 1` }
+      });
+  }
+
+  async getResponseCacheStats(days: number): Promise<{ entries: number; daily: ResponseCacheStats[] }> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+      .from(responseCache)
+      .where(gt(responseCache.expires_at, new Date()));
+    const daily = await db.select()
+      .from(responseCacheStats)
+      .orderBy(desc(responseCacheStats.day))
+      .limit(days);
+    return { entries: Number(count), daily };
+  }
+
+  async createDocumentJob(job: InsertDocumentJob): Promise<DocumentJob> {
+    const [documentJob] = await db.insert(documentJobs).values(job).returning();
+    return documentJob;
+  }
+
+  async claimDocumentJobs(workerId: string, limit: number, leaseMs: number): Promise<DocumentJob[]> {
+    const now = new Date();
+    // SKIP LOCKED: workers concorrentes (outros processos) não reservam o mesmo job
+    const claimable = db.select({ id: documentJobs.id })
+      .from(documentJobs)
+      .where(or(
+        and(
+          eq(documentJobs.status, "pending"),
+          lte(documentJobs.run_at, now),
+          // Um job de continuação espera o job em execução do mesmo documento terminar
+          sql`not exists (select 1 from ${documentJobs} as running_jobs where running_jobs.document_id = ${documentJobs.document_id} and running_jobs.status = 'running')`
+        ),
+        and(eq(documentJobs.status, "running"), lt(documentJobs.lease_expires_at, now))
+      ))
+      .orderBy(asc(documentJobs.run_at), asc(documentJobs.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db.update(documentJobs)
+      .set({
+        status: "running",
+        locked_by: workerId,
+        lease_expires_at: new Date(now.getTime() + leaseMs),
+        attempts: sql`${documentJobs.attempts} + 1`,
+        updated_at: now
+      })
+      .where(inArray(documentJobs.id, claimable))
+      .returning();
+  }
+
+  async renewDocumentJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await db.update(documentJobs)
+      .set({ lease_expires_at: new Date(Date.now() + leaseMs), updated_at: new Date() })
+      .where(and(
+        eq(documentJobs.id, id),
+        eq(documentJobs.status, "running"),
+        eq(documentJobs.locked_by, workerId)
+      ))
+      .returning({ id: documentJobs.id });
+    return renewed.length > 0;
+  }
+
+  async updateDocumentJob(id: number, data: Partial<DocumentJob>, conditions: { status?: DocumentJob["status"]; lockedBy?: string } = {}): Promise<DocumentJob | undefined> {
+    const [documentJob] = await db.update(documentJobs)
+      .set({ ...data, updated_at: new Date() })
+      .where(and(
+        eq(documentJobs.id, id),
+        conditions.status ? eq(documentJobs.status, conditions.status) : undefined,
+        conditions.lockedBy ? eq(documentJobs.locked_by, conditions.lockedBy) : undefined
+      ))
+      .returning();
+    return documentJob;
+  }
+
+  async getDocumentJob(id: number): Promise<DocumentJob | undefined> {
+    const [job] = await db.select().from(documentJobs).where(eq(documentJobs.id, id));
+    return job;
+  }
+
+  async getDocumentJobs(options: { status?: DocumentJob["status"]; documentId?: number; limit?: number } = {}): Promise<DocumentJob[]> {
+    return db.select()
+      .from(documentJobs)
+      .where(and(
+        options.status ? eq(documentJobs.status, options.status) : undefined,
+        options.documentId !== undefined ? eq(documentJobs.document_id, options.documentId) : undefined
+      ))
+      .orderBy(desc(documentJobs.id))
+      .limit(options.limit ?? 100);
+  }
+
+  async getActiveDocumentJob(documentId: number): Promise<DocumentJob | undefined> {
+    const [job] = await db.select()
+      .from(documentJobs)
+      .where(and(
+        eq(documentJobs.document_id, documentId),
+        inArray(documentJobs.status, ["pending", "running"])
+      ))
+      .orderBy(asc(documentJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async getDocumentJobStats(): Promise<Array<{ status: DocumentJob["status"]; count: number }>> {
+    const rows = await db.select({
+      status: documentJobs.status,
+      count: sql<number>`count(*)`
+    })
+      .from(documentJobs)
+      .groupBy(documentJobs.status);
+    return rows.map(row => ({ ...row, count: Number(row.count) }));
+  }
+
+  async getDocumentChunksByLanguage(language: 'pt' | 'en', documentIds?: number[]): Promise<DocumentChunk[]> {
+    // Escopo vazio (widget com categorias sem documentos) não retorna nada
+    if (documentIds && documentIds.length === 0) {
+      return [];
+    }
+    
     const chunks = await db.select()
       .from(documentChunks)
-      .where(eq(documentChunks.language, language as any));
+      .where(and(
+        eq(documentChunks.language, language),
+        documentIds ? inArray(documentChunks.document_id, documentIds) : undefined
+      ));
     
     // Converter embeddings para arrays
     return chunks.map(chunk => {
@@ -2034,24 +3054,84 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async searchDocumentChunksByKeywords(keywords: string[], language: string): Promise<DocumentChunk[]> {
-    if (!keywords || keywords.length === 0) {
+  /**
+   * Busca os chunks mais próximos do embedding da consulta usando pgvector.
+   * A similaridade retornada é 1 - distância de cosseno (mesma escala do cálculo anterior em JS).
+   */
+  async searchDocumentChunksByEmbedding(
+    embedding: number[],
+    language: 'pt' | 'en',
+    options: { limit?: number; minSimilarity?: number; documentIds?: number[]; embeddingModel?: string; filters?: ChunkMetadataFilter } = {}
+  ): Promise<Array<DocumentChunk & { similarity: number }>> {
+    const { limit = 5, minSimilarity = 0, documentIds, embeddingModel, filters } = options;
+
+    if ((documentIds && documentIds.length === 0) || embedding.length !== EMBEDDING_DIMENSIONS) {
       return [];
     }
 
-    // Cria uma condição OR para cada palavra-chave
-    const conditions = keywords.map(keyword => 
-      ilike(documentChunks.content, `%${keyword}%`)
-    );
+    const distance = cosineDistance(documentChunks.embedding_vector, embedding);
+    const similarity = sql<number>`1 - (${distance})`;
 
-    const chunks = await db.select()
+    const rows = await db.select({
+      chunk: documentChunks,
+      similarity
+    })
+      .from(documentChunks)
+      .where(and(
+        eq(documentChunks.language, language),
+        isNotNull(documentChunks.embedding_vector),
+        gte(similarity, minSimilarity),
+        documentIds ? inArray(documentChunks.document_id, documentIds) : undefined,
+        embeddingModel ? eq(documentChunks.embedding_model, embeddingModel) : undefined,
+        chunkMetadataCondition(filters)
+      ))
+      .orderBy(distance)
+      .limit(limit);
+
+    return rows.map(({ chunk, similarity }) => ({
+      ...chunk,
+      similarity: Number(similarity)
+    }));
+  }
+
+  /**
+   * Busca textual com tsvector/tsquery no dicionário do idioma (pt ou en).
+   * Os termos da consulta são combinados com OR e o score vem de ts_rank_cd
+   * normalizado para 0-1 (flag 32: rank / (rank + 1)).
+   */
+  async searchDocumentChunksByKeywords(
+    query: string,
+    language: 'pt' | 'en',
+    documentIds?: number[],
+    limit: number = 10,
+    filters?: ChunkMetadataFilter
+  ): Promise<Array<DocumentChunk & { score: number }>> {
+    // Apenas letras e números: evita erros de sintaxe do to_tsquery com pontuação da consulta
+    const terms = Array.from(new Set(query.toLowerCase().match(/[a-z0-9áàâãäéèêëíìîïóòôõöúùûüçñ]+/g) || []));
+    
+    if (terms.length === 0 || (documentIds && documentIds.length === 0)) {
+      return [];
+    }
+
+    const config = language === 'en' ? 'english' : 'portuguese';
+    const tsQuery = sql`to_tsquery(${config}::regconfig, ${terms.join(' | ')})`;
+    const score = sql<number>`ts_rank_cd(${documentChunks.search_vector}, ${tsQuery}, 32)`;
+
+    const rows = await db.select({
+      chunk: documentChunks,
+      score
+    })
       .from(documentChunks)
       .where(and(
-        eq(documentChunks.language, language as any),
-        or(...conditions)
+        eq(documentChunks.language, language),
+        sql`${documentChunks.search_vector} @@ ${tsQuery}`,
+        documentIds ? inArray(documentChunks.document_id, documentIds) : undefined,
+        chunkMetadataCondition(filters)
       ))
-      .orderBy(desc(documentChunks.created_at))
-      .limit(10);
+      .orderBy(desc(score))
+      .limit(limit);
+    
+    const chunks = rows.map(({ chunk, score }) => ({ ...chunk, score: Number(score) }));
     
     // Converter embeddings para arrays
     return chunks.map(chunk => {
@@ -2188,7 +3268,7 @@ export class DatabaseStorage implements IStorage {
     if (activatedConfig) {
       await this.logLlmUsage({
         model_name: activatedConfig.model_name,
-        provider: activatedConfig.model_name.split('/')[0].toLowerCase(),
+        provider: activatedConfig.provider,
         operation_type: "test",
         success: true
       });
@@ -2197,6 +3277,30 @@ export class DatabaseStorage implements IStorage {
     return activatedConfig;
   }
   
+  async getLlmConfigs(): Promise<LlmConfig[]> {
+    return await db.select().from(llmConfigs).orderBy(desc(llmConfigs.created_at));
+  }
+  
+  async getLlmFallbackConfigs(): Promise<LlmConfig[]> {
+    return await db
+      .select()
+      .from(llmConfigs)
+      .where(isNotNull(llmConfigs.fallback_order))
+      .orderBy(asc(llmConfigs.fallback_order));
+  }
+  
+  async setLlmFallbackOrder(configIds: number[]): Promise<void> {
+    // Limpar a cadeia anterior e gravar a nova ordem (1 = primeiro fallback)
+    await db.update(llmConfigs).set({ fallback_order: null });
+    
+    for (let i = 0; i < configIds.length; i++) {
+      await db
+        .update(llmConfigs)
+        .set({ fallback_order: i + 1 })
+        .where(eq(llmConfigs.id, configIds[i]));
+    }
+  }
+  
   // Implementação das funções de logging de uso de LLM
   // Implementação corrigida para evitar duplicação
   async logLlmUsage(log: InsertLlmUsageLog): Promise<void> {
@@ -2210,7 +3314,8 @@ export class DatabaseStorage implements IStorage {
         widget_id: log.widget_id || null,
         token_count: log.token_count || 0,
         success: log.success !== undefined ? log.success : true,
-        error_message: log.error_message || null
+        error_message: log.error_message || null,
+        failover_to: log.failover_to || null
       });
       
       console.log(`Registrado uso do LLM: ${log.model_name} - ${log.operation_type} - ${log.success ? 'Sucesso' : 'Falha'}`);
@@ -2541,14 +3646,21 @@ export class DatabaseStorage implements IStorage {
    * Busca documentos baseados em tópicos identificados semanticamente
    * Mais avançado que a busca por keywords, este método considera contexto semântico
    * @param topics Array de tópicos ou conceitos extraídos da consulta
-   * @returns Array de documentos simplificados (nome e conteúdo)
+   * @returns Array de documentos simplificados (id, nome e conteúdo)
    */
-  async getDocumentsByTopics(topics: string[]): Promise<{name: string, content: string}[]> {
+  async getDocumentsByTopics(topics: string[], documentIds?: number[]): Promise<{id: number, name: string, content: string}[]> {
     try {
       if (!topics || topics.length === 0) {
         console.log('Nenhum tópico fornecido para busca de documentos');
         return [];
       }
+      
+      if (documentIds && documentIds.length === 0) {
+        return [];
+      }
+      
+      // Restringir ao escopo de documentos do widget, quando informado
+      const scopeCondition = documentIds ? inArray(trainingDocuments.id, documentIds) : undefined;
 
       // Converter tópicos para minúsculas e remover duplicatas
       const uniqueTopics = [...new Set(topics.map(topic => topic.toLowerCase()))];
@@ -2567,6 +3679,7 @@ export class DatabaseStorage implements IStorage {
           and(
             eq(trainingDocuments.is_active, true),
             eq(trainingDocuments.status, 'completed'),
+            scopeCondition,
             or(
               ...uniqueTopics.map(topic => 
                 or(
@@ -2598,6 +3711,7 @@ export class DatabaseStorage implements IStorage {
             and(
               eq(trainingDocuments.is_active, true),
               eq(trainingDocuments.status, 'completed'),
+              scopeCondition,
               or(
                 ...uniqueTopics.map(topic => 
                   sql`${trainingDocuments.content} ILIKE ${`%${topic}%`}`
@@ -2615,8 +3729,9 @@ export class DatabaseStorage implements IStorage {
       
       console.log(`Encontrados ${combinedResults.length} documentos relevantes para os tópicos`);
       
-      // Formatar os documentos para retorno, mantendo apenas nome e conteúdo
+      // Formatar os documentos para retorno, mantendo apenas id, nome e conteúdo
       return combinedResults.map(doc => ({
+        id: doc.id,
         name: doc.name,
         content: doc.content || 'Sem conteúdo disponível'
       }));
@@ -2775,6 +3890,74 @@ export class DatabaseStorage implements IStorage {
         )
       );
   }
+  
+  async getDocumentIdsByCategories(categoryIds: number[]): Promise<number[]> {
+    if (categoryIds.length === 0) {
+      return [];
+    }
+    
+    const rows = await db
+      .selectDistinct({ document_id: documentCategories.document_id })
+      .from(documentCategories)
+      .where(inArray(documentCategories.category_id, categoryIds));
+    
+    return rows.map(row => row.document_id);
+  }
+
+  async getDocumentMetadataVocabulary(): Promise<{ brands: string[]; device_models: string[]; board_revisions: string[] }> {
+    const active = eq(trainingDocuments.is_active, true);
+    const brands = await db.selectDistinct({ value: trainingDocuments.brand })
+      .from(trainingDocuments)
+      .where(and(active, isNotNull(trainingDocuments.brand)));
+    const models = await db.selectDistinct({ value: sql<string>`unnest(${trainingDocuments.device_models})` })
+      .from(trainingDocuments)
+      .where(active);
+    const revisions = await db.selectDistinct({ value: trainingDocuments.board_revision })
+      .from(trainingDocuments)
+      .where(and(active, isNotNull(trainingDocuments.board_revision)));
+    
+    const toSortedList = (rows: Array<{ value: string | null }>) =>
+      rows.map(row => row.value).filter((value): value is string => !!value).sort();
+    
+    return {
+      brands: toSortedList(brands),
+      device_models: toSortedList(models),
+      board_revisions: toSortedList(revisions)
+    };
+  }
+  
+  // Widget categories
+  async getWidgetCategoryIds(widgetId: string): Promise<number[]> {
+    const rows = await db
+      .select({ category_id: widgetCategories.category_id })
+      .from(widgetCategories)
+      .where(eq(widgetCategories.widget_id, widgetId));
+    
+    return rows.map(row => row.category_id);
+  }
+  
+  async setWidgetCategories(widgetId: string, categoryIds: number[]): Promise<void> {
+    // Substituir todas as associações do widget
+    await db
+      .delete(widgetCategories)
+      .where(eq(widgetCategories.widget_id, widgetId));
+    
+    const uniqueIds = Array.from(new Set(categoryIds));
+    if (uniqueIds.length > 0) {
+      await db
+        .insert(widgetCategories)
+        .values(uniqueIds.map(categoryId => ({ widget_id: widgetId, category_id: categoryId })));
+    }
+  }
+  
+  async getCategoryWidgetIds(categoryId: number): Promise<string[]> {
+    const rows = await db
+      .select({ widget_id: widgetCategories.widget_id })
+      .from(widgetCategories)
+      .where(eq(widgetCategories.category_id, categoryId));
+    
+    return rows.map(row => row.widget_id);
+  }
 
   async updateLastLogin(id: number): Promise<User | undefined> {
     return this.updateUser(id, { last_login: new Date() });
@@ -0,0 +1,92 @@
+/**
+ * Filtro de segurança das respostas do widget público
+ *
+ * O usuário do widget já é o técnico: respostas que mandam "levar a um técnico" ou "enviar para
+ * assistência técnica" são reescritas antes de chegar ao cliente. O mesmo filtro é aplicado ao
+ * texto final (persistido e enviado no evento done) e aos tokens enviados durante o streaming.
+ */
+import type { LlmStreamListener } from './llm-providers';
+
+const BLOCKED_PHRASES = [
+  "técnico especializado",
+  "especialista",
+  "profissional qualificado",
+  "levar a um técnico",
+  "levar ao técnico",
+  "levar para análise",
+  "enviar para reparo",
+  "técnico para abrir",
+  "técnico para reparar",
+  "enviar para assistência",
+  "assistência técnica"
+];
+
+const REPLACEMENTS: Array<{ pattern: RegExp; replacement: string }> = [
+  // Sugestões de buscar técnicos externos
+  {
+    pattern: /(?:levar|buscar|consultar|procurar)(?:\s+(?:a|um|o|para))?\s+(?:técnico|especialista|profissional)(?:\s+(?:especializado|qualificado|externo))?/gi,
+    replacement: "fazer os procedimentos descritos"
+  },
+  // Menções a técnicos abrindo o dispositivo
+  {
+    pattern: /(?:técnico|especialista|profissional)(?:\s+(?:para|deve))?\s+(?:abrir|desmontar|analisar|verificar)/gi,
+    replacement: "você pode verificar"
+  },
+  // Sugestões de enviar para assistência
+  {
+    pattern: /(?:enviar|levar)(?:\s+(?:para|à|a))?\s+(?:assistência|autorizada|conserto|reparo)/gi,
+    replacement: "realizar diagnóstico adicional"
+  }
+];
+
+// Fim de frase ou de linha: as expressões do filtro não atravessam esses pontos
+const SEGMENT_BOUNDARIES = ['.', '!', '?', ';', ':', '\n'];
+
+function applyReplacements(text: string): string {
+  return REPLACEMENTS.reduce((result, { pattern, replacement }) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Remove da resposta as recomendações de procurar técnicos ou assistência técnica.
+ * As substituições valem sempre, para que o texto final coincida com o enviado por streaming.
+ */
+export function filterTechnicianReferences(text: string): string {
+  const lowerText = text.toLowerCase();
+  if (BLOCKED_PHRASES.some(phrase => lowerText.includes(phrase))) {
+    console.log("⚠️ ALERTA: Resposta contendo sugestão de buscar técnico detectada e bloqueada!");
+  }
+
+  const filtered = applyReplacements(text);
+  if (filtered !== text) {
+    console.log("🛡️ Resposta filtrada para remover referências a técnicos externos");
+  }
+  return filtered;
+}
+
+/**
+ * Envolve o listener do streaming para que os tokens passem pelo filtro antes de serem enviados.
+ * O texto é retido até o fim da frase ou da linha (uma expressão bloqueada pode chegar dividida
+ * em vários tokens) e cada trecho completo é reescrito pelas mesmas expressões do texto final.
+ */
+export function createTechnicianFilterListener(listener: LlmStreamListener): LlmStreamListener {
+  let pending = '';
+
+  return {
+    onToken: (delta: string) => {
+      pending += delta;
+
+      const boundaryEnd = Math.max(...SEGMENT_BOUNDARIES.map(boundary => pending.lastIndexOf(boundary))) + 1;
+      if (boundaryEnd === 0) {
+        return;
+      }
+
+      const segment = pending.slice(0, boundaryEnd);
+      pending = pending.slice(boundaryEnd);
+      listener.onToken(applyReplacements(segment));
+    },
+    onReset: () => {
+      pending = '';
+      listener.onReset?.();
+    }
+  };
+}
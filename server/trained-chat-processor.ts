@@ -1,10 +1,16 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { logLlmUsage } from './llm';
+import { logLlmUsage, buildLlmFullConfig, LlmFullConfig } from './llm';
+import { LlmChatMessage, LlmStreamListener, chatWithStream, getLlmProvider } from './llm-providers';
+import { runWithFailover } from './llm-failover';
 import { storage } from './storage';
-import { searchRelevantDocuments } from './document-embedding';
-import { processQueryWithRAG, hybridSearch, formatRelevantDocumentsForPrompt } from './rag-processor';
+import { LlmConfig, MessageSource, RetrievalFilters, RetrievalTrace } from '@shared/schema';
+import { hybridSearch, searchRelevantDocuments } from './document-indexing';
+import { processQueryWithRAG, formatRelevantDocumentsForPrompt, getWidgetDocumentScope, filterDocumentsByScope, assignCitationIds, selectCitedSources, RagResponse, getPriorityDocuments, toPriorityContextDocument, analyzeQueryIntent } from './rag-processor';
 import { searchExternalKnowledge, shouldUseExternalSearch } from './external-search';
+import { condenseFollowUpQuery, buildHistoryWindow } from './conversation-history';
+import { createRetrievalTrace, recordTraceChunks, recordTracePriorityDocuments, recordTracePrompt, TRACE_INTENT_ENABLED } from './retrieval-trace';
+import { lookupCachedResponse, storeCachedResponse, ResponseCacheKey } from './response-cache';
+import { applyGroundingCheck, holdStreamForGrounding } from './answer-grounding';
+import { applyCategoryFilter, filterDocumentsByMetadata, resolveRetrievalFilters } from './document-metadata';
 
 /**
  * Processa uma mensagem de chat garantindo que documentos de treinamento sejam usados
@@ -14,19 +20,93 @@ import { searchExternalKnowledge, shouldUseExternalSearch } from './external-sea
  * @param userId ID do usuário (opcional)
  * @param widgetId ID do widget (opcional) 
  * @param useDocuments Se deve usar documentos (default true)
+ * @param stream Listener que recebe os tokens da resposta em streaming (opcional)
+ * @param widgetLlmConfig Configuração LLM própria do widget (opcional, padrão é a configuração ativa)
+ * @param history Mensagens anteriores da sessão: reescrevem perguntas de continuação na busca e entram no prompt
+ *                (limitadas por tokens, com as mais antigas resumidas)
+ * @param language Idioma da sessão: idioma das respostas e parte do escopo do cache de respostas
+ * @param explicitFilters Filtros escolhidos na interface do chat (marca, modelo, revisão, categorias, idioma);
+ *                        completados com os filtros inferidos da pergunta
+ * @returns Texto da resposta, fontes citadas (chunks dos documentos de treinamento) e rastreamento da recuperação
  */
 export async function processChatWithTrainedDocuments(
   message: string,
   userId?: number,
   widgetId?: string,
-  useDocuments: boolean = true
-): Promise<string> {
+  useDocuments: boolean = true,
+  stream?: LlmStreamListener,
+  widgetLlmConfig?: LlmConfig,
+  history: LlmChatMessage[] = [],
+  language: 'pt' | 'en' = 'pt',
+  explicitFilters: RetrievalFilters = {}
+): Promise<RagResponse> {
+  const trace = createRetrievalTrace(message);
+  
+  // Cache semântico: apenas para a primeira pergunta da sessão (com histórico, a resposta depende da conversa)
+  let cacheKey: ResponseCacheKey | null = null;
+  // Sem histórico a consulta de busca é a própria mensagem: os filtros resolvidos aqui servem à recuperação
+  let resolvedFilters: RetrievalFilters | undefined;
+  const llmConfig = widgetLlmConfig || await storage.getActiveLlmConfig();
+  if (useDocuments && history.length === 0 && llmConfig && llmConfig.should_use_training !== false) {
+    resolvedFilters = await resolveRetrievalFilters(message, explicitFilters, trace);
+    const { key, cached } = await lookupCachedResponse(message, {
+      widgetId,
+      language,
+      model: buildLlmFullConfig(llmConfig).modelName,
+      llmConfig,
+      filters: resolvedFilters
+    });
+    cacheKey = key;
+    
+    if (cached) {
+      trace.path = 'cache';
+      trace.cache_hit = { entry_id: cached.entryId, similarity: cached.similarity, cached_query: cached.cachedQuery };
+      if (stream) {
+        stream.onToken(cached.text);
+      }
+      return { text: cached.text, sources: cached.sources, trace };
+    }
+  }
+  
+  // A intenção serve apenas ao rastreamento (opcional, ver TRACE_INTENT_ENABLED); é analisada
+  // em paralelo, com o modelo e o idioma do widget, para não atrasar a resposta
+  const intentPromise = TRACE_INTENT_ENABLED
+    ? analyzeQueryIntent(message, language, llmConfig ? buildLlmFullConfig(llmConfig) : undefined)
+    : Promise.resolve(null);
+  
+  const response = await answerWithTrainedDocuments(message, userId, widgetId, useDocuments, stream, widgetLlmConfig, history, language, trace, explicitFilters, resolvedFilters);
+  trace.intent = await intentPromise;
+  
+  if (cacheKey) {
+    await storeCachedResponse(cacheKey, message, response, trace);
+  }
+  
+  return { ...response, trace };
+}
+
+/**
+ * Gera a resposta percorrendo os métodos de recuperação (RAG, RAG forçado, busca híbrida,
+ * busca semântica antiga e documentos completos) e registra no rastreamento o caminho usado
+ */
+async function answerWithTrainedDocuments(
+  message: string,
+  userId: number | undefined,
+  widgetId: string | undefined,
+  useDocuments: boolean,
+  stream: LlmStreamListener | undefined,
+  widgetLlmConfig: LlmConfig | undefined,
+  history: LlmChatMessage[],
+  language: 'pt' | 'en',
+  trace: RetrievalTrace,
+  explicitFilters: RetrievalFilters,
+  resolvedFilters?: RetrievalFilters
+): Promise<RagResponse> {
   try {
     console.log('Processando mensagem com documentos de treinamento');
     console.log(`useDocuments: ${useDocuments}, userId: ${userId}, widgetId: ${widgetId}`);
     
-    // Obter configuração LLM ativa
-    const llmConfig = await storage.getActiveLlmConfig();
+    // Obter configuração LLM do widget ou a ativa global
+    const llmConfig = widgetLlmConfig || await storage.getActiveLlmConfig();
     if (!llmConfig) {
       throw new Error('Nenhuma configuração LLM ativa encontrada');
     }
@@ -34,11 +114,15 @@ export async function processChatWithTrainedDocuments(
     // Verificar se devemos usar treinamento e se temos documentos
     if (!useDocuments || llmConfig.should_use_training === false) {
       console.log('Treinamento desativado, usando apenas LLM sem documentos');
-      return await processRegularChat(message, llmConfig, userId, widgetId);
+      trace.path = 'regular';
+      return { text: await processRegularChat(message, llmConfig, userId, widgetId, stream, history), sources: [] };
     }
     
+    // Escopo de conhecimento do widget (categorias vinculadas); undefined = todos os documentos
+    const documentIds = await getWidgetDocumentScope(widgetId);
+    
     // Verificar se temos documentos de instruções prioritárias
-    const trainingDocuments = await storage.getTrainingDocuments();
+    const trainingDocuments = filterDocumentsByScope(await storage.getTrainingDocuments(), documentIds);
     console.log(`TOTAL de documentos de treinamento encontrados: ${trainingDocuments.length}`);
     
     // Verificar status de embeddings para todos os documentos
@@ -46,102 +130,79 @@ export async function processChatWithTrainedDocuments(
       console.log(`Documento: "${doc.name}" (ID: ${doc.id}) - Status: ${doc.status || 'desconhecido'} - Processado: ${doc.processed_at ? 'sim' : 'não'}`);
     });
     
-    // Filtrar documentos de instruções prioritárias com mais detalhes
-    const instructionsDocs = trainingDocuments.filter((doc: any) => {
-      // Verificar primeiro se o documento está no status correto
-      if (doc.status !== 'processed' && doc.status !== 'completed') {
-        console.log(`ATENÇÃO: Documento "${doc.name}" (ID: ${doc.id}) não está processado corretamente. Status: ${doc.status || 'desconhecido'}`);
-        return false;
-      }
-      
-      const docName = (doc.name || '').toLowerCase();
-      const isInstructionDoc = docName.includes('instruç') || 
-                              docName.includes('instruc') || 
-                              docName.includes('priorit') || 
-                              docName.includes('regras') ||
-                              docName.includes('nunca') ||
-                              docName.includes('proibid') ||
-                              docName.includes('obrigat');
-      
-      if (isInstructionDoc) {
-        console.log(`SELECIONADO documento de instrução: "${doc.name}" (ID: ${doc.id}) - Status: ${doc.status}`);
-        // Verificar se o documento tem conteúdo
-        if (!doc.content || doc.content.trim() === '') {
-          console.log(`ALERTA: Documento de instrução "${doc.name}" (ID: ${doc.id}) não tem conteúdo!`);
-        } else {
-          const contentPreview = doc.content.substring(0, 100).replace(/\n/g, ' ') + '...';
-          console.log(`Conteúdo (preview): ${contentPreview}`);
-        }
-      }
-      
-      return isInstructionDoc;
-    });
+    // Documentos prioritários (regras de sistema e guardrails) são marcados pelo administrador
+    const instructionsDocs = getPriorityDocuments(trainingDocuments);
+    recordTracePriorityDocuments(trace, instructionsDocs);
     
     if (instructionsDocs.length > 0) {
       console.log(`IMPORTANTE: Encontrados ${instructionsDocs.length} documentos de instruções prioritárias para incluir no contexto.`);
-      
-      // Verificar se existem instruções sobre não levar a técnicos externos
-      const neverConsultTechDocs = instructionsDocs.filter((doc: any) => {
-        const docContent = (doc.content || '').toLowerCase();
-        return docContent.includes('nunca levar') || 
-               docContent.includes('não levar') || 
-               docContent.includes('jamais levar') || 
-               docContent.includes('não recorrer') || 
-               docContent.includes('não consultar') || 
-               docContent.includes('nunca consultar') || 
-               docContent.includes('nunca recorrer') || 
-               docContent.includes('não técnico') || 
-               docContent.includes('nunca técnico');
+      instructionsDocs.forEach(doc => {
+        console.log(`SELECIONADO documento prioritário (${doc.kind}, prioridade ${doc.priority}): "${doc.name}" (ID: ${doc.id})`);
       });
       
-      if (neverConsultTechDocs.length > 0) {
-        console.log(`✅ ENCONTRADOS ${neverConsultTechDocs.length} documentos com instruções sobre NUNCA levar a técnicos.`);
-      } else {
-        console.log(`⚠️ ATENÇÃO: Não foram encontrados documentos com instruções sobre NUNCA levar a técnicos.`);
+      const guardrailDocs = instructionsDocs.filter(doc => doc.kind === 'guardrail');
+      if (guardrailDocs.length > 0) {
+        console.log(`✅ ENCONTRADOS ${guardrailDocs.length} documentos de guardrail.`);
       }
     } else {
       console.log('AVISO: Nenhum documento de instruções prioritárias encontrado.');
     }
     
-    // Determinar modelo a usar
-    const provider = llmConfig.model_name.startsWith('gpt') ? 'openai' : 'anthropic';
-    const modelName = llmConfig.model_name;
-    const temperature = llmConfig.temperature || '0.3';
+    // Determinar modelo e provedor a usar
+    const llmInfo = buildLlmFullConfig(llmConfig);
+    const modelName = llmInfo.modelName;
     
     console.log(`USANDO NOVO PROCESSADOR RAG COM ${modelName}`);
     
+    // Perguntas de continuação ("e o segundo capacitor?") são reescritas como consulta autônoma para a busca
+    const searchQuery = await condenseFollowUpQuery(message, history, llmInfo);
+    trace.retrieval_query = searchQuery;
+    // Filtros de marca, modelo, revisão, categorias e idioma (da interface e inferidos da pergunta)
+    const filters = resolvedFilters ?? await resolveRetrievalFilters(searchQuery, explicitFilters, trace);
+    const searchDocumentIds = await applyCategoryFilter(documentIds, filters.category_ids);
+    // Histórico enviado ao modelo, limitado pelo orçamento de tokens
+    const historyWindow = await buildHistoryWindow(history, { llmInfo });
+    
+    // Verificações adicionais para respostas negativas
+    const blockedPhrases = [
+      "não encontrei", 
+      "não contém", 
+      "não possui", 
+      "não fornece", 
+      "não disponibiliza",
+      "não menciona",
+      "não aborda",
+      "não foi possível encontrar",
+      "documento não",
+      "documentos não",
+      "não há informações"
+    ];
+    
+    // Verificar se a resposta contém frases negativas
+    const containsBlockedPhrase = (text: string) => blockedPhrases.some(phrase => 
+      text.toLowerCase().includes(phrase.toLowerCase())
+    );
+    
     try {
       // Antes de tudo, vamos tentar o novo sistema RAG (primeira tentativa)
       console.log(`Tentando processamento RAG para consulta: "${message}"`);
       
-      const response = await processQueryWithRAG(message, {
-        language: 'pt',
+      const { text: response, sources: responseSources, failed } = await processQueryWithRAG(message, {
+        language,
         model: modelName,
+        llmInfo,
         userId,
-        widgetId
+        widgetId,
+        documentIds,
+        stream,
+        retrievalQuery: searchQuery,
+        history: historyWindow,
+        trace,
+        filters,
+        acceptResponse: text => !containsBlockedPhrase(text)
       });
       
-      // Verificações adicionais para respostas negativas
-      const blockedPhrases = [
-        "não encontrei", 
-        "não contém", 
-        "não possui", 
-        "não fornece", 
-        "não disponibiliza",
-        "não menciona",
-        "não aborda",
-        "não foi possível encontrar",
-        "documento não",
-        "documentos não",
-        "não há informações"
-      ];
-      
-      // Verificar se a resposta contém frases negativas
-      const containsBlockedPhrase = blockedPhrases.some(phrase => 
-        response.toLowerCase().includes(phrase.toLowerCase())
-      );
-      
-      if (response && !containsBlockedPhrase) {
+      if (response && !failed && !containsBlockedPhrase(response)) {
         console.log('Sucesso no processamento RAG - retornando resposta');
         
         // Registrar o uso do LLM (aproximadamente)
@@ -154,26 +215,34 @@ export async function processChatWithTrainedDocuments(
           Math.floor(message.length / 4) + Math.floor(response.length / 4) + 500
         );
         
-        return response;
+        trace.path = 'rag';
+        return { text: response, sources: responseSources };
       }
       
       console.log('Resposta RAG inadequada, tentando método híbrido com instrução forçada');
       
       // Se chegarmos aqui, o RAG simples falhou - vamos tentar com instruções mais fortes
-      const forceResponse = await processQueryWithRAG(message, {
-        language: 'pt',
+      const { text: forceResponse, sources: forceSources, failed: forceFailed } = await processQueryWithRAG(message, {
+        language,
         model: modelName,
+        llmInfo,
         userId,
         widgetId,
-        forceExtraction: true  // Novo parâmetro para forçar extração de informações
+        documentIds,
+        forceExtraction: true,  // Novo parâmetro para forçar extração de informações
+        stream,
+        retrievalQuery: searchQuery,
+        history: historyWindow,
+        trace,
+        filters,
+        acceptResponse: text => !containsBlockedPhrase(text)
       });
       
       // Se a resposta forçada é melhor, use-a
-      if (forceResponse && !blockedPhrases.some(phrase => 
-        forceResponse.toLowerCase().includes(phrase.toLowerCase()))
-      ) {
+      if (forceResponse && !forceFailed && !containsBlockedPhrase(forceResponse)) {
         console.log('Sucesso com processamento RAG forçado - retornando resposta');
-        return forceResponse;
+        trace.path = 'rag_forced';
+        return { text: forceResponse, sources: forceSources };
       }
       
       console.log('Resposta RAG forçada ainda inadequada, tentando método híbrido');
@@ -183,13 +252,22 @@ export async function processChatWithTrainedDocuments(
     
     // Iniciar o contexto de documentos vazio (sistema antigo como fallback)
     let documentContext = "";
+    // Fontes citáveis do contexto (apenas a busca híbrida traz chunks identificados)
+    let sources: MessageSource[] = [];
+    // Trechos do contexto, usados na verificação de fundamentação da resposta
+    let contextDocuments: any[] = [];
+    // Descartar os chunks das tentativas RAG anteriores
+    trace.chunks = [];
     
     // Tentar busca híbrida usando o sistema RAG
     try {
-      console.log(`Executando busca híbrida para: "${message}"`);
-      const relevantDocuments = await hybridSearch(message, {
+      console.log(`Executando busca híbrida para: "${searchQuery}"`);
+      const relevantDocuments = await hybridSearch(searchQuery, {
         limit: 7,
-        language: 'pt'
+        language: filters.language || 'pt',
+        documentIds: searchDocumentIds,
+        llmInfo,
+        filters
       });
       
       // Forçar a inclusão de documentos de instruções prioritárias
@@ -201,19 +279,11 @@ export async function processChatWithTrainedDocuments(
         
         // Adicionar TODOS os documentos de instrução no início para garantir que sejam usados
         for (const instructionDoc of instructionsDocs) {
-          if (instructionDoc.content && instructionDoc.content.trim().length > 0) {
-            console.log(`✅ ADICIONANDO documento de instrução FORÇADO: "${instructionDoc.name}" (ID: ${instructionDoc.id})`);
-            
-            relevantDocuments.push({
-              content: instructionDoc.content,
-              document_name: instructionDoc.name,
-              similarity: 1.0, // Máxima prioridade
-              document_id: instructionDoc.id,
-              relevance_score: 1.0
-            });
-          } else {
-            console.log(`⚠️ Documento de instrução sem conteúdo: "${instructionDoc.name}" (ID: ${instructionDoc.id})`);
-          }
+          console.log(`✅ ADICIONANDO documento de instrução FORÇADO: "${instructionDoc.name}" (ID: ${instructionDoc.id})`);
+          relevantDocuments.push({
+            ...toPriorityContextDocument(instructionDoc),
+            relevance_score: 1.0
+          });
         }
         
         // Agora proceder com a busca para adicionar documentos relevantes APÓS os documentos de instrução
@@ -222,19 +292,26 @@ export async function processChatWithTrainedDocuments(
       
       if (relevantDocuments && relevantDocuments.length > 0) {
         console.log(`Usando total de ${relevantDocuments.length} documentos via busca híbrida RAG`);
+        sources = assignCitationIds(relevantDocuments);
         documentContext = formatRelevantDocumentsForPrompt(relevantDocuments);
+        trace.path = 'hybrid';
+        recordTraceChunks(trace, relevantDocuments, sources);
+        contextDocuments = relevantDocuments;
       } else {
         throw new Error("Sem resultados na busca híbrida");
       }
     } catch (hybridError) {
       console.error("Erro na busca híbrida:", hybridError);
       
-      // Tentar busca semântica antiga como último recurso
+      // Tentar busca apenas semântica como último recurso
       try {
-        const relevantDocuments = await searchRelevantDocuments(message, 5);
+        const relevantDocuments = await searchRelevantDocuments(searchQuery, 5, searchDocumentIds, filters);
         
         if (relevantDocuments && relevantDocuments.length > 0) {
-          console.log(`Encontrados ${relevantDocuments.length} documentos via busca semântica antiga`);
+          console.log(`Encontrados ${relevantDocuments.length} documentos via busca semântica`);
+          trace.path = 'semantic';
+          recordTraceChunks(trace, relevantDocuments);
+          contextDocuments = relevantDocuments;
           
           // Adicionar documentos relevantes ao contexto
           for (const doc of relevantDocuments) {
@@ -250,8 +327,12 @@ export async function processChatWithTrainedDocuments(
         console.error("Erro na busca semântica:", semanticError);
         
         // Método de fallback - busca tradicional de documentos
-        const allTrainingDocs = await storage.getTrainingDocuments();
+        const allTrainingDocs = filterDocumentsByMetadata(
+          filterDocumentsByScope(await storage.getTrainingDocuments(), searchDocumentIds),
+          filters
+        );
         console.log(`Obtidos ${allTrainingDocs.length} documentos para fallback final`);
+        trace.path = 'full_documents';
         
         // Extrair documentos com conteúdo
         for (const doc of allTrainingDocs) {
@@ -290,8 +371,7 @@ export async function processChatWithTrainedDocuments(
       
       // Concatenar conteúdo de todos os documentos de instruções
       const conteudoInstrucoes = instructionsDocs
-        .filter(doc => doc.content && doc.content.trim().length > 0)
-        .map(doc => doc.content.trim())
+        .map(doc => (doc.content || '').trim())
         .join("\n\n");
       
       if (conteudoInstrucoes && conteudoInstrucoes.length > 0) {
@@ -329,6 +409,7 @@ ${conteudoInstrucoes}
     5. Se encontrar múltiplas informações nos documentos, priorize as mais relevantes para a pergunta.
     6. Formate sua resposta de maneira organizada, com parágrafos curtos e pontos específicos quando apropriado.
     7. Se a pergunta for sobre algum tópico não coberto nos documentos, forneça informações relacionadas que ESTEJAM nos documentos.
+    ${sources.length > 0 ? '8. Cada documento abaixo tem um identificador entre colchetes (ex.: [S1]). Coloque o identificador logo após cada informação retirada dele, ex.: "Meça a tensão VS1 [S2]." Use apenas os identificadores fornecidos.' : ''}
     
     PERGUNTA DO TÉCNICO: "${message}"
     
@@ -372,30 +453,18 @@ ${systemPrompt}`;
       console.log('Instruções de comportamento formatadas e adicionadas com máxima prioridade');
     }
     
+    recordTracePrompt(trace, systemPrompt, [...historyWindow, { role: 'user', content: message }], modelName);
+    
     // Usar a API apropriada para responder
-    let response: string;
-    
-    if (provider === 'openai') {
-      response = await processWithOpenAI(
-        systemPrompt,
-        message,
-        modelName,
-        llmConfig.api_key,
-        temperature,
-        userId,
-        widgetId
-      );
-    } else {
-      response = await processWithAnthropic(
-        systemPrompt,
-        message,
-        modelName,
-        llmConfig.api_key,
-        temperature,
-        userId,
-        widgetId
-      );
-    }
+    const response = await processWithProvider(
+      systemPrompt,
+      message,
+      llmInfo,
+      userId,
+      widgetId,
+      holdStreamForGrounding(llmInfo, stream),
+      historyWindow
+    );
     
     // Verificar se a resposta indica falta de conhecimento
     const noInfoPhrases = [
@@ -423,17 +492,19 @@ ${systemPrompt}`;
     if (needsExternalSearch && shouldUseExternalSearch(message)) {
       console.log('Resposta indicou falta de conhecimento. Tentando busca externa');
       
+      trace.external_search.attempted = true;
       try {
         // Tentar busca externa
         const externalInfo = await searchExternalKnowledge(
           message, 
-          'pt', 
+          language, 
           userId, 
           widgetId
         );
         
         if (externalInfo) {
           console.log('Busca externa retornou informações. Gerando resposta combinada');
+          trace.external_search.used = true;
           
           // Para busca externa, iremos usar as instruções de comportamento da configuração
           console.log(`Busca Externa - Incorporando instruções de comportamento: ${llmConfig.behavior_instructions ? 'Sim' : 'Não'}`);
@@ -514,33 +585,36 @@ ${combinedPrompt}`;
             console.log('Busca Externa - Instruções de comportamento formatadas e adicionadas com máxima prioridade');
           }
           
+          recordTracePrompt(trace, combinedPrompt, [...historyWindow, { role: 'user', content: message }], modelName);
+          
           // Reprocessar com o prompt combinado
-          let combinedResponse: string;
+          const combinedResponse = await processWithProvider(
+            combinedPrompt,
+            message,
+            llmInfo,
+            userId,
+            widgetId,
+            holdStreamForGrounding(llmInfo, stream),
+            historyWindow
+          );
           
-          if (provider === 'openai') {
-            combinedResponse = await processWithOpenAI(
-              combinedPrompt,
-              message,
-              modelName,
-              llmConfig.api_key,
-              temperature,
-              userId,
-              widgetId
-            );
-          } else {
-            combinedResponse = await processWithAnthropic(
-              combinedPrompt,
-              message,
-              modelName,
-              llmConfig.api_key,
-              temperature,
+          console.log('Resposta gerada combinando conhecimento interno e busca externa');
+          // Valores vindos da busca externa são os que mais provavelmente não constam dos manuais:
+          // a resposta é conferida contra o contexto dos documentos (ou o texto completo deles)
+          const verifiedCombinedResponse = await applyGroundingCheck(
+            combinedResponse,
+            contextDocuments.length > 0 ? contextDocuments : [{ content: documentContext, document_name: 'Documentos de treinamento' }],
+            {
+              llmInfo,
+              query: message,
+              language,
+              stream,
+              trace,
               userId,
               widgetId
-            );
-          }
-          
-          console.log('Resposta gerada combinando conhecimento interno e busca externa');
-          return combinedResponse;
+            }
+          );
+          return { text: verifiedCombinedResponse, sources: selectCitedSources(verifiedCombinedResponse, sources) };
         }
       } catch (externalError) {
         console.error('Erro ao tentar busca externa:', externalError);
@@ -549,189 +623,80 @@ ${combinedPrompt}`;
     }
     
     console.log('Resposta gerada com documentos de treinamento');
-    return response;
+    const verifiedResponse = await applyGroundingCheck(response, contextDocuments, {
+      llmInfo,
+      query: message,
+      language,
+      stream,
+      trace,
+      userId,
+      widgetId
+    });
+    return { text: verifiedResponse, sources: selectCitedSources(verifiedResponse, sources) };
     
   } catch (error: any) {
     console.error('Erro ao processar mensagem com documentos:', error);
-    return `Ocorreu um erro ao processar sua mensagem: ${error.message}`;
+    trace.path = 'error';
+    return { text: `Ocorreu um erro ao processar sua mensagem: ${error.message}`, sources: [], failed: true };
   }
 }
 
 /**
- * Processa um chat com OpenAI
+ * Processa um chat com o adaptador do provedor configurado
  */
-async function processWithOpenAI(
+async function processWithProvider(
   systemPrompt: string,
   userMessage: string,
-  modelName: string,
-  apiKey: string,
-  temperature: string = '0.3',
+  llmInfo: LlmFullConfig,
   userId?: number,
-  widgetId?: string
+  widgetId?: string,
+  stream?: LlmStreamListener,
+  history: LlmChatMessage[] = []
 ): Promise<string> {
+  const { provider, modelName, temperature } = llmInfo;
+  
   try {
-    // Verificar se a chave API está disponível
-    if (!apiKey) {
-      if (process.env.OPENAI_API_KEY) {
-        console.log('Usando chave OpenAI do ambiente como fallback');
-        apiKey = process.env.OPENAI_API_KEY;
-      } else {
-        throw new Error('Chave API OpenAI não disponível');
-      }
-    }
-    
-    // Limpar a chave API de possíveis prefixos 'Bearer' ou aspas
-    if (typeof apiKey === 'string') {
-      // Verificar se a chave está mascarada (caso de debugging/UI)
-      if (apiKey.includes('••••••') || apiKey.includes('Bearer •')) {
-        console.error('ERRO: Chave API mascarada detectada. Usando chave do ambiente.');
-        apiKey = process.env.OPENAI_API_KEY || '';
-        if (!apiKey) {
-          throw new Error('Chave API OpenAI não disponível no ambiente como fallback');
-        }
-      } else if (apiKey.toLowerCase().startsWith('bearer ')) {
-        // Remover prefixo 'Bearer ' se presente
-        console.log('Removendo prefixo Bearer da chave OpenAI');
-        apiKey = apiKey.substring(7).trim();
-      }
-      
-      // Remover quaisquer aspas
-      apiKey = apiKey.replace(/["']/g, '').trim();
+    // Realizar a chamada à API percorrendo a cadeia de failover
+    const { result, target } = await runWithFailover(llmInfo, 'text', async (target) => {
+      const adapter = getLlmProvider(target.provider);
       
-      // Verificar se a chave tem formato válido após limpeza
-      if (!apiKey.startsWith('sk-')) {
-        console.warn('AVISO: Chave OpenAI não começa com sk-, formato potencialmente inválido');
-      }
-    }
-    
-    // Inicializar cliente OpenAI com a chave limpa
-    const openai = new OpenAI({ apiKey });
-    
-    // Realizar a chamada à API
-    const completion = await openai.chat.completions.create({
-      model: modelName,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userMessage }
-      ],
-      temperature: parseFloat(temperature) // Usando o valor configurado
-    });
-    
-    // Extrair a resposta do modelo
-    const response = completion.choices[0]?.message?.content || 'Não foi possível gerar uma resposta.';
-    
-    // Registrar o uso do LLM
-    await logLlmUsage(
-      modelName,
-      'text',
-      true,
-      userId,
-      widgetId,
-      completion.usage?.total_tokens || 0,
-      undefined
-    );
-    
-    return response;
-  } catch (error: any) {
-    console.error('Erro ao processar com OpenAI:', error);
-    
-    // Registrar o erro
-    await logLlmUsage(
-      modelName,
-      'text',
-      false,
-      userId,
-      widgetId,
-      0,
-      error.message
-    );
-    
-    throw error;
-  }
-}
-
-/**
- * Processa um chat com Anthropic
- */
-async function processWithAnthropic(
-  systemPrompt: string,
-  userMessage: string,
-  modelName: string,
-  apiKey: string,
-  temperature: string = '0.3',
-  userId?: number,
-  widgetId?: string
-): Promise<string> {
-  try {
-    // Verificar se a chave API está disponível
-    if (!apiKey) {
-      if (process.env.ANTHROPIC_API_KEY) {
-        console.log('Usando chave Anthropic do ambiente como fallback');
-        apiKey = process.env.ANTHROPIC_API_KEY;
-      } else {
-        throw new Error('Chave API Anthropic não disponível');
-      }
-    }
-    
-    // Limpar a chave API de possíveis prefixos 'Bearer' ou aspas
-    if (typeof apiKey === 'string') {
-      // Verificar se a chave está mascarada (caso de debugging/UI)
-      if (apiKey.includes('••••••') || apiKey.includes('Bearer •')) {
-        console.error('ERRO: Chave API mascarada detectada. Usando chave do ambiente.');
-        apiKey = process.env.ANTHROPIC_API_KEY || '';
-        if (!apiKey) {
-          throw new Error('Chave API Anthropic não disponível no ambiente como fallback');
-        }
-      } else if (apiKey.toLowerCase().startsWith('bearer ')) {
-        // Remover prefixo 'Bearer ' se presente
-        console.log('Removendo prefixo Bearer da chave Anthropic');
-        apiKey = apiKey.substring(7).trim();
+      if (!target.apiKey && adapter.requiresApiKey) {
+        throw new Error(`Chave API ${adapter.label} não disponível`);
       }
       
-      // Remover quaisquer aspas
-      apiKey = apiKey.replace(/["']/g, '').trim();
-      
-      // Verificar se a chave tem formato válido após limpeza
-      if (!apiKey.startsWith('sk-ant-')) {
-        console.warn('AVISO: Chave Anthropic não começa com sk-ant-, formato potencialmente inválido');
-      }
-    }
-    
-    // Inicializar cliente Anthropic com a chave limpa
-    const anthropic = new Anthropic({ apiKey });
-    
-    // Realizar a chamada à API
-    const message = await anthropic.messages.create({
-      model: modelName,
-      max_tokens: 1000,
-      temperature: parseFloat(temperature), // Usando o valor configurado
-      system: systemPrompt,
-      messages: [
-        { role: 'user', content: userMessage }
-      ]
-    });
+      const result = await chatWithStream(adapter, {
+        model: target.modelName,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
+        system: systemPrompt,
+        messages: [
+          ...history,
+          { role: 'user', content: userMessage }
+        ],
+        temperature: parseFloat(temperature || '0.3'), // Usando o valor configurado
+        maxTokens: 1000
+      }, stream);
+      return { result, target };
+    }, { userId, widgetId });
     
-    // Extrair texto da resposta da Anthropic
-    let response = 'Não foi possível gerar uma resposta.';
-    if (message.content[0] && typeof message.content[0] === 'object' && 'text' in message.content[0]) {
-      response = message.content[0].text;
-    }
+    // Extrair a resposta do modelo
+    const response = result.text || 'Não foi possível gerar uma resposta.';
     
     // Registrar o uso do LLM
-    const totalTokens = (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0);
     await logLlmUsage(
-      modelName,
+      target.modelName,
       'text',
       true,
       userId,
       widgetId,
-      totalTokens,
-      undefined
+      result.totalTokens,
+      undefined,
+      target.provider
     );
     
     return response;
   } catch (error: any) {
-    console.error('Erro ao processar com Anthropic:', error);
+    console.error(`Erro ao processar com ${provider}:`, error);
     
     // Registrar o erro
     await logLlmUsage(
@@ -741,7 +706,8 @@ async function processWithAnthropic(
       userId,
       widgetId,
       0,
-      error.message
+      error.message,
+      provider
     );
     
     throw error;
@@ -755,14 +721,14 @@ async function processRegularChat(
   message: string,
   llmConfig: any,
   userId?: number,
-  widgetId?: string
+  widgetId?: string,
+  stream?: LlmStreamListener,
+  history: LlmChatMessage[] = []
 ): Promise<string> {
   try {
     // Verificar qual provedor usar
-    const provider = llmConfig.model_name.startsWith('gpt') ? 'openai' : 'anthropic';
-    const modelName = llmConfig.model_name;
-    const apiKey = llmConfig.api_key;
-    const temperature = llmConfig.temperature || '0.3';
+    const llmInfo = buildLlmFullConfig(llmConfig);
+    const historyWindow = await buildHistoryWindow(history, { llmInfo });
     
     // Obter instruções de comportamento da configuração do LLM
     const behaviorInstructions = llmConfig.behavior_instructions || '';
@@ -942,28 +908,16 @@ completas, não encaminhar para outros profissionais.
 
 ${systemPrompt}`;
     
-    // Usar o provedor apropriado
-    if (provider === 'openai') {
-      return await processWithOpenAI(
-        systemPrompt,
-        message,
-        modelName,
-        apiKey,
-        temperature,
-        userId,
-        widgetId
-      );
-    } else {
-      return await processWithAnthropic(
-        systemPrompt,
-        message,
-        modelName,
-        apiKey,
-        temperature,
-        userId,
-        widgetId
-      );
-    }
+    // Usar o provedor configurado
+    return await processWithProvider(
+      systemPrompt,
+      message,
+      llmInfo,
+      userId,
+      widgetId,
+      stream,
+      historyWindow
+    );
   } catch (error: any) {
     console.error('Erro ao processar chat regular:', error);
     return `Ocorreu um erro ao processar sua mensagem: ${error.message}`;
@@ -2,8 +2,7 @@ import { getActiveLlmInfo } from "./llm";
 import { storage } from "./storage";
 import fs from "fs";
 import path from "path";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
+import { getLlmProvider } from "./llm-providers";
 import { processDocumentContent } from "./document-processors";
 
 // Função para determinar se o arquivo é de texto ou binário
@@ -66,15 +65,15 @@ export async function testDocumentKnowledge(query: string, documentId: number) {
     if (document.status === "indexed") {
       console.log(`Documento ID ${document.id} está indexado. Usando embeddings para teste.`);
       
-      // Buscar chunks armazenados para este documento na knowledge_base
-      const knowledgeEntries = await storage.getKnowledgeEntriesBySource("document", document.id);
+      // Buscar os chunks indexados para este documento
+      const documentChunks = await storage.getDocumentChunksByDocument(document.id);
       
-      if (knowledgeEntries && knowledgeEntries.length > 0) {
-        // Combinar o conteúdo de todos os chunks
-        content = knowledgeEntries.map(entry => entry.content).join("\n\n");
-        console.log(`Reconstruído conteúdo do documento a partir de ${knowledgeEntries.length} chunks de conhecimento`);
+      if (documentChunks && documentChunks.length > 0) {
+        // Combinar o conteúdo de todos os chunks na ordem do documento
+        content = documentChunks.map(chunk => chunk.content).join("\n\n");
+        console.log(`Reconstruído conteúdo do documento a partir de ${documentChunks.length} chunks indexados`);
       } else {
-        console.log(`Nenhum chunk de conhecimento encontrado para o documento indexado ID ${document.id}`);
+        console.log(`Nenhum chunk indexado encontrado para o documento ID ${document.id}`);
       }
     }
     
@@ -268,104 +267,42 @@ export async function testDocumentKnowledge(query: string, documentId: number) {
     `;
     
     // Chamar o LLM com o prompt personalizado
-    const { provider, modelName } = llmConfig;
+    const { provider, modelName, apiKey, baseUrl } = llmConfig;
+    const adapter = getLlmProvider(provider);
+    
+    if (!apiKey && adapter.requiresApiKey) {
+      console.error(`Chave ${adapter.label} não está configurada`);
+      return {
+        response: `Erro de configuração: não foi possível acessar uma chave válida para ${adapter.label}. Verifique a configuração do LLM.`,
+        usedDocument: false,
+        documentName: document.name,
+      };
+    }
     
-    // Aqui você usaria a API do LLM para obter a resposta
-    // Por exemplo, usando a OpenAI:
     let response;
     
-    if (provider === "openai") {
-      try {
-        // Use diretamente a chave do ambiente
-        let apiKeyToUse = process.env.OPENAI_API_KEY;
-        if (apiKeyToUse) {
-          console.log("Usando chave do ambiente para teste de OpenAI");
-        } else {
-          console.error("Chave OpenAI do ambiente não está configurada");
-          return {
-            response: "Erro de configuração: não foi possível acessar uma chave válida para OpenAI. Verifique as variáveis de ambiente.",
-            usedDocument: false,
-            documentName: document.name,
-          };
-        }
-        
-        console.log(`Testando documento com modelo OpenAI: ${modelName}`);
-        
-        // Criar cliente com chave do ambiente
-        const openai = new OpenAI({
-          apiKey: apiKeyToUse
-        });
-        
-        // Fazer chamada API
-        const completion = await openai.chat.completions.create({
-          model: modelName,
-          messages: [
-            { 
-              role: "system", 
-              content: "Você é um assistente focado em extrair conhecimento de documentos técnicos. " +
-                       "Seu trabalho é encontrar informações ESPECÍFICAS relacionadas à consulta do usuário, mesmo que não sejam óbvias. " +
-                       "NUNCA responda que o documento não possui informações sem antes fazer uma análise completa. " +
-                       "Procure por termos relacionados, siglas, códigos ou referências indiretas. " +
-                       "Se encontrar QUALQUER informação relevante, por mais indireta que seja, cite-a explicitamente."
-            },
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.1 // Temperatura menor para ser mais focado e preciso
-        });
-        
-        response = completion.choices[0]?.message?.content || "Não foi possível gerar uma resposta.";  
-      } catch (apiError: any) {
-        console.error("Erro na chamada da API OpenAI:", apiError.message);
-        response = `Erro ao consultar API OpenAI: ${apiError.message || 'Erro desconhecido'}`;
-      }
-    } else if (provider === "anthropic") {
-      try {
-        // Use diretamente a chave do ambiente
-        let apiKeyToUse = process.env.ANTHROPIC_API_KEY;
-        if (apiKeyToUse) {
-          console.log("Usando chave do ambiente para teste de Anthropic");
-        } else {
-          console.error("Chave Anthropic do ambiente não está configurada");
-          return {
-            response: "Erro de configuração: não foi possível acessar uma chave válida para Anthropic. Verifique as variáveis de ambiente.",
-            usedDocument: false,
-            documentName: document.name,
-          };
-        }
-        
-        console.log(`Testando documento com modelo Anthropic: ${modelName}`);
-        
-        // Criar cliente com chave do ambiente
-        const anthropic = new Anthropic({
-          apiKey: apiKeyToUse
-        });
-        
-        // Fazer chamada API
-        const message = await anthropic.messages.create({
-          model: modelName,
-          max_tokens: 1000,
-          system: "Você é um assistente focado em extrair conhecimento de documentos técnicos. " +
-                 "Seu trabalho é encontrar informações ESPECÍFICAS relacionadas à consulta do usuário, mesmo que não sejam óbvias. " +
-                 "NUNCA responda que o documento não possui informações sem antes fazer uma análise completa. " +
-                 "Procure por termos relacionados, siglas, códigos ou referências indiretas. " +
-                 "Se encontrar QUALQUER informação relevante, por mais indireta que seja, cite-a explicitamente.",
-          messages: [{ role: "user", content: prompt }],
-          temperature: 0.1, // Temperatura menor para ser mais focado e preciso
-        });
-        
-        // Extrair texto da resposta da Anthropic
-        if (message.content[0] && typeof message.content[0] === 'object' && 'text' in message.content[0]) {
-          response = message.content[0].text;
-        } else {
-          response = "Erro ao processar resposta da Anthropic";
-        }
-      } catch (apiError: any) {
-        console.error("Erro na chamada da API Anthropic:", apiError.message);
-        response = `Erro ao consultar API Anthropic: ${apiError.message || 'Erro desconhecido'}`;
-      }
-    } else {
-      // Implementar outros provedores conforme necessário
-      response = "Teste de documento não implementado para este provedor de LLM.";
+    try {
+      console.log(`Testando documento com modelo ${adapter.label}: ${modelName}`);
+      
+      // Fazer chamada API
+      const result = await adapter.chat({
+        model: modelName,
+        apiKey,
+        baseUrl,
+        system: "Você é um assistente focado em extrair conhecimento de documentos técnicos. " +
+               "Seu trabalho é encontrar informações ESPECÍFICAS relacionadas à consulta do usuário, mesmo que não sejam óbvias. " +
+               "NUNCA responda que o documento não possui informações sem antes fazer uma análise completa. " +
+               "Procure por termos relacionados, siglas, códigos ou referências indiretas. " +
+               "Se encontrar QUALQUER informação relevante, por mais indireta que seja, cite-a explicitamente.",
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.1, // Temperatura menor para ser mais focado e preciso
+        maxTokens: 1000
+      });
+      
+      response = result.text || "Não foi possível gerar uma resposta.";
+    } catch (apiError: any) {
+      console.error(`Erro na chamada da API ${adapter.label}:`, apiError.message);
+      response = `Erro ao consultar API ${adapter.label}: ${apiError.message || 'Erro desconhecido'}`;
     }
     
     // Verificar se a resposta contém informações do documento
@@ -1,7 +1,18 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, json, foreignKey, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, json, foreignKey, uuid, vector, customType, real } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Dimensão dos embeddings armazenados em pgvector (text-embedding-ada-002 / text-embedding-3-small)
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// Coluna tsvector do Postgres (busca textual); o drizzle não tem tipo nativo para ela
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -33,12 +44,18 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const llmConfigs = pgTable("llm_configs", {
   id: serial("id").primaryKey(),
   model_name: text("model_name").notNull(),
+  provider: text("provider").default("anthropic").notNull(), // Chave do adaptador em server/llm-providers.ts
+  base_url: text("base_url"), // Endpoint para provedores self-hosted compatíveis com OpenAI
   api_key: text("api_key").notNull(),
   tone: text("tone", { enum: ["formal", "normal", "casual"] }).default("normal").notNull(),
   behavior_instructions: text("behavior_instructions"),
   temperature: text("temperature").default("0.3").notNull(), // Temperatura - valores entre 0 e 1
   should_use_training: boolean("should_use_training").default(true).notNull(),
+  // Verificação das afirmações da resposta contra os chunks recuperados: off, flag (só registra),
+  // annotate (acrescenta aviso) ou rewrite (reescreve de forma conservadora)
+  grounding_mode: text("grounding_mode", { enum: ["off", "flag", "annotate", "rewrite"] }).default("off").notNull(),
   is_active: boolean("is_active").notNull().default(true),
+  fallback_order: integer("fallback_order"), // Posição na cadeia de failover (null = fora da cadeia)
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
   created_by: integer("created_by").notNull().references(() => users.id),
@@ -46,11 +63,14 @@ export const llmConfigs = pgTable("llm_configs", {
 
 export const insertLlmConfigSchema = createInsertSchema(llmConfigs).pick({
   model_name: true,
+  provider: true,
+  base_url: true,
   api_key: true,
   tone: true,
   behavior_instructions: true,
   temperature: true,
   should_use_training: true,
+  grounding_mode: true,
   created_by: true,
 });
 
@@ -88,6 +108,77 @@ export const insertChatSessionSchema = createInsertSchema(chatSessions).pick({
 });
 
 // Chat messages table
+// Fonte citada em uma resposta do RAG (trecho de documento de treinamento)
+export interface MessageSource {
+  id: string; // Identificador da citação usado no texto da resposta, ex.: "S1"
+  document_id: number;
+  document_name: string;
+  chunk_index: number | null;
+  snippet: string;
+  page: number | null;
+}
+
+// Chunk considerado no contexto de uma resposta, com os scores de cada etapa da busca
+export interface RetrievalTraceChunk {
+  chunk_id: number | null;
+  document_id: number;
+  document_name: string;
+  chunk_index: number | null;
+  similarity: number | null;
+  rrf_score: number | null;
+  rerank_score: number | null;
+  citation_id: string | null; // Identificador de citação atribuído no prompt, ex.: "S1"
+}
+
+// Afirmação factual da resposta e se algum trecho recuperado a sustenta
+export interface GroundingClaim {
+  claim: string;
+  supported: boolean;
+  citation_id: string | null; // Trecho que sustenta a afirmação, ex.: "S2"
+}
+
+// Resultado da verificação de fundamentação de uma resposta
+export interface GroundingVerdict {
+  status: "grounded" | "weak" | "unsupported";
+  score: number; // Fração das afirmações sustentadas (0 a 1)
+  claims: GroundingClaim[];
+  action: "none" | "flagged" | "annotated" | "rewritten"; // O que foi feito com a resposta
+  original_text?: string; // Resposta antes da reescrita
+}
+
+// Filtro de metadados aplicado aos chunks na busca. Chunks sem o metadado (documentos genéricos) sempre passam.
+export interface ChunkMetadataFilter {
+  brand?: string;
+  device_models?: string[];
+  board_revision?: string;
+}
+
+// Filtros da recuperação: metadados dos chunks, categorias dos documentos e idioma dos chunks
+export interface RetrievalFilters extends ChunkMetadataFilter {
+  category_ids?: number[];
+  language?: "pt" | "en";
+}
+
+// Rastreamento da recuperação de uma resposta do bot ("por que ele respondeu isso?")
+export interface RetrievalTrace {
+  query: string;
+  retrieval_query: string; // Consulta usada na busca (pode ter sido reescrita com o histórico)
+  topics: string[];
+  intent: string | null;
+  // Caminho que gerou a resposta: rag, rag_forced, hybrid, semantic, full_documents, regular, cache ou error
+  path: string;
+  chunks: RetrievalTraceChunk[];
+  priority_documents: Array<{ id: number; name: string; kind: string; priority: number }>;
+  topic_documents: string[]; // Nomes dos documentos adicionados pelos tópicos da consulta
+  external_search: { attempted: boolean; used: boolean };
+  cache_hit?: { entry_id: number; similarity: number; cached_query: string }; // Resposta reutilizada do cache semântico
+  filters?: { explicit: RetrievalFilters; inferred: RetrievalFilters }; // Filtros informados pela interface e inferidos da consulta
+  grounding?: GroundingVerdict; // Verificação das afirmações da resposta contra os chunks recuperados
+  prompt_tokens: number | null;
+  system_prompt: string | null; // Truncado
+  created_at: string;
+}
+
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
   session_id: integer("session_id").notNull().references(() => chatSessions.id),
@@ -97,6 +188,7 @@ export const chatMessages = pgTable("chat_messages", {
   file_url: text("file_url"),
   file_data: text("file_data"), // Campo para armazenar dados da imagem em base64
   file_mime_type: text("file_mime_type"), // Tipo MIME do arquivo
+  sources: json("sources"), // Fontes citadas pela resposta da IA (MessageSource[])
   created_at: timestamp("created_at").defaultNow().notNull(),
   is_user: boolean("is_user").notNull().default(true),
 });
@@ -109,6 +201,7 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
   file_url: true,
   file_data: true,
   file_mime_type: true,
+  sources: true,
   is_user: true,
 });
 
@@ -163,6 +256,15 @@ export const insertOtpTokenSchema = createInsertSchema(otpTokens).pick({
 });
 
 // Training documents table
+// Papel do documento no prompt: regras de sistema e guardrails são sempre injetados,
+// independentemente da busca; documentos de referência entram apenas quando recuperados
+export const TRAINING_DOCUMENT_KINDS = ["system_rule", "guardrail", "reference"] as const;
+export type TrainingDocumentKind = typeof TRAINING_DOCUMENT_KINDS[number];
+
+// Fases da ingestão de um documento, na ordem em que acontecem
+export const INGESTION_PHASES = ["queued", "extracting", "chunking", "embedding", "indexing", "completed", "error"] as const;
+export type IngestionPhase = typeof INGESTION_PHASES[number];
+
 export const trainingDocuments = pgTable("training_documents", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -177,6 +279,15 @@ export const trainingDocuments = pgTable("training_documents", {
   status: text("status", { enum: ["pending", "processing", "completed", "error", "indexed"] }).notNull().default("pending"),
   error_message: text("error_message"),
   progress: integer("progress").default(0), // Valor percentual de 0 a 100
+  processing_phase: text("processing_phase", { enum: INGESTION_PHASES }), // Fase atual da ingestão
+  kind: text("kind", { enum: TRAINING_DOCUMENT_KINDS }).notNull().default("reference"),
+  priority: integer("priority").notNull().default(0), // Ordem entre documentos prioritários (maior primeiro)
+  // Metadados do aparelho coberto pelo documento (normalizados em minúsculas); vazios = documento genérico
+  brand: text("brand"),
+  device_models: text("device_models").array().notNull().default(sql`'{}'::text[]`),
+  board_revision: text("board_revision"),
+  // auto = extraídos na indexação; manual = editados pelo administrador (não são sobrescritos)
+  metadata_source: text("metadata_source", { enum: ["auto", "manual"] }),
   created_by: integer("created_by").notNull().references(() => users.id),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
@@ -193,6 +304,8 @@ export const insertTrainingDocumentSchema = createInsertSchema(trainingDocuments
   website_url: true,
   image_url: true,
   file_metadata: true,
+  kind: true,
+  priority: true,
   created_by: true,
 });
 
@@ -348,6 +461,12 @@ export const chatWidgets = pgTable("chat_widgets", {
   agent_timezone: text("agent_timezone").default("America/Sao_Paulo"),
   max_interactions: integer("max_interactions").default(20),
   interaction_limit_action: text("interaction_limit_action").default("block_5m"), // block_5m, block_1h, block_24h, ask_email, restart
+  
+  // Configuração de LLM própria do widget (campos nulos herdam a configuração global ativa)
+  llm_config_id: integer("llm_config_id").references(() => llmConfigs.id, { onDelete: "set null" }),
+  llm_temperature: text("llm_temperature"),
+  llm_tone: text("llm_tone", { enum: ["formal", "normal", "casual"] }),
+  llm_behavior_instructions: text("llm_behavior_instructions"),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -382,9 +501,28 @@ export const insertChatWidgetSchema = createInsertSchema(chatWidgets)
     agent_timezone: true,
     max_interactions: true,
     interaction_limit_action: true,
+    // Configuração de LLM do widget
+    llm_config_id: true,
+    llm_temperature: true,
+    llm_tone: true,
+    llm_behavior_instructions: true,
   })
   .partial(); // Torna todos os campos opcionais para mais flexibilidade
 
+// Junction table for widgets and training categories
+// Widgets com categorias vinculadas só recuperam conteúdo dos documentos dessas categorias
+export const widgetCategories = pgTable("widget_categories", {
+  id: serial("id").primaryKey(),
+  widget_id: uuid("widget_id").notNull().references(() => chatWidgets.id, { onDelete: "cascade" }),
+  category_id: integer("category_id").notNull().references(() => trainingCategories.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWidgetCategorySchema = createInsertSchema(widgetCategories).pick({
+  widget_id: true,
+  category_id: true,
+});
+
 // Widget chat sessions table
 export const widgetChatSessions = pgTable("widget_chat_sessions", {
   id: serial("id").primaryKey(),
@@ -415,6 +553,7 @@ export const widgetChatMessages = pgTable("widget_chat_messages", {
   file_url: text("file_url"),
   file_data: text("file_data"), // Campo para armazenar dados da imagem em base64
   file_mime_type: text("file_mime_type"), // Tipo MIME do arquivo
+  sources: json("sources"), // Fontes citadas pela resposta da IA (MessageSource[])
   created_at: timestamp("created_at").defaultNow().notNull(),
   is_user: boolean("is_user").notNull().default(true),
 });
@@ -426,6 +565,7 @@ export const insertWidgetChatMessageSchema = createInsertSchema(widgetChatMessag
   file_url: true,
   file_data: true,
   file_mime_type: true,
+  sources: true,
   is_user: true,
 });
 
@@ -477,6 +617,9 @@ export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
 export type ChatWidget = typeof chatWidgets.$inferSelect;
 export type InsertChatWidget = z.infer<typeof insertChatWidgetSchema>;
 
+export type WidgetCategory = typeof widgetCategories.$inferSelect;
+export type InsertWidgetCategory = z.infer<typeof insertWidgetCategorySchema>;
+
 export type WidgetChatSession = typeof widgetChatSessions.$inferSelect;
 export type InsertWidgetChatSession = z.infer<typeof insertWidgetChatSessionSchema>;
 
@@ -491,6 +634,7 @@ export const knowledgeBase = pgTable("knowledge_base", {
   id: serial("id").primaryKey(),
   content: text("content").notNull(),
   embedding: text("embedding"), // Será armazenado como JSON stringificado
+  embedding_vector: vector("embedding_vector", { dimensions: EMBEDDING_DIMENSIONS }), // Mesmo embedding em pgvector, usado na busca por similaridade
   source_type: text("source_type", { enum: ["chat", "document", "widget", "training"] }).notNull(),
   source_id: integer("source_id"),
   metadata: json("metadata").default({}),
@@ -499,7 +643,9 @@ export const knowledgeBase = pgTable("knowledge_base", {
   is_verified: boolean("is_verified").default(false).notNull(),
   relevance_score: integer("relevance_score").default(0).notNull(),
   chunk_index: integer("chunk_index"),
-  document_title: text("document_title")
+  document_title: text("document_title"),
+  embedding_model: text("embedding_model"), // Modelo que gerou o embedding (vetores de modelos diferentes não são comparáveis)
+  embedding_dim: integer("embedding_dim")
 });
 
 // Document Chunks table para armazenar partes de documentos (chunking)
@@ -511,9 +657,20 @@ export const documentChunks = pgTable("document_chunks", {
   content_hash: text("content_hash").notNull(),
   source_type: text("source_type", { enum: ["document", "chat", "widget", "training"] }).notNull().default("document"),
   embedding: text("embedding"), // Vetor de embedding como JSON stringificado
+  embedding_vector: vector("embedding_vector", { dimensions: EMBEDDING_DIMENSIONS }), // Mesmo embedding em pgvector, usado na busca por similaridade
   embedding_id: integer("embedding_id").references(() => knowledgeBase.id),
+  embedding_model: text("embedding_model"), // Modelo que gerou o embedding; a busca só compara vetores do modelo ativo
+  embedding_dim: integer("embedding_dim"),
   metadata: json("metadata"),
   language: text("language", { enum: ["pt", "en"] }).default("pt").notNull(),
+  // Metadados do documento aplicados ao chunk; device_models fica restrito aos modelos citados no trecho
+  brand: text("brand"),
+  device_models: text("device_models").array().notNull().default(sql`'{}'::text[]`),
+  board_revision: text("board_revision"),
+  // Gerada pelo banco com o dicionário do idioma do chunk (stemming e stopwords de pt/en)
+  search_vector: tsvector("search_vector").generatedAlwaysAs(
+    sql`CASE WHEN language = 'en' THEN to_tsvector('english'::regconfig, content) ELSE to_tsvector('portuguese'::regconfig, content) END`
+  ),
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -527,7 +684,9 @@ export const insertKnowledgeBaseSchema = createInsertSchema(knowledgeBase).pick(
   is_verified: true,
   relevance_score: true,
   chunk_index: true,
-  document_title: true
+  document_title: true,
+  embedding_model: true,
+  embedding_dim: true
 });
 
 export const insertDocumentChunkSchema = createInsertSchema(documentChunks).pick({
@@ -538,6 +697,8 @@ export const insertDocumentChunkSchema = createInsertSchema(documentChunks).pick
   source_type: true,
   embedding: true,
   embedding_id: true,
+  embedding_model: true,
+  embedding_dim: true,
   metadata: true,
   language: true,
 });
@@ -563,6 +724,7 @@ export const llmUsageLogs = pgTable("llm_usage_logs", {
   token_count: integer("token_count").default(0),
   success: boolean("success").default(true).notNull(),
   error_message: text("error_message"),
+  failover_to: text("failover_to"), // "provedor/modelo" que assumiu após esta falha
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -575,6 +737,7 @@ export const insertLlmUsageLogSchema = createInsertSchema(llmUsageLogs).pick({
   token_count: true,
   success: true,
   error_message: true,
+  failover_to: true,
 });
 
 export type LlmUsageLog = typeof llmUsageLogs.$inferSelect;
@@ -622,3 +785,233 @@ export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
 
 export type TechnicalTopic = typeof technicalTopics.$inferSelect;
 export type InsertTechnicalTopic = z.infer<typeof insertTechnicalTopicSchema>;
+
+// Avaliação do RAG: conjuntos de perguntas com resposta e documentos esperados
+export const ragEvalSets = pgTable("rag_eval_sets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  created_by: integer("created_by").notNull().references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertRagEvalSetSchema = createInsertSchema(ragEvalSets).pick({
+  name: true,
+  description: true,
+  created_by: true,
+});
+
+export const ragEvalQuestions = pgTable("rag_eval_questions", {
+  id: serial("id").primaryKey(),
+  set_id: integer("set_id").notNull().references(() => ragEvalSets.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  expected_answer: text("expected_answer").notNull(),
+  // Documentos de treinamento que a busca deveria recuperar para esta pergunta
+  expected_document_ids: integer("expected_document_ids").array().notNull().default(sql`'{}'::integer[]`),
+  language: text("language", { enum: ["pt", "en"] }).notNull().default("pt"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRagEvalQuestionSchema = createInsertSchema(ragEvalQuestions).pick({
+  set_id: true,
+  question: true,
+  expected_answer: true,
+  expected_document_ids: true,
+  language: true,
+});
+
+// Execuções de um conjunto, com as métricas agregadas e a configuração usada
+export const ragEvalRuns = pgTable("rag_eval_runs", {
+  id: serial("id").primaryKey(),
+  set_id: integer("set_id").notNull().references(() => ragEvalSets.id, { onDelete: "cascade" }),
+  status: text("status", { enum: ["running", "completed", "error"] }).notNull().default("running"),
+  label: text("label"), // Descrição livre da mudança avaliada (ex.: "chunks de 800 tokens")
+  config: json("config"), // Provedor, modelo, reranker etc. no momento da execução
+  question_count: integer("question_count").notNull().default(0),
+  hit_rate: real("hit_rate"),
+  mrr: real("mrr"),
+  answer_score: real("answer_score"),
+  error_message: text("error_message"),
+  created_by: integer("created_by").references(() => users.id),
+  started_at: timestamp("started_at").defaultNow().notNull(),
+  completed_at: timestamp("completed_at"),
+});
+
+export const insertRagEvalRunSchema = createInsertSchema(ragEvalRuns).pick({
+  set_id: true,
+  label: true,
+  config: true,
+  question_count: true,
+  created_by: true,
+});
+
+export const ragEvalResults = pgTable("rag_eval_results", {
+  id: serial("id").primaryKey(),
+  run_id: integer("run_id").notNull().references(() => ragEvalRuns.id, { onDelete: "cascade" }),
+  question_id: integer("question_id").notNull().references(() => ragEvalQuestions.id, { onDelete: "cascade" }),
+  answer: text("answer"),
+  retrieved_document_ids: integer("retrieved_document_ids").array().notNull().default(sql`'{}'::integer[]`),
+  hit: boolean("hit").notNull().default(false),
+  reciprocal_rank: real("reciprocal_rank").notNull().default(0),
+  answer_score: real("answer_score"), // Nota do juiz LLM, de 0 a 1
+  judge_reasoning: text("judge_reasoning"),
+  latency_ms: integer("latency_ms"),
+  error_message: text("error_message"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRagEvalResultSchema = createInsertSchema(ragEvalResults).pick({
+  run_id: true,
+  question_id: true,
+  answer: true,
+  retrieved_document_ids: true,
+  hit: true,
+  reciprocal_rank: true,
+  answer_score: true,
+  judge_reasoning: true,
+  latency_ms: true,
+  error_message: true,
+});
+
+export type RagEvalSet = typeof ragEvalSets.$inferSelect;
+export type InsertRagEvalSet = z.infer<typeof insertRagEvalSetSchema>;
+export type RagEvalQuestion = typeof ragEvalQuestions.$inferSelect;
+export type InsertRagEvalQuestion = z.infer<typeof insertRagEvalQuestionSchema>;
+export type RagEvalRun = typeof ragEvalRuns.$inferSelect;
+export type InsertRagEvalRun = z.infer<typeof insertRagEvalRunSchema>;
+export type RagEvalResult = typeof ragEvalResults.$inferSelect;
+export type InsertRagEvalResult = z.infer<typeof insertRagEvalResultSchema>;
+
+// Rastreamento da recuperação das respostas do bot, consultado apenas por administradores.
+// Fica fora das tabelas de mensagens para não ser enviado aos clientes do chat e do widget.
+export const retrievalTraces = pgTable("retrieval_traces", {
+  id: serial("id").primaryKey(),
+  chat_message_id: integer("chat_message_id").references(() => chatMessages.id, { onDelete: "cascade" }),
+  widget_message_id: integer("widget_message_id").references(() => widgetChatMessages.id, { onDelete: "cascade" }),
+  trace: json("trace").notNull(), // RetrievalTrace
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertRetrievalTraceSchema = createInsertSchema(retrievalTraces).pick({
+  chat_message_id: true,
+  widget_message_id: true,
+  trace: true,
+});
+
+export type RetrievalTraceRecord = typeof retrievalTraces.$inferSelect;
+export type InsertRetrievalTraceRecord = z.infer<typeof insertRetrievalTraceSchema>;
+
+// Re-geração dos embeddings dos chunks quando o modelo de embedding ativo muda.
+// A execução avança por id de chunk (last_chunk_id) e pode ser retomada após reinício do servidor.
+export const embeddingJobs = pgTable("embedding_jobs", {
+  id: serial("id").primaryKey(),
+  status: text("status", { enum: ["running", "completed", "error", "cancelled"] }).notNull().default("running"),
+  target_model: text("target_model").notNull(),
+  total: integer("total").notNull().default(0),
+  processed: integer("processed").notNull().default(0),
+  reused: integer("reused").notNull().default(0), // Embeddings copiados de chunks idênticos já migrados
+  failed: integer("failed").notNull().default(0),
+  last_chunk_id: integer("last_chunk_id").notNull().default(0),
+  error_message: text("error_message"),
+  created_by: integer("created_by").references(() => users.id),
+  started_at: timestamp("started_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+  completed_at: timestamp("completed_at"),
+});
+
+export const insertEmbeddingJobSchema = createInsertSchema(embeddingJobs).pick({
+  target_model: true,
+  total: true,
+  created_by: true,
+});
+
+export type EmbeddingJob = typeof embeddingJobs.$inferSelect;
+export type InsertEmbeddingJob = z.infer<typeof insertEmbeddingJobSchema>;
+
+// Cache semântico de respostas: perguntas quase idênticas no mesmo escopo reutilizam a resposta gravada.
+// scope_key combina widget, categorias, idioma e modelo LLM; document_ids são os documentos usados
+// na resposta e servem para invalidar a entrada quando algum deles muda.
+export const responseCache = pgTable("response_cache", {
+  id: serial("id").primaryKey(),
+  scope_key: text("scope_key").notNull(),
+  query: text("query").notNull(),
+  embedding_vector: vector("embedding_vector", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  embedding_model: text("embedding_model").notNull(),
+  response: text("response").notNull(),
+  sources: json("sources").notNull().default([]), // MessageSource[]
+  document_ids: integer("document_ids").array().notNull().default(sql`'{}'::integer[]`),
+  hit_count: integer("hit_count").notNull().default(0),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  last_hit_at: timestamp("last_hit_at"),
+  expires_at: timestamp("expires_at").notNull(),
+});
+
+export const insertResponseCacheSchema = createInsertSchema(responseCache).pick({
+  scope_key: true,
+  query: true,
+  embedding_vector: true,
+  embedding_model: true,
+  response: true,
+  sources: true,
+  document_ids: true,
+  expires_at: true,
+});
+
+export type ResponseCacheEntry = typeof responseCache.$inferSelect;
+export type InsertResponseCacheEntry = z.infer<typeof insertResponseCacheSchema>;
+
+// Consultas ao cache por dia (acertos e falhas), para a taxa de acerto no painel
+export const responseCacheStats = pgTable("response_cache_stats", {
+  day: text("day").primaryKey(), // AAAA-MM-DD
+  hits: integer("hits").notNull().default(0),
+  misses: integer("misses").notNull().default(0),
+});
+
+export type ResponseCacheStats = typeof responseCacheStats.$inferSelect;
+
+// Fila persistente do processamento de documentos (extração de conteúdo e indexação).
+// Um worker reserva o job por um período (lease_expires_at) e renova a reserva enquanto trabalha;
+// se o servidor cair, a reserva expira e o job volta a ser reservado por outro worker.
+// Falhas são repetidas com espera crescente (run_at) até max_attempts; depois o job fica "dead".
+export const DOCUMENT_JOB_TYPES = ["extract", "index"] as const;
+
+export const documentJobs = pgTable("document_jobs", {
+  id: serial("id").primaryKey(),
+  document_id: integer("document_id").notNull().references(() => trainingDocuments.id, { onDelete: "cascade" }),
+  type: text("type", { enum: DOCUMENT_JOB_TYPES }).notNull(),
+  status: text("status", { enum: ["pending", "running", "completed", "dead"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  max_attempts: integer("max_attempts").notNull().default(5),
+  run_at: timestamp("run_at").defaultNow().notNull(), // Próxima tentativa (espera entre falhas)
+  locked_by: text("locked_by"), // Worker que reservou o job
+  lease_expires_at: timestamp("lease_expires_at"),
+  last_error: text("last_error"),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+  completed_at: timestamp("completed_at"),
+});
+
+export const insertDocumentJobSchema = createInsertSchema(documentJobs).pick({
+  document_id: true,
+  type: true,
+  max_attempts: true,
+  run_at: true,
+  created_by: true,
+});
+
+export type DocumentJob = typeof documentJobs.$inferSelect;
+export type InsertDocumentJob = z.infer<typeof insertDocumentJobSchema>;
+export type DocumentJobType = typeof DOCUMENT_JOB_TYPES[number];
+
+// Progresso da ingestão de um documento, enviado por SSE (GET /api/training/documents/:id/progress)
+export interface IngestionProgressEvent {
+  document_id: number;
+  phase: IngestionPhase;
+  progress: number; // 0 a 100, progresso total do documento
+  processed?: number; // Fase embedding: chunks processados / total
+  total?: number;
+  message?: string | null; // Erro ou aviso (ex.: nova tentativa agendada)
+  updated_at: string;
+}